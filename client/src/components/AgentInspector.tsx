@@ -4,8 +4,17 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { useAgentStatus, useExecuteAgent } from '@/hooks/useAgents';
+import {
+  useAgentStatus,
+  useExecuteAgent,
+  useAgentMessages,
+  useUpdateAgentMessage,
+  useDeleteAgentMessage,
+  useTruncateAgentMessages,
+  useAgentLlmCalls,
+} from '@/hooks/useAgents';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { useAgentStream } from '@/hooks/useAgentStream';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -23,10 +32,15 @@ import {
   FileText,
   Search as SearchIcon,
   Send,
-  Loader2
+  Loader2,
+  Layers,
+  Pencil,
+  Trash2,
+  Scissors,
+  ScrollText
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { RealtimeUpdate } from '@/lib/types';
+import type { ContextCompactionReport, RealtimeUpdate } from '@/lib/types';
 
 interface AgentInspectorProps {
   agentId: string | null;
@@ -37,15 +51,26 @@ export default function AgentInspector({ agentId }: AgentInspectorProps) {
   const [executionInput, setExecutionInput] = useState('');
   const [executionAction, setExecutionAction] = useState('');
   const [executionContext, setExecutionContext] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  const [keepLast, setKeepLast] = useState('');
 
   const { data: agentStatus, refetch } = useAgentStatus(agentId || '');
   const executeAgentMutation = useExecuteAgent();
+  const liveOutput = useAgentStream({ agentId });
+  const { data: messages = [], refetch: refetchMessages } = useAgentMessages(agentId || '');
+  const { data: llmCalls = [], refetch: refetchLlmCalls } = useAgentLlmCalls(agentId || '');
+  const updateMessageMutation = useUpdateAgentMessage();
+  const deleteMessageMutation = useDeleteAgentMessage();
+  const truncateMessagesMutation = useTruncateAgentMessages();
 
   // Real-time updates
   useWebSocket({
     onMessage: (update: RealtimeUpdate) => {
       if (update.type === 'agent_update' && update.data.agentId === agentId) {
         refetch();
+        refetchMessages();
+        refetchLlmCalls();
       }
     },
   });
@@ -70,6 +95,29 @@ export default function AgentInspector({ agentId }: AgentInspectorProps) {
     }
   };
 
+  const handleSaveMessage = async () => {
+    if (!agentId || !editingMessageId || !editingContent.trim()) return;
+
+    try {
+      await updateMessageMutation.mutateAsync({ agentId, messageId: editingMessageId, content: editingContent });
+      setEditingMessageId(null);
+      setEditingContent('');
+    } catch (error) {
+      console.error('Failed to update message:', error);
+    }
+  };
+
+  const handleTruncate = async (params: { keepLast?: number; throughSequence?: number }) => {
+    if (!agentId) return;
+
+    try {
+      await truncateMessagesMutation.mutateAsync({ agentId, ...params });
+      setKeepLast('');
+    } catch (error) {
+      console.error('Failed to truncate conversation:', error);
+    }
+  };
+
   if (!agentId) {
     return (
       <div className="p-6">
@@ -99,6 +147,9 @@ export default function AgentInspector({ agentId }: AgentInspectorProps) {
 
   const agent = agentStatus.agent;
   const metrics = agentStatus.metrics;
+  const contextReports: Array<{ execution: any; report: ContextCompactionReport }> = ((agentStatus as any).recentActivity || [])
+    .filter((execution: any) => execution.metadata?.contextBudget)
+    .map((execution: any) => ({ execution, report: execution.metadata.contextBudget }));
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -178,7 +229,7 @@ export default function AgentInspector({ agentId }: AgentInspectorProps) {
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-5 bg-slate-700">
+            <TabsList className="grid w-full grid-cols-8 bg-slate-700">
               <TabsTrigger value="overview" className="data-[state=active]:bg-slate-600">
                 Overview
               </TabsTrigger>
@@ -188,6 +239,15 @@ export default function AgentInspector({ agentId }: AgentInspectorProps) {
               <TabsTrigger value="executions" className="data-[state=active]:bg-slate-600">
                 Executions
               </TabsTrigger>
+              <TabsTrigger value="conversation" className="data-[state=active]:bg-slate-600">
+                Conversation
+              </TabsTrigger>
+              <TabsTrigger value="context" className="data-[state=active]:bg-slate-600">
+                Context
+              </TabsTrigger>
+              <TabsTrigger value="trace" className="data-[state=active]:bg-slate-600">
+                Trace
+              </TabsTrigger>
               <TabsTrigger value="collaborations" className="data-[state=active]:bg-slate-600">
                 Collaborations
               </TabsTrigger>
@@ -197,6 +257,34 @@ export default function AgentInspector({ agentId }: AgentInspectorProps) {
             </TabsList>
 
             <TabsContent value="overview" className="space-y-6 mt-6">
+              {/* Live Output */}
+              {liveOutput.output && (
+                <div className="space-y-4">
+                  <h4 className="text-white font-medium flex items-center justify-between">
+                    <span className="flex items-center">
+                      <FileText className="w-4 h-4 mr-2" />
+                      {liveOutput.isStreaming ? 'Live Output' : 'Latest Output'}
+                    </span>
+                    {liveOutput.provider && (
+                      <Badge variant="outline" className="border-slate-600 text-slate-300 capitalize">
+                        {liveOutput.provider}
+                      </Badge>
+                    )}
+                  </h4>
+                  <div className="bg-slate-900 rounded-lg p-4 border border-slate-700">
+                    <pre className="text-slate-300 text-sm whitespace-pre-wrap max-h-64 overflow-y-auto">
+                      {liveOutput.output}
+                      {liveOutput.isStreaming && (
+                        <span className="inline-block w-2 h-4 ml-1 bg-blue-400 animate-pulse align-middle" />
+                      )}
+                    </pre>
+                    {liveOutput.error && (
+                      <p className="text-red-400 text-sm mt-2">{liveOutput.error}</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Agent Profile */}
                 <div className="space-y-4">
@@ -322,6 +410,286 @@ export default function AgentInspector({ agentId }: AgentInspectorProps) {
               </div>
             </TabsContent>
 
+            <TabsContent value="conversation" className="space-y-6 mt-6">
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-white font-medium flex items-center">
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    Conversation History
+                  </h4>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={keepLast}
+                      onChange={(e) => setKeepLast(e.target.value)}
+                      placeholder="Keep last"
+                      className="w-28 bg-slate-700 border-slate-600 text-white"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={keepLast === '' || truncateMessagesMutation.isPending}
+                      onClick={() => handleTruncate({ keepLast: parseInt(keepLast, 10) })}
+                    >
+                      Trim
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={messages.length === 0 || truncateMessagesMutation.isPending}
+                      onClick={() => handleTruncate({})}
+                    >
+                      Clear
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-slate-400 text-sm">
+                  Replayed as chat history on the agent's next action. Edit or remove turns to change what it remembers.
+                </p>
+                <ScrollArea className="h-96">
+                  {messages.length > 0 ? (
+                    <div className="space-y-3">
+                      {messages.map((message) => (
+                        <div
+                          key={message.id}
+                          className={cn(
+                            'rounded-lg p-4 border',
+                            message.role === 'user'
+                              ? 'bg-slate-900 border-slate-700'
+                              : 'bg-slate-800 border-slate-600'
+                          )}
+                        >
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="flex items-center space-x-2">
+                              <Badge variant={message.role === 'user' ? 'outline' : 'secondary'}>
+                                {message.role}
+                              </Badge>
+                              <span className="text-slate-400 text-xs">#{message.sequence}</span>
+                              {message.editedAt && (
+                                <span className="text-yellow-400 text-xs">edited</span>
+                              )}
+                            </div>
+                            <div className="flex items-center space-x-1">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Edit"
+                                onClick={() => {
+                                  setEditingMessageId(message.id);
+                                  setEditingContent(message.content);
+                                }}
+                              >
+                                <Pencil className="w-3 h-3" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Remove every later message"
+                                disabled={truncateMessagesMutation.isPending}
+                                onClick={() => handleTruncate({ throughSequence: message.sequence })}
+                              >
+                                <Scissors className="w-3 h-3" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Delete"
+                                disabled={deleteMessageMutation.isPending}
+                                onClick={() => deleteMessageMutation.mutate({ agentId, messageId: message.id })}
+                              >
+                                <Trash2 className="w-3 h-3 text-red-400" />
+                              </Button>
+                            </div>
+                          </div>
+                          {editingMessageId === message.id ? (
+                            <div className="space-y-2">
+                              <Textarea
+                                value={editingContent}
+                                onChange={(e) => setEditingContent(e.target.value)}
+                                rows={4}
+                                className="bg-slate-700 border-slate-600 text-white"
+                              />
+                              <div className="flex justify-end space-x-2">
+                                <Button size="sm" variant="ghost" onClick={() => setEditingMessageId(null)}>
+                                  Cancel
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={handleSaveMessage}
+                                  disabled={updateMessageMutation.isPending || !editingContent.trim()}
+                                >
+                                  Save
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
+                            <pre className="text-slate-300 text-xs whitespace-pre-wrap break-words">
+                              {message.content}
+                            </pre>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center text-slate-400 py-8">
+                      <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                      <p>No conversation yet</p>
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="context" className="space-y-6 mt-6">
+              <div className="space-y-4">
+                <h4 className="text-white font-medium flex items-center">
+                  <Layers className="w-4 h-4 mr-2" />
+                  Context Budget
+                </h4>
+                <ScrollArea className="h-64">
+                  {contextReports.length > 0 ? (
+                    <div className="space-y-3">
+                      {contextReports.map(({ execution, report }) => (
+                        <div key={execution.id} className="bg-slate-900 rounded-lg p-4 border border-slate-700">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="text-white font-medium">{execution.action}</span>
+                            <div className="flex items-center space-x-2">
+                              <Badge variant={report.compacted ? 'secondary' : 'outline'}>
+                                {report.compacted ? 'compacted' : 'fits'}
+                              </Badge>
+                              <span className="text-slate-400 text-xs">
+                                {report.finalTokens.toLocaleString()} / {report.budgetTokens.toLocaleString()} tokens
+                              </span>
+                            </div>
+                          </div>
+                          <p className="text-slate-400 text-xs mb-2">
+                            {report.reservedOutputTokens.toLocaleString()} tokens reserved for output
+                            {report.compacted && ` · ${report.originalTokens.toLocaleString()} tokens before compaction`}
+                          </p>
+                          <div className="space-y-1">
+                            {report.decisions.map((decision) => (
+                              <div key={decision.section} className="flex items-center justify-between text-sm">
+                                <span className="text-slate-300">{decision.section}</span>
+                                <span className={cn(
+                                  'text-xs',
+                                  decision.action === 'kept' ? 'text-slate-400' : 'text-yellow-400'
+                                )}>
+                                  {decision.action}
+                                  {decision.itemsSummarized ? ` (${decision.itemsSummarized} entries)` : ''}
+                                  {decision.itemsDropped ? ` (${decision.itemsDropped} entries dropped)` : ''}
+                                  {' · '}
+                                  {decision.action === 'kept'
+                                    ? `${decision.finalTokens} tokens`
+                                    : `${decision.originalTokens} → ${decision.finalTokens} tokens`}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center text-slate-400 py-8">
+                      <Layers className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                      <p>No context budget recorded yet</p>
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="trace" className="space-y-6 mt-6">
+              <div className="space-y-4">
+                <h4 className="text-white font-medium flex items-center">
+                  <ScrollText className="w-4 h-4 mr-2" />
+                  LLM Call Trace
+                </h4>
+                <ScrollArea className="h-96">
+                  {llmCalls.length > 0 ? (
+                    <div className="space-y-3">
+                      {llmCalls.map((call) => (
+                        <div key={call.id} className="bg-slate-900 rounded-lg p-4 border border-slate-700">
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="flex items-center space-x-2">
+                              <Badge variant="outline">{call.provider}</Badge>
+                              <span className="text-white font-medium text-sm">{call.model || 'default model'}</span>
+                              <span className="text-slate-500 text-xs">{call.operation}</span>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Badge variant={call.status === 'success' ? 'default' : call.status === 'cancelled' ? 'secondary' : 'destructive'}>
+                                {call.status}
+                              </Badge>
+                              <span className="text-slate-400 text-xs">{call.latencyMs}ms</span>
+                            </div>
+                          </div>
+                          <p className="text-slate-400 text-xs mb-2">
+                            {new Date(call.createdAt).toLocaleString()}
+                            {' · '}{call.tokensInput.toLocaleString()} in / {call.tokensOutput.toLocaleString()} out
+                            {' · '}${parseFloat(call.cost).toFixed(4)}
+                            {call.redactions > 0 && ` · ${call.redactions} redacted`}
+                          </p>
+                          <details className="mt-2">
+                            <summary className="text-slate-400 text-sm cursor-pointer">
+                              Messages ({call.messages.length})
+                            </summary>
+                            <div className="space-y-2 mt-2">
+                              {call.messages.map((message, index) => (
+                                <div key={index} className="p-2 bg-slate-800 rounded">
+                                  <span className="text-xs text-slate-500 uppercase">{message.role}</span>
+                                  <pre className="text-slate-300 text-xs mt-1 whitespace-pre-wrap break-words">
+                                    {typeof message.content === 'string' ? message.content : JSON.stringify(message, null, 2)}
+                                  </pre>
+                                </div>
+                              ))}
+                            </div>
+                          </details>
+                          {call.response && (
+                            <details className="mt-2">
+                              <summary className="text-slate-400 text-sm cursor-pointer">
+                                Response
+                              </summary>
+                              <pre className="text-slate-300 text-xs mt-2 p-2 bg-slate-800 rounded whitespace-pre-wrap break-words">
+                                {call.response}
+                              </pre>
+                            </details>
+                          )}
+                          {call.toolCalls && call.toolCalls.length > 0 && (
+                            <details className="mt-2">
+                              <summary className="text-slate-400 text-sm cursor-pointer">
+                                Tool calls ({call.toolCalls.length})
+                              </summary>
+                              <pre className="text-slate-300 text-xs mt-2 p-2 bg-slate-800 rounded overflow-x-auto">
+                                {JSON.stringify(call.toolCalls, null, 2)}
+                              </pre>
+                            </details>
+                          )}
+                          {call.parameters && (
+                            <details className="mt-2">
+                              <summary className="text-slate-400 text-sm cursor-pointer">
+                                Parameters
+                              </summary>
+                              <pre className="text-slate-300 text-xs mt-2 p-2 bg-slate-800 rounded overflow-x-auto">
+                                {JSON.stringify(call.parameters, null, 2)}
+                              </pre>
+                            </details>
+                          )}
+                          {call.error && (
+                            <p className="text-red-400 text-sm mt-2">{call.error}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center text-slate-400 py-8">
+                      <ScrollText className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                      <p>No LLM calls traced yet</p>
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            </TabsContent>
+
             <TabsContent value="collaborations" className="space-y-6 mt-6">
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div className="space-y-4">
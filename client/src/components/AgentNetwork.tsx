@@ -29,9 +29,11 @@ import {
   ContextMenuTrigger,
   ContextMenuSeparator,
 } from '@/components/ui/context-menu';
-import { useTasks, useTaskStatus, useExecuteTask } from '@/hooks/useTasks';
+import { useTasks, useTaskStatus, useExecuteTask, useResumeTask } from '@/hooks/useTasks';
 import { useAgents } from '@/hooks/useAgents';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import { ReactFlowDAG } from '@/components/ReactFlowDAG';
+import { ApprovalPanel } from '@/components/ApprovalPanel';
 import { 
   Play, 
   Pause, 
@@ -48,7 +50,8 @@ import {
   Edit,
   Bot,
   Cpu,
-  Activity
+  Activity,
+  GitBranch
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { RealtimeUpdate } from '@/lib/types';
@@ -168,11 +171,11 @@ const AgentNode = ({ data, selected }: NodeProps) => {
         <ContextMenuSeparator />
         <ContextMenuItem onClick={() => data.onApprove?.(data.id)}>
           <CheckCircle className="mr-2 h-4 w-4" />
-          Approve Action
+          Approve Team & Plan
         </ContextMenuItem>
         <ContextMenuItem onClick={() => data.onReject?.(data.id)}>
           <XCircle className="mr-2 h-4 w-4" />
-          Reject Action
+          Reject Agent
         </ContextMenuItem>
         <ContextMenuSeparator />
         <ContextMenuItem onClick={() => data.onModify?.(data.id)}>
@@ -196,11 +199,15 @@ export default function AgentNetwork({ selectedTaskId, onAgentSelect, onTaskSele
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
   const [selectedAgent, setSelectedAgent] = useState<string | null>(null);
+  const [view, setView] = useState<'agents' | 'steps'>('agents');
 
   const { data: tasks } = useTasks();
   const { data: taskStatus } = useTaskStatus(selectedTaskId || '');
   const { data: agents } = useAgents(selectedTaskId || '');
   const executeTaskMutation = useExecuteTask();
+  const resumeTaskMutation = useResumeTask();
+  const selectedTask = (tasks as Array<{ id: string; status: string }> | undefined)?.find(task => task.id === selectedTaskId);
+  const canResume = selectedTask?.status === 'paused' || selectedTask?.status === 'failed';
 
   // WebSocket for real-time updates
   useWebSocket({
@@ -337,7 +344,7 @@ export default function AgentNetwork({ selectedTaskId, onAgentSelect, onTaskSele
       const response = await fetch(`/api/agents/${agentId}/approve`, {
         method: 'POST',
       });
-      if (!response.ok) throw new Error('Failed to approve agent');
+      if (!response.ok) throw new Error((await response.json()).message || 'Failed to approve agent');
     } catch (error) {
       console.error('Error approving agent:', error);
     }
@@ -348,7 +355,7 @@ export default function AgentNetwork({ selectedTaskId, onAgentSelect, onTaskSele
       const response = await fetch(`/api/agents/${agentId}/reject`, {
         method: 'POST',
       });
-      if (!response.ok) throw new Error('Failed to reject agent');
+      if (!response.ok) throw new Error((await response.json()).message || 'Failed to reject agent');
     } catch (error) {
       console.error('Error rejecting agent:', error);
     }
@@ -392,6 +399,26 @@ export default function AgentNetwork({ selectedTaskId, onAgentSelect, onTaskSele
           </CardTitle>
           
           <div className="flex items-center gap-2">
+            {/* View Toggle */}
+            <div className="flex rounded-md border">
+              <Button
+                size="sm"
+                variant={view === 'agents' ? 'secondary' : 'ghost'}
+                onClick={() => setView('agents')}
+              >
+                <Users className="h-4 w-4 mr-1" />
+                Agents
+              </Button>
+              <Button
+                size="sm"
+                variant={view === 'steps' ? 'secondary' : 'ghost'}
+                onClick={() => setView('steps')}
+              >
+                <GitBranch className="h-4 w-4 mr-1" />
+                Steps
+              </Button>
+            </div>
+
             {/* Task Selector */}
             <Select value={selectedTaskId || ''} onValueChange={onTaskSelect}>
               <SelectTrigger className="w-48">
@@ -429,6 +456,22 @@ export default function AgentNetwork({ selectedTaskId, onAgentSelect, onTaskSele
                   </TooltipContent>
                 </Tooltip>
 
+                {canResume && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => resumeTaskMutation.mutate(selectedTaskId)}
+                        disabled={resumeTaskMutation.isPending}
+                      >
+                        <StepForward className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Resume from Checkpoint</TooltipContent>
+                  </Tooltip>
+                )}
+
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button size="sm" variant="outline">
@@ -459,46 +502,56 @@ export default function AgentNetwork({ selectedTaskId, onAgentSelect, onTaskSele
             </div>
           </div>
         )}
+
+        {selectedTaskId && (
+          <div className="mt-3">
+            <ApprovalPanel taskId={selectedTaskId} />
+          </div>
+        )}
       </CardHeader>
 
       <CardContent className="flex-1 p-0">
-        <div className="h-full w-full">
-          <ReactFlow
-            nodes={nodes}
-            edges={edges}
-            onNodesChange={onNodesChange}
-            onEdgesChange={onEdgesChange}
-            onConnect={onConnect}
-            onNodeClick={onNodeClick}
-            nodeTypes={nodeTypes}
-            fitView
-            attributionPosition="bottom-left"
-          >
-            <Background 
-              variant={BackgroundVariant.Dots} 
-              gap={12} 
-              size={1} 
-              className="bg-background"
-            />
-            <Controls 
-              className="bg-background border-border"
-              showInteractive={false}
-            />
-            <MiniMap 
-              className="bg-background border-border"
-              nodeColor={(node) => {
-                switch (node.data?.status) {
-                  case 'executing': return '#3b82f6';
-                  case 'completed': return '#10b981';
-                  case 'failed': return '#ef4444';
-                  case 'paused': return '#f97316';
-                  default: return '#6b7280';
-                }
-              }}
-              maskColor="rgb(0, 0, 0, 0.1)"
-            />
-          </ReactFlow>
-        </div>
+        {view === 'steps' ? (
+          <ReactFlowDAG taskId={selectedTaskId} />
+        ) : (
+          <div className="h-full w-full">
+            <ReactFlow
+              nodes={nodes}
+              edges={edges}
+              onNodesChange={onNodesChange}
+              onEdgesChange={onEdgesChange}
+              onConnect={onConnect}
+              onNodeClick={onNodeClick}
+              nodeTypes={nodeTypes}
+              fitView
+              attributionPosition="bottom-left"
+            >
+              <Background 
+                variant={BackgroundVariant.Dots} 
+                gap={12} 
+                size={1} 
+                className="bg-background"
+              />
+              <Controls 
+                className="bg-background border-border"
+                showInteractive={false}
+              />
+              <MiniMap 
+                className="bg-background border-border"
+                nodeColor={(node) => {
+                  switch (node.data?.status) {
+                    case 'executing': return '#3b82f6';
+                    case 'completed': return '#10b981';
+                    case 'failed': return '#ef4444';
+                    case 'paused': return '#f97316';
+                    default: return '#6b7280';
+                  }
+                }}
+                maskColor="rgb(0, 0, 0, 0.1)"
+              />
+            </ReactFlow>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  useTaskApprovals,
+  useApprovalPolicy,
+  useUpdateApprovalPolicy,
+  useDecideApproval,
+  usePlanSteps,
+} from '@/hooks/useTasks';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { CheckCircle, XCircle, Edit, ShieldCheck, ChevronDown, ChevronRight } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ApprovalPolicy, PlanStep, RealtimeUpdate, TaskApproval } from '@/lib/types';
+
+interface ApprovalPanelProps {
+  taskId: string;
+}
+
+const GATE_LABELS: Record<TaskApproval['gate'], string> = {
+  plan: 'Plan review',
+  step: 'Step review',
+  cost: 'Cost review',
+};
+
+// Review of whatever the task's run is waiting on, plus the task's approval policy
+export function ApprovalPanel({ taskId }: ApprovalPanelProps) {
+  const queryClient = useQueryClient();
+  const { data: approvals = [] } = useTaskApprovals(taskId);
+  const { data: policy } = useApprovalPolicy(taskId);
+  const { data: planSteps } = usePlanSteps(taskId);
+  const updatePolicy = useUpdateApprovalPolicy();
+  const decide = useDecideApproval();
+  const [showPolicy, setShowPolicy] = useState(false);
+  const [note, setNote] = useState('');
+  const [editedSteps, setEditedSteps] = useState<PlanStep[]>([]);
+
+  // Approvals come newest first; the oldest pending one is the first the run asked for
+  const pending = approvals.filter(approval => approval.status === 'pending');
+  const current = pending[pending.length - 1];
+
+  useEffect(() => {
+    setNote('');
+    setEditedSteps(current?.proposal.steps || []);
+  }, [current?.id]);
+
+  useWebSocket({
+    onMessage: (update: RealtimeUpdate) => {
+      if (update.type === 'approval_update' && update.data.taskId === taskId) {
+        queryClient.invalidateQueries({ queryKey: ['/api/tasks', taskId, 'approvals'] });
+      }
+    },
+  });
+
+  const savePolicy = (changes: Partial<ApprovalPolicy>) => {
+    if (!policy) return;
+    updatePolicy.mutate({ taskId, policy: { ...policy, ...changes } });
+  };
+
+  const stepsEdited = current?.gate === 'plan' && editedSteps.some((step, index) =>
+    step.description !== current.proposal.steps?.[index]?.description
+  );
+  const canModify = current?.gate === 'plan' ? stepsEdited : !!note.trim();
+
+  const submit = async (decision: 'approve' | 'reject' | 'modify') => {
+    if (!current) return;
+    if (decision === 'reject' && !note.trim()) {
+      toast.error('Give a reason for the rejection');
+      return;
+    }
+
+    const edits = current.gate === 'plan'
+      ? { steps: editedSteps }
+      : { instructions: note.trim() };
+
+    try {
+      await decide.mutateAsync({
+        taskId,
+        approvalId: current.id,
+        decision,
+        reason: note.trim() || undefined,
+        edits: decision === 'modify' ? edits : undefined,
+      });
+      toast.success(decision === 'reject' ? 'Rejected' : 'Approved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit decision');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 font-medium">
+          <ShieldCheck className="h-4 w-4" />
+          Approvals
+          {pending.length > 0 && <Badge variant="destructive">{pending.length} waiting</Badge>}
+        </div>
+        <Button size="sm" variant="ghost" onClick={() => setShowPolicy(!showPolicy)}>
+          {showPolicy ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+          Policy
+        </Button>
+      </div>
+
+      {showPolicy && policy && (
+        <div className="space-y-2 border-t pt-2">
+          <label className="flex items-center justify-between">
+            <span>Review team and plan before execution</span>
+            <Switch checked={policy.plan} onCheckedChange={(plan) => savePolicy({ plan })} />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Review steps estimated above ($)</span>
+            <Input
+              key={policy.costThreshold ?? 'off'}
+              type="number"
+              min={0}
+              step="0.01"
+              className="w-24 h-7"
+              defaultValue={policy.costThreshold ?? ''}
+              placeholder="off"
+              onBlur={(event) => savePolicy({
+                costThreshold: event.target.value === '' ? null : Number(event.target.value),
+              })}
+            />
+          </label>
+          {(planSteps?.steps.length || 0) > 0 && (
+            <div className="space-y-1">
+              <span className="text-muted-foreground">Review before these steps</span>
+              {planSteps!.steps.map(step => (
+                <label key={step.id} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={policy.steps.includes(step.id)}
+                    onCheckedChange={(checked) => savePolicy({
+                      steps: checked
+                        ? [...policy.steps, step.id]
+                        : policy.steps.filter(id => id !== step.id),
+                    })}
+                  />
+                  <span className="font-mono text-xs">{step.id}</span>
+                  <span className="truncate">{step.description}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {current ? (
+        <div className="space-y-2 border-t pt-2">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{GATE_LABELS[current.gate]}</Badge>
+            {current.stepId && <span className="font-mono text-xs">{current.stepId}</span>}
+            {current.proposal.version && <span className="text-muted-foreground">Plan v{current.proposal.version}</span>}
+          </div>
+
+          {current.gate === 'plan' ? (
+            <>
+              <div className="flex flex-wrap gap-1">
+                {current.proposal.agents?.map(agent => (
+                  <Badge key={agent.id} variant="secondary" title={agent.description}>
+                    {agent.name} ({agent.role})
+                  </Badge>
+                ))}
+              </div>
+              <div className="space-y-1 max-h-60 overflow-y-auto">
+                {editedSteps.map((step, index) => (
+                  <div key={step.id} className="flex items-center gap-2">
+                    <span className="font-mono text-xs w-16 shrink-0">{step.id}</span>
+                    <Input
+                      className="h-7"
+                      value={step.description}
+                      onChange={(event) => setEditedSteps(editedSteps.map((candidate, candidateIndex) =>
+                        candidateIndex === index ? { ...candidate, description: event.target.value } : candidate
+                      ))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="space-y-1">
+              <p>{current.proposal.step?.description}</p>
+              <p className="text-muted-foreground">
+                {current.proposal.agent ? `${current.proposal.agent.name} (${current.proposal.agent.role})` : 'No agent'}
+                {' · '}estimated up to ${(current.proposal.estimatedCost || 0).toFixed(4)}
+                {current.proposal.costThreshold !== null && current.proposal.costThreshold !== undefined &&
+                  ` (threshold $${current.proposal.costThreshold.toFixed(2)})`}
+              </p>
+            </div>
+          )}
+
+          <Textarea
+            rows={2}
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder={current.gate === 'plan'
+              ? 'Feedback; required to reject, and the plan is revised with it'
+              : 'Instructions for the step, or the reason for rejecting it'}
+          />
+
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => submit('approve')} disabled={decide.isPending}>
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => submit('modify')} disabled={decide.isPending || !canModify}>
+              <Edit className="h-4 w-4 mr-1" />
+              {current.gate === 'plan' ? 'Approve with edits' : 'Approve with instructions'}
+            </Button>
+            <Button size="sm" variant="destructive" onClick={() => submit('reject')} disabled={decide.isPending}>
+              <XCircle className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-muted-foreground">Nothing is waiting for approval</p>
+      )}
+    </div>
+  );
+}
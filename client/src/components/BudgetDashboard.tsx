@@ -61,6 +61,20 @@ interface CostBreakdown {
   count: number;
 }
 
+interface CacheSavings {
+  totalSaved: number;
+  tokensSaved: number;
+  totalHits: number;
+  cachedResponses: number;
+  cacheEnabled: boolean;
+  budgets: Array<{
+    budgetId: string;
+    budgetName: string;
+    hits: number;
+    costSaved: number;
+  }>;
+}
+
 interface CostTrend {
   date: string;
   cost: number;
@@ -139,6 +153,17 @@ export function BudgetDashboard() {
     refetchInterval: 15000
   });
 
+  // Fetch response cache savings
+  const { data: cacheSavings } = useQuery<CacheSavings>({
+    queryKey: ['cacheSavings'],
+    queryFn: async () => {
+      const response = await fetch('/api/cost-savings');
+      if (!response.ok) throw new Error('Failed to fetch cache savings');
+      return response.json();
+    },
+    refetchInterval: 30000
+  });
+
   // Create budget mutation
   const createBudgetMutation = useMutation({
     mutationFn: async (budget: typeof newBudget) => {
@@ -302,7 +327,7 @@ export function BudgetDashboard() {
       )}
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-4 gap-4">
+      <div className="grid grid-cols-5 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Spent</CardTitle>
@@ -357,6 +382,23 @@ export function BudgetDashboard() {
             </p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Saved by Cache</CardTitle>
+            <TrendingDown className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">
+              {formatCurrency(cacheSavings?.totalSaved || 0)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {cacheSavings?.cacheEnabled === false
+                ? 'Response cache disabled'
+                : `${formatNumber(cacheSavings?.totalHits || 0)} hits, ${formatNumber(cacheSavings?.tokensSaved || 0)} tokens`}
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Main Content */}
@@ -11,15 +11,23 @@ import {
   DropdownMenuSeparator,
 } from '@/components/ui/dropdown-menu';
 import { Checkbox } from '@/components/ui/checkbox';
-import { useTaskStatus } from '@/hooks/useTasks';
-import { FileText, Download, Copy, Eye, Clock, CheckCircle, AlertCircle, FilePdf, FileCode2, FileType, ChevronDown } from 'lucide-react';
+import { useTaskStatus, usePlanVersions, useTaskDeliverable } from '@/hooks/useTasks';
+import { useAgentStream } from '@/hooks/useAgentStream';
+import { FileText, Download, Copy, Eye, Clock, CheckCircle, AlertCircle, FilePdf, FileCode2, FileType, ChevronDown, GitCompare } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import type { PlanStep } from '@/lib/types';
 
 interface OutputCanvasProps {
   taskId: string | null;
 }
 
+// Same "description [role]" form the server diffs steps in
+function describeStep(step: PlanStep | string): string {
+  if (typeof step === 'string') return step;
+  return step.assignedRole ? `${step.description} [${step.assignedRole}]` : step.description;
+}
+
 export default function OutputCanvas({ taskId }: OutputCanvasProps) {
   const [selectedSection, setSelectedSection] = useState('overview');
   const [exportOptions, setExportOptions] = useState({
@@ -28,7 +36,17 @@ export default function OutputCanvas({ taskId }: OutputCanvasProps) {
     includeTimeline: false,
   });
   const [isExporting, setIsExporting] = useState(false);
+  const [selectedPlanVersion, setSelectedPlanVersion] = useState<number | null>(null);
   const { data: taskStatus } = useTaskStatus(taskId || '');
+  const { data: planVersions = [] } = usePlanVersions(taskId || '');
+  // Keyed on completion so the deliverable is fetched once the completion stage has written it
+  const { data: deliverable } = useTaskDeliverable((taskStatus as any)?.task?.status === 'completed' ? taskId || '' : '');
+  const liveOutput = useAgentStream({ taskId });
+  // One panel per step still streaming; between steps the last output stays up
+  const runningStreams = liveOutput.streams.filter(stream => stream.isStreaming && stream.output);
+  const liveStreams = runningStreams.length > 0
+    ? runningStreams
+    : liveOutput.streams.filter(stream => stream.key === liveOutput.key && stream.output);
 
   const handleExport = async (format: 'pdf' | 'html' | 'markdown' | 'json') => {
     if (!taskId) return;
@@ -76,7 +94,7 @@ export default function OutputCanvas({ taskId }: OutputCanvasProps) {
     if (!taskStatus) return;
 
     try {
-      const text = `Task: ${taskStatus.task.title}\n\nDescription: ${taskStatus.task.description}\n\nStatus: ${taskStatus.task.status}\n\nProgress: ${taskStatus.task.progress}%`;
+      const text = deliverable?.content || `Task: ${taskStatus.task.title}\n\nDescription: ${taskStatus.task.description}\n\nStatus: ${taskStatus.task.status}\n\nProgress: ${taskStatus.task.progress}%`;
       await navigator.clipboard.writeText(text);
       toast.success('Task output copied to clipboard');
     } catch (error) {
@@ -113,7 +131,7 @@ export default function OutputCanvas({ taskId }: OutputCanvasProps) {
 
   const task = taskStatus.task;
   const isCompleted = task.status === 'completed';
-  const isInProgress = ['executing', 'planning', 'drafting', 'refinement'].includes(task.status);
+  const isInProgress = ['executing', 'planning', 'drafting', 'awaiting_approval', 'refinement'].includes(task.status);
 
   return (
     <div className="p-6 space-y-6">
@@ -305,12 +323,25 @@ export default function OutputCanvas({ taskId }: OutputCanvasProps) {
                       </div>
                       
                       <div>
-                        <h4 className="text-white font-medium mb-2">Execution Results</h4>
+                        <h4 className="text-white font-medium mb-2">
+                          Execution Results
+                          {deliverable && (
+                            <span className="text-xs text-slate-400 font-normal ml-2">
+                              Deliverable v{deliverable.version} from {deliverable.sourceSteps.length} steps
+                            </span>
+                          )}
+                        </h4>
                         <div className="bg-slate-800 rounded-lg p-4 border border-slate-600">
-                          <p className="text-slate-300">
-                            Task "{task.title}" has been successfully completed through collaborative multi-agent execution. 
-                            The agents worked together following the AutoAgents framework to deliver the requested outcome.
-                          </p>
+                          {deliverable ? (
+                            <pre className="text-sm text-slate-300 whitespace-pre-wrap font-sans max-h-[32rem] overflow-y-auto">
+                              {deliverable.content}
+                            </pre>
+                          ) : (
+                            <p className="text-slate-300">
+                              Task "{task.title}" has been successfully completed through collaborative multi-agent execution. 
+                              The agents worked together following the AutoAgents framework to deliver the requested outcome.
+                            </p>
+                          )}
                           
                           <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
                             <div>
@@ -335,6 +366,34 @@ export default function OutputCanvas({ taskId }: OutputCanvasProps) {
                     </div>
                   </div>
                 </div>
+              ) : isInProgress && liveStreams.length > 0 ? (
+                <div className="space-y-4">
+                  {liveStreams.map(stream => (
+                    <div key={stream.key} className="space-y-3">
+                      <div className="flex items-center justify-between text-xs text-slate-400">
+                        <span>
+                          Live output from{' '}
+                          <span className="text-white">
+                            {task.agents?.find((agent: any) => agent.id === stream.agentId)?.name || 'agent'}
+                          </span>
+                          {stream.provider && <> via <span className="capitalize">{stream.provider}</span></>}
+                        </span>
+                        {stream.isStreaming && (
+                          <span className="flex items-center text-blue-400">
+                            <span className="w-2 h-2 bg-blue-400 rounded-full mr-2 animate-pulse" />
+                            Streaming
+                          </span>
+                        )}
+                      </div>
+                      <pre className="bg-slate-900 rounded-lg p-4 border border-slate-700 text-sm text-slate-300 whitespace-pre-wrap font-mono max-h-[32rem] overflow-y-auto">
+                        {stream.output}
+                      </pre>
+                      {stream.error && (
+                        <p className="text-xs text-red-400">Stream interrupted: {stream.error}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
               ) : isInProgress ? (
                 <div className="flex items-center justify-center h-64 text-slate-400">
                   <div className="text-center">
@@ -357,6 +416,80 @@ export default function OutputCanvas({ taskId }: OutputCanvasProps) {
               )}
             </CardContent>
           </Card>
+
+          {/* Plan versions produced by observer refinement, each diffed against the one before */}
+          {planVersions.length > 0 && (() => {
+            const shown = planVersions.find(({ plan }) => plan.version === selectedPlanVersion)
+              || planVersions[planVersions.length - 1];
+            const review = shown.plan.observerFeedback?.review;
+            const revision = shown.plan.observerFeedback?.revision;
+
+            return (
+              <Card className="bg-slate-800 border-slate-700 mt-6">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-white flex items-center">
+                      <GitCompare className="w-5 h-5 mr-2" />
+                      Plan Versions
+                    </CardTitle>
+                    <div className="flex items-center space-x-1">
+                      {planVersions.map(({ plan }) => (
+                        <Button
+                          key={plan.id}
+                          variant={plan.version === shown.plan.version ? 'default' : 'ghost'}
+                          size="sm"
+                          onClick={() => setSelectedPlanVersion(plan.version)}
+                        >
+                          v{plan.version}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center space-x-2 text-xs text-slate-400">
+                    <Badge variant="outline" className="capitalize">{shown.plan.status}</Badge>
+                    {review && <span>Observer confidence {review.confidence}%</span>}
+                    {shown.diff && (
+                      <span>
+                        {shown.diff.added} added, {shown.diff.removed} removed since v{shown.diff.fromVersion}
+                        {shown.diff.workflowChanged && ' · workflow changed'}
+                      </span>
+                    )}
+                  </div>
+
+                  <ol className="space-y-1 text-sm">
+                    {(shown.diff?.steps || shown.plan.executionSteps.map(step => ({ type: 'unchanged' as const, step: describeStep(step) })))
+                      .map((change, index) => (
+                        <li
+                          key={index}
+                          className={cn(
+                            'px-2 py-1 rounded',
+                            change.type === 'added' && 'bg-green-900/30 text-green-300',
+                            change.type === 'removed' && 'bg-red-900/30 text-red-300 line-through',
+                            change.type === 'unchanged' && 'text-slate-300'
+                          )}
+                        >
+                          {change.type === 'added' ? '+ ' : change.type === 'removed' ? '- ' : '  '}
+                          {change.step}
+                        </li>
+                      ))}
+                  </ol>
+
+                  {revision && revision.changes.length > 0 && (
+                    <div>
+                      <p className="text-slate-400 text-xs mb-1">Revision notes</p>
+                      <ul className="list-disc list-inside text-slate-300 text-xs space-y-1">
+                        {revision.changes.map((change, index) => (
+                          <li key={index}>{change}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })()}
         </div>
 
         {/* Sidebar - Task Details */}
@@ -1,49 +1,53 @@
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo } from 'react';
 import ReactFlow, {
   Node,
   Edge,
-  addEdge,
   Background,
   Controls,
   MiniMap,
   useNodesState,
   useEdgesState,
-  Connection,
-  ConnectionMode,
+  Handle,
+  Position,
+  MarkerType,
   Panel,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { Card, CardContent } from '@components/ui/card';
-import { Badge } from '@components/ui/badge';
-import { Button } from '@components/ui/button';
-import { 
-  User, Bot, CheckCircle, XCircle, Clock, 
-  AlertCircle, Play, Pause, MoreHorizontal 
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CheckCircle, XCircle, Clock, Lock, Play, SkipForward, Ban
 } from 'lucide-react';
+import { usePlanSteps, useAssignStep } from '@/hooks/useTasks';
+import { useAgents } from '@/hooks/useAgents';
+import type { PlanStep, PlanStepState, PlanStepStatus, StepAssignment } from '@/lib/types';
 
-interface AgentNodeData {
-  id: string;
-  name: string;
-  role: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused';
-  confidence?: number;
-  tokensUsed?: number;
-  cost?: number;
-  executionTime?: number;
-  description?: string;
-  toolset?: string[];
-}
+// Select items need a non-empty value; this one stands for "no override"
+const AUTO_ASSIGN = 'auto';
 
-interface TaskNodeData {
-  id: string;
-  title: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
-  progress?: number;
-  description?: string;
+interface StepNodeData {
+  step: PlanStep;
+  status: PlanStepStatus;
+  agentName?: string;
+  assignment?: StepAssignment | null;
+  error?: string | null;
+  agents: Array<{ id: string; name: string }>;
+  override?: string;
+  onAssign?: (stepId: string, agentId: string | null) => void; // unset once the step has started
 }
 
-// Custom Node Components
-const AgentNode = ({ data, selected }: { data: AgentNodeData; selected: boolean }) => {
+const STATUS_STYLES: Record<PlanStepStatus, { label: string; className: string; color: string }> = {
+  blocked: { label: 'Blocked', className: 'border-gray-300 bg-white dark:bg-gray-800', color: '#9ca3af' },
+  ready: { label: 'Ready', className: 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950', color: '#eab308' },
+  running: { label: 'Running', className: 'border-blue-500 bg-blue-50 dark:bg-blue-950', color: '#3b82f6' },
+  completed: { label: 'Completed', className: 'border-green-500 bg-green-50 dark:bg-green-950', color: '#10b981' },
+  failed: { label: 'Failed', className: 'border-red-500 bg-red-50 dark:bg-red-950', color: '#ef4444' },
+  skipped: { label: 'Skipped', className: 'border-gray-400 bg-gray-100 dark:bg-gray-900 opacity-60', color: '#6b7280' },
+  cancelled: { label: 'Cancelled', className: 'border-orange-500 bg-orange-50 dark:bg-orange-950', color: '#f97316' },
+};
+
+const StepNode = ({ data, selected }: { data: StepNodeData; selected: boolean }) => {
   const getStatusIcon = () => {
     switch (data.status) {
       case 'completed':
@@ -51,258 +55,168 @@ const AgentNode = ({ data, selected }: { data: AgentNodeData; selected: boolean
       case 'failed':
         return <XCircle className="w-4 h-4 text-red-500" />;
       case 'running':
-        return <Clock className="w-4 h-4 text-blue-500 animate-pulse" />;
-      case 'paused':
-        return <Pause className="w-4 h-4 text-yellow-500" />;
+        return <Play className="w-4 h-4 text-blue-500 animate-pulse" />;
+      case 'ready':
+        return <Clock className="w-4 h-4 text-yellow-500" />;
+      case 'skipped':
+        return <SkipForward className="w-4 h-4 text-gray-500" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-orange-500" />;
       default:
-        return <AlertCircle className="w-4 h-4 text-gray-400" />;
-    }
-  };
-
-  const getStatusColor = () => {
-    switch (data.status) {
-      case 'completed':
-        return 'border-green-500 bg-green-50 dark:bg-green-950';
-      case 'failed':
-        return 'border-red-500 bg-red-50 dark:bg-red-950';
-      case 'running':
-        return 'border-blue-500 bg-blue-50 dark:bg-blue-950';
-      case 'paused':
-        return 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950';
-      default:
-        return 'border-gray-300 bg-white dark:bg-gray-800';
+        return <Lock className="w-4 h-4 text-gray-400" />;
     }
   };
 
   return (
-    <Card className={`min-w-[200px] ${getStatusColor()} ${selected ? 'ring-2 ring-primary' : ''}`}>
+    <Card className={`w-[240px] ${STATUS_STYLES[data.status].className} ${selected ? 'ring-2 ring-primary' : ''}`}>
+      <Handle type="target" position={Position.Left} className="w-2 h-2" />
       <CardContent className="p-3">
         <div className="flex items-start justify-between mb-2">
-          <div className="flex items-center gap-2">
-            <Bot className="w-4 h-4 text-blue-500" />
-            <h3 className="font-semibold text-sm">{data.name}</h3>
-          </div>
-          <div className="flex items-center gap-1">
-            {getStatusIcon()}
-            <Button size="sm" variant="ghost" className="h-6 w-6 p-0">
-              <MoreHorizontal className="w-3 h-3" />
-            </Button>
-          </div>
-        </div>
-        
-        <div className="space-y-2">
-          <Badge variant="outline" className="text-xs">
-            {data.role}
-          </Badge>
-          
-          {data.description && (
-            <p className="text-xs text-muted-foreground line-clamp-2">
-              {data.description}
-            </p>
-          )}
-          
-          {data.confidence !== undefined && (
-            <div className="flex items-center justify-between text-xs">
-              <span>Confidence:</span>
-              <span className="font-medium">{data.confidence}%</span>
-            </div>
-          )}
-          
-          {data.cost !== undefined && (
-            <div className="flex items-center justify-between text-xs">
-              <span>Cost:</span>
-              <span className="font-medium">${data.cost.toFixed(4)}</span>
-            </div>
-          )}
-          
-          {data.tokensUsed !== undefined && (
-            <div className="flex items-center justify-between text-xs">
-              <span>Tokens:</span>
-              <span className="font-medium">{data.tokensUsed.toLocaleString()}</span>
-            </div>
-          )}
+          <span className="font-mono text-xs text-muted-foreground">{data.step.id}</span>
+          {getStatusIcon()}
         </div>
-      </CardContent>
-    </Card>
-  );
-};
-
-const TaskNode = ({ data, selected }: { data: TaskNodeData; selected: boolean }) => {
-  const getStatusIcon = () => {
-    switch (data.status) {
-      case 'completed':
-        return <CheckCircle className="w-5 h-5 text-green-500" />;
-      case 'failed':
-        return <XCircle className="w-5 h-5 text-red-500" />;
-      case 'running':
-        return <Play className="w-5 h-5 text-blue-500" />;
-      default:
-        return <Clock className="w-5 h-5 text-gray-400" />;
-    }
-  };
 
-  const getStatusColor = () => {
-    switch (data.status) {
-      case 'completed':
-        return 'border-green-500 bg-green-100 dark:bg-green-900';
-      case 'failed':
-        return 'border-red-500 bg-red-100 dark:bg-red-900';
-      case 'running':
-        return 'border-blue-500 bg-blue-100 dark:bg-blue-900';
-      default:
-        return 'border-gray-300 bg-gray-100 dark:bg-gray-800';
-    }
-  };
+        <p className="text-sm font-medium line-clamp-3 mb-2">{data.step.description}</p>
 
-  return (
-    <Card className={`min-w-[250px] ${getStatusColor()} ${selected ? 'ring-2 ring-primary' : ''}`}>
-      <CardContent className="p-4">
-        <div className="flex items-start justify-between mb-3">
-          <div className="flex items-center gap-2">
-            <User className="w-5 h-5 text-purple-500" />
-            <h3 className="font-semibold">{data.title}</h3>
-          </div>
-          {getStatusIcon()}
-        </div>
-        
-        {data.description && (
-          <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
-            {data.description}
+        {data.assignment?.rationale && (
+          <p className="text-xs text-muted-foreground line-clamp-2 mb-2" title={data.assignment.rationale}>
+            {data.assignment.rationale}
           </p>
         )}
-        
-        {data.progress !== undefined && (
-          <div className="space-y-1">
-            <div className="flex justify-between text-sm">
-              <span>Progress</span>
-              <span>{data.progress}%</span>
-            </div>
-            <div className="w-full bg-gray-200 rounded-full h-2 dark:bg-gray-700">
-              <div
-                className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                style={{ width: `${data.progress}%` }}
-              />
-            </div>
-          </div>
+
+        {data.onAssign && data.agents.length > 0 && (
+          <Select
+            value={data.override || AUTO_ASSIGN}
+            onValueChange={(value) => data.onAssign!(data.step.id, value === AUTO_ASSIGN ? null : value)}
+          >
+            <SelectTrigger className="nodrag h-7 text-xs mb-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_ASSIGN}>Assign automatically</SelectItem>
+              {data.agents.map(agent => (
+                <SelectItem key={agent.id} value={agent.id}>{agent.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="flex flex-wrap gap-1">
+          {(data.agentName || data.step.assignedRole) && (
+            <Badge variant="outline" className="text-xs">
+              {data.agentName || data.step.assignedRole}
+            </Badge>
+          )}
+          <Badge variant="secondary" className="text-xs">
+            {STATUS_STYLES[data.status].label}
+          </Badge>
+        </div>
+
+        {data.error && (
+          <p className="text-xs text-red-500 mt-2 line-clamp-2">{data.error}</p>
         )}
       </CardContent>
+      <Handle type="source" position={Position.Right} className="w-2 h-2" />
     </Card>
   );
 };
 
 const nodeTypes = {
-  agent: AgentNode,
-  task: TaskNode,
+  step: StepNode,
 };
 
+// Column is the length of the longest dependency chain leading to the step
+function stepDepths(steps: PlanStep[]): Record<string, number> {
+  const depths: Record<string, number> = {};
+  const depthOf = (step: PlanStep, seen: string[]): number => {
+    if (depths[step.id] !== undefined) return depths[step.id];
+    if (seen.includes(step.id)) return 0;
+    const parents = steps.filter(candidate => step.dependsOn.includes(candidate.id));
+    const depth = parents.length === 0
+      ? 0
+      : Math.max(...parents.map(parent => depthOf(parent, [...seen, step.id]))) + 1;
+    depths[step.id] = depth;
+    return depth;
+  };
+  steps.forEach(step => depthOf(step, []));
+  return depths;
+}
+
 interface ReactFlowDAGProps {
   taskId?: string | null;
   onNodeClick?: (nodeId: string, nodeType: string) => void;
   onEdgeClick?: (edgeId: string) => void;
 }
 
+// Execution plan steps as a dependency graph, coloured by each step's execution status
 export function ReactFlowDAG({ taskId, onNodeClick, onEdgeClick }: ReactFlowDAGProps) {
-  // Sample data - in real implementation, this would come from API
-  const initialNodes: Node[] = useMemo(() => [
-    {
-      id: 'task-1',
-      type: 'task',
-      position: { x: 100, y: 50 },
-      data: {
-        id: 'task-1',
-        title: 'Research Market Analysis',
-        status: 'running',
-        progress: 65,
-        description: 'Analyze current market trends and competitor landscape'
-      }
-    },
-    {
-      id: 'agent-1',
-      type: 'agent',
-      position: { x: 50, y: 200 },
-      data: {
-        id: 'agent-1',
-        name: 'Research Analyst',
-        role: 'Data Researcher',
-        status: 'completed',
-        confidence: 92,
-        tokensUsed: 1250,
-        cost: 0.0045,
-        description: 'Specialized in market research and data analysis'
-      }
-    },
-    {
-      id: 'agent-2',
-      type: 'agent',
-      position: { x: 300, y: 200 },
-      data: {
-        id: 'agent-2',
-        name: 'Content Writer',
-        role: 'Report Generator',
-        status: 'running',
-        confidence: 88,
-        tokensUsed: 890,
-        cost: 0.0032,
-        description: 'Creates comprehensive reports and summaries'
-      }
-    },
-    {
-      id: 'agent-3',
-      type: 'agent',
-      position: { x: 175, y: 350 },
-      data: {
-        id: 'agent-3',
-        name: 'Quality Reviewer',
-        role: 'QA Specialist',
-        status: 'pending',
-        confidence: 0,
-        tokensUsed: 0,
-        cost: 0,
-        description: 'Reviews and validates output quality'
-      }
-    }
-  ], []);
+  const { data: planSteps } = usePlanSteps(taskId || '');
+  const { data: agents } = useAgents(taskId || '');
+  const assignStep = useAssignStep();
 
-  const initialEdges: Edge[] = useMemo(() => [
-    {
-      id: 'task-agent1',
-      source: 'task-1',
-      target: 'agent-1',
-      type: 'smoothstep',
-      animated: true,
-      style: { stroke: '#10b981' }
-    },
-    {
-      id: 'task-agent2',
-      source: 'task-1',
-      target: 'agent-2',
-      type: 'smoothstep',
-      animated: true,
-      style: { stroke: '#3b82f6' }
-    },
-    {
-      id: 'agent1-agent3',
-      source: 'agent-1',
-      target: 'agent-3',
-      type: 'smoothstep',
-      style: { stroke: '#6b7280' }
-    },
-    {
-      id: 'agent2-agent3',
-      source: 'agent-2',
-      target: 'agent-3',
-      type: 'smoothstep',
-      style: { stroke: '#6b7280' }
+  const onAssign = useCallback((stepId: string, agentId: string | null) => {
+    if (taskId) {
+      assignStep.mutate({ taskId, stepId, agentId });
     }
-  ], []);
+  }, [taskId, assignStep.mutate]);
 
-  const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
-  const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+  const { stepNodes, stepEdges } = useMemo(() => {
+    const steps = planSteps?.steps || [];
+    const depths = stepDepths(steps);
+    const rows: Record<number, number> = {};
+    const taskAgents = (agents as Array<{ id: string; name: string }> | undefined) || [];
+    const agentNames: Record<string, string> = {};
+    taskAgents.forEach(agent => {
+      agentNames[agent.id] = agent.name;
+    });
+    const statusOf = (state: PlanStepState | null) => state?.status || 'blocked';
 
-  const onConnect = useCallback(
-    (params: Connection) => setEdges((eds) => addEdge(params, eds)),
-    [setEdges]
-  );
+    const stepNodes: Node[] = steps.map(step => {
+      const depth = depths[step.id];
+      const row = rows[depth] = (rows[depth] ?? -1) + 1;
+      return {
+        id: step.id,
+        type: 'step',
+        position: { x: depth * 300, y: row * 220 },
+        data: {
+          step,
+          status: statusOf(step.state),
+          agentName: step.state?.agentId ? agentNames[step.state.agentId] : undefined,
+          assignment: step.state?.assignment,
+          error: step.state?.error,
+          agents: taskAgents,
+          override: planSteps?.overrides[step.id],
+          onAssign: ['blocked', 'ready'].includes(statusOf(step.state)) ? onAssign : undefined,
+        },
+      };
+    });
+
+    const stepEdges: Edge[] = steps.flatMap(step =>
+      step.dependsOn.map(dependency => {
+        const source = steps.find(candidate => candidate.id === dependency);
+        const sourceStatus = statusOf(source?.state || null);
+        return {
+          id: `${dependency}->${step.id}`,
+          source: dependency,
+          target: step.id,
+          type: 'smoothstep',
+          animated: statusOf(step.state) === 'running',
+          markerEnd: { type: MarkerType.ArrowClosed },
+          style: { stroke: sourceStatus === 'completed' ? STATUS_STYLES.completed.color : '#6b7280' },
+        };
+      })
+    );
+
+    return { stepNodes, stepEdges };
+  }, [planSteps, agents, onAssign]);
+
+  const [nodes, setNodes, onNodesChange] = useNodesState([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+
+  useEffect(() => {
+    setNodes(stepNodes);
+    setEdges(stepEdges);
+  }, [stepNodes, stepEdges, setNodes, setEdges]);
 
   const onNodeClickHandler = useCallback((event: React.MouseEvent, node: Node) => {
     if (onNodeClick) {
@@ -316,6 +230,14 @@ export function ReactFlowDAG({ taskId, onNodeClick, onEdgeClick }: ReactFlowDAGP
     }
   }, [onEdgeClick]);
 
+  if (!taskId || !planSteps || planSteps.steps.length === 0) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-sm text-muted-foreground">
+        {taskId ? 'No execution plan yet' : 'Select a task to see its plan steps'}
+      </div>
+    );
+  }
+
   return (
     <div className="w-full h-full">
       <ReactFlow
@@ -323,49 +245,33 @@ export function ReactFlowDAG({ taskId, onNodeClick, onEdgeClick }: ReactFlowDAGP
         edges={edges}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
-        onConnect={onConnect}
         onNodeClick={onNodeClickHandler}
         onEdgeClick={onEdgeClickHandler}
         nodeTypes={nodeTypes}
-        connectionMode={ConnectionMode.Loose}
+        nodesConnectable={false}
         fitView
         className="bg-background"
       >
-        <Controls className="bg-background border border-border" />
-        <MiniMap 
+        <Controls className="bg-background border border-border" showInteractive={false} />
+        <MiniMap
           className="bg-background border border-border"
-          nodeColor={(node) => {
-            switch (node.type) {
-              case 'agent':
-                return '#3b82f6';
-              case 'task':
-                return '#8b5cf6';
-              default:
-                return '#6b7280';
-            }
-          }}
+          nodeColor={(node) => STATUS_STYLES[(node.data as StepNodeData).status].color}
         />
         <Background gap={12} size={1} />
         <Panel position="top-left" className="bg-background border border-border rounded-lg p-3">
           <div className="space-y-2">
-            <h3 className="font-semibold text-sm">Agent Network</h3>
-            <div className="flex gap-2 text-xs">
-              <div className="flex items-center gap-1">
-                <div className="w-2 h-2 bg-green-500 rounded-full" />
-                <span>Completed</span>
-              </div>
-              <div className="flex items-center gap-1">
-                <div className="w-2 h-2 bg-blue-500 rounded-full" />
-                <span>Running</span>
-              </div>
-              <div className="flex items-center gap-1">
-                <div className="w-2 h-2 bg-gray-400 rounded-full" />
-                <span>Pending</span>
-              </div>
+            <h3 className="font-semibold text-sm">Plan v{planSteps.version} steps</h3>
+            <div className="flex flex-wrap gap-2 text-xs">
+              {(Object.keys(STATUS_STYLES) as PlanStepStatus[]).map(status => (
+                <div key={status} className="flex items-center gap-1">
+                  <div className="w-2 h-2 rounded-full" style={{ backgroundColor: STATUS_STYLES[status].color }} />
+                  <span>{STATUS_STYLES[status].label}</span>
+                </div>
+              ))}
             </div>
           </div>
         </Panel>
       </ReactFlow>
     </div>
   );
-}
\ No newline at end of file
+}
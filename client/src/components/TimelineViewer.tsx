@@ -21,8 +21,9 @@ import { format } from 'date-fns';
 interface TimelineEvent {
   id: string;
   type: 'task_created' | 'task_started' | 'task_completed' | 'task_failed' |
+        'task_paused' | 'task_cancelled' |
         'agent_created' | 'agent_started' | 'agent_completed' | 'agent_failed' |
-        'execution_started' | 'execution_completed' | 'execution_failed' |
+        'execution_started' | 'execution_completed' | 'execution_failed' | 'execution_cancelled' |
         'collaboration_initiated' | 'collaboration_completed' |
         'plan_created' | 'plan_updated' | 'plan_approved';
   title: string;
@@ -296,6 +297,10 @@ export function TimelineViewer() {
         return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'task_failed':
         return <XCircle className="w-4 h-4 text-red-500" />;
+      case 'task_paused':
+      case 'task_cancelled':
+      case 'execution_cancelled':
+        return <Pause className="w-4 h-4 text-yellow-500" />;
       case 'agent_created':
       case 'agent_started':
         return <Users className="w-4 h-4" />;
@@ -0,0 +1,98 @@
+import { useCallback, useState } from 'react';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import type { RealtimeUpdate } from '@/lib/types';
+
+interface UseAgentStreamProps {
+  taskId?: string | null;
+  agentId?: string | null;
+}
+
+interface AgentStreamState {
+  key: string;
+  agentId: string | null;
+  provider: string | null;
+  output: string;
+  isStreaming: boolean;
+  error: string | null;
+}
+
+interface AgentStreams {
+  byKey: Record<string, AgentStreamState>;
+  order: string[]; // keys in the order their streams started
+  latestKey: string | null;
+}
+
+const initialState: AgentStreamState = {
+  key: '',
+  agentId: null,
+  provider: null,
+  output: '',
+  isStreaming: false,
+  error: null,
+};
+
+const initialStreams: AgentStreams = { byKey: {}, order: [], latestKey: null };
+
+// Steps running in parallel stream at the same time, so each agent execution keeps its own buffer
+function streamKey(data: any): string {
+  return data.executionId || data.agentId || 'task';
+}
+
+// Accumulates streamed LLM output for a task and/or agent from `stream_update` messages,
+// one buffer per streaming agent execution. The fields of the most recently updated
+// stream are also returned directly for views that follow a single agent.
+export function useAgentStream({ taskId, agentId }: UseAgentStreamProps) {
+  const [streams, setStreams] = useState<AgentStreams>(initialStreams);
+
+  const handleMessage = useCallback((update: RealtimeUpdate) => {
+    if (update.type !== 'stream_update') return;
+
+    const data = update.data;
+    if (taskId && data.taskId !== taskId) return;
+    if (agentId && data.agentId !== agentId) return;
+
+    const key = streamKey(data);
+    setStreams(prev => {
+      const current = prev.byKey[key] || { ...initialState, key, agentId: data.agentId ?? null };
+      let next: AgentStreamState;
+
+      switch (data.action) {
+        case 'chunk':
+          next = {
+            ...current,
+            provider: data.provider,
+            // The first chunk of a completion starts a new output buffer for this execution
+            output: data.index === 0 ? data.delta : current.output + data.delta,
+            isStreaming: true,
+            error: null,
+          };
+          break;
+        case 'end':
+          next = { ...current, provider: data.provider, isStreaming: false };
+          break;
+        case 'error':
+          next = { ...current, isStreaming: false, error: data.error };
+          break;
+        default:
+          return prev;
+      }
+
+      return {
+        byKey: { ...prev.byKey, [key]: next },
+        order: prev.byKey[key] ? prev.order : [...prev.order, key],
+        latestKey: key,
+      };
+    });
+  }, [taskId, agentId]);
+
+  useWebSocket({ onMessage: handleMessage });
+
+  const reset = useCallback(() => setStreams(initialStreams), []);
+
+  const latest = streams.latestKey ? streams.byKey[streams.latestKey] : initialState;
+  return {
+    ...latest,
+    streams: streams.order.map(key => streams.byKey[key]),
+    reset,
+  };
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import type { AgentStatus, AgentExecutionRequest, CollaborationRequest } from '@/lib/types';
+import type { AgentStatus, AgentExecutionRequest, AgentMessage, CollaborationRequest, LlmCall } from '@/lib/types';
 
 export function useAgents(taskId?: string) {
   return useQuery({
@@ -67,3 +67,65 @@ export function useCreateCollaboration() {
     },
   });
 }
+
+export function useAgentMessages(agentId: string) {
+  return useQuery<AgentMessage[]>({
+    queryKey: ['/api/agents', agentId, 'messages'],
+    enabled: !!agentId,
+  });
+}
+
+export function useAgentLlmCalls(agentId: string) {
+  return useQuery<LlmCall[]>({
+    queryKey: ['/api/agents', agentId, 'llm-calls'],
+    enabled: !!agentId,
+  });
+}
+
+export function useUpdateAgentMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ agentId, messageId, content }: { agentId: string; messageId: string; content: string }) => {
+      const response = await apiRequest('PATCH', `/api/agents/${agentId}/messages/${messageId}`, { content });
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['/api/agents', variables.agentId, 'messages']
+      });
+    },
+  });
+}
+
+export function useDeleteAgentMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ agentId, messageId }: { agentId: string; messageId: string }) => {
+      const response = await apiRequest('DELETE', `/api/agents/${agentId}/messages/${messageId}`);
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['/api/agents', variables.agentId, 'messages']
+      });
+    },
+  });
+}
+
+export function useTruncateAgentMessages() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ agentId, ...params }: { agentId: string; keepLast?: number; throughSequence?: number }) => {
+      const response = await apiRequest('POST', `/api/agents/${agentId}/messages/truncate`, params);
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['/api/agents', variables.agentId, 'messages']
+      });
+    },
+  });
+}
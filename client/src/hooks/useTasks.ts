@@ -1,6 +1,15 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import type { CreateTaskRequest, TaskStatus } from '@/lib/types';
+import type {
+  CreateTaskRequest,
+  TaskStatus,
+  PlanVersion,
+  TaskPlanSteps,
+  TaskDeliverable,
+  TaskApproval,
+  ApprovalPolicy,
+  ApprovalEdits,
+} from '@/lib/types';
 
 export function useTasks() {
   return useQuery({
@@ -92,6 +101,119 @@ export function useExecuteTask() {
   });
 }
 
+// Continues a paused, failed or interrupted task from its checkpoint
+export function useResumeTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (taskId: string) => {
+      const response = await apiRequest('POST', `/api/tasks/${taskId}/resume`);
+      return response.json();
+    },
+    onSuccess: (data, taskId) => {
+      queryClient.invalidateQueries({
+        queryKey: ['/api/tasks', taskId]
+      });
+      queryClient.invalidateQueries({
+        queryKey: ['/api/tasks', taskId, 'steps']
+      });
+    },
+  });
+}
+
+export function usePlanVersions(taskId: string) {
+  return useQuery<PlanVersion[]>({
+    queryKey: ['/api/tasks', taskId, 'plans'],
+    enabled: !!taskId,
+  });
+}
+
+// Latest version; the request 404s until the task's completion stage has produced one
+export function useTaskDeliverable(taskId: string) {
+  return useQuery<TaskDeliverable>({
+    queryKey: ['/api/tasks', taskId, 'deliverable'],
+    enabled: !!taskId,
+  });
+}
+
+export function usePlanSteps(taskId: string) {
+  return useQuery<TaskPlanSteps>({
+    queryKey: ['/api/tasks', taskId, 'steps'],
+    enabled: !!taskId,
+    refetchInterval: 3000,
+  });
+}
+
+// agentId null clears the operator's override for the step
+export function useAssignStep() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ taskId, stepId, agentId }: { taskId: string; stepId: string; agentId: string | null }) => {
+      const response = await apiRequest('PUT', `/api/tasks/${taskId}/steps/${encodeURIComponent(stepId)}/assignment`, { agentId });
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['/api/tasks', variables.taskId, 'steps']
+      });
+    },
+  });
+}
+
+// Newest first
+export function useTaskApprovals(taskId: string) {
+  return useQuery<TaskApproval[]>({
+    queryKey: ['/api/tasks', taskId, 'approvals'],
+    enabled: !!taskId,
+  });
+}
+
+export function useApprovalPolicy(taskId: string) {
+  return useQuery<ApprovalPolicy>({
+    queryKey: ['/api/tasks', taskId, 'approval-policy'],
+    enabled: !!taskId,
+  });
+}
+
+export function useUpdateApprovalPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ taskId, policy }: { taskId: string; policy: ApprovalPolicy }) => {
+      const response = await apiRequest('PUT', `/api/tasks/${taskId}/approval-policy`, policy);
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['/api/tasks', variables.taskId, 'approval-policy']
+      });
+    },
+  });
+}
+
+export function useDecideApproval() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ taskId, approvalId, decision, reason, edits }: {
+      taskId: string;
+      approvalId: string;
+      decision: 'approve' | 'reject' | 'modify';
+      reason?: string;
+      edits?: ApprovalEdits;
+    }) => {
+      const response = await apiRequest('POST', `/api/tasks/${taskId}/approvals/${approvalId}/${decision}`, { reason, edits });
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ['/api/tasks', variables.taskId]
+      });
+    },
+  });
+}
+
 export function useTaskFiles(taskId: string) {
   return useQuery({
     queryKey: ['/api/tasks', taskId, 'files'],
@@ -21,6 +21,11 @@ export function useWebSocket({
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 5;
 
+  // Keep the latest callbacks in a ref so inline handlers don't force a
+  // reconnect on every render (streamed output re-renders frequently)
+  const handlersRef = useRef({ onMessage, onConnect, onDisconnect, onError });
+  handlersRef.current = { onMessage, onConnect, onDisconnect, onError };
+
   const connect = useCallback(() => {
     try {
       // Clear any existing connection first
@@ -37,14 +42,14 @@ export function useWebSocket({
         console.log('WebSocket connected');
         setIsConnected(true);
         reconnectAttempts.current = 0;
-        onConnect?.();
+        handlersRef.current.onConnect?.();
       };
 
       wsRef.current.onmessage = (event) => {
         try {
           const update: RealtimeUpdate = JSON.parse(event.data);
           setLastUpdate(update);
-          onMessage?.(update);
+          handlersRef.current.onMessage?.(update);
         } catch (error) {
           console.error('Failed to parse WebSocket message:', error);
         }
@@ -53,7 +58,7 @@ export function useWebSocket({
       wsRef.current.onclose = () => {
         console.log('WebSocket disconnected');
         setIsConnected(false);
-        onDisconnect?.();
+        handlersRef.current.onDisconnect?.();
 
         // Attempt to reconnect if not manually closed
         if (reconnectAttempts.current < maxReconnectAttempts) {
@@ -69,12 +74,12 @@ export function useWebSocket({
 
       wsRef.current.onerror = (error) => {
         console.error('WebSocket error:', error);
-        onError?.(error);
+        handlersRef.current.onError?.(error);
       };
     } catch (error) {
       console.error('Failed to create WebSocket connection:', error);
     }
-  }, [onMessage, onConnect, onDisconnect, onError]);
+  }, []);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
@@ -72,7 +72,7 @@ export interface TaskStatus {
 }
 
 export interface RealtimeUpdate {
-  type: 'task_update' | 'agent_update' | 'execution_update' | 'log_update';
+  type: 'task_update' | 'agent_update' | 'execution_update' | 'log_update' | 'stream_update' | 'provider_update' | 'approval_update';
   data: any;
   timestamp: string;
 }
@@ -92,6 +92,192 @@ export interface AgentExecutionRequest {
   context?: string;
 }
 
+// Entry of an agent's stored conversation transcript
+export interface AgentMessage {
+  id: string;
+  agentId: string;
+  taskId?: string | null;
+  executionId?: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  sequence: number;
+  editedAt?: string | null;
+  createdAt: string;
+}
+
+// Stored trace of a single provider call; messages and response are already redacted
+export interface LlmCall {
+  id: string;
+  provider: string;
+  model?: string | null;
+  operation: 'completion' | 'stream' | 'tools';
+  taskId?: string | null;
+  agentId?: string | null;
+  executionId?: string | null;
+  messages: Array<{ role: string; content?: string | null; [key: string]: unknown }>;
+  response?: string | null;
+  toolCalls?: Array<{ id: string; name: string; arguments: Record<string, unknown> }> | null;
+  parameters?: Record<string, unknown> | null;
+  status: 'success' | 'error' | 'cancelled';
+  error?: string | null;
+  tokensInput: number;
+  tokensOutput: number;
+  tokensUsed: number;
+  cost: string;
+  latencyMs: number;
+  redactions: number;
+  createdAt: string;
+}
+
+export interface PlanStep {
+  id: string;
+  description: string;
+  assignedRole: string;
+  inputs: string[];
+  outputs: string[];
+  dependsOn: string[];
+}
+
+export type PlanStepStatus = 'blocked' | 'ready' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+// How a step's agent was chosen
+export interface StepAssignment {
+  agentId: string | null;
+  strategy: 'embedding' | 'llm' | 'override';
+  score: number;
+  rationale: string;
+  candidates: Array<{ agentId: string; score: number }>;
+  overridden: boolean;
+  model?: string;
+}
+
+export interface PlanStepState {
+  id: string;
+  planId: string;
+  taskId: string;
+  stepId: string;
+  status: PlanStepStatus;
+  agentId?: string | null;
+  assignment?: StepAssignment | null;
+  executionId?: string | null;
+  output?: string | null;
+  error?: string | null;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  updatedAt: string;
+}
+
+// Steps of a task's latest plan; state is null until the plan starts executing
+export interface TaskPlanSteps {
+  planId: string | null;
+  version: number | null;
+  steps: Array<PlanStep & { state: PlanStepState | null }>;
+  overrides: Record<string, string>; // stepId -> agentId pinned by an operator
+}
+
+// Task metadata.approvalPolicy; a task without one runs ungated
+export interface ApprovalPolicy {
+  plan: boolean; // review the team and plan between drafting and execution
+  steps: string[]; // step ids reviewed before they start
+  costThreshold: number | null; // USD; steps estimated to cost at least this much are reviewed
+}
+
+export interface ApprovalEdits {
+  steps?: PlanStep[]; // plan gate
+  agents?: Array<{ id: string; description?: string; prompt?: string; toolset?: string[]; suggestions?: string }>; // plan gate
+  instructions?: string; // step and cost gates
+}
+
+// A request for human sign-off the task's run is waiting on, or a decided one
+export interface TaskApproval {
+  id: string;
+  taskId: string;
+  planId?: string | null;
+  gate: 'plan' | 'step' | 'cost';
+  stepId?: string | null;
+  status: 'pending' | 'approved' | 'rejected' | 'modified';
+  proposal: {
+    version?: number;
+    agents?: Array<{ id: string; name: string; role: string; description: string; toolset: string[] }>;
+    steps?: PlanStep[];
+    step?: PlanStep;
+    agent?: { id: string; name: string; role: string } | null;
+    estimatedCost?: number;
+    costThreshold?: number | null;
+  };
+  reason?: string | null;
+  edits?: ApprovalEdits | null;
+  decidedBy?: string | null;
+  decidedAt?: string | null;
+  createdAt: string;
+}
+
+// Final result synthesized from a task's step outputs; each observer revision adds a version
+export interface TaskDeliverable {
+  id: string;
+  taskId: string;
+  planId?: string | null;
+  version: number;
+  content: string; // markdown
+  sourceSteps: Array<{ stepId: string; description: string; executionId?: string | null }>;
+  refinement?: { fromVersion: number; feedback: string; suggestions: string[]; confidence: number } | null;
+  provider?: string | null;
+  tokensUsed: number;
+  cost: string;
+  createdAt: string;
+}
+
+// One version of a task's execution plan; observer refinement adds a new version each round
+export interface ExecutionPlanVersion {
+  id: string;
+  taskId: string;
+  executionSteps: Array<PlanStep | string>; // plans from before structured steps hold plain descriptions
+  plannerOutput: { executionPlan?: { workflow?: string; estimatedDuration?: string } } & Record<string, unknown>;
+  status: string;
+  version: number;
+  refinementCount: number;
+  observerFeedback?: {
+    confidence?: number;
+    review?: { confidence: number; needsRefinement: boolean; feedback: string; suggestions: string[] };
+    revision?: { fromVersion: number; changes: string[]; suggestions: string[] };
+  } | null;
+  createdAt: string;
+}
+
+export interface PlanDiff {
+  fromVersion: number;
+  toVersion: number;
+  steps: Array<{ type: 'added' | 'removed' | 'unchanged'; step: string }>;
+  added: number;
+  removed: number;
+  workflowChanged: boolean;
+  estimatedDurationChanged: boolean;
+}
+
+export interface PlanVersion {
+  plan: ExecutionPlanVersion;
+  diff?: PlanDiff;
+}
+
+// Recorded on agent executions as metadata.contextBudget
+export interface ContextCompactionReport {
+  label: string;
+  budgetTokens: number;
+  reservedOutputTokens: number;
+  originalTokens: number;
+  finalTokens: number;
+  compacted: boolean;
+  decisions: Array<{
+    section: string;
+    action: 'kept' | 'truncated' | 'summarized' | 'dropped';
+    originalTokens: number;
+    finalTokens: number;
+    itemsSummarized?: number;
+    itemsDropped?: number;
+  }>;
+  timestamp: string;
+}
+
 export interface CollaborationRequest {
   fromAgentId: string;
   toAgentId: string;
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
@@ -12,12 +12,36 @@ import { templateService } from "./services/templateService";
 import { timelineService } from "./services/timelineService";
 import { serviceManager } from "./services/serviceManager";
 import { pdfExportService } from "./services/pdfExportService";
+import { llmRouter } from "./services/llmRouter";
+import { responseCacheService } from "./services/responseCacheService";
+import { circuitBreakerService } from "./services/circuitBreakerService";
+import { pricingService } from "./services/pricingService";
+import { routingPolicyService } from "./services/routingPolicyService";
+import { conversationService } from "./services/conversationService";
+import { promptLibraryService } from "./services/promptLibraryService";
+import { embeddingService } from "./services/embeddingService";
+import { providerHealthService, type HistoryBucket } from "./services/providerHealthService";
+import { cancellationService } from "./services/cancellationService";
+import { llmTraceService } from "./services/llmTraceService";
+import { planRefinementService } from "./services/planRefinementService";
+import { describeStep, findDependencyCycle, normalizePlanSteps } from "./services/planSteps";
+import { agentAssignmentService, getAssignmentOverrides } from "./services/agentAssignmentService";
+import { deliverableService } from "./services/deliverableService";
+import {
+  approvalService,
+  getApprovalPolicy,
+  normalizeApprovalPolicy,
+  type ApprovalDecision,
+  type ApprovalEdits,
+} from "./services/approvalService";
 import { 
   insertTaskSchema, 
   insertAgentSchema,
   insertTaskQueueSchema,
   insertBudgetSchema,
-  insertAgentTemplateSchema
+  insertAgentTemplateSchema,
+  insertModelPricingSchema,
+  insertPromptTemplateSchema
 } from "@shared/schema";
 import type { 
   RealtimeUpdate, 
@@ -52,6 +76,21 @@ function broadcastUpdate(update: RealtimeUpdate): void {
   });
 }
 
+// Pricing payloads arrive as JSON numbers and ISO date strings; the schema expects
+// decimal strings and Date objects
+function normalizePricingBody(body: any): any {
+  const normalized = { ...body };
+  for (const field of ['inputCostPer1M', 'outputCostPer1M']) {
+    if (typeof normalized[field] === 'number') {
+      normalized[field] = normalized[field].toString();
+    }
+  }
+  if (typeof normalized.effectiveFrom === 'string') {
+    normalized.effectiveFrom = new Date(normalized.effectiveFrom);
+  }
+  return normalized;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
@@ -87,6 +126,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Relay streamed LLM output so the dashboard can render agent responses live
+  llmRouter.on('stream:chunk', (chunk) => {
+    broadcastUpdate({
+      type: 'stream_update',
+      data: { action: 'chunk', ...chunk },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  llmRouter.on('stream:end', (summary) => {
+    broadcastUpdate({
+      type: 'stream_update',
+      data: { action: 'end', ...summary },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  llmRouter.on('stream:error', (failure) => {
+    broadcastUpdate({
+      type: 'stream_update',
+      data: { action: 'error', ...failure },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Relay circuit breaker transitions so provider health changes show up immediately
+  circuitBreakerService.on('transition', (transition) => {
+    broadcastUpdate({
+      type: 'provider_update',
+      data: { action: 'circuit_transition', ...transition },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Relay health probe results so provider status stays current while a provider is idle
+  providerHealthService.on('probe', (probe) => {
+    broadcastUpdate({
+      type: 'provider_update',
+      data: { action: 'health_probe', ...probe },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Relay approval requests and decisions so reviewers see a gated task as soon as it waits
+  approvalService.on('requested', (approval) => {
+    broadcastUpdate({
+      type: 'approval_update',
+      data: { action: 'requested', taskId: approval.taskId, approval },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  approvalService.on('decided', (approval) => {
+    broadcastUpdate({
+      type: 'approval_update',
+      data: { action: 'decided', taskId: approval.taskId, approval },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Relay budget-driven routing downgrades so operators see when calls move to cheaper models
+  llmRouter.on('routing', (decision) => {
+    broadcastUpdate({
+      type: 'budget_update',
+      data: { action: 'routing_degraded', ...decision },
+      timestamp: new Date().toISOString(),
+    });
+  });
+
   // API Routes
 
   // Dashboard and metrics
@@ -329,6 +437,186 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every version of the task's execution plan, oldest first, each with its diff from the one before
+  app.get('/api/tasks/:id/plans', async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+      res.json(await planRefinementService.getVersions(req.params.id));
+    } catch (error) {
+      console.error('Failed to get plan versions:', error);
+      res.status(500).json({ message: 'Failed to get plan versions' });
+    }
+  });
+
+  // Diff between any two plan versions: ?from=1&to=3
+  app.get('/api/tasks/:id/plans/diff', async (req, res) => {
+    try {
+      const from = parseInt(req.query.from as string, 10);
+      const to = parseInt(req.query.to as string, 10);
+      if (isNaN(from) || isNaN(to)) {
+        return res.status(400).json({ message: 'from and to versions are required' });
+      }
+
+      const plans = await storage.getExecutionPlansByTask(req.params.id);
+      const previous = plans.find(plan => plan.version === from);
+      const next = plans.find(plan => plan.version === to);
+      if (!previous || !next) {
+        return res.status(404).json({ message: 'Plan version not found' });
+      }
+      res.json(planRefinementService.diff(previous, next));
+    } catch (error) {
+      console.error('Failed to diff plan versions:', error);
+      res.status(500).json({ message: 'Failed to diff plan versions' });
+    }
+  });
+
+  // Stage the last run reached; absent once the task completes
+  app.get('/api/tasks/:id/checkpoint', async (req, res) => {
+    try {
+      const checkpoint = await storage.getTaskCheckpoint(req.params.id);
+      if (!checkpoint) {
+        return res.status(404).json({ message: 'Checkpoint not found' });
+      }
+      res.json(checkpoint);
+    } catch (error) {
+      console.error('Failed to get task checkpoint:', error);
+      res.status(500).json({ message: 'Failed to get task checkpoint' });
+    }
+  });
+
+  // Final result synthesized from the step outputs; the latest version is the current one
+  app.get('/api/tasks/:id/deliverable', async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      const deliverable = await deliverableService.getLatest(req.params.id);
+      if (!deliverable) {
+        return res.status(404).json({ message: 'Deliverable not found' });
+      }
+      res.json(deliverable);
+    } catch (error) {
+      console.error('Failed to get task deliverable:', error);
+      res.status(500).json({ message: 'Failed to get task deliverable' });
+    }
+  });
+
+  app.get('/api/tasks/:id/deliverables', async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      const deliverables = await deliverableService.getVersions(req.params.id);
+      res.json(deliverables);
+    } catch (error) {
+      console.error('Failed to get task deliverables:', error);
+      res.status(500).json({ message: 'Failed to get task deliverables' });
+    }
+  });
+
+  // Steps of the latest plan with their dependencies and current execution status
+  app.get('/api/tasks/:id/steps', async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      const overrides = getAssignmentOverrides(task);
+      const [plan] = await storage.getExecutionPlansByTask(req.params.id);
+      if (!plan) {
+        return res.json({ planId: null, version: null, steps: [], overrides });
+      }
+
+      const states = await storage.getPlanStepStates(plan.id);
+      const steps = normalizePlanSteps(plan.executionSteps).map(step => ({
+        ...step,
+        state: states.find(state => state.stepId === step.id) || null,
+      }));
+      res.json({ planId: plan.id, version: plan.version, steps, overrides });
+    } catch (error) {
+      console.error('Failed to get plan steps:', error);
+      res.status(500).json({ message: 'Failed to get plan steps' });
+    }
+  });
+
+  // Agents the latest plan's steps would be assigned to if the task ran now, with rationale
+  app.post('/api/tasks/:id/steps/assignments/preview', async (req, res) => {
+    try {
+      const task = await storage.getTaskWithAgents(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      const [plan] = await storage.getExecutionPlansByTask(req.params.id);
+      const steps = plan ? normalizePlanSteps(plan.executionSteps) : [];
+      const assignments = await agentAssignmentService.assign(task, task.agents, steps);
+      res.json(steps.map(step => ({ stepId: step.id, ...assignments.get(step.id) })));
+    } catch (error) {
+      console.error('Failed to preview step assignments:', error);
+      res.status(500).json({ message: 'Failed to preview step assignments' });
+    }
+  });
+
+  // Pins a step to an agent for the next execution; { agentId: null } clears the override
+  app.put('/api/tasks/:id/steps/:stepId/assignment', async (req, res) => {
+    try {
+      const task = await storage.getTaskWithAgents(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      const agentId: string | null = req.body.agentId ?? null;
+      if (agentId && !task.agents.some(agent => agent.id === agentId)) {
+        return res.status(404).json({ message: 'Agent not found' });
+      }
+
+      const [plan] = await storage.getExecutionPlansByTask(req.params.id);
+      const steps = plan ? normalizePlanSteps(plan.executionSteps) : [];
+      if (!steps.some(step => step.id === req.params.stepId)) {
+        return res.status(404).json({ message: 'Step not found' });
+      }
+
+      const states = plan ? await storage.getPlanStepStates(plan.id) : [];
+      const state = states.find(candidate => candidate.stepId === req.params.stepId);
+      if (task.status === 'executing' && state && state.status !== 'blocked' && state.status !== 'ready') {
+        return res.status(409).json({ message: `Step is already ${state.status}` });
+      }
+
+      const overrides = { ...getAssignmentOverrides(task) };
+      if (agentId) {
+        overrides[req.params.stepId] = agentId;
+      } else {
+        delete overrides[req.params.stepId];
+      }
+      await storage.updateTask(req.params.id, {
+        metadata: { ...((task.metadata as Record<string, unknown>) || {}), assignmentOverrides: overrides },
+      });
+
+      await storage.createLog({
+        level: 'info',
+        category: 'task',
+        message: agentId
+          ? `Step ${req.params.stepId} pinned to agent ${agentId}`
+          : `Assignment override cleared for step ${req.params.stepId}`,
+        data: { stepId: req.params.stepId, agentId },
+        taskId: req.params.id,
+      });
+
+      res.json({ stepId: req.params.stepId, agentId, overrides });
+    } catch (error) {
+      console.error('Failed to update step assignment:', error);
+      res.status(500).json({ message: 'Failed to update step assignment' });
+    }
+  });
+
   app.post('/api/tasks', upload.array('files'), async (req, res) => {
     try {
       const taskData = insertTaskSchema.parse(req.body);
@@ -462,6 +750,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Agent conversation transcript, replayed as history on the agent's next action
+  app.get('/api/agents/:id/messages', async (req, res) => {
+    try {
+      const agent = await storage.getAgent(req.params.id);
+      if (!agent) {
+        return res.status(404).json({ message: 'Agent not found' });
+      }
+      res.json(await conversationService.getTranscript(req.params.id));
+    } catch (error) {
+      console.error('Failed to get agent messages:', error);
+      res.status(500).json({ message: 'Failed to get agent messages' });
+    }
+  });
+
+  // Full, redacted trace of each LLM call the agent made, newest first
+  app.get('/api/agents/:id/llm-calls', async (req, res) => {
+    try {
+      const agent = await storage.getAgent(req.params.id);
+      if (!agent) {
+        return res.status(404).json({ message: 'Agent not found' });
+      }
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      res.json(await llmTraceService.getCalls({ agentId: req.params.id, limit }));
+    } catch (error) {
+      console.error('Failed to get agent LLM calls:', error);
+      res.status(500).json({ message: 'Failed to get agent LLM calls' });
+    }
+  });
+
+  app.patch('/api/agents/:id/messages/:messageId', async (req, res) => {
+    try {
+      const { content } = req.body;
+      if (typeof content !== 'string' || content.trim().length === 0) {
+        return res.status(400).json({ message: 'content is required' });
+      }
+
+      const message = await storage.getAgentMessage(req.params.messageId);
+      if (!message || message.agentId !== req.params.id) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+
+      const updated = await conversationService.editMessage(req.params.id, req.params.messageId, content);
+
+      broadcastUpdate({
+        type: 'agent_update',
+        data: { action: 'conversation_updated', agentId: req.params.id },
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Failed to update agent message:', error);
+      res.status(500).json({ message: 'Failed to update agent message' });
+    }
+  });
+
+  app.delete('/api/agents/:id/messages/:messageId', async (req, res) => {
+    try {
+      const message = await storage.getAgentMessage(req.params.messageId);
+      if (!message || message.agentId !== req.params.id) {
+        return res.status(404).json({ message: 'Message not found' });
+      }
+
+      await conversationService.deleteMessage(req.params.id, req.params.messageId);
+
+      broadcastUpdate({
+        type: 'agent_update',
+        data: { action: 'conversation_updated', agentId: req.params.id },
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Failed to delete agent message:', error);
+      res.status(500).json({ message: 'Failed to delete agent message' });
+    }
+  });
+
+  // Body: { keepLast } keeps the newest messages, { throughSequence } drops everything
+  // after that message; an empty body clears the transcript
+  app.post('/api/agents/:id/messages/truncate', async (req, res) => {
+    try {
+      const { keepLast, throughSequence } = req.body;
+      if ((keepLast !== undefined && !(Number.isInteger(keepLast) && keepLast >= 0)) ||
+          (throughSequence !== undefined && !(Number.isInteger(throughSequence) && throughSequence >= 0))) {
+        return res.status(400).json({ message: 'keepLast and throughSequence must be non-negative integers' });
+      }
+
+      const agent = await storage.getAgent(req.params.id);
+      if (!agent) {
+        return res.status(404).json({ message: 'Agent not found' });
+      }
+
+      const removed = await conversationService.truncate(req.params.id, { keepLast, throughSequence });
+
+      broadcastUpdate({
+        type: 'agent_update',
+        data: { action: 'conversation_updated', agentId: req.params.id },
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json({ removed });
+    } catch (error) {
+      console.error('Failed to truncate agent messages:', error);
+      res.status(500).json({ message: 'Failed to truncate agent messages' });
+    }
+  });
+
   // Agent collaborations
   app.post('/api/collaborations', async (req, res) => {
     try {
@@ -566,98 +962,266 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'paused',
         updatedAt: new Date()
       });
+
+      // Stops in-flight LLM calls, retries and step pauses of a running execution
+      const interrupted = await cancellationService.cancel(req.params.id, 'paused');
       
       broadcastUpdate({
         type: 'task_update',
         taskId: req.params.id,
-        data: { status: 'paused' },
+        data: { status: 'paused', interrupted },
         timestamp: new Date().toISOString(),
       });
 
-      res.json({ success: true, message: 'Task paused' });
+      res.json({ success: true, message: 'Task paused', interrupted });
     } catch (error) {
       console.error('Failed to pause task:', error);
       res.status(500).json({ message: 'Failed to pause task' });
     }
   });
 
-  app.post('/api/tasks/:id/resume', async (req, res) => {
+  app.post('/api/tasks/:id/cancel', async (req, res) => {
     try {
-      await storage.updateTask(req.params.id, { 
-        status: 'running',
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      await storage.updateTask(req.params.id, {
+        status: 'cancelled',
         updatedAt: new Date()
       });
-      
+
+      const interrupted = await cancellationService.cancel(req.params.id, 'cancelled');
+
       broadcastUpdate({
         type: 'task_update',
-        taskId: req.params.id,
-        data: { status: 'running' },
+        data: { action: 'cancelled', taskId: req.params.id, status: 'cancelled', interrupted },
         timestamp: new Date().toISOString(),
       });
 
-      res.json({ success: true, message: 'Task resumed' });
+      res.json({ success: true, message: 'Task cancelled', interrupted });
     } catch (error) {
-      console.error('Failed to resume task:', error);
-      res.status(500).json({ message: 'Failed to resume task' });
+      console.error('Failed to cancel task:', error);
+      res.status(500).json({ message: 'Failed to cancel task' });
     }
   });
 
-  app.post('/api/agents/:id/approve', async (req, res) => {
+  // Continues the task from its checkpoint: stages already done are skipped and completed
+  // steps keep their outputs
+  app.post('/api/tasks/:id/resume', async (req, res) => {
     try {
-      const { feedback } = req.body;
-      
-      await storage.updateAgent(req.params.id, { 
-        status: 'approved',
-        memoryContext: {
-          ...((await storage.getAgent(req.params.id))?.memoryContext || {}),
-          humanFeedback: feedback,
-          approvedAt: new Date().toISOString(),
-        },
-        updatedAt: new Date()
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+      if (cancellationService.isRunning(req.params.id)) {
+        return res.status(409).json({ message: 'Task is already running' });
+      }
+      if (task.status === 'completed' || task.status === 'cancelled') {
+        return res.status(409).json({ message: `Task is ${task.status}` });
+      }
+
+      const checkpoint = await storage.getTaskCheckpoint(req.params.id);
+      const stage = checkpoint?.stage || 'drafting';
+
+      taskService.executeTask({ taskId: req.params.id, resume: true }).catch(error => {
+        console.error('Resumed task execution failed:', error);
+        broadcastUpdate({
+          type: 'task_update',
+          data: { action: 'failed', taskId: req.params.id, error: error.message },
+          timestamp: new Date().toISOString(),
+        });
       });
 
       broadcastUpdate({
-        type: 'agent_update',
-        agentId: req.params.id,
-        data: { status: 'approved', feedback },
+        type: 'task_update',
+        taskId: req.params.id,
+        data: { status: 'resuming', stage },
         timestamp: new Date().toISOString(),
       });
 
-      res.json({ success: true, message: 'Agent approved' });
+      res.json({ success: true, message: 'Task resumed', stage });
     } catch (error) {
-      console.error('Failed to approve agent:', error);
-      res.status(500).json({ message: 'Failed to approve agent' });
+      console.error('Failed to resume task:', error);
+      res.status(500).json({ message: 'Failed to resume task' });
     }
   });
 
-  app.post('/api/agents/:id/reject', async (req, res) => {
+  app.get('/api/tasks/:id/approval-policy', async (req, res) => {
     try {
-      const { reason } = req.body;
-      
-      await storage.updateAgent(req.params.id, { 
-        status: 'rejected',
-        memoryContext: {
-          ...((await storage.getAgent(req.params.id))?.memoryContext || {}),
-          rejectionReason: reason,
-          rejectedAt: new Date().toISOString(),
-        },
-        updatedAt: new Date()
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+      res.json(getApprovalPolicy(task));
+    } catch (error) {
+      console.error('Failed to get approval policy:', error);
+      res.status(500).json({ message: 'Failed to get approval policy' });
+    }
+  });
+
+  // Gates apply from the next plan review or step start; a run already waiting keeps waiting
+  app.put('/api/tasks/:id/approval-policy', async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      const policy = normalizeApprovalPolicy(req.body);
+      await storage.updateTask(req.params.id, {
+        metadata: { ...((task.metadata as Record<string, unknown>) || {}), approvalPolicy: policy },
       });
 
-      broadcastUpdate({
-        type: 'agent_update',
-        agentId: req.params.id,
-        data: { status: 'rejected', reason },
-        timestamp: new Date().toISOString(),
+      await storage.createLog({
+        level: 'info',
+        category: 'task',
+        message: 'Approval policy updated',
+        data: { ...policy },
+        taskId: req.params.id,
       });
 
-      res.json({ success: true, message: 'Agent rejected' });
+      res.json(policy);
+    } catch (error) {
+      console.error('Failed to update approval policy:', error);
+      res.status(500).json({ message: 'Failed to update approval policy' });
+    }
+  });
+
+  // Newest first
+  app.get('/api/tasks/:id/approvals', async (req, res) => {
+    try {
+      const task = await storage.getTask(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      const approvals = await storage.getTaskApprovals(req.params.id);
+      res.json(approvals);
     } catch (error) {
-      console.error('Failed to reject agent:', error);
-      res.status(500).json({ message: 'Failed to reject agent' });
+      console.error('Failed to get task approvals:', error);
+      res.status(500).json({ message: 'Failed to get task approvals' });
     }
   });
 
+  // Approve lets the run continue; reject needs a reason, which re-plans at the plan gate and
+  // fails the step at a step gate; modify continues with the reviewer's edits
+  const decideApproval = async (
+    res: Response,
+    decision: ApprovalDecision,
+    taskId: string,
+    approvalId: string,
+    body: Record<string, any>
+  ) => {
+    try {
+      const task = await storage.getTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+      const approval = await storage.getTaskApproval(approvalId);
+      if (!approval || approval.taskId !== task.id) {
+        return res.status(404).json({ message: 'Approval not found' });
+      }
+      if (approval.status !== 'pending') {
+        return res.status(409).json({ message: `Approval is already ${approval.status}` });
+      }
+
+      const reason: string | undefined = body.reason || body.feedback || undefined;
+      if (decision === 'reject' && !reason) {
+        return res.status(400).json({ message: 'A reason is required to reject' });
+      }
+
+      let edits: ApprovalEdits | undefined;
+      if (decision === 'modify') {
+        const requested = (body.edits || {}) as ApprovalEdits;
+        if (approval.gate === 'plan') {
+          if (!requested.steps && !requested.agents) {
+            return res.status(400).json({ message: 'Plan edits need steps or agents' });
+          }
+          const steps = requested.steps ? normalizePlanSteps(requested.steps) : undefined;
+          if (steps && steps.length === 0) {
+            return res.status(400).json({ message: 'Edited plan has no steps' });
+          }
+          const cycle = steps ? findDependencyCycle(steps) : null;
+          if (cycle) {
+            return res.status(400).json({ message: `Edited steps depend on each other in a cycle: ${cycle.join(' -> ')}` });
+          }
+          if (requested.agents && (!Array.isArray(requested.agents) || requested.agents.some(agent => !agent?.id))) {
+            return res.status(400).json({ message: 'Agent edits need an id' });
+          }
+          edits = { steps, agents: requested.agents };
+        } else {
+          if (!requested.instructions) {
+            return res.status(400).json({ message: 'Step edits need instructions' });
+          }
+          edits = { instructions: requested.instructions };
+        }
+      }
+
+      const { approval: decided, delivered } = await approvalService.decide(approval.id, decision, {
+        reason,
+        edits,
+        decidedBy: body.decidedBy,
+      });
+
+      // No run was waiting (the server restarted since it asked), so resume one to act on it
+      const resumed = !delivered && task.status === 'awaiting_approval' && !cancellationService.isRunning(task.id);
+      if (resumed) {
+        taskService.executeTask({ taskId: task.id, resume: true }).catch(error => {
+          console.error('Task execution after approval failed:', error);
+          broadcastUpdate({
+            type: 'task_update',
+            data: { action: 'failed', taskId: task.id, error: error.message },
+            timestamp: new Date().toISOString(),
+          });
+        });
+      }
+
+      res.json({ approval: decided, resumed });
+    } catch (error) {
+      console.error(`Failed to ${decision} approval:`, error);
+      res.status(500).json({ message: `Failed to ${decision} approval` });
+    }
+  };
+
+  app.post('/api/tasks/:id/approvals/:approvalId/approve', (req, res) =>
+    decideApproval(res, 'approve', req.params.id, req.params.approvalId, req.body));
+  app.post('/api/tasks/:id/approvals/:approvalId/reject', (req, res) =>
+    decideApproval(res, 'reject', req.params.id, req.params.approvalId, req.body));
+  app.post('/api/tasks/:id/approvals/:approvalId/modify', (req, res) =>
+    decideApproval(res, 'modify', req.params.id, req.params.approvalId, req.body));
+
+  // The team is reviewed at the plan gate, so approving or rejecting one of its agents decides
+  // the task's pending plan approval; a rejection without a reason names the agent instead
+  const decideAgentApproval = async (req: Request, res: Response, decision: 'approve' | 'reject') => {
+    try {
+      const agent = await storage.getAgent(req.params.id);
+      if (!agent) {
+        return res.status(404).json({ message: 'Agent not found' });
+      }
+      const pending = agent.taskId ? await approvalService.getPending(agent.taskId) : [];
+      const approval = pending.find(candidate => candidate.gate === 'plan');
+      if (!agent.taskId || !approval) {
+        return res.status(409).json({ message: "The agent's team is not awaiting approval" });
+      }
+
+      const reason: string | undefined = req.body.reason || req.body.feedback || undefined;
+      return decideApproval(res, decision, agent.taskId, approval.id, {
+        ...req.body,
+        reason: decision === 'reject'
+          ? `Agent ${agent.name} (${agent.role}) was rejected${reason ? `: ${reason}` : ''}`
+          : reason,
+      });
+    } catch (error) {
+      console.error(`Failed to ${decision} agent:`, error);
+      res.status(500).json({ message: `Failed to ${decision} agent` });
+    }
+  };
+
+  app.post('/api/agents/:id/approve', (req, res) => decideAgentApproval(req, res, 'approve'));
+  app.post('/api/agents/:id/reject', (req, res) => decideAgentApproval(req, res, 'reject'));
+
   app.post('/api/agents/:id/modify', async (req, res) => {
     try {
       const { prompt, description, toolset, suggestions } = req.body;
@@ -800,6 +1364,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const executions = await storage.getExecutionsByTask(req.params.id);
       const plans = await storage.getExecutionPlansByTask(req.params.id);
       const logs = await storage.getLogsByTask(req.params.id);
+      const deliverable = await deliverableService.getLatest(req.params.id);
 
       // Generate Markdown report
       let markdown = `# Task Report: ${task.title}\n\n`;
@@ -810,6 +1375,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       markdown += `**Updated:** ${task.updatedAt}\n\n`;
       
       markdown += `## Description\n\n${task.description}\n\n`;
+
+      if (deliverable) {
+        markdown += `## Deliverable (v${deliverable.version})\n\n${deliverable.content}\n\n`;
+      }
       
       markdown += `## Agents (${task.agents.length})\n\n`;
       for (const agent of task.agents) {
@@ -823,12 +1392,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       markdown += `## Execution Plan\n\n`;
       if (plans.length > 0) {
-        const latestPlan = plans[plans.length - 1];
+        const latestPlan = plans[0];
         markdown += `**Status:** ${latestPlan.status}\n\n`;
-        if (latestPlan.executionSteps) {
+        const steps = normalizePlanSteps(latestPlan.executionSteps);
+        if (steps.length > 0) {
           markdown += `### Steps\n\n`;
-          latestPlan.executionSteps.forEach((step: string, index: number) => {
-            markdown += `${index + 1}. ${step}\n`;
+          steps.forEach((step, index) => {
+            const after = step.dependsOn.length > 0 ? ` (after ${step.dependsOn.join(', ')})` : '';
+            markdown += `${index + 1}. **${step.id}:** ${describeStep(step)}${after}\n`;
           });
         }
       }
@@ -870,10 +1441,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const plans = await storage.getExecutionPlansByTask(req.params.id);
       const logs = await storage.getLogsByTask(req.params.id);
       const metrics = await taskService.getTaskMetrics(req.params.id);
+      const deliverables = await deliverableService.getVersions(req.params.id);
 
       const exportData = {
         task,
         agents: task.agents,
+        deliverable: deliverables[0] || null,
+        deliverables,
         executionPlans: plans,
         executions,
         logs: logs.slice(-100), // Last 100 logs
@@ -1330,6 +1904,326 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // LLM response cache
+  app.get('/api/cost-savings', async (req, res) => {
+    try {
+      const savings = await budgetService.getCacheSavings();
+      res.json(savings);
+    } catch (error) {
+      console.error('Failed to get cache savings:', error);
+      res.status(500).json({ message: 'Failed to get cache savings' });
+    }
+  });
+
+  app.delete('/api/llm-cache', async (req, res) => {
+    try {
+      await responseCacheService.clear();
+
+      broadcastUpdate({
+        type: 'budget_update',
+        data: { action: 'cache_cleared' },
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json({ message: 'LLM response cache cleared' });
+    } catch (error) {
+      console.error('Failed to clear LLM response cache:', error);
+      res.status(500).json({ message: 'Failed to clear LLM response cache' });
+    }
+  });
+
+  // Embeddings: { input: string | string[], provider? } -> vectors with the model that produced them
+  app.post('/api/embeddings', async (req, res) => {
+    try {
+      const { input, provider, taskId, agentId } = req.body;
+      const isValidInput = typeof input === 'string' ||
+        (Array.isArray(input) && input.length > 0 && input.every((text: unknown) => typeof text === 'string'));
+      if (!isValidInput) {
+        return res.status(400).json({ message: 'input must be a string or a non-empty array of strings' });
+      }
+
+      const result = await llmRouter.embed(input, { preferredProvider: provider, taskId, agentId });
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to create embeddings:', error);
+      res.status(500).json({ message: 'Failed to create embeddings' });
+    }
+  });
+
+  app.get('/api/embeddings/cache', async (req, res) => {
+    try {
+      res.json({
+        config: embeddingService.getConfig(),
+        models: await embeddingService.getCacheStats(),
+      });
+    } catch (error) {
+      console.error('Failed to get embedding cache stats:', error);
+      res.status(500).json({ message: 'Failed to get embedding cache stats' });
+    }
+  });
+
+  app.delete('/api/embeddings/cache', async (req, res) => {
+    try {
+      const model = req.query.model as string | undefined;
+      await embeddingService.clearCache(model);
+      res.json({ message: model ? `Embedding cache cleared for ${model}` : 'Embedding cache cleared' });
+    } catch (error) {
+      console.error('Failed to clear embedding cache:', error);
+      res.status(500).json({ message: 'Failed to clear embedding cache' });
+    }
+  });
+
+  // LLM call traces, filterable by task, agent and execution
+  app.get('/api/llm-calls', async (req, res) => {
+    try {
+      res.json(await llmTraceService.getCalls({
+        taskId: req.query.taskId as string | undefined,
+        agentId: req.query.agentId as string | undefined,
+        executionId: req.query.executionId as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      }));
+    } catch (error) {
+      console.error('Failed to get LLM calls:', error);
+      res.status(500).json({ message: 'Failed to get LLM calls' });
+    }
+  });
+
+  app.get('/api/llm-calls/config', async (req, res) => {
+    res.json(llmTraceService.getConfig());
+  });
+
+  app.get('/api/llm-calls/:id', async (req, res) => {
+    try {
+      const call = await llmTraceService.getCall(req.params.id);
+      if (!call) {
+        return res.status(404).json({ message: 'LLM call not found' });
+      }
+      res.json(call);
+    } catch (error) {
+      console.error('Failed to get LLM call:', error);
+      res.status(500).json({ message: 'Failed to get LLM call' });
+    }
+  });
+
+  // Model pricing catalog
+  app.get('/api/pricing', async (req, res) => {
+    try {
+      const provider = req.query.provider as string | undefined;
+      res.json(pricingService.listRates(provider));
+    } catch (error) {
+      console.error('Failed to get pricing catalog:', error);
+      res.status(500).json({ message: 'Failed to get pricing catalog' });
+    }
+  });
+
+  app.get('/api/pricing/:provider/:model', async (req, res) => {
+    try {
+      const at = req.query.at ? new Date(req.query.at as string) : new Date();
+      res.json(pricingService.getRate(req.params.provider, req.params.model, at));
+    } catch (error) {
+      console.error('Failed to get model price:', error);
+      res.status(500).json({ message: 'Failed to get model price' });
+    }
+  });
+
+  app.post('/api/pricing', async (req, res) => {
+    try {
+      const pricingData = insertModelPricingSchema.parse(normalizePricingBody(req.body));
+      const pricing = await pricingService.createRate(pricingData);
+
+      broadcastUpdate({
+        type: 'budget_update',
+        data: { action: 'pricing_created', pricing },
+        timestamp: new Date().toISOString(),
+      });
+
+      res.status(201).json(pricing);
+    } catch (error) {
+      console.error('Failed to create pricing entry:', error);
+      res.status(500).json({ message: 'Failed to create pricing entry' });
+    }
+  });
+
+  app.put('/api/pricing/:id', async (req, res) => {
+    try {
+      const updates = insertModelPricingSchema.partial().parse(normalizePricingBody(req.body));
+      const pricing = await pricingService.updateRate(req.params.id, updates);
+
+      broadcastUpdate({
+        type: 'budget_update',
+        data: { action: 'pricing_updated', pricing },
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json(pricing);
+    } catch (error) {
+      console.error('Failed to update pricing entry:', error);
+      res.status(500).json({ message: 'Failed to update pricing entry' });
+    }
+  });
+
+  app.delete('/api/pricing/:id', async (req, res) => {
+    try {
+      await pricingService.deleteRate(req.params.id);
+
+      broadcastUpdate({
+        type: 'budget_update',
+        data: { action: 'pricing_deleted', pricingId: req.params.id },
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json({ message: 'Pricing entry deleted' });
+    } catch (error) {
+      console.error('Failed to delete pricing entry:', error);
+      res.status(500).json({ message: 'Failed to delete pricing entry' });
+    }
+  });
+
+  // Prompt library: versioned planner/observer prompts, per-provider overrides and A/B weights
+  app.get('/api/prompts', async (req, res) => {
+    try {
+      const name = req.query.name as string | undefined;
+      res.json(await promptLibraryService.listPrompts(name));
+    } catch (error) {
+      console.error('Failed to get prompt library:', error);
+      res.status(500).json({ message: 'Failed to get prompt library' });
+    }
+  });
+
+  // Plan confidence and execution outcomes per version of a prompt
+  app.get('/api/prompts/:name/stats', async (req, res) => {
+    try {
+      res.json(await storage.getPromptVersionStats(req.params.name));
+    } catch (error) {
+      console.error('Failed to get prompt version stats:', error);
+      res.status(500).json({ message: 'Failed to get prompt version stats' });
+    }
+  });
+
+  app.post('/api/prompts', async (req, res) => {
+    try {
+      const templateData = insertPromptTemplateSchema.parse({ variables: [], ...req.body });
+      const template = await promptLibraryService.createVersion(templateData);
+      res.status(201).json(template);
+    } catch (error) {
+      console.error('Failed to create prompt version:', error);
+      res.status(500).json({ message: 'Failed to create prompt version' });
+    }
+  });
+
+  // Only weight, isActive and notes can change; create a new version to change the text
+  app.patch('/api/prompts/:id', async (req, res) => {
+    try {
+      const existing = await storage.getPromptTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Prompt version not found' });
+      }
+
+      const updates = insertPromptTemplateSchema.pick({ weight: true, isActive: true, notes: true }).partial().parse(req.body);
+      res.json(await promptLibraryService.updateVersion(req.params.id, updates));
+    } catch (error) {
+      console.error('Failed to update prompt version:', error);
+      res.status(500).json({ message: 'Failed to update prompt version' });
+    }
+  });
+
+  app.delete('/api/prompts/:id', async (req, res) => {
+    try {
+      await promptLibraryService.deleteVersion(req.params.id);
+      res.json({ message: 'Prompt version deleted' });
+    } catch (error) {
+      console.error('Failed to delete prompt version:', error);
+      res.status(500).json({ message: 'Failed to delete prompt version' });
+    }
+  });
+
+  app.get('/api/llm-providers/circuits', async (req, res) => {
+    try {
+      res.json({
+        circuits: llmRouter.getCircuitStates(),
+        config: circuitBreakerService.getConfig(),
+      });
+    } catch (error) {
+      console.error('Failed to get circuit breaker states:', error);
+      res.status(500).json({ message: 'Failed to get circuit breaker states' });
+    }
+  });
+
+  app.post('/api/llm-providers/:provider/circuit/reset', async (req, res) => {
+    try {
+      if (!llmRouter.getProviderNames().includes(req.params.provider)) {
+        return res.status(404).json({ message: 'Provider not found' });
+      }
+
+      circuitBreakerService.reset(req.params.provider);
+      res.json(circuitBreakerService.getSnapshot(req.params.provider));
+    } catch (error) {
+      console.error('Failed to reset circuit breaker:', error);
+      res.status(500).json({ message: 'Failed to reset circuit breaker' });
+    }
+  });
+
+  // Current provider health from background probes and recent traffic
+  app.get('/api/llm-providers/health', async (req, res) => {
+    try {
+      res.json({
+        providers: providerHealthService.getHealth(),
+        config: providerHealthService.getConfig(),
+      });
+    } catch (error) {
+      console.error('Failed to get provider health:', error);
+      res.status(500).json({ message: 'Failed to get provider health' });
+    }
+  });
+
+  // Reliability time series, e.g. ?hours=168&bucket=hour for a week of hourly points
+  app.get('/api/llm-providers/health/history', async (req, res) => {
+    try {
+      const hours = req.query.hours ? parseInt(req.query.hours as string, 10) : 24;
+      const bucket = req.query.bucket as string | undefined;
+      if (bucket && !['snapshot', 'hour', 'day'].includes(bucket)) {
+        return res.status(400).json({ message: 'bucket must be snapshot, hour or day' });
+      }
+
+      const history = await providerHealthService.getHistory({
+        provider: req.query.provider as string | undefined,
+        since: new Date(Date.now() - hours * 60 * 60 * 1000),
+        bucket: bucket as HistoryBucket | undefined,
+      });
+      res.json(history);
+    } catch (error) {
+      console.error('Failed to get provider health history:', error);
+      res.status(500).json({ message: 'Failed to get provider health history' });
+    }
+  });
+
+  app.post('/api/llm-providers/:provider/probe', async (req, res) => {
+    try {
+      if (!llmRouter.getProviderNames().includes(req.params.provider)) {
+        return res.status(404).json({ message: 'Provider not found' });
+      }
+
+      res.json(await providerHealthService.probe(req.params.provider));
+    } catch (error) {
+      console.error('Failed to probe provider:', error);
+      res.status(500).json({ message: 'Failed to probe provider' });
+    }
+  });
+
+  // Recent budget routing decisions; the full audit trail is in the 'llm-routing' log category
+  app.get('/api/llm-providers/routing', async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      res.json({
+        decisions: llmRouter.getRecentRoutingDecisions(limit),
+        config: routingPolicyService.getConfig(),
+      });
+    } catch (error) {
+      console.error('Failed to get routing decisions:', error);
+      res.status(500).json({ message: 'Failed to get routing decisions' });
+    }
+  });
+
   // ===== ERROR RECOVERY ENDPOINTS =====
 
   // Error Instance Management
@@ -0,0 +1,259 @@
+import { storage } from "../storage";
+import { llmRouter } from "./llmRouter";
+import { cosineSimilarity } from "./embeddingService";
+import { isAbortError } from "./cancellationService";
+import { promptLibraryService, type PromptVersion } from "./promptLibraryService";
+import { agentAssignmentSchema, structuredOutputService } from "./structuredOutputService";
+import type { PlanStep } from "./planSteps";
+import type { Agent, Task } from "@shared/schema";
+
+export type AssignmentStrategy = 'embedding' | 'llm';
+
+interface AssignmentConfig {
+  strategy: AssignmentStrategy;
+  roleBonus: number; // added to the score of the agent whose role the planner named
+  loadPenalty: number; // subtracted per step already assigned to the agent
+}
+
+export interface AssignmentCandidate {
+  agentId: string;
+  score: number;
+}
+
+export interface StepAssignment {
+  agentId: string | null;
+  strategy: AssignmentStrategy | 'override';
+  score: number;
+  rationale: string;
+  candidates: AssignmentCandidate[]; // best first
+  overridden: boolean;
+  model?: string; // embedding model the scores came from
+  promptVersion?: PromptVersion;
+}
+
+// Operator overrides are kept on the task as { [stepId]: agentId } so they survive plan revisions
+export function getAssignmentOverrides(task: Task): Record<string, string> {
+  return ((task.metadata as { assignmentOverrides?: Record<string, string> } | null)?.assignmentOverrides) || {};
+}
+
+function roleMatches(agent: Agent, role: string): boolean {
+  const agentRole = agent.role.toLowerCase();
+  const wanted = role.toLowerCase();
+  return !!wanted && (agentRole === wanted || agentRole.includes(wanted) || wanted.includes(agentRole));
+}
+
+function agentProfile(agent: Agent): string {
+  const toolset = Array.isArray(agent.toolset) ? (agent.toolset as string[]).join(', ') : '';
+  return `${agent.role}: ${agent.description}${toolset ? `\nTools: ${toolset}` : ''}`;
+}
+
+function stepProfile(step: PlanStep): string {
+  return [
+    step.description,
+    step.assignedRole && `Role: ${step.assignedRole}`,
+    step.inputs.length > 0 && `Inputs: ${step.inputs.join(', ')}`,
+    step.outputs.length > 0 && `Outputs: ${step.outputs.join(', ')}`,
+  ].filter(Boolean).join('\n');
+}
+
+// Picks the agent for each plan step. The embedding strategy scores every agent's role,
+// description and toolset against the step, favours the role the planner named and
+// penalises agents that already hold steps; the llm strategy has the router rank them
+// and falls back to embeddings for steps it leaves out or when it fails. Each assignment
+// keeps its rationale, and operator overrides always win.
+export class AgentAssignmentService {
+  private config: AssignmentConfig;
+
+  constructor() {
+    this.config = {
+      strategy: (process.env.AGENT_ASSIGNMENT_STRATEGY as AssignmentStrategy) || 'embedding',
+      roleBonus: parseFloat(process.env.AGENT_ASSIGNMENT_ROLE_BONUS || '0.3'),
+      loadPenalty: parseFloat(process.env.AGENT_ASSIGNMENT_LOAD_PENALTY || '0.1'),
+    };
+  }
+
+  getConfig(): AssignmentConfig {
+    return { ...this.config };
+  }
+
+  async assign(
+    task: Task,
+    agents: Agent[],
+    steps: PlanStep[],
+    options: { signal?: AbortSignal } = {}
+  ): Promise<Map<string, StepAssignment>> {
+    const assignments = new Map<string, StepAssignment>();
+    if (agents.length === 0) {
+      steps.forEach(step => assignments.set(step.id, {
+        agentId: null,
+        strategy: this.config.strategy,
+        score: 0,
+        rationale: 'No agents on the task',
+        candidates: [],
+        overridden: false,
+      }));
+      return assignments;
+    }
+
+    // Overrides count towards load so the remaining steps are spread around them
+    const load: Record<string, number> = {};
+    const overrides = getAssignmentOverrides(task);
+    steps.forEach(step => {
+      const agent = agents.find(candidate => candidate.id === overrides[step.id]);
+      if (agent) {
+        assignments.set(step.id, {
+          agentId: agent.id,
+          strategy: 'override',
+          score: 1,
+          rationale: `Assigned to ${agent.name} by an operator`,
+          candidates: [],
+          overridden: true,
+        });
+        load[agent.id] = (load[agent.id] || 0) + 1;
+      }
+    });
+
+    const remaining = steps.filter(step => !assignments.has(step.id));
+    if (remaining.length > 0 && this.config.strategy === 'llm') {
+      try {
+        await this.assignWithLlm(task, agents, remaining, load, assignments, options.signal);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        await storage.createLog({
+          level: 'warn',
+          category: 'task',
+          message: `LLM agent assignment failed, using embedding similarity: ${(error as Error).message}`,
+          taskId: task.id,
+        });
+      }
+    }
+
+    const unassigned = steps.filter(step => !assignments.has(step.id));
+    if (unassigned.length > 0) {
+      await this.assignWithEmbeddings(task, agents, unassigned, load, assignments, options.signal);
+    }
+
+    await storage.createLog({
+      level: 'info',
+      category: 'task',
+      message: `Assigned ${steps.length} steps to ${Object.keys(load).length} of ${agents.length} agents`,
+      data: {
+        strategy: this.config.strategy,
+        assignments: steps.map(step => ({
+          stepId: step.id,
+          agentId: assignments.get(step.id)!.agentId,
+          strategy: assignments.get(step.id)!.strategy,
+          score: assignments.get(step.id)!.score,
+        })),
+      },
+      taskId: task.id,
+    });
+
+    return assignments;
+  }
+
+  private async assignWithEmbeddings(
+    task: Task,
+    agents: Agent[],
+    steps: PlanStep[],
+    load: Record<string, number>,
+    assignments: Map<string, StepAssignment>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    // One call so agent and step vectors come from the same model
+    const embedding = await llmRouter.embed(
+      [...agents.map(agentProfile), ...steps.map(stepProfile)],
+      { taskId: task.id, signal }
+    );
+    const agentVectors = embedding.vectors.slice(0, agents.length);
+    const stepVectors = embedding.vectors.slice(agents.length);
+
+    // Steps are placed in plan order, so load reflects the assignments made so far
+    steps.forEach((step, index) => {
+      const scored = agents.map((agent, agentIndex) => {
+        const similarity = cosineSimilarity(stepVectors[index], agentVectors[agentIndex]);
+        const roleBonus = roleMatches(agent, step.assignedRole) ? this.config.roleBonus : 0;
+        const penalty = (load[agent.id] || 0) * this.config.loadPenalty;
+        return { agent, similarity, roleBonus, penalty, score: similarity + roleBonus - penalty };
+      }).sort((a, b) => b.score - a.score);
+
+      const best = scored[0];
+      const priorLoad = load[best.agent.id] || 0;
+      load[best.agent.id] = priorLoad + 1;
+
+      const reasons = [`similarity ${best.similarity.toFixed(2)} to ${best.agent.role}`];
+      if (best.roleBonus > 0) reasons.push(`planner assigned role "${step.assignedRole}"`);
+      if (priorLoad > 0) reasons.push(`${priorLoad} step${priorLoad === 1 ? '' : 's'} already assigned`);
+      if (scored.length > 1) {
+        reasons.push(`ahead of ${scored[1].agent.name} (${scored[1].score.toFixed(2)})`);
+      }
+
+      assignments.set(step.id, {
+        agentId: best.agent.id,
+        strategy: 'embedding',
+        score: Number(best.score.toFixed(4)),
+        rationale: `${best.agent.name}: ${reasons.join(', ')}`,
+        candidates: scored.slice(0, 3).map(({ agent, score }) => ({ agentId: agent.id, score: Number(score.toFixed(4)) })),
+        overridden: false,
+        model: embedding.model,
+      });
+    });
+  }
+
+  // Steps the model skips or gives to an unknown agent are left for the embedding strategy
+  private async assignWithLlm(
+    task: Task,
+    agents: Agent[],
+    steps: PlanStep[],
+    load: Record<string, number>,
+    assignments: Map<string, StepAssignment>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const { messages, version: promptVersion } = promptLibraryService.render('agent_assigner', {
+      provider: 'router',
+      variables: {
+        taskDescription: task.description,
+        agents: agents.map(agent => {
+          const assigned = load[agent.id] ? ` (already assigned ${load[agent.id]} steps)` : '';
+          return `- ${agent.name}${assigned}: ${agentProfile(agent).replace(/\n/g, '; ')}`;
+        }).join('\n'),
+        steps: JSON.stringify(steps, null, 2),
+      },
+      assignmentKey: task.id,
+    });
+
+    const { value: result } = await structuredOutputService.generate({
+      provider: 'router',
+      schemaName: 'agent_assignment',
+      schema: agentAssignmentSchema,
+      messages,
+      taskId: task.id,
+      complete: (attemptMessages) => llmRouter.chat(attemptMessages, {
+        taskId: task.id,
+        signal,
+        temperature: 0.1,
+      }),
+    });
+
+    result.assignments.forEach(choice => {
+      const step = steps.find(candidate => candidate.id === choice.stepId);
+      const name = choice.agent.trim().toLowerCase();
+      const agent = agents.find(candidate => candidate.name.toLowerCase() === name) ||
+        agents.find(candidate => candidate.role.toLowerCase() === name);
+      if (!step || !agent || assignments.has(step.id)) return;
+
+      load[agent.id] = (load[agent.id] || 0) + 1;
+      assignments.set(step.id, {
+        agentId: agent.id,
+        strategy: 'llm',
+        score: choice.confidence / 100,
+        rationale: `${agent.name}: ${choice.rationale || 'chosen by the planner'}`,
+        candidates: [{ agentId: agent.id, score: choice.confidence / 100 }],
+        overridden: false,
+        promptVersion,
+      });
+    });
+  }
+}
+
+export const agentAssignmentService = new AgentAssignmentService();
@@ -1,6 +1,18 @@
 import { storage } from "../storage";
 import { llmRouter, type LLMProvider } from "./llmRouter";
 import { timelineService } from "./timelineService";
+import { conversationService } from "./conversationService";
+import { isAbortError } from "./cancellationService";
+import { llmTraceService } from "./llmTraceService";
+import { observerConsensusService, type ConsensusCritique } from "./observerConsensusService";
+import type { LLMMessage } from "./llmProvider";
+import {
+  contextBudgetService,
+  countTokens,
+  truncateToTokens,
+  type CompactionReport,
+  type ContextSummarizer,
+} from "./contextBudgetService";
 import type { Agent, InsertAgent, AgentExecution, Task } from "@shared/schema";
 
 export interface AgentGenerationRequest {
@@ -14,8 +26,13 @@ export interface AgentExecutionRequest {
   action: string;
   input: any;
   context?: string;
+  priorOutputs?: string[]; // outputs of earlier steps, oldest first
+  signal?: AbortSignal; // aborted when the task is paused or cancelled
 }
 
+// Prompt scaffolding (role labels, section headings) not covered by the sections' own counts
+const PROMPT_OVERHEAD_TOKENS = 64;
+
 export interface CollaborationRequest {
   fromAgentId: string;
   toAgentId: string;
@@ -44,7 +61,10 @@ export class AgentService {
       const CONFIDENCE_THRESHOLD = 80;
       let iteration = 0;
       let bestTeamGeneration: any = null;
+      let bestCritiques: { agentCritique: any; planCritique: any } | null = null;
       let bestConfidence = 0;
+      // Observer disagreements from every iteration, kept with the plan for review
+      const disagreements: any[] = [];
 
       while (iteration < MAX_ITERATIONS) {
         iteration++;
@@ -63,7 +83,7 @@ export class AgentService {
         );
 
         // AgentObserver critique - evaluate agent suitability
-        const agentCritique = await llmRouter.observeAndCritique(
+        const agentCritique = await observerConsensusService.critique(
           teamGeneration.agents,
           `Task: ${request.taskDescription}\nPriority: ${request.priority}`,
           'plan',
@@ -71,13 +91,18 @@ export class AgentService {
         );
 
         // PlanObserver critique - evaluate plan rationality
-        const planCritique = await llmRouter.observeAndCritique(
+        const planCritique = await observerConsensusService.critique(
           teamGeneration.executionPlan,
           `Task: ${request.taskDescription}\nAgents: ${teamGeneration.agents.map((a: any) => a.role).join(', ')}`,
           'plan',
           { taskId: request.taskId }
         );
 
+        disagreements.push(
+          ...this.describeDisagreement(agentCritique, 'agents', iteration),
+          ...this.describeDisagreement(planCritique, 'plan', iteration)
+        );
+
         const avgConfidence = (agentCritique.confidence + planCritique.confidence) / 2;
 
         await storage.createLog({
@@ -96,6 +121,7 @@ export class AgentService {
         // Keep best generation so far
         if (avgConfidence > bestConfidence) {
           bestTeamGeneration = teamGeneration;
+          bestCritiques = { agentCritique, planCritique };
           bestConfidence = avgConfidence;
         }
 
@@ -129,12 +155,25 @@ export class AgentService {
       const teamGeneration = bestTeamGeneration;
 
       // Create execution plan
+      // Prompt versions and observer scores are kept with the plan so prompt library
+      // versions can be compared on outcomes
       const executionPlan = await storage.createExecutionPlan({
         taskId: request.taskId,
         plannerOutput: teamGeneration,
         agentRoles: teamGeneration.agents,
         executionSteps: teamGeneration.executionPlan.steps,
         status: 'draft',
+        observerFeedback: {
+          confidence: bestConfidence,
+          iterations: iteration,
+          agentCritique: bestCritiques?.agentCritique,
+          planCritique: bestCritiques?.planCritique,
+          disagreements,
+        },
+        promptVersions: {
+          ...(teamGeneration.promptVersion ? { planner: teamGeneration.promptVersion } : {}),
+          ...(bestCritiques?.planCritique?.promptVersion ? { observer: bestCritiques.planCritique.promptVersion } : {}),
+        },
       });
 
       // Create agents in database and track timeline events
@@ -197,6 +236,8 @@ export class AgentService {
   // Execute an action with a specific agent
   async executeAgentAction(request: AgentExecutionRequest): Promise<AgentExecution> {
     const startTime = Date.now();
+    // Prompt versions of the plan the agent came from, recorded on the execution either way
+    let promptVersions: unknown;
     
     try {
       const agent = await storage.getAgent(request.agentId);
@@ -204,6 +245,11 @@ export class AgentService {
         throw new Error(`Agent ${request.agentId} not found`);
       }
 
+      if (agent.taskId) {
+        const [plan] = await storage.getExecutionPlansByTask(agent.taskId);
+        promptVersions = plan?.promptVersions ?? undefined;
+      }
+
       // Update agent status to working and record start event
       await storage.updateAgent(request.agentId, { 
         status: 'working',
@@ -211,7 +257,7 @@ export class AgentService {
       });
 
       // Record agent execution start event
-      await timelineService.recordAgentEvent(
+      const startEvent = await timelineService.recordAgentEvent(
         agent.taskId || '',
         request.agentId,
         'agent_started',
@@ -232,14 +278,21 @@ export class AgentService {
         agentId: request.agentId,
       });
 
+      const { context, userInput, history, requestText, report } = await this.buildAgentContext(agent, request);
+
       // Use LLM Router to execute the action with fallback support
       const execution = await llmRouter.executeAgentAction(
         agent.prompt,
-        request.context || agent.memoryContext || "",
-        `Action: ${request.action}\nInput: ${JSON.stringify(request.input)}`,
+        context,
+        userInput,
         { 
           agentId: request.agentId,
-          taskId: agent.taskId || undefined
+          taskId: agent.taskId || undefined,
+          stream: true, // Relay output to the dashboard as it is generated
+          tools: (agent.toolset as string[]) || [],
+          parentEventId: startEvent.id, // Tool invocations are recorded under this event
+          history,
+          signal: request.signal,
         }
       );
 
@@ -256,6 +309,15 @@ export class AgentService {
         tokensUsed: execution.tokensUsed,
         cost: execution.cost.toString(),
         duration,
+        metadata: { contextBudget: report, promptVersions },
+      });
+      await llmTraceService.linkExecution(request.agentId, new Date(startTime), agentExecution.id);
+
+      await conversationService.recordTurn(request.agentId, {
+        request: requestText,
+        response: execution.response,
+        taskId: agent.taskId || undefined,
+        executionId: agentExecution.id,
       });
 
       // Update agent with new confidence and memory context
@@ -263,9 +325,9 @@ export class AgentService {
         status: 'idle',
         confidence: execution.confidence.toString(),
         memoryContext: {
+          ...((agent.memoryContext || {}) as Record<string, any>),
           lastAction: request.action,
           lastResponse: execution.response,
-          executionHistory: agent.memoryContext?.executionHistory || [],
         },
         updatedAt: new Date(),
       });
@@ -304,6 +366,11 @@ export class AgentService {
       return agentExecution;
     } catch (error) {
       const duration = Date.now() - startTime;
+
+      if (isAbortError(error)) {
+        await this.recordCancelledExecution(request, error as Error, duration, promptVersions);
+        throw error;
+      }
       
       // Create failed execution record
       const agentExecution = await storage.createAgentExecution({
@@ -315,7 +382,9 @@ export class AgentService {
         status: 'failed',
         duration,
         error: error instanceof Error ? error.message : String(error),
+        metadata: promptVersions ? { promptVersions } : undefined,
       });
+      await llmTraceService.linkExecution(request.agentId, new Date(startTime), agentExecution.id);
 
       // Update agent status to error
       await storage.updateAgent(request.agentId, { 
@@ -357,6 +426,86 @@ export class AgentService {
     }
   }
 
+  // A paused or cancelled task's in-flight action is recorded as cancelled, not failed, and
+  // leaves the agent idle so it can pick up again when the task resumes
+  private async recordCancelledExecution(
+    request: AgentExecutionRequest,
+    error: Error,
+    duration: number,
+    promptVersions: unknown
+  ): Promise<void> {
+    const agent = await storage.getAgent(request.agentId);
+
+    const agentExecution = await storage.createAgentExecution({
+      agentId: request.agentId,
+      taskId: agent?.taskId || undefined,
+      action: request.action,
+      input: request.input,
+      output: {},
+      status: 'cancelled',
+      duration,
+      error: error.message,
+      metadata: promptVersions ? { promptVersions } : undefined,
+    });
+    await llmTraceService.linkExecution(request.agentId, new Date(Date.now() - duration), agentExecution.id);
+
+    await storage.updateAgent(request.agentId, {
+      status: 'idle',
+      updatedAt: new Date(),
+    });
+
+    if (agent) {
+      try {
+        await timelineService.recordExecutionEvent(
+          agent.taskId || '',
+          request.agentId,
+          agentExecution.id,
+          'execution_cancelled',
+          agentExecution,
+          {
+            action: request.action,
+            duration,
+            reason: error.message,
+            timestamp: new Date().toISOString(),
+          }
+        );
+      } catch (timelineError) {
+        console.error('Failed to record timeline event for cancelled execution:', timelineError);
+      }
+    }
+
+    await storage.createLog({
+      level: 'info',
+      category: 'agent',
+      message: `Agent execution cancelled: ${error.message}`,
+      data: { action: request.action, duration },
+      taskId: agent?.taskId || undefined,
+      agentId: request.agentId,
+    });
+  }
+
+  // Observer votes behind a consensus critique that split, in the shape stored on plans
+  private describeDisagreement(critique: any, target: string, iteration?: number): any[] {
+    const consensus = (critique as ConsensusCritique).consensus;
+    if (!consensus?.disagreement) {
+      return [];
+    }
+
+    return [{
+      target,
+      iteration,
+      ...consensus.disagreement,
+      votes: consensus.votes.map(({ observer, confidence, needsRefinement, suggestions }) => ({
+        observer,
+        confidence,
+        needsRefinement,
+        suggestions,
+      })),
+      decided: { confidence: critique.confidence, needsRefinement: critique.needsRefinement },
+      recordedAt: new Date().toISOString(),
+    }];
+  }
+
   // Facilitate collaboration between agents
   async facilitateCollaboration(request: CollaborationRequest): Promise<any> {
     try {
@@ -453,31 +602,78 @@ export class AgentService {
   }
 
   // Observer pattern implementation for plan and execution monitoring
-  async observeAndRefine(taskId: string, type: 'plan' | 'execution'): Promise<any> {
+  async observeAndRefine(taskId: string, type: 'plan' | 'execution', signal?: AbortSignal): Promise<any> {
     try {
       const task = await storage.getTaskWithAgents(taskId);
       if (!task) {
         throw new Error(`Task ${taskId} not found`);
       }
 
+      const context = `Task: ${task.title}\nDescription: ${task.description}\nAgents: ${task.agents.map(a => a.role).join(', ')}`;
+      const budget = contextBudgetService.getInputBudget(llmRouter.getFallbackOrder()) -
+        countTokens(context) - PROMPT_OVERHEAD_TOKENS;
+
+      // Targets are only replaced by their compacted text when they don't fit the budget
       let observationTarget;
       if (type === 'plan') {
         const plans = await storage.getExecutionPlansByTask(taskId);
-        observationTarget = plans[0]; // Get latest plan
+        const { sections, report } = await contextBudgetService.fit(
+          'observer_plan',
+          [{ name: 'plan', kind: 'text', text: JSON.stringify(plans[0] ?? null) }], // Get latest plan
+          Math.max(budget, 0),
+          { taskId }
+        );
+        observationTarget = report.compacted ? sections.plan : plans[0];
       } else {
+        // Executions come newest first; the budget keeps the most recent ones whole
         const executions = await storage.getExecutionsByTask(taskId);
-        observationTarget = executions;
+        const { sections, report } = await contextBudgetService.fit(
+          'observer_execution',
+          [{
+            name: 'executions',
+            kind: 'list',
+            items: [...executions].reverse().map(execution => JSON.stringify({
+              action: execution.action,
+              status: execution.status,
+              input: execution.input,
+              output: execution.output,
+              error: execution.error,
+            })),
+          }],
+          Math.max(budget, 0),
+          { taskId }
+        );
+        observationTarget = report.compacted ? sections.executions : executions;
       }
 
-      const context = `Task: ${task.title}\nDescription: ${task.description}\nAgents: ${task.agents.map(a => a.role).join(', ')}`;
-
-      const observation = await llmRouter.observeAndCritique(
+      const observation = await observerConsensusService.critique(
         observationTarget,
         context,
         type,
-        { taskId }
+        { taskId, signal }
       );
 
+      // The review, and any disagreement over it, is kept with the plan version it reviewed
+      if (type === 'plan') {
+        const disagreement = this.describeDisagreement(observation, 'plan_review');
+        const [plan] = await storage.getExecutionPlansByTask(taskId);
+        if (plan) {
+          const feedback = (plan.observerFeedback || {}) as Record<string, any>;
+          await storage.updateExecutionPlan(plan.id, {
+            observerFeedback: {
+              ...feedback,
+              review: {
+                confidence: observation.confidence,
+                needsRefinement: observation.needsRefinement,
+                feedback: observation.feedback,
+                suggestions: observation.suggestions,
+              },
+              disagreements: [...(feedback.disagreements || []), ...disagreement],
+            },
+          });
+        }
+      }
+
       await storage.createLog({
         level: 'info',
         category: 'agent',
@@ -502,6 +698,105 @@ export class AgentService {
     }
   }
 
+  // Fits the agent's conversation history, earlier step outputs and the action input into
+  // the context window of the providers the call may be routed to, leaving room for the
+  // response. The oldest turns are summarized first, then step outputs; the input is
+  // truncated last.
+  private async buildAgentContext(agent: Agent, request: AgentExecutionRequest): Promise<{
+    context: string;
+    userInput: string;
+    history: LLMMessage[];
+    requestText: string; // what is stored in the transcript for this turn
+    report: CompactionReport;
+  }> {
+    const { executionHistory, lastAction, lastResponse, ...notes } = (agent.memoryContext || {}) as Record<string, any>;
+    const transcript = conversationService.toHistory(await conversationService.getTranscript(agent.id));
+
+    const header = [
+      request.context || '',
+      Object.keys(notes).length > 0 ? `Notes: ${JSON.stringify(notes)}` : '',
+    ].filter(Boolean).join('\n');
+
+    const fixedTokens = countTokens(agent.prompt) + countTokens(header) + countTokens(request.action) + PROMPT_OVERHEAD_TOKENS;
+    const budget = contextBudgetService.getInputBudget(llmRouter.getFallbackOrder()) - fixedTokens;
+
+    const { sections, report } = await contextBudgetService.fit(
+      'agent_action',
+      [
+        { name: 'history', kind: 'list', items: transcript.map(message => message.content), minTokens: 512 },
+        { name: 'priorOutputs', kind: 'list', items: request.priorOutputs || [], minTokens: 1024 },
+        { name: 'input', kind: 'text', text: JSON.stringify(request.input) ?? '', minTokens: 256 },
+      ],
+      Math.max(budget, 0),
+      { summarize: this.createContextSummarizer(agent, request.signal), taskId: agent.taskId || undefined, agentId: agent.id }
+    );
+
+    const { history, summary } = this.restoreHistory(transcript, sections.history as string[]);
+    const priorOutputs = sections.priorOutputs as string[];
+
+    const context = [
+      header,
+      summary ? `Earlier conversation:\n${summary}` : '',
+    ].filter(Boolean).join('\n\n');
+
+    const requestText = `Action: ${request.action}\nInput: ${sections.input}`;
+    const userInput = priorOutputs.length > 0
+      ? `${requestText}\nOutputs of earlier steps:\n${priorOutputs.join('\n---\n')}`
+      : requestText;
+
+    return { context, userInput, history, requestText, report };
+  }
+
+  // Compaction keeps the newest turns verbatim. Those are replayed with their roles;
+  // whatever precedes them is the summary of older turns (or, if even the last turn
+  // didn't fit, that turn truncated) and goes into the context instead.
+  private restoreHistory(transcript: LLMMessage[], compacted: string[]): { history: LLMMessage[]; summary?: string } {
+    let kept = 0;
+    while (
+      kept < compacted.length &&
+      kept < transcript.length &&
+      compacted[compacted.length - 1 - kept] === transcript[transcript.length - 1 - kept].content
+    ) {
+      kept++;
+    }
+
+    // Replayed history must start with a user turn
+    if (kept > 0 && transcript[transcript.length - kept].role === 'assistant') {
+      kept--;
+    }
+
+    const leftover = compacted.slice(0, compacted.length - kept);
+    return {
+      history: transcript.slice(transcript.length - kept),
+      summary: leftover.length > 0 ? leftover.join('\n') : undefined,
+    };
+  }
+
+  // Summaries are requested from a lightweight model; the entries sent are themselves
+  // capped so the summary call can't overflow the window it is meant to protect
+  private createContextSummarizer(agent: Agent, signal?: AbortSignal): ContextSummarizer {
+    return async (entries, targetTokens) => {
+      const budget = contextBudgetService.getInputBudget(llmRouter.getFallbackOrder(), targetTokens) - PROMPT_OVERHEAD_TOKENS;
+      const response = await llmRouter.chat(
+        [
+          {
+            role: 'system',
+            content: 'Summarize these notes from earlier work. Keep decisions, results and open issues; drop repetition. Reply with the summary only.',
+          },
+          { role: 'user', content: truncateToTokens(entries.join('\n---\n'), Math.max(budget, 0)) },
+        ],
+        {
+          isLightweight: true,
+          maxTokens: targetTokens,
+          taskId: agent.taskId || undefined,
+          agentId: agent.id,
+          signal,
+        }
+      );
+      return response.content;
+    };
+  }
+
   // Get comprehensive agent status for monitoring
   async getAgentStatus(agentId: string): Promise<any> {
     const agent = await storage.getAgentWithExecutions(agentId);
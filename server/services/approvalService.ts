@@ -0,0 +1,179 @@
+import { EventEmitter } from "events";
+import { storage } from "../storage";
+import { createAbortError, throwIfAborted } from "./cancellationService";
+import type { Task, TaskApproval } from "@shared/schema";
+
+export type ApprovalGate = 'plan' | 'step' | 'cost';
+export type ApprovalDecision = 'approve' | 'reject' | 'modify';
+
+export interface ApprovalPolicy {
+  plan: boolean; // review the team and plan between drafting and execution
+  steps: string[]; // ids of plan steps reviewed before they start
+  costThreshold: number | null; // USD; steps estimated to cost at least this much are reviewed first
+}
+
+export interface AgentEdit {
+  id: string;
+  description?: string;
+  prompt?: string;
+  toolset?: string[];
+  suggestions?: string;
+}
+
+export interface ApprovalEdits {
+  steps?: unknown[]; // plan gate: replacement execution steps, stored as the next plan version
+  agents?: AgentEdit[]; // plan gate: changes to members of the team
+  instructions?: string; // step and cost gates: guidance handed to the step's agent
+}
+
+export interface ApprovalRequest {
+  task: Task;
+  gate: ApprovalGate;
+  planId: string;
+  stepId?: string;
+  proposal: Record<string, unknown>;
+  resumeStatus: string; // task status restored once nothing is left awaiting approval
+}
+
+const DECIDED_STATUSES: Record<ApprovalDecision, string> = {
+  approve: 'approved',
+  reject: 'rejected',
+  modify: 'modified',
+};
+
+export function normalizeApprovalPolicy(raw: unknown): ApprovalPolicy {
+  const policy = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const threshold = Number(policy.costThreshold);
+  return {
+    plan: policy.plan === true,
+    steps: Array.isArray(policy.steps) ? policy.steps.map(String) : [],
+    costThreshold: policy.costThreshold !== null && policy.costThreshold !== undefined && threshold >= 0
+      ? threshold
+      : null,
+  };
+}
+
+// The policy is kept on the task as metadata.approvalPolicy; tasks without one run ungated
+export function getApprovalPolicy(task: Task): ApprovalPolicy {
+  return normalizeApprovalPolicy((task.metadata as { approvalPolicy?: unknown } | null)?.approvalPolicy);
+}
+
+// Human approval gates. A task run asks for approval and waits until a reviewer approves,
+// rejects or modifies the proposal; the decision is stored with the request, so a run
+// resumed after a restart finds the decisions already made instead of asking again.
+// Emits 'requested' and 'decided' with the approval for the realtime feed.
+export class ApprovalService extends EventEmitter {
+  private waiters = new Map<string, (approval: TaskApproval) => void>();
+
+  async waitForApproval(request: ApprovalRequest, signal: AbortSignal): Promise<TaskApproval> {
+    throwIfAborted(signal);
+    const { task, gate, planId, stepId } = request;
+
+    // Newest first, so this is the latest request at the same gate
+    const [previous] = (await storage.getTaskApprovals(task.id)).filter(approval =>
+      approval.gate === gate && approval.planId === planId && (approval.stepId ?? null) === (stepId ?? null)
+    );
+    if (previous && (previous.status === 'approved' || previous.status === 'modified')) {
+      return previous;
+    }
+
+    let approval = previous?.status === 'pending' ? previous : undefined;
+    if (!approval) {
+      approval = await storage.createTaskApproval({
+        taskId: task.id,
+        planId,
+        gate,
+        stepId: stepId ?? null,
+        status: 'pending',
+        proposal: request.proposal,
+      });
+      await storage.createLog({
+        level: 'info',
+        category: 'task',
+        message: `Awaiting approval at the ${gate} gate${stepId ? ` before step ${stepId}` : ''}`,
+        data: { approvalId: approval.id, gate, stepId, planId },
+        taskId: task.id,
+      });
+    }
+
+    await storage.updateTask(task.id, { status: 'awaiting_approval' });
+    this.emit('requested', approval);
+
+    const pendingId = approval.id;
+    const decided = await new Promise<TaskApproval>((resolve, reject) => {
+      // The request stays pending, so a paused run picks it up again when resumed
+      const onAbort = () => {
+        this.waiters.delete(pendingId);
+        reject(signal.reason ?? createAbortError());
+      };
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      const deliver = (result: TaskApproval) => {
+        signal.removeEventListener('abort', onAbort);
+        this.waiters.delete(pendingId);
+        resolve(result);
+      };
+      this.waiters.set(pendingId, deliver);
+
+      // A decision made while the request was being stored found no waiter to hand it to;
+      // decide() writes the row before looking for one, so re-reading it now catches that
+      storage.getTaskApproval(pendingId).then(current => {
+        if (current && current.status !== 'pending' && this.waiters.get(pendingId) === deliver) {
+          deliver(current);
+        }
+      }, error => {
+        signal.removeEventListener('abort', onAbort);
+        this.waiters.delete(pendingId);
+        reject(error);
+      });
+    });
+
+    // Steps running in parallel may still be waiting on gates of their own
+    const stillPending = (await storage.getTaskApprovals(task.id)).some(pending => pending.status === 'pending');
+    if (!stillPending) {
+      await storage.updateTask(task.id, { status: request.resumeStatus });
+    }
+
+    return decided;
+  }
+
+  // Returns whether a waiting run received the decision; when none did (the server restarted
+  // or the task was paused) the caller resumes the task so it picks the decision up
+  async decide(
+    approvalId: string,
+    decision: ApprovalDecision,
+    input: { reason?: string; edits?: ApprovalEdits; decidedBy?: string } = {}
+  ): Promise<{ approval: TaskApproval; delivered: boolean }> {
+    const approval = await storage.updateTaskApproval(approvalId, {
+      status: DECIDED_STATUSES[decision],
+      reason: input.reason ?? null,
+      edits: decision === 'modify' ? input.edits ?? null : null,
+      decidedBy: input.decidedBy ?? null,
+      decidedAt: new Date(),
+    });
+
+    await storage.createLog({
+      level: 'info',
+      category: 'task',
+      message: `Approval at the ${approval.gate} gate ${approval.status}${input.reason ? `: ${input.reason}` : ''}`,
+      data: { approvalId, gate: approval.gate, stepId: approval.stepId, decision, decidedBy: input.decidedBy },
+      taskId: approval.taskId,
+    });
+    this.emit('decided', approval);
+
+    const waiter = this.waiters.get(approvalId);
+    if (waiter) {
+      waiter(approval);
+    }
+    return { approval, delivered: !!waiter };
+  }
+
+  async getPending(taskId: string): Promise<TaskApproval[]> {
+    return (await storage.getTaskApprovals(taskId)).filter(approval => approval.status === 'pending');
+  }
+}
+
+export const approvalService = new ApprovalService();
@@ -1,4 +1,6 @@
 import { storage } from "../storage";
+import { responseCacheService } from "./responseCacheService";
+import { pricingService } from "./pricingService";
 import type { 
   Budget, 
   InsertBudget, 
@@ -19,6 +21,19 @@ export interface BudgetAlert {
   entityId?: string;
 }
 
+// The most utilized active budget that applies to a call, used for budget-aware routing
+export interface BudgetPressure {
+  budgetId: string;
+  budgetName: string;
+  entityType: string;
+  entityId?: string;
+  utilizationPercentage: number;
+  warningThreshold: number; // lowest configured alert threshold
+  alertLevel: 'ok' | 'warning' | 'critical' | 'exceeded';
+}
+
+const PRESSURE_LEVELS: BudgetPressure['alertLevel'][] = ['ok', 'warning', 'critical', 'exceeded'];
+
 export interface CostTrackingOptions {
   provider: string;
   operation: string;
@@ -28,6 +43,8 @@ export interface CostTrackingOptions {
   cost: number;
   currency?: string;
   ratePerToken?: number;
+  cached?: boolean;
+  savedCost?: number;
   metadata?: any;
 }
 
@@ -109,12 +126,14 @@ export class BudgetService {
   }
 
   // Cost Tracking
+  // Calls made outside a task or agent (planning, embeddings, chat) still count towards
+  // the global budgets; the execution is unknown until the agent's action has finished
   async trackCost(
-    taskId: string,
-    agentId: string,
-    executionId: string,
+    taskId: string | undefined,
+    agentId: string | undefined,
+    executionId: string | undefined,
     options: CostTrackingOptions
-  ): Promise<CostEntry> {
+  ): Promise<CostEntry | undefined> {
     // Find applicable budgets
     const budgets = await this.findApplicableBudgets(taskId, agentId);
 
@@ -135,6 +154,8 @@ export class BudgetService {
         cost: options.cost.toString(),
         currency: options.currency || 'USD',
         ratePerToken: options.ratePerToken?.toString(),
+        cached: options.cached || false,
+        savedCost: options.savedCost?.toString(),
         metadata: options.metadata,
       });
 
@@ -146,7 +167,9 @@ export class BudgetService {
       await storage.createLog({
         level: 'debug',
         category: 'budget',
-        message: `Cost tracked: $${options.cost} for ${options.operation}`,
+        message: options.cached
+          ? `Cache hit tracked: saved $${options.savedCost || 0} for ${options.operation}`
+          : `Cost tracked: $${options.cost} for ${options.operation}`,
         data: {
           budgetId: budget.id,
           taskId,
@@ -163,7 +186,7 @@ export class BudgetService {
     return costEntries[0];
   }
 
-  private async findApplicableBudgets(taskId: string, agentId: string): Promise<Budget[]> {
+  private async findApplicableBudgets(taskId?: string, agentId?: string): Promise<Budget[]> {
     const budgets: Budget[] = [];
 
     // Global budgets
@@ -171,12 +194,16 @@ export class BudgetService {
     budgets.push(...globalBudgets.filter(b => b.isActive));
 
     // Task-specific budgets
-    const taskBudgets = await storage.getBudgetsByType('task', taskId);
-    budgets.push(...taskBudgets.filter(b => b.isActive));
+    if (taskId) {
+      const taskBudgets = await storage.getBudgetsByType('task', taskId);
+      budgets.push(...taskBudgets.filter(b => b.isActive));
+    }
 
     // Agent-specific budgets
-    const agentBudgets = await storage.getBudgetsByType('agent', agentId);
-    budgets.push(...agentBudgets.filter(b => b.isActive));
+    if (agentId) {
+      const agentBudgets = await storage.getBudgetsByType('agent', agentId);
+      budgets.push(...agentBudgets.filter(b => b.isActive));
+    }
 
     return budgets;
   }
@@ -239,6 +266,43 @@ export class BudgetService {
     return 'warning';
   }
 
+  // Calls made outside a task are still held to the global budgets
+  async getBudgetPressure(taskId?: string, agentId?: string): Promise<BudgetPressure | null> {
+    const budgets = await this.findApplicableBudgets(taskId, agentId);
+
+    let pressure: BudgetPressure | null = null;
+
+    for (const budget of budgets) {
+      const limitAmount = parseFloat(budget.limitAmount);
+      if (!(limitAmount > 0)) continue;
+
+      const utilizationPercentage = (parseFloat(budget.currentSpent || '0') / limitAmount) * 100;
+      const thresholds = (budget.alertThresholds as number[]) || [50, 75, 90];
+      const warningThreshold = thresholds.length > 0 ? Math.min(...thresholds) : 50;
+      const alertLevel = utilizationPercentage >= warningThreshold
+        ? this.getAlertLevel(utilizationPercentage)
+        : 'ok';
+
+      // Budgets with thresholds crossed win over fuller budgets that are still below theirs
+      if (pressure) {
+        const severity = PRESSURE_LEVELS.indexOf(alertLevel) - PRESSURE_LEVELS.indexOf(pressure.alertLevel);
+        if (severity < 0 || (severity === 0 && utilizationPercentage <= pressure.utilizationPercentage)) continue;
+      }
+
+      pressure = {
+        budgetId: budget.id,
+        budgetName: budget.name,
+        entityType: budget.type,
+        entityId: budget.entityId || undefined,
+        utilizationPercentage,
+        warningThreshold,
+        alertLevel,
+      };
+    }
+
+    return pressure;
+  }
+
   async getAllBudgetAlerts(): Promise<BudgetAlert[]> {
     const budgets = await storage.getAllBudgets();
     const alerts: BudgetAlert[] = [];
@@ -386,6 +450,40 @@ export class BudgetService {
     return summary;
   }
 
+  // Savings from LLM response cache hits, overall and per active budget
+  async getCacheSavings(): Promise<{
+    totalSaved: number;
+    tokensSaved: number;
+    totalHits: number;
+    cachedResponses: number;
+    cacheEnabled: boolean;
+    budgets: Array<{ budgetId: string; budgetName: string; hits: number; costSaved: number }>;
+  }> {
+    const [stats, budgets] = await Promise.all([
+      responseCacheService.getStats(),
+      storage.getAllBudgets(),
+    ]);
+
+    const budgetSavings = await Promise.all(
+      budgets
+        .filter(budget => budget.isActive)
+        .map(async budget => ({
+          budgetId: budget.id,
+          budgetName: budget.name,
+          ...(await storage.getCachedSavingsForBudget(budget.id)),
+        }))
+    );
+
+    return {
+      totalSaved: stats.costSaved,
+      tokensSaved: stats.tokensSaved,
+      totalHits: stats.totalHits,
+      cachedResponses: stats.entries,
+      cacheEnabled: stats.enabled,
+      budgets: budgetSavings,
+    };
+  }
+
   // Predictive Cost Estimation
   async estimateTaskCost(
     taskDescription: string,
@@ -401,15 +499,8 @@ export class BudgetService {
     const defaultProvider = provider || 'groq';
     const defaultTokens = estimatedTokens || 1000;
 
-    // Rough token pricing (would be dynamic in production)
-    const tokenPricing: Record<string, number> = {
-      'groq': 0.0001,    // $0.0001 per token (example)
-      'gemini': 0.00015, // $0.00015 per token (example)  
-      'ollama': 0,       // Free (local)
-    };
-
-    const baseTokenCost = tokenPricing[defaultProvider] || 0.0001;
-    const estimatedCost = defaultTokens * baseTokenCost;
+    // Priced from the model catalog at the provider-wide rate
+    const estimatedCost = pricingService.estimateCost(defaultProvider, undefined, defaultTokens);
 
     return {
       estimatedCost,
@@ -0,0 +1,100 @@
+import { storage } from "../storage";
+
+export type CancellationReason = 'paused' | 'cancelled';
+
+// Abort errors are recognized by name, which is also what fetch uses when a request is aborted
+export function createAbortError(reason: CancellationReason | string = 'cancelled'): Error {
+  const error = new Error(`Operation ${reason}`);
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw signal.reason ?? createAbortError();
+  }
+}
+
+// setTimeout that rejects as soon as the signal aborts
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason ?? createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// One AbortController per running task. Task execution takes the signal when it starts
+// and passes it down through the agent service and the LLM router into each provider's
+// fetch; pausing or cancelling the task aborts it, which stops in-flight requests,
+// retries, rate limiter waits and the pauses between steps.
+export class CancellationService {
+  private controllers = new Map<string, AbortController>();
+  private reasons = new Map<string, CancellationReason>();
+
+  begin(taskId: string): AbortSignal {
+    const controller = new AbortController();
+    this.controllers.get(taskId)?.abort(createAbortError('superseded'));
+    this.controllers.set(taskId, controller);
+    this.reasons.delete(taskId);
+    return controller.signal;
+  }
+
+  // Only clears the scope if it still belongs to the given signal
+  end(taskId: string, signal: AbortSignal): void {
+    if (this.controllers.get(taskId)?.signal === signal) {
+      this.controllers.delete(taskId);
+    }
+  }
+
+  getSignal(taskId: string): AbortSignal | undefined {
+    return this.controllers.get(taskId)?.signal;
+  }
+
+  getReason(taskId: string): CancellationReason | undefined {
+    return this.reasons.get(taskId);
+  }
+
+  isRunning(taskId: string): boolean {
+    const controller = this.controllers.get(taskId);
+    return !!controller && !controller.signal.aborted;
+  }
+
+  // Returns whether work was in flight to stop
+  async cancel(taskId: string, reason: CancellationReason): Promise<boolean> {
+    const controller = this.controllers.get(taskId);
+    this.reasons.set(taskId, reason);
+    if (!controller || controller.signal.aborted) {
+      return false;
+    }
+
+    controller.abort(createAbortError(reason));
+
+    await storage.createLog({
+      level: 'info',
+      category: 'task',
+      message: `Task ${reason}, in-flight work aborted`,
+      data: { reason },
+      taskId,
+    });
+
+    return true;
+  }
+}
+
+export const cancellationService = new CancellationService();
@@ -0,0 +1,245 @@
+import { EventEmitter } from "events";
+import { storage } from "../storage";
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface CircuitBreakerConfig {
+  failureRateThreshold: number; // 0-1, fraction of failed requests in the window
+  minimumRequests: number; // requests needed in the window before the rate is evaluated
+  windowMs: number;
+  cooldownMs: number;
+}
+
+interface ProviderCircuit {
+  state: CircuitState;
+  outcomes: Array<{ at: number; success: boolean }>;
+  openedAt?: number;
+  trialStartedAt?: number;
+  lastTransitionAt: number;
+  lastError?: string;
+}
+
+export interface CircuitTransition {
+  provider: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+  failureRate: number;
+  timestamp: string;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  failureRate: number;
+  requestsInWindow: number;
+  failuresInWindow: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  trialInFlight: boolean;
+  lastError: string | null;
+}
+
+// Per-provider circuit breakers. A closed circuit opens once the failure rate over the
+// rolling window crosses the threshold; after the cool-down it goes half-open and lets a
+// single trial request through, which either closes the circuit or re-opens it.
+// Transitions are emitted as 'transition' events.
+export class CircuitBreakerService extends EventEmitter {
+  private config: CircuitBreakerConfig;
+  private circuits = new Map<string, ProviderCircuit>();
+
+  constructor() {
+    super();
+    this.config = {
+      failureRateThreshold: parseFloat(process.env.LLM_BREAKER_FAILURE_RATE || '0.5'),
+      minimumRequests: parseInt(process.env.LLM_BREAKER_MIN_REQUESTS || '5', 10),
+      windowMs: parseInt(process.env.LLM_BREAKER_WINDOW_SECONDS || '60', 10) * 1000,
+      cooldownMs: parseInt(process.env.LLM_BREAKER_COOLDOWN_SECONDS || '30', 10) * 1000,
+    };
+  }
+
+  getConfig(): CircuitBreakerConfig {
+    return { ...this.config };
+  }
+
+  getState(provider: string): CircuitState {
+    return this.getCircuit(provider).state;
+  }
+
+  // Whether a request could be sent to the provider right now. Does not reserve the
+  // half-open trial; use tryAcquire immediately before sending the request.
+  isCallPermitted(provider: string): boolean {
+    const circuit = this.getCircuit(provider);
+    const now = Date.now();
+
+    switch (circuit.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return now - (circuit.openedAt || 0) >= this.config.cooldownMs;
+      case 'half_open':
+        return !this.isTrialInFlight(circuit, now);
+    }
+  }
+
+  // Reserves permission to send a request. Once the cool-down has elapsed an open
+  // circuit moves to half-open and only the first caller gets the trial request.
+  tryAcquire(provider: string): boolean {
+    const circuit = this.getCircuit(provider);
+    const now = Date.now();
+
+    if (circuit.state === 'closed') {
+      return true;
+    }
+
+    if (circuit.state === 'open') {
+      if (now - (circuit.openedAt || 0) < this.config.cooldownMs) {
+        return false;
+      }
+      this.transition(provider, circuit, 'half_open', 'Cool-down elapsed, probing with a trial request');
+    }
+
+    if (this.isTrialInFlight(circuit, now)) {
+      return false;
+    }
+
+    circuit.trialStartedAt = now;
+    return true;
+  }
+
+  recordSuccess(provider: string): void {
+    const circuit = this.getCircuit(provider);
+
+    if (circuit.state === 'half_open') {
+      circuit.outcomes = [];
+      circuit.trialStartedAt = undefined;
+      this.transition(provider, circuit, 'closed', 'Trial request succeeded');
+      return;
+    }
+
+    this.addOutcome(circuit, true);
+  }
+
+  recordFailure(provider: string, error?: Error): void {
+    const circuit = this.getCircuit(provider);
+    circuit.lastError = error?.message;
+
+    if (circuit.state === 'half_open') {
+      circuit.trialStartedAt = undefined;
+      circuit.openedAt = Date.now();
+      this.transition(provider, circuit, 'open', `Trial request failed: ${error?.message || 'unknown error'}`);
+      return;
+    }
+
+    this.addOutcome(circuit, false);
+
+    if (circuit.state === 'closed') {
+      const { requests, failures } = this.countWindow(circuit);
+      if (requests >= this.config.minimumRequests && failures / requests >= this.config.failureRateThreshold) {
+        circuit.openedAt = Date.now();
+        this.transition(provider, circuit, 'open', `Failure rate ${failures}/${requests} exceeded threshold`);
+      }
+    }
+  }
+
+  // Gives back a reserved trial without an outcome, e.g. when the request was cancelled
+  release(provider: string): void {
+    this.getCircuit(provider).trialStartedAt = undefined;
+  }
+
+  // Manually closes a circuit, e.g. after an operator fixes a provider's credentials
+  reset(provider: string): void {
+    const circuit = this.getCircuit(provider);
+    circuit.outcomes = [];
+    circuit.openedAt = undefined;
+    circuit.trialStartedAt = undefined;
+    circuit.lastError = undefined;
+    if (circuit.state !== 'closed') {
+      this.transition(provider, circuit, 'closed', 'Manually reset');
+    }
+  }
+
+  getSnapshot(provider: string): CircuitSnapshot {
+    const circuit = this.getCircuit(provider);
+    const now = Date.now();
+    const { requests, failures } = this.countWindow(circuit);
+
+    return {
+      state: circuit.state,
+      failureRate: requests > 0 ? failures / requests : 0,
+      requestsInWindow: requests,
+      failuresInWindow: failures,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null,
+      retryAt: circuit.state === 'open' && circuit.openedAt
+        ? new Date(circuit.openedAt + this.config.cooldownMs).toISOString()
+        : null,
+      trialInFlight: circuit.state === 'half_open' && this.isTrialInFlight(circuit, now),
+      lastError: circuit.lastError || null,
+    };
+  }
+
+  getAllSnapshots(): Record<string, CircuitSnapshot> {
+    const snapshots: Record<string, CircuitSnapshot> = {};
+    this.circuits.forEach((_, provider) => {
+      snapshots[provider] = this.getSnapshot(provider);
+    });
+    return snapshots;
+  }
+
+  private getCircuit(provider: string): ProviderCircuit {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], lastTransitionAt: Date.now() };
+      this.circuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+
+  // A trial that never reports back (e.g. a hung request) stops blocking after a cool-down
+  private isTrialInFlight(circuit: ProviderCircuit, now: number): boolean {
+    return circuit.trialStartedAt !== undefined &&
+      now - circuit.trialStartedAt < this.config.cooldownMs;
+  }
+
+  private addOutcome(circuit: ProviderCircuit, success: boolean): void {
+    const now = Date.now();
+    circuit.outcomes.push({ at: now, success });
+    circuit.outcomes = circuit.outcomes.filter(outcome => now - outcome.at <= this.config.windowMs);
+  }
+
+  private countWindow(circuit: ProviderCircuit): { requests: number; failures: number } {
+    const now = Date.now();
+    const recent = circuit.outcomes.filter(outcome => now - outcome.at <= this.config.windowMs);
+    return {
+      requests: recent.length,
+      failures: recent.filter(outcome => !outcome.success).length,
+    };
+  }
+
+  private transition(provider: string, circuit: ProviderCircuit, to: CircuitState, reason: string): void {
+    const from = circuit.state;
+    const { requests, failures } = this.countWindow(circuit);
+
+    circuit.state = to;
+    circuit.lastTransitionAt = Date.now();
+
+    const event: CircuitTransition = {
+      provider,
+      from,
+      to,
+      reason,
+      failureRate: requests > 0 ? failures / requests : 0,
+      timestamp: new Date(circuit.lastTransitionAt).toISOString(),
+    };
+
+    this.emit('transition', event);
+
+    storage.createLog({
+      level: to === 'open' ? 'warn' : 'info',
+      category: 'circuit-breaker',
+      message: `Circuit for ${provider} ${from} -> ${to}: ${reason}`,
+      data: event,
+    }).catch(error => console.error('Failed to log circuit transition:', error));
+  }
+}
+
+export const circuitBreakerService = new CircuitBreakerService();
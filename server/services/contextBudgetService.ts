@@ -0,0 +1,287 @@
+import { storage } from "../storage";
+import { ANY_MODEL } from "./pricingService";
+import { isAbortError } from "./cancellationService";
+
+interface ContextBudgetConfig {
+  windows: Record<string, number>; // keyed by "provider" or "provider:model"
+  maxInputTokens: number; // cap on prompt size regardless of the model's window
+  reservedOutputTokens: number;
+}
+
+// A part of a prompt that can be compacted. List sections hold entries oldest first
+// (memory, prior step outputs); text sections are single blocks (inputs, plans).
+export type ContextSection =
+  | { name: string; kind: 'text'; text: string; minTokens?: number }
+  | { name: string; kind: 'list'; items: string[]; minTokens?: number };
+
+export interface CompactionDecision {
+  section: string;
+  action: 'kept' | 'truncated' | 'summarized' | 'dropped';
+  originalTokens: number;
+  finalTokens: number;
+  itemsSummarized?: number;
+  itemsDropped?: number; // entries left out without a summary
+}
+
+export interface CompactionReport {
+  label: string;
+  budgetTokens: number;
+  reservedOutputTokens: number;
+  originalTokens: number;
+  finalTokens: number;
+  compacted: boolean;
+  decisions: CompactionDecision[];
+  timestamp: string;
+}
+
+export interface CompactedContext {
+  sections: Record<string, string | string[]>;
+  report: CompactionReport;
+}
+
+// Summarizes entries dropped from a list section into at most targetTokens
+export type ContextSummarizer = (entries: string[], targetTokens: number) => Promise<string>;
+
+// Context windows (tokens) of the default models; LLM_CONTEXT_WINDOWS overrides these
+const DEFAULT_CONTEXT_WINDOWS: Record<string, number> = {
+  groq: 131072,
+  gemini: 1048576,
+  perplexity: 127072,
+  ollama: 8192, // Ollama's num_ctx default is far below the models' native windows
+};
+
+const UNKNOWN_MODEL_WINDOW = 8192;
+
+// countTokens is an estimate, not the providers' tokenizers. It lands within a few percent on
+// English prose and JSON but can undercount code, URLs and non-Latin text by up to about 15%,
+// so input budgets are cut by this share to keep an undercounted prompt inside the window
+const TOKEN_ESTIMATE_HEADROOM = 0.15;
+
+// Same pre-tokenization split GPT-style BPE tokenizers apply before merging: contractions,
+// letter runs, digit runs, punctuation runs and whitespace
+const PRETOKENIZE_PATTERN = /'(?:s|t|re|ve|m|ll|d)| ?[A-Za-zÀ-￿]+| ?[0-9]+| ?[^\sA-Za-z0-9À-￿]+|\s+/g;
+
+// Counts tokens by pre-tokenizing and approximating BPE merges per piece: common words
+// are one token, long words split every ~6 characters, digits group in threes and
+// punctuation runs in pairs. See TOKEN_ESTIMATE_HEADROOM for its error margin.
+export function countTokens(text: string): number {
+  const pieces = text.match(PRETOKENIZE_PATTERN);
+  if (!pieces) return 0;
+
+  let tokens = 0;
+  for (const piece of pieces) {
+    const trimmed = piece.trimStart();
+    if (trimmed.length === 0) {
+      tokens += 1;
+    } else if (/^[0-9]/.test(trimmed)) {
+      tokens += Math.ceil(trimmed.length / 3);
+    } else if (/^[A-Za-zÀ-￿]/.test(trimmed)) {
+      tokens += Math.ceil(trimmed.length / 6);
+    } else {
+      tokens += Math.ceil(trimmed.length / 2);
+    }
+  }
+  return tokens;
+}
+
+// Parses LLM_CONTEXT_WINDOWS, e.g. "ollama=32768,groq:llama-3.1-8b-instant=131072"
+export function parseContextWindows(spec: string): Record<string, number> {
+  const windows: Record<string, number> = {};
+
+  for (const entry of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf('=');
+    const tokens = parseInt(entry.slice(separator + 1), 10);
+    if (separator <= 0 || !(tokens > 0)) {
+      console.warn(`Ignoring malformed LLM_CONTEXT_WINDOWS entry "${entry}"`);
+      continue;
+    }
+    windows[entry.slice(0, separator).trim()] = tokens;
+  }
+
+  return windows;
+}
+
+// Keeps the head and tail of a block, which usually carry the instruction and the most
+// recent material, and cuts the middle
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const total = countTokens(text);
+  if (total <= maxTokens) return text;
+
+  const keepRatio = Math.max(0, maxTokens - 16) / total;
+  const keepChars = Math.floor(text.length * keepRatio);
+  const head = text.slice(0, Math.ceil(keepChars * 0.6));
+  const tail = text.slice(text.length - Math.floor(keepChars * 0.4));
+  return `${head}\n[... ${total - countTokens(head) - countTokens(tail)} tokens omitted ...]\n${tail}`;
+}
+
+// Fallback when no summarizer is available: the opening of each dropped entry
+function extractiveSummary(entries: string[], targetTokens: number): string {
+  const perEntry = Math.max(8, Math.floor(targetTokens / Math.max(entries.length, 1)) - 4);
+  return entries.map(entry => `- ${truncateToTokens(entry, perEntry).split('\n')[0]}`).join('\n');
+}
+
+// Fits prompt sections into a per-model token budget that reserves room for the output.
+// Sections are compacted in the order given: list sections summarize their oldest entries
+// and text sections are truncated, each down to its minimum, until the prompt fits.
+export class ContextBudgetService {
+  private config: ContextBudgetConfig;
+
+  constructor() {
+    this.config = {
+      windows: { ...DEFAULT_CONTEXT_WINDOWS, ...parseContextWindows(process.env.LLM_CONTEXT_WINDOWS || '') },
+      maxInputTokens: parseInt(process.env.LLM_CONTEXT_MAX_INPUT_TOKENS || '24000', 10),
+      reservedOutputTokens: parseInt(process.env.LLM_CONTEXT_RESERVED_OUTPUT_TOKENS || '4096', 10),
+    };
+  }
+
+  getConfig(): ContextBudgetConfig {
+    return { ...this.config, windows: { ...this.config.windows } };
+  }
+
+  getContextWindow(provider: string, model: string = ANY_MODEL): number {
+    return this.config.windows[`${provider}:${model}`] ||
+      this.config.windows[provider] ||
+      UNKNOWN_MODEL_WINDOW;
+  }
+
+  // The call may land on any provider in the fallback order, so the smallest window wins
+  getInputBudget(providers: string[], reservedOutputTokens = this.config.reservedOutputTokens): number {
+    const smallestWindow = providers.length > 0
+      ? Math.min(...providers.map(provider => this.getContextWindow(provider)))
+      : UNKNOWN_MODEL_WINDOW;
+    const budget = Math.min(smallestWindow - reservedOutputTokens, this.config.maxInputTokens);
+    return Math.max(0, Math.floor(budget * (1 - TOKEN_ESTIMATE_HEADROOM)));
+  }
+
+  async fit(
+    label: string,
+    sections: ContextSection[],
+    budgetTokens: number,
+    options: { summarize?: ContextSummarizer; taskId?: string; agentId?: string } = {}
+  ): Promise<CompactedContext> {
+    const current: Record<string, string | string[]> = {};
+    const decisions: CompactionDecision[] = [];
+
+    for (const section of sections) {
+      current[section.name] = section.kind === 'text' ? section.text : [...section.items];
+      const tokens = this.measure(current[section.name]);
+      decisions.push({ section: section.name, action: 'kept', originalTokens: tokens, finalTokens: tokens });
+    }
+
+    const originalTokens = decisions.reduce((sum, decision) => sum + decision.originalTokens, 0);
+    let overflow = originalTokens - budgetTokens;
+
+    for (let i = 0; i < sections.length && overflow > 0; i++) {
+      const section = sections[i];
+      const decision = decisions[i];
+      const target = Math.max(section.minTokens || 0, decision.finalTokens - overflow);
+      if (target >= decision.finalTokens) continue;
+
+      if (section.kind === 'text') {
+        current[section.name] = truncateToTokens(current[section.name] as string, target);
+        decision.action = 'truncated';
+      } else {
+        const { items, action, summarized, dropped } =
+          await this.compactList(current[section.name] as string[], target, options.summarize);
+        current[section.name] = items;
+        decision.action = action;
+        if (summarized > 0) decision.itemsSummarized = summarized;
+        if (dropped > 0) decision.itemsDropped = dropped;
+      }
+
+      decision.finalTokens = this.measure(current[section.name]);
+      overflow -= decision.originalTokens - decision.finalTokens;
+    }
+
+    const report: CompactionReport = {
+      label,
+      budgetTokens,
+      reservedOutputTokens: this.config.reservedOutputTokens,
+      originalTokens,
+      finalTokens: decisions.reduce((sum, decision) => sum + decision.finalTokens, 0),
+      compacted: decisions.some(decision => decision.action !== 'kept'),
+      decisions,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (report.compacted) {
+      await this.logCompaction(report, options.taskId, options.agentId);
+    }
+
+    return { sections: current, report };
+  }
+
+  private measure(value: string | string[]): number {
+    return Array.isArray(value)
+      ? value.reduce((sum, item) => sum + countTokens(item), 0)
+      : countTokens(value);
+  }
+
+  // Replaces the oldest entries with one summary entry, keeping the newest entries whole.
+  // If even the newest entry alone is over budget it is truncated and the rest dropped; when
+  // the budget leaves no room for a summary the oldest entries are dropped instead.
+  private async compactList(
+    items: string[],
+    targetTokens: number,
+    summarize?: ContextSummarizer
+  ): Promise<{ items: string[]; action: CompactionDecision['action']; summarized: number; dropped: number }> {
+    // A quarter of the section's budget goes to the summary of older entries
+    const summaryTokens = Math.floor(targetTokens / 4);
+    let keptTokens = 0;
+    let firstKept = items.length;
+
+    while (firstKept > 0 && keptTokens + countTokens(items[firstKept - 1]) <= targetTokens - summaryTokens) {
+      keptTokens += countTokens(items[--firstKept]);
+    }
+
+    const dropped = items.slice(0, firstKept);
+    const kept = items.slice(firstKept);
+
+    if (kept.length === 0 && items.length > 0) {
+      return {
+        items: [truncateToTokens(items[items.length - 1], targetTokens)],
+        action: 'truncated',
+        summarized: 0,
+        dropped: items.length - 1,
+      };
+    }
+    if (dropped.length === 0 || summaryTokens <= 0) {
+      return { items: kept, action: dropped.length > 0 ? 'dropped' : 'kept', summarized: 0, dropped: dropped.length };
+    }
+
+    let summary: string;
+    try {
+      summary = summarize
+        ? await summarize(dropped, summaryTokens)
+        : extractiveSummary(dropped, summaryTokens);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('Context summarization failed, using extractive summary:', error);
+      summary = extractiveSummary(dropped, summaryTokens);
+    }
+
+    return {
+      items: [`Summary of ${dropped.length} earlier entries:\n${truncateToTokens(summary, summaryTokens)}`, ...kept],
+      action: 'summarized',
+      summarized: dropped.length,
+      dropped: 0,
+    };
+  }
+
+  private async logCompaction(report: CompactionReport, taskId?: string, agentId?: string): Promise<void> {
+    try {
+      await storage.createLog({
+        level: 'info',
+        category: 'context-budget',
+        message: `Compacted ${report.label} context from ${report.originalTokens} to ${report.finalTokens} tokens (budget ${report.budgetTokens})`,
+        data: report,
+        taskId: taskId || null,
+        agentId: agentId || null,
+      });
+    } catch (error) {
+      console.error('Failed to log context compaction:', error);
+    }
+  }
+}
+
+export const contextBudgetService = new ContextBudgetService();
@@ -0,0 +1,111 @@
+import { storage } from "../storage";
+import type { AgentMessage } from "@shared/schema";
+import type { LLMMessage } from "./llmProvider";
+
+export type ConversationRole = 'user' | 'assistant';
+
+export interface TruncateOptions {
+  keepLast?: number; // keep only the newest N messages
+  throughSequence?: number; // keep messages up to and including this sequence
+}
+
+// Stored transcript of each agent's conversation. Every agent action appends the request
+// and the response, and the transcript is replayed as chat history on the agent's next
+// action. Operators can edit, delete or truncate messages to steer what the agent recalls.
+export class ConversationService {
+  async getTranscript(agentId: string): Promise<AgentMessage[]> {
+    return await storage.getAgentMessages(agentId);
+  }
+
+  // Consecutive messages with the same role are merged, since some providers reject
+  // turns that don't alternate (e.g. after an operator deleted a message)
+  toHistory(messages: AgentMessage[]): LLMMessage[] {
+    const history: LLMMessage[] = [];
+    for (const message of messages) {
+      const role = message.role as ConversationRole;
+      const previous = history[history.length - 1];
+      if (previous && previous.role === role) {
+        previous.content = `${previous.content}\n\n${message.content}`;
+      } else {
+        history.push({ role, content: message.content });
+      }
+    }
+    return history;
+  }
+
+  async recordTurn(
+    agentId: string,
+    turn: { request: string; response: string; taskId?: string; executionId?: string }
+  ): Promise<AgentMessage[]> {
+    return await storage.appendAgentMessages(agentId, [
+      { role: 'user', content: turn.request, taskId: turn.taskId, executionId: turn.executionId },
+      { role: 'assistant', content: turn.response, taskId: turn.taskId, executionId: turn.executionId },
+    ]);
+  }
+
+  async editMessage(agentId: string, messageId: string, content: string): Promise<AgentMessage> {
+    await this.getOwnedMessage(agentId, messageId);
+    const updated = await storage.updateAgentMessage(messageId, { content, editedAt: new Date() });
+
+    await storage.createLog({
+      level: 'info',
+      category: 'conversation',
+      message: `Message ${updated.sequence} of agent conversation edited`,
+      data: { messageId, sequence: updated.sequence, role: updated.role },
+      agentId,
+    });
+
+    return updated;
+  }
+
+  async deleteMessage(agentId: string, messageId: string): Promise<void> {
+    const message = await this.getOwnedMessage(agentId, messageId);
+    await storage.deleteAgentMessage(messageId);
+
+    await storage.createLog({
+      level: 'info',
+      category: 'conversation',
+      message: `Message ${message.sequence} of agent conversation deleted`,
+      data: { messageId, sequence: message.sequence, role: message.role },
+      agentId,
+    });
+  }
+
+  // Without options the whole transcript is cleared
+  async truncate(agentId: string, options: TruncateOptions = {}): Promise<number> {
+    let removed: number;
+
+    if (options.keepLast !== undefined) {
+      const messages = await storage.getAgentMessages(agentId);
+      const firstKept = messages[messages.length - options.keepLast];
+      removed = options.keepLast >= messages.length
+        ? 0
+        : await storage.deleteAgentMessages(agentId, {
+          afterSequence: firstKept ? undefined : 0, // keepLast 0 clears everything
+          beforeSequence: firstKept?.sequence,
+        });
+    } else {
+      removed = await storage.deleteAgentMessages(agentId, { afterSequence: options.throughSequence ?? 0 });
+    }
+
+    await storage.createLog({
+      level: 'info',
+      category: 'conversation',
+      message: `Agent conversation truncated, ${removed} messages removed`,
+      data: { ...options, removed },
+      agentId,
+    });
+
+    return removed;
+  }
+
+  private async getOwnedMessage(agentId: string, messageId: string): Promise<AgentMessage> {
+    const message = await storage.getAgentMessage(messageId);
+    if (!message || message.agentId !== agentId) {
+      throw new Error(`Message ${messageId} not found for agent ${agentId}`);
+    }
+    return message;
+  }
+}
+
+export const conversationService = new ConversationService();
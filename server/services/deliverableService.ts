@@ -0,0 +1,158 @@
+import { storage } from "../storage";
+import { llmRouter } from "./llmRouter";
+import { contextBudgetService, countTokens, truncateToTokens, type ContextSummarizer } from "./contextBudgetService";
+import { promptLibraryService } from "./promptLibraryService";
+import { normalizePlanSteps } from "./planSteps";
+import type { CritiqueResult } from "./llmProvider";
+import type { Task, TaskDeliverable } from "@shared/schema";
+
+interface DeliverableConfig {
+  maxTokens: number; // response budget for the synthesis call
+}
+
+// Prompt scaffolding (role labels, headings) not covered by the sections' own counts
+const PROMPT_OVERHEAD_TOKENS = 128;
+
+// Assembles a task's final deliverable from the outputs of its completed plan steps. A
+// revision takes the previous version together with the observer's critique and stores
+// the result as the next version, so the latest version is the task's result.
+export class DeliverableService {
+  private config: DeliverableConfig;
+
+  constructor() {
+    this.config = {
+      maxTokens: parseInt(process.env.DELIVERABLE_MAX_TOKENS || '4096', 10),
+    };
+  }
+
+  async synthesize(
+    task: Task,
+    options: { revision?: CritiqueResult; signal?: AbortSignal } = {}
+  ): Promise<TaskDeliverable> {
+    const [plan] = await storage.getExecutionPlansByTask(task.id);
+    if (!plan) {
+      throw new Error('No execution plan found');
+    }
+
+    const states = await storage.getPlanStepStates(plan.id);
+    const sources = normalizePlanSteps(plan.executionSteps)
+      .map(step => ({ step, state: states.find(state => state.stepId === step.id) }))
+      .filter(({ state }) => state?.status === 'completed' && state.output);
+    if (sources.length === 0) {
+      throw new Error('No completed step outputs to build a deliverable from');
+    }
+
+    const [previous] = await storage.getTaskDeliverables(task.id);
+    const revising = !!options.revision && !!previous;
+
+    // Step outputs are summarized before the draft being revised is truncated
+    const fixedTokens = countTokens(task.title) + countTokens(task.description) + PROMPT_OVERHEAD_TOKENS;
+    const budget = contextBudgetService.getInputBudget(llmRouter.getFallbackOrder(), this.config.maxTokens) - fixedTokens;
+    const { sections } = await contextBudgetService.fit(
+      'deliverable',
+      [
+        {
+          name: 'stepOutputs',
+          kind: 'list',
+          items: sources.map(({ step, state }) => `### ${step.id}: ${step.description}\n${state!.output}`),
+          minTokens: 1024,
+        },
+        { name: 'previous', kind: 'text', text: revising ? previous.content : '', minTokens: 1024 },
+      ],
+      Math.max(budget, 0),
+      { summarize: this.createSummarizer(task.id, options.signal), taskId: task.id }
+    );
+
+    const revisionNotes = revising
+      ? [
+        `Previous draft (version ${previous.version}):\n${sections.previous}`,
+        `Observer feedback: ${options.revision!.feedback}`,
+        `Observer suggestions:\n${options.revision!.suggestions.map(suggestion => `- ${suggestion}`).join('\n') || '- None'}`,
+        'Revise the previous draft so it addresses the feedback and suggestions.',
+      ].join('\n\n')
+      : '';
+
+    const { messages, version: promptVersion } = promptLibraryService.render('deliverable_synthesizer', {
+      provider: 'router',
+      variables: {
+        taskTitle: task.title,
+        taskDescription: task.description,
+        stepOutputs: (sections.stepOutputs as string[]).join('\n\n'),
+        revisionNotes,
+      },
+      assignmentKey: task.id,
+    });
+
+    const response = await llmRouter.chat(messages, {
+      taskId: task.id,
+      signal: options.signal,
+      temperature: 0.3,
+      maxTokens: this.config.maxTokens,
+      isComplexReasoning: true,
+    });
+
+    const deliverable = await storage.createTaskDeliverable({
+      taskId: task.id,
+      planId: plan.id,
+      version: (previous?.version || 0) + 1,
+      content: response.content,
+      sourceSteps: sources.map(({ step, state }) => ({
+        stepId: step.id,
+        description: step.description,
+        executionId: state!.executionId,
+      })),
+      refinement: revising
+        ? {
+          fromVersion: previous.version,
+          feedback: options.revision!.feedback,
+          suggestions: options.revision!.suggestions,
+          confidence: options.revision!.confidence,
+        }
+        : null,
+      provider: response.provider,
+      tokensUsed: response.tokensUsed,
+      cost: response.cost.toString(),
+      promptVersion,
+    });
+
+    await storage.createLog({
+      level: 'info',
+      category: 'task',
+      message: revising
+        ? `Deliverable revised to version ${deliverable.version} from observer feedback`
+        : `Deliverable version ${deliverable.version} synthesized from ${sources.length} step outputs`,
+      data: { deliverableId: deliverable.id, version: deliverable.version, tokensUsed: response.tokensUsed },
+      taskId: task.id,
+    });
+
+    return deliverable;
+  }
+
+  async getLatest(taskId: string): Promise<TaskDeliverable | undefined> {
+    const [latest] = await storage.getTaskDeliverables(taskId);
+    return latest;
+  }
+
+  async getVersions(taskId: string): Promise<TaskDeliverable[]> {
+    return await storage.getTaskDeliverables(taskId);
+  }
+
+  private createSummarizer(taskId: string, signal?: AbortSignal): ContextSummarizer {
+    return async (entries, targetTokens) => {
+      const budget = contextBudgetService.getInputBudget(llmRouter.getFallbackOrder(), targetTokens) - PROMPT_OVERHEAD_TOKENS;
+      const response = await llmRouter.chat(
+        [
+          {
+            role: 'system',
+            content: 'Summarize these step outputs. Keep every concrete result (code, figures, decisions, references); drop narration. Reply with the summary only.',
+          },
+          { role: 'user', content: truncateToTokens(entries.join('\n---\n'), Math.max(budget, 0)) },
+        ],
+        { isLightweight: true, maxTokens: targetTokens, taskId, signal }
+      );
+      return response.content;
+    };
+  }
+}
+
+export const deliverableService = new DeliverableService();
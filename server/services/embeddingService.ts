@@ -0,0 +1,206 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import type { EmbeddingResult } from "./llmProvider";
+
+// Name the local embedder goes by in embedding orders, cache entries and results
+export const LOCAL_EMBEDDING_PROVIDER = 'local';
+
+interface EmbeddingConfig {
+  order: string[]; // providers tried in turn; the local embedder never fails
+  localDimensions: number;
+  cacheEnabled: boolean;
+}
+
+// Relative weight of each feature kind in the local embedding
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.7;
+const TRIGRAM_WEIGHT = 0.4;
+
+// FNV-1a, 32-bit
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9À-￿]+/).filter(Boolean);
+}
+
+// Dependency-free embedding using the hashing trick: words, word bigrams and character
+// trigrams are hashed into a fixed number of signed buckets and the result L2-normalized.
+// Captures lexical overlap (including misspellings and inflections via trigrams), not
+// meaning, but works offline and is deterministic.
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  const add = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    // The top bit picks the sign so colliding features tend to cancel rather than pile up
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  const words = tokenize(text);
+  words.forEach((word, index) => {
+    add(`w:${word}`, WORD_WEIGHT);
+    if (index > 0) {
+      add(`b:${words[index - 1]} ${word}`, BIGRAM_WEIGHT);
+    }
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare embeddings of different dimensions (${a.length} and ${b.length})`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Local embedder and Postgres cache behind LLMRouter.embed(). Cached vectors are keyed on
+// provider, model and text, so switching models never mixes incomparable vectors.
+export class EmbeddingService {
+  private config: EmbeddingConfig;
+
+  constructor() {
+    const order = (process.env.LLM_EMBEDDING_ORDER || 'gemini,ollama,local')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+
+    this.config = {
+      order: order.includes(LOCAL_EMBEDDING_PROVIDER) ? order : [...order, LOCAL_EMBEDDING_PROVIDER],
+      localDimensions: parseInt(process.env.LLM_EMBEDDING_LOCAL_DIMENSIONS || '512', 10),
+      cacheEnabled: process.env.LLM_EMBEDDING_CACHE_ENABLED !== 'false',
+    };
+  }
+
+  getConfig(): EmbeddingConfig {
+    return { ...this.config, order: [...this.config.order] };
+  }
+
+  getLocalModel(): string {
+    return `hashed-ngrams-${this.config.localDimensions}`;
+  }
+
+  embedLocally(texts: string[]): EmbeddingResult {
+    return {
+      vectors: texts.map(text => hashEmbedding(text, this.config.localDimensions)),
+      model: this.getLocalModel(),
+      dimensions: this.config.localDimensions,
+      tokensUsed: 0,
+      cost: 0,
+    };
+  }
+
+  // Serves cached vectors and embeds only the remaining distinct texts with compute, which
+  // must use the given provider and model. Cache failures fall through to compute.
+  async embedWithCache(
+    provider: string,
+    model: string,
+    texts: string[],
+    compute: (texts: string[]) => Promise<EmbeddingResult>
+  ): Promise<EmbeddingResult & { cached: number }> {
+    const keys = texts.map(text => this.buildKey(provider, model, text));
+    const vectors = new Map<string, number[]>();
+
+    if (this.config.cacheEnabled) {
+      try {
+        const entries = await storage.getCachedEmbeddings(Array.from(new Set(keys)));
+        entries.forEach(entry => vectors.set(entry.cacheKey, entry.vector as number[]));
+      } catch (error) {
+        console.warn('Failed to read embedding cache:', error);
+      }
+    }
+
+    const cached = keys.filter(key => vectors.has(key)).length;
+    const missing: string[] = [];
+    const missingKeys: string[] = [];
+    keys.forEach((key, index) => {
+      if (!vectors.has(key) && !missingKeys.includes(key)) {
+        missingKeys.push(key);
+        missing.push(texts[index]);
+      }
+    });
+
+    let tokensUsed = 0;
+    let cost = 0;
+    let resultModel = model;
+
+    if (missing.length > 0) {
+      const result = await compute(missing);
+      if (result.vectors.length !== missing.length) {
+        throw new Error(`${provider} returned ${result.vectors.length} embeddings for ${missing.length} texts`);
+      }
+
+      result.vectors.forEach((vector, index) => vectors.set(missingKeys[index], vector));
+      tokensUsed = result.tokensUsed;
+      cost = result.cost;
+      resultModel = result.model;
+
+      if (this.config.cacheEnabled) {
+        try {
+          await storage.saveEmbeddings(result.vectors.map((vector, index) => ({
+            cacheKey: missingKeys[index],
+            provider,
+            model: result.model,
+            dimensions: vector.length,
+            vector,
+            tokensUsed: Math.round(result.tokensUsed / missing.length),
+          })));
+        } catch (error) {
+          console.warn('Failed to write embedding cache:', error);
+        }
+      }
+    }
+
+    const ordered = keys.map(key => vectors.get(key)!);
+    return {
+      vectors: ordered,
+      model: resultModel,
+      dimensions: ordered[0]?.length || 0,
+      tokensUsed,
+      cost,
+      cached,
+    };
+  }
+
+  async getCacheStats() {
+    return await storage.getEmbeddingCacheStats();
+  }
+
+  async clearCache(model?: string): Promise<void> {
+    await storage.clearEmbeddingCache(model);
+
+    await storage.createLog({
+      level: 'info',
+      category: 'embeddings',
+      message: model ? `Embedding cache cleared for ${model}` : 'Embedding cache cleared',
+      data: { model },
+    });
+  }
+
+  private buildKey(provider: string, model: string, text: string): string {
+    return createHash('sha256').update(JSON.stringify([provider, model, text])).digest('hex');
+  }
+}
+
+export const embeddingService = new EmbeddingService();
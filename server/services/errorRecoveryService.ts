@@ -1,4 +1,7 @@
 import { storage } from "../storage";
+import { circuitBreakerService } from "./circuitBreakerService";
+import { rateLimiterService } from "./rateLimiterService";
+import { abortableSleep, isAbortError, throwIfAborted } from "./cancellationService";
 import type { 
   ErrorInstance, 
   InsertErrorInstance, 
@@ -220,6 +223,7 @@ export class ErrorRecoveryService {
       provider?: string;
       operation?: string;
       customRetryConfig?: Partial<RetryConfig>;
+      signal?: AbortSignal; // cancellation is rethrown as-is, without retries or error tracking
     }
   ): Promise<RecoveryResult & { result?: T }> {
     const startTime = Date.now();
@@ -230,6 +234,7 @@ export class ErrorRecoveryService {
     const retryConfig = { ...this.defaultRetryConfig, ...context.customRetryConfig };
 
     while (attempts < retryConfig.maxAttempts) {
+      throwIfAborted(context.signal);
       attempts++;
 
       try {
@@ -251,6 +256,9 @@ export class ErrorRecoveryService {
         };
 
       } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
         lastError = error instanceof Error ? error : new Error(String(error));
         
         // Track the error
@@ -293,9 +301,13 @@ export class ErrorRecoveryService {
             }
           }
 
-          // Wait before retry with exponential backoff
-          const delay = this.calculateDelay(attempts, retryConfig);
-          await this.sleep(delay);
+          // Wait before retry with exponential backoff, or until the provider's Retry-After
+          // pause ends when we were rate limited
+          let delay = this.calculateDelay(attempts, retryConfig);
+          if (this.categorizeError(lastError) === 'rate_limit') {
+            delay = Math.max(delay, Math.min(rateLimiterService.getRetryDelayMs(context.provider), retryConfig.maxDelay));
+          }
+          await abortableSleep(delay, context.signal);
         }
       }
     }
@@ -375,7 +387,11 @@ export class ErrorRecoveryService {
     operation: () => Promise<T>,
     context: any
   ): Promise<{ success: boolean; result?: T }> {
-    // Simplified circuit breaker - would need state management in production
+    // Don't hammer a provider whose circuit is open; the router records outcomes per provider
+    if (context.provider && !circuitBreakerService.isCallPermitted(context.provider)) {
+      return { success: false };
+    }
+
     try {
       const result = await operation();
       return { success: true, result };
@@ -409,10 +425,6 @@ export class ErrorRecoveryService {
     return Math.floor(delay);
   }
 
-  private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   // Recovery Statistics
   private async updateRecoverySuccess(
     error: Error,
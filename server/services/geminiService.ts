@@ -1,11 +1,44 @@
 import { systemLogs } from "@shared/schema";
 import { storage } from "../storage";
+import { readServerSentEvents } from "./streaming";
+import { randomUUID } from "crypto";
+import type {
+  AgentActionResult,
+  AgentTeamDefinition,
+  CritiqueResult,
+  EmbeddingResult,
+  LLMProviderService,
+  ProviderCapabilities,
+  ProviderCompletion,
+  ProviderCompletionOptions,
+  ToolCall,
+  ToolCompletion,
+  ToolDefinition,
+  ToolLoopMessage,
+} from "./llmProvider";
+import { estimateTokens, rateLimiterService } from "./rateLimiterService";
+import { pricingService } from "./pricingService";
+import { agentTeamSchema, critiqueSchema, structuredOutputService } from "./structuredOutputService";
+import { promptLibraryService } from "./promptLibraryService";
+import { llmTraceService } from "./llmTraceService";
 
 interface GeminiMessage {
   role: 'user' | 'model';
   parts: Array<{ text: string }>;
 }
 
+// Parts used in function-calling conversations
+interface GeminiToolPart {
+  text?: string;
+  functionCall?: { name: string; args?: Record<string, any> };
+  functionResponse?: { name: string; response: Record<string, any> };
+}
+
+interface GeminiToolMessage {
+  role: 'user' | 'model';
+  parts: GeminiToolPart[];
+}
+
 interface GeminiResponse {
   candidates: Array<{
     content: {
@@ -18,17 +51,38 @@ interface GeminiResponse {
   usageMetadata: {
     promptTokenCount: number;
     candidatesTokenCount: number;
+    thoughtsTokenCount?: number; // thinking models only
     totalTokenCount: number;
   };
 }
 
+// Thinking tokens are billed at the output rate on top of the answer itself
+function outputTokenCount(usage?: GeminiResponse['usageMetadata']): number {
+  return (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0);
+}
+
 interface GeminiServiceConfig {
   apiKey: string;
   model: string;
+  embeddingModel: string;
   baseUrl: string;
 }
 
-export class GeminiService {
+// batchEmbedContents accepts at most this many texts per request
+const EMBEDDING_BATCH_SIZE = 100;
+
+export class GeminiService implements LLMProviderService {
+  readonly name = 'gemini';
+  readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    tools: true,
+    jsonMode: true,
+    vision: true,
+    research: false,
+    local: false,
+    embeddings: true,
+  };
+
   private config: GeminiServiceConfig;
   private complexReasoningModel = "gemini-2.5-pro"; // For complex reasoning tasks
   private standardModel = "gemini-1.5-flash"; // For standard tasks
@@ -38,6 +92,7 @@ export class GeminiService {
     this.config = {
       apiKey: process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || "",
       model: process.env.GEMINI_MODEL || this.complexReasoningModel,
+      embeddingModel: process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004",
       baseUrl: "https://generativelanguage.googleapis.com/v1beta",
     };
 
@@ -55,6 +110,10 @@ export class GeminiService {
     return this.standardModel;
   }
 
+  async isAvailable(): Promise<boolean> {
+    return !!this.config.apiKey;
+  }
+
   async generateCompletion(
     messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
     options: {
@@ -62,14 +121,13 @@ export class GeminiService {
       maxTokens?: number;
       taskId?: string;
       agentId?: string;
+      model?: string;
+      signal?: AbortSignal;
       isComplexReasoning?: boolean;
       isLightweight?: boolean;
+      jsonMode?: boolean;
     } = {}
-  ): Promise<{
-    content: string;
-    tokensUsed: number;
-    cost: number;
-  }> {
+  ): Promise<ProviderCompletion> {
     if (!this.config.apiKey) {
       throw new Error("Gemini API key not configured");
     }
@@ -84,6 +142,7 @@ export class GeminiService {
         maxOutputTokens: options.maxTokens || 4096,
         topP: 0.95,
         topK: 40,
+        ...(options.jsonMode ? { responseMimeType: 'application/json' } : {}),
       },
       safetySettings: [
         {
@@ -105,23 +164,42 @@ export class GeminiService {
       ]
     };
 
-    try {
-      const selectedModel = this.selectModelForTask({
-        isComplexReasoning: options.isComplexReasoning,
-        isLightweight: options.isLightweight
-      });
+    const selectedModel = options.model || this.selectModelForTask({
+      isComplexReasoning: options.isComplexReasoning,
+      isLightweight: options.isLightweight
+    });
+
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: selectedModel,
+      operation: 'completion',
+      messages,
+      parameters: {
+        temperature: requestBody.generationConfig.temperature,
+        maxTokens: requestBody.generationConfig.maxOutputTokens,
+        jsonMode: options.jsonMode,
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
 
+    try {
       await this.logRequest({ ...requestBody, model: selectedModel }, options.taskId, options.agentId);
 
-      const response = await fetch(
-        `${this.config.baseUrl}/models/${selectedModel}:generateContent?key=${this.config.apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
-        }
+      const estimatedTokens = estimateTokens(messages, requestBody.generationConfig.maxOutputTokens);
+      const response = await rateLimiterService.schedule(this.name, selectedModel, estimatedTokens, () =>
+        fetch(
+          `${this.config.baseUrl}/models/${selectedModel}:generateContent?key=${this.config.apiKey}`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(requestBody),
+            signal: options.signal,
+          }
+        ),
+        options.signal
       );
 
       if (!response.ok) {
@@ -133,90 +211,350 @@ export class GeminiService {
       const data: GeminiResponse = await response.json();
       const content = data.candidates[0]?.content?.parts[0]?.text || "";
       const tokensUsed = data.usageMetadata?.totalTokenCount || 0;
-      const cost = this.calculateCost(tokensUsed);
+      const tokensInput = data.usageMetadata?.promptTokenCount || 0;
+      const tokensOutput = outputTokenCount(data.usageMetadata);
+      const cost = this.calculateCost(selectedModel, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, selectedModel, tokensUsed, estimatedTokens);
 
-      await this.logResponse(data, options.taskId, options.agentId);
+      await this.logResponse(data, selectedModel, options.taskId, options.agentId);
 
-      return {
+      const completion = {
         content,
         tokensUsed,
         cost,
+        tokensInput,
+        tokensOutput,
+        model: selectedModel,
       };
+      await trace.succeed(completion);
+      return completion;
     } catch (error) {
       await this.logError(`Gemini service error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
       throw error;
     }
   }
 
-  async generateAgentTeam(taskDescription: string, taskId?: string): Promise<{
-    agents: Array<{
-      name: string;
-      role: string;
-      prompt: string;
-      description: string;
-      toolset: string[];
-      suggestions: string;
-    }>;
-    executionPlan: {
-      steps: string[];
-      workflow: string;
-      estimatedDuration: string;
+  // Streams completion deltas via streamGenerateContent; usage metadata arrives with the final chunk
+  async *streamCompletion(
+    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+    options: {
+      temperature?: number;
+      maxTokens?: number;
+      taskId?: string;
+      agentId?: string;
+      model?: string;
+      signal?: AbortSignal;
+      isComplexReasoning?: boolean;
+      isLightweight?: boolean;
+    } = {}
+  ): AsyncGenerator<string, ProviderCompletion, unknown> {
+    if (!this.config.apiKey) {
+      throw new Error("Gemini API key not configured");
+    }
+
+    const requestBody = {
+      contents: this.convertToGeminiFormat(messages),
+      generationConfig: {
+        temperature: options.temperature || 0.7,
+        maxOutputTokens: options.maxTokens || 4096,
+        topP: 0.95,
+        topK: 40,
+      },
+      safetySettings: [
+        { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_ONLY_HIGH" },
+        { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_ONLY_HIGH" },
+        { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_ONLY_HIGH" },
+        { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_ONLY_HIGH" },
+      ],
     };
-  }> {
-    const plannerPrompt = `You are the Planner agent in the AutoAgents framework. Your role is to analyze the given task and generate a team of specialized agents following the A = {P, D, T, S} format where:
-- P: Specific prompt for the agent
-- D: Concise description of the agent's role
-- T: Toolset (available tools/capabilities)
-- S: High-level operational suggestions
-
-Task: ${taskDescription}
-
-Generate a team of 3-5 specialized agents that can collaboratively complete this task. Consider the task complexity and requirements. Each agent should have distinct expertise.
-
-Respond in JSON format:
-{
-  "agents": [
-    {
-      "name": "Agent Name",
-      "role": "Specific Role",
-      "prompt": "Detailed prompt for this agent's behavior and expertise",
-      "description": "Concise description of what this agent does",
-      "toolset": ["tool1", "tool2", "tool3"],
-      "suggestions": "High-level operational approach and best practices"
+
+    const selectedModel = options.model || this.selectModelForTask({
+      isComplexReasoning: options.isComplexReasoning,
+      isLightweight: options.isLightweight
+    });
+
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: selectedModel,
+      operation: 'stream',
+      messages,
+      parameters: {
+        temperature: requestBody.generationConfig.temperature,
+        maxTokens: requestBody.generationConfig.maxOutputTokens,
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
+    try {
+      await this.logRequest({ ...requestBody, model: selectedModel }, options.taskId, options.agentId);
+
+      const estimatedTokens = estimateTokens(messages, requestBody.generationConfig.maxOutputTokens);
+      const response = await rateLimiterService.schedule(this.name, selectedModel, estimatedTokens, () =>
+        fetch(
+          `${this.config.baseUrl}/models/${selectedModel}:streamGenerateContent?alt=sse&key=${this.config.apiKey}`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(requestBody),
+            signal: options.signal,
+          }
+        ),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        await this.logError(`Gemini API error: ${response.status} - ${error}`, options.taskId, options.agentId);
+        throw new Error(`Gemini API error: ${response.status} - ${error}`);
+      }
+
+      let content = "";
+      let lastChunk: GeminiResponse | undefined;
+
+      for await (const data of readServerSentEvents(response)) {
+        const chunk: GeminiResponse = JSON.parse(data);
+        const delta = chunk.candidates?.[0]?.content?.parts?.map(part => part.text).join('') || "";
+        if (delta) {
+          content += delta;
+          yield delta;
+        }
+        lastChunk = chunk;
+      }
+
+      const tokensUsed = lastChunk?.usageMetadata?.totalTokenCount || 0;
+      const tokensInput = lastChunk?.usageMetadata?.promptTokenCount || 0;
+      const tokensOutput = outputTokenCount(lastChunk?.usageMetadata);
+      const cost = this.calculateCost(selectedModel, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, selectedModel, tokensUsed, estimatedTokens);
+
+      if (lastChunk) {
+        await this.logResponse(lastChunk, selectedModel, options.taskId, options.agentId);
+      }
+
+      const completion = {
+        content,
+        tokensUsed,
+        cost,
+        tokensInput,
+        tokensOutput,
+        model: selectedModel,
+      };
+      await trace.succeed(completion);
+      return completion;
+    } catch (error) {
+      await this.logError(`Gemini streaming error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
+      throw error;
     }
-  ],
-  "executionPlan": {
-    "steps": ["Step 1", "Step 2", "Step 3"],
-    "workflow": "Description of how agents will collaborate",
-    "estimatedDuration": "Expected completion time"
   }
-}`;
 
-    const messages = [
-      {
-        role: 'system' as const,
-        content: 'You are an expert AI planner implementing the AutoAgents framework for dynamic agent generation and task orchestration.'
+  // Native function calling via functionDeclarations. Gemini doesn't assign call ids, so
+  // ids are generated here and tool results are matched back by function name.
+  async completeWithTools(
+    messages: ToolLoopMessage[],
+    tools: ToolDefinition[],
+    options: ProviderCompletionOptions = {}
+  ): Promise<ToolCompletion> {
+    if (!this.config.apiKey) {
+      throw new Error("Gemini API key not configured");
+    }
+
+    const requestBody = {
+      contents: this.convertToolMessages(messages),
+      tools: [{
+        functionDeclarations: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        })),
+      }],
+      generationConfig: {
+        temperature: options.temperature || 0.7,
+        maxOutputTokens: options.maxTokens || 4096,
+        topP: 0.95,
+        topK: 40,
       },
-      {
-        role: 'user' as const,
-        content: plannerPrompt
-      }
-    ];
+      safetySettings: [
+        { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_ONLY_HIGH" },
+        { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_ONLY_HIGH" },
+        { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_ONLY_HIGH" },
+        { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_ONLY_HIGH" },
+      ],
+    };
 
-    const response = await this.generateCompletion(messages, {
-      temperature: 0.2,
-      taskId,
-      isComplexReasoning: true, // Agent team generation is complex reasoning
+    const selectedModel = options.model || this.selectModelForTask({
+      isComplexReasoning: options.isComplexReasoning,
+      isLightweight: options.isLightweight
+    });
+
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: selectedModel,
+      operation: 'tools',
+      messages,
+      parameters: {
+        temperature: requestBody.generationConfig.temperature,
+        maxTokens: requestBody.generationConfig.maxOutputTokens,
+        tools: tools.map(tool => tool.name),
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
     });
 
     try {
-      // Clean up potential markdown code blocks
-      const cleanedContent = response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      return JSON.parse(cleanedContent);
+      await this.logRequest({ ...requestBody, model: selectedModel }, options.taskId, options.agentId);
+
+      const estimatedTokens = estimateTokens(messages, requestBody.generationConfig.maxOutputTokens);
+      const response = await rateLimiterService.schedule(this.name, selectedModel, estimatedTokens, () =>
+        fetch(
+          `${this.config.baseUrl}/models/${selectedModel}:generateContent?key=${this.config.apiKey}`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(requestBody),
+            signal: options.signal,
+          }
+        ),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        await this.logError(`Gemini API error: ${response.status} - ${error}`, options.taskId, options.agentId);
+        throw new Error(`Gemini API error: ${response.status} - ${error}`);
+      }
+
+      const data: GeminiResponse = await response.json();
+      const parts: GeminiToolPart[] = data.candidates[0]?.content?.parts || [];
+      const content = parts.map(part => part.text || '').join('');
+      const toolCalls: ToolCall[] = parts
+        .filter(part => part.functionCall)
+        .map(part => ({
+          id: randomUUID(),
+          name: part.functionCall!.name,
+          arguments: part.functionCall!.args || {},
+        }));
+      const tokensUsed = data.usageMetadata?.totalTokenCount || 0;
+      const tokensInput = data.usageMetadata?.promptTokenCount || 0;
+      const tokensOutput = outputTokenCount(data.usageMetadata);
+      const cost = this.calculateCost(selectedModel, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, selectedModel, tokensUsed, estimatedTokens);
+
+      await this.logResponse(data, selectedModel, options.taskId, options.agentId);
+
+      const completion = {
+        content,
+        toolCalls,
+        tokensUsed,
+        cost,
+        tokensInput,
+        tokensOutput,
+        model: selectedModel,
+      };
+      await trace.succeed(completion);
+      return completion;
+    } catch (error) {
+      await this.logError(`Gemini service error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
+      throw error;
+    }
+  }
+
+  get embeddingModel(): string {
+    return this.config.embeddingModel;
+  }
+
+  // The embedding API reports no usage, so tokens are estimated from the input
+  async embed(
+    texts: string[],
+    options: { taskId?: string; agentId?: string; signal?: AbortSignal } = {}
+  ): Promise<EmbeddingResult> {
+    if (!this.config.apiKey) {
+      throw new Error("Gemini API key not configured");
+    }
+
+    const model = this.config.embeddingModel;
+    const vectors: number[][] = [];
+    let tokensUsed = 0;
+
+    try {
+      for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+        const estimatedTokens = estimateTokens(batch.map(text => ({ content: text })));
+
+        const response = await rateLimiterService.schedule(this.name, model, estimatedTokens, () =>
+          fetch(
+            `${this.config.baseUrl}/models/${model}:batchEmbedContents?key=${this.config.apiKey}`,
+            {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({
+                requests: batch.map(text => ({
+                  model: `models/${model}`,
+                  content: { parts: [{ text }] },
+                })),
+              }),
+              signal: options.signal,
+            }
+          ),
+          options.signal
+        );
+
+        if (!response.ok) {
+          const error = await response.text();
+          throw new Error(`Gemini embedding API error: ${response.status} - ${error}`);
+        }
+
+        const data: { embeddings: Array<{ values: number[] }> } = await response.json();
+        vectors.push(...data.embeddings.map(embedding => embedding.values));
+        rateLimiterService.recordUsage(this.name, model, estimatedTokens, estimatedTokens);
+        tokensUsed += estimatedTokens;
+      }
     } catch (error) {
-      await this.logError(`Failed to parse agent team JSON: ${error}`, taskId);
-      throw new Error('Failed to parse agent team response');
+      await this.logError(`Gemini embedding error: ${error}`, options.taskId, options.agentId);
+      throw error;
     }
+
+    return {
+      vectors,
+      model,
+      dimensions: vectors[0]?.length || 0,
+      tokensUsed,
+      cost: this.calculateCost(model, tokensUsed, 0),
+    };
+  }
+
+  async generateAgentTeam(taskDescription: string, taskId?: string, signal?: AbortSignal): Promise<AgentTeamDefinition> {
+    const { messages, version: promptVersion } = promptLibraryService.render('planner', {
+      provider: this.name,
+      variables: { taskDescription },
+      assignmentKey: taskId,
+    });
+
+    const { value: team, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'agent_team',
+      schema: agentTeamSchema,
+      messages,
+      taskId,
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.2,
+        taskId,
+        signal,
+        isComplexReasoning: true, // Agent team generation is complex reasoning
+        jsonMode: this.capabilities.jsonMode,
+      }),
+    });
+
+    return { ...team, ...usage, promptVersion };
   }
 
   async executeAgentAction(
@@ -224,13 +562,9 @@ Respond in JSON format:
     agentContext: string,
     userInput: string,
     agentId?: string,
-    taskId?: string
-  ): Promise<{
-    response: string;
-    confidence: number;
-    tokensUsed: number;
-    cost: number;
-  }> {
+    taskId?: string,
+    signal?: AbortSignal
+  ): Promise<AgentActionResult> {
     const messages = [
       {
         role: 'system' as const,
@@ -246,6 +580,7 @@ Respond in JSON format:
       temperature: 0.7,
       agentId,
       taskId,
+      signal,
     });
 
     const confidence = Math.min(Math.max(response.content.length / 10, 20), 95);
@@ -255,6 +590,9 @@ Respond in JSON format:
       confidence,
       tokensUsed: response.tokensUsed,
       cost: response.cost,
+      tokensInput: response.tokensInput,
+      tokensOutput: response.tokensOutput,
+      model: response.model,
     };
   }
 
@@ -262,61 +600,38 @@ Respond in JSON format:
     planOrExecution: any,
     context: string,
     type: 'plan' | 'execution',
-    taskId?: string
-  ): Promise<{
-    feedback: string;
-    suggestions: string[];
-    needsRefinement: boolean;
-    confidence: number;
-  }> {
-    const observerPrompt = `You are the Observer agent in the AutoAgents framework. Your role is to critically evaluate ${type}s and provide constructive feedback for improvement.
-
-${type === 'plan' ? 'Execution Plan' : 'Execution Result'}: ${JSON.stringify(planOrExecution)}
-Context: ${context}
-
-Evaluate this ${type} and provide:
-1. Constructive feedback on strengths and weaknesses
-2. Specific suggestions for improvement
-3. Whether refinement is needed
-4. Your confidence in the current ${type}
-
-Respond in JSON format:
-{
-  "feedback": "Detailed analysis of the ${type}",
-  "suggestions": ["suggestion1", "suggestion2"],
-  "needsRefinement": boolean,
-  "confidence": number (0-100)
-}`;
-
-    const messages = [
-      {
-        role: 'system' as const,
-        content: 'You are an expert Observer agent specializing in plan evaluation and execution critique in multi-agent systems.'
+    taskId?: string,
+    signal?: AbortSignal,
+    model?: string
+  ): Promise<CritiqueResult> {
+    const { messages, version: promptVersion } = promptLibraryService.render('observer', {
+      provider: this.name,
+      variables: {
+        type,
+        targetLabel: type === 'plan' ? 'Execution Plan' : 'Execution Result',
+        target: JSON.stringify(planOrExecution),
+        context,
       },
-      {
-        role: 'user' as const,
-        content: observerPrompt
-      }
-    ];
+      assignmentKey: taskId,
+    });
 
-    const response = await this.generateCompletion(messages, {
-      temperature: 0.3,
+    const { value: critique, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'critique',
+      schema: critiqueSchema,
+      messages,
       taskId,
-      isComplexReasoning: true, // Observation and critique requires complex reasoning
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.3,
+        taskId,
+        signal,
+        model,
+        isComplexReasoning: true, // Observation and critique requires complex reasoning
+        jsonMode: this.capabilities.jsonMode,
+      }),
     });
 
-    try {
-      const cleanedContent = response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      return JSON.parse(cleanedContent);
-    } catch (error) {
-      await this.logError(`Failed to parse observer feedback JSON: ${error}`, taskId);
-      return {
-        feedback: response.content,
-        suggestions: [],
-        needsRefinement: false,
-        confidence: 50,
-      };
-    }
+    return { ...critique, ...usage, promptVersion };
   }
 
   private convertToGeminiFormat(messages: Array<{ role: string; content: string }>): GeminiMessage[] {
@@ -346,11 +661,40 @@ Respond in JSON format:
     return geminiMessages;
   }
 
-  private calculateCost(tokens: number): number {
-    // Gemini 2.5 Pro pricing (check latest rates)
-    // Using estimated pricing - update with actual rates when available
-    const costPerToken = 0.0000035; // Estimated for Gemini 2.5 Pro
-    return tokens * costPerToken;
+  // Like convertToGeminiFormat, but keeps function calls on model turns and groups
+  // consecutive tool results into a single turn of functionResponse parts
+  private convertToolMessages(messages: ToolLoopMessage[]): GeminiToolMessage[] {
+    const geminiMessages: GeminiToolMessage[] = [];
+    let systemContent = '';
+
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const part: GeminiToolPart = { functionResponse: { name: msg.name, response: { content: msg.content } } };
+        const previous = geminiMessages[geminiMessages.length - 1];
+        if (previous?.role === 'user' && previous.parts.every(p => p.functionResponse)) {
+          previous.parts.push(part);
+        } else {
+          geminiMessages.push({ role: 'user', parts: [part] });
+        }
+      } else if (msg.role === 'system') {
+        systemContent += msg.content + '\n\n';
+      } else if (msg.role === 'user') {
+        geminiMessages.push({ role: 'user', parts: [{ text: systemContent + msg.content }] });
+        systemContent = '';
+      } else {
+        const parts: GeminiToolPart[] = msg.content ? [{ text: msg.content }] : [];
+        for (const call of msg.toolCalls || []) {
+          parts.push({ functionCall: { name: call.name, args: call.arguments } });
+        }
+        geminiMessages.push({ role: 'model', parts });
+      }
+    }
+
+    return geminiMessages;
+  }
+
+  private calculateCost(model: string, tokensInput: number, tokensOutput: number): number {
+    return pricingService.calculateCost(this.name, model, tokensInput, tokensOutput);
   }
 
   private async logRequest(request: any, taskId?: string, agentId?: string): Promise<void> {
@@ -373,7 +717,7 @@ Respond in JSON format:
     }
   }
 
-  private async logResponse(response: GeminiResponse, taskId?: string, agentId?: string): Promise<void> {
+  private async logResponse(response: GeminiResponse, model: string, taskId?: string, agentId?: string): Promise<void> {
     try {
       await storage.createLog({
         level: 'info',
@@ -382,7 +726,12 @@ Respond in JSON format:
         data: {
           tokensUsed: response.usageMetadata?.totalTokenCount,
           finishReason: response.candidates[0]?.finishReason,
-          cost: this.calculateCost(response.usageMetadata?.totalTokenCount || 0),
+          model,
+          cost: this.calculateCost(
+            model,
+            response.usageMetadata?.promptTokenCount || 0,
+            outputTokenCount(response.usageMetadata)
+          ),
         },
         taskId: taskId || null,
         agentId: agentId || null,
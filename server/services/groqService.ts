@@ -1,5 +1,24 @@
 import { systemLogs } from "@shared/schema";
 import { storage } from "../storage";
+import { readServerSentEvents } from "./streaming";
+import type {
+  AgentActionResult,
+  AgentTeamDefinition,
+  CritiqueResult,
+  LLMProviderService,
+  ProviderCapabilities,
+  ProviderCompletion,
+  ProviderCompletionOptions,
+  ToolCompletion,
+  ToolDefinition,
+  ToolLoopMessage,
+} from "./llmProvider";
+import { estimateTokens, rateLimiterService } from "./rateLimiterService";
+import { pricingService } from "./pricingService";
+import { agentTeamSchema, critiqueSchema, structuredOutputService } from "./structuredOutputService";
+import { promptLibraryService } from "./promptLibraryService";
+import { parseOpenAIToolCalls, toOpenAIMessages, toOpenAITools, type OpenAIToolCall } from "./toolCalling";
+import { llmTraceService } from "./llmTraceService";
 
 interface GroqMessage {
   role: 'system' | 'user' | 'assistant';
@@ -7,9 +26,11 @@ interface GroqMessage {
 }
 
 interface GroqResponse {
+  model: string;
   choices: Array<{
     message: {
       content: string;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -20,13 +41,37 @@ interface GroqResponse {
   };
 }
 
+interface GroqStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: GroqResponse['usage'];
+  x_groq?: {
+    usage?: GroqResponse['usage'];
+  };
+}
+
 interface GroqServiceConfig {
   apiKey: string;
   model: string;
   baseUrl: string;
 }
 
-export class GroqService {
+export class GroqService implements LLMProviderService {
+  readonly name = 'groq';
+  readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    tools: true,
+    jsonMode: true,
+    vision: false,
+    research: false,
+    local: false,
+    embeddings: false,
+  };
+
   private config: GroqServiceConfig;
 
   constructor() {
@@ -41,6 +86,10 @@ export class GroqService {
     }
   }
 
+  async isAvailable(): Promise<boolean> {
+    return !!this.config.apiKey;
+  }
+
   async generateCompletion(
     messages: GroqMessage[],
     options: {
@@ -48,35 +97,55 @@ export class GroqService {
       maxTokens?: number;
       taskId?: string;
       agentId?: string;
+      model?: string;
+      signal?: AbortSignal;
+      jsonMode?: boolean;
     } = {}
-  ): Promise<{
-    content: string;
-    tokensUsed: number;
-    cost: number;
-  }> {
+  ): Promise<ProviderCompletion> {
     if (!this.config.apiKey) {
       throw new Error("Groq API key not configured");
     }
 
     const requestBody = {
-      model: this.config.model,
+      model: options.model || this.config.model,
       messages,
       temperature: options.temperature || 0.7,
       max_tokens: options.maxTokens || 4096,
       stream: false,
+      // Native JSON mode; Groq requires the prompt itself to ask for JSON
+      ...(options.jsonMode ? { response_format: { type: 'json_object' } } : {}),
     };
 
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: requestBody.model,
+      operation: 'completion',
+      messages,
+      parameters: {
+        temperature: requestBody.temperature,
+        maxTokens: requestBody.max_tokens,
+        jsonMode: options.jsonMode,
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
     try {
       await this.logRequest(requestBody, options.taskId, options.agentId);
 
-      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
+      const estimatedTokens = estimateTokens(messages, requestBody.max_tokens);
+      const response = await rateLimiterService.schedule(this.name, requestBody.model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
 
       if (!response.ok) {
         const error = await response.text();
@@ -87,103 +156,253 @@ export class GroqService {
       const data: GroqResponse = await response.json();
       const content = data.choices[0]?.message?.content || "";
       const tokensUsed = data.usage?.total_tokens || 0;
-      const cost = this.calculateCost(tokensUsed);
+      const tokensInput = data.usage?.prompt_tokens || 0;
+      const tokensOutput = data.usage?.completion_tokens || 0;
+      const cost = this.calculateCost(requestBody.model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, requestBody.model, tokensUsed, estimatedTokens);
 
       await this.logResponse(data, options.taskId, options.agentId);
 
-      return {
+      const completion = {
         content,
         tokensUsed,
         cost,
+        tokensInput,
+        tokensOutput,
+        model: requestBody.model,
       };
+      await trace.succeed(completion);
+      return completion;
     } catch (error) {
       await this.logError(`Groq service error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
       throw error;
     }
   }
 
-  // Agent generation prompt based on AutoAgents framework
-  async generateAgentTeam(taskDescription: string, taskId?: string): Promise<{
-    agents: Array<{
-      name: string;
-      role: string;
-      prompt: string;
-      description: string;
-      toolset: string[];
-      suggestions: string;
-    }>;
-    executionPlan: {
-      steps: string[];
-      workflow: string;
-      estimatedDuration: string;
+  // Streams completion deltas as they arrive; resolves with the final usage once the stream ends
+  async *streamCompletion(
+    messages: GroqMessage[],
+    options: {
+      temperature?: number;
+      maxTokens?: number;
+      taskId?: string;
+      agentId?: string;
+      model?: string;
+      signal?: AbortSignal;
+    } = {}
+  ): AsyncGenerator<string, ProviderCompletion, unknown> {
+    if (!this.config.apiKey) {
+      throw new Error("Groq API key not configured");
+    }
+
+    const requestBody = {
+      model: options.model || this.config.model,
+      messages,
+      temperature: options.temperature || 0.7,
+      max_tokens: options.maxTokens || 4096,
+      stream: true,
+      stream_options: { include_usage: true },
     };
-  }> {
-    const plannerPrompt = `You are the Planner agent in the AutoAgents framework. Your role is to analyze the given task and generate a team of specialized agents following the A = {P, D, T, S} format where:
-- P: Specific prompt for the agent
-- D: Concise description of the agent's role
-- T: Toolset (available tools/capabilities)
-- S: High-level operational suggestions
-
-Task: ${taskDescription}
-
-Generate a team of 3-5 specialized agents that can collaboratively complete this task. Consider the task complexity and requirements. Each agent should have distinct expertise.
-
-Respond in JSON format:
-{
-  "agents": [
-    {
-      "name": "Agent Name",
-      "role": "Specific Role",
-      "prompt": "Detailed prompt for this agent's behavior and expertise",
-      "description": "Concise description of what this agent does",
-      "toolset": ["tool1", "tool2", "tool3"],
-      "suggestions": "High-level operational approach and best practices"
+
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: requestBody.model,
+      operation: 'stream',
+      messages,
+      parameters: { temperature: requestBody.temperature, maxTokens: requestBody.max_tokens },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
+    try {
+      await this.logRequest(requestBody, options.taskId, options.agentId);
+
+      const estimatedTokens = estimateTokens(messages, requestBody.max_tokens);
+      const response = await rateLimiterService.schedule(this.name, requestBody.model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        await this.logError(`Groq API error: ${response.status} - ${error}`, options.taskId, options.agentId);
+        throw new Error(`Groq API error: ${response.status} - ${error}`);
+      }
+
+      let content = "";
+      let finishReason = "";
+      let usage: GroqResponse['usage'] | undefined;
+
+      for await (const data of readServerSentEvents(response)) {
+        if (data === '[DONE]') break;
+
+        const chunk: GroqStreamChunk = JSON.parse(data);
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          yield delta;
+        }
+        finishReason = chunk.choices[0]?.finish_reason || finishReason;
+        usage = chunk.usage || chunk.x_groq?.usage || usage;
+      }
+
+      const tokensUsed = usage?.total_tokens || 0;
+      const tokensInput = usage?.prompt_tokens || 0;
+      const tokensOutput = usage?.completion_tokens || 0;
+      const cost = this.calculateCost(requestBody.model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, requestBody.model, tokensUsed, estimatedTokens);
+
+      await this.logResponse({
+        model: requestBody.model,
+        choices: [{ message: { content }, finish_reason: finishReason }],
+        usage: usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      }, options.taskId, options.agentId);
+
+      const completion = {
+        content,
+        tokensUsed,
+        cost,
+        tokensInput,
+        tokensOutput,
+        model: requestBody.model,
+      };
+      await trace.succeed(completion);
+      return completion;
+    } catch (error) {
+      await this.logError(`Groq streaming error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
+      throw error;
     }
-  ],
-  "executionPlan": {
-    "steps": ["Step 1", "Step 2", "Step 3"],
-    "workflow": "Description of how agents will collaborate",
-    "estimatedDuration": "Expected completion time"
   }
-}`;
 
-    const messages: GroqMessage[] = [
-      {
-        role: 'system',
-        content: 'You are an expert AI planner implementing the AutoAgents framework for dynamic agent generation and task orchestration.'
-      },
-      {
-        role: 'user',
-        content: plannerPrompt
-      }
-    ];
+  // Native function calling through the OpenAI-compatible tools API
+  async completeWithTools(
+    messages: ToolLoopMessage[],
+    tools: ToolDefinition[],
+    options: ProviderCompletionOptions = {}
+  ): Promise<ToolCompletion> {
+    if (!this.config.apiKey) {
+      throw new Error("Groq API key not configured");
+    }
 
-    const response = await this.generateCompletion(messages, {
-      temperature: 0.2, // Lower temperature for more consistent planning
-      taskId,
+    const requestBody = {
+      model: options.model || this.config.model,
+      messages: toOpenAIMessages(messages),
+      tools: toOpenAITools(tools),
+      tool_choice: 'auto',
+      temperature: options.temperature || 0.7,
+      max_tokens: options.maxTokens || 4096,
+      stream: false,
+    };
+
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: requestBody.model,
+      operation: 'tools',
+      messages,
+      parameters: {
+        temperature: requestBody.temperature,
+        maxTokens: requestBody.max_tokens,
+        tools: tools.map(tool => tool.name),
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
     });
 
     try {
-      return JSON.parse(response.content);
+      await this.logRequest(requestBody, options.taskId, options.agentId);
+
+      const estimatedTokens = estimateTokens(messages, requestBody.max_tokens);
+      const response = await rateLimiterService.schedule(this.name, requestBody.model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        await this.logError(`Groq API error: ${response.status} - ${error}`, options.taskId, options.agentId);
+        throw new Error(`Groq API error: ${response.status} - ${error}`);
+      }
+
+      const data: GroqResponse = await response.json();
+      const message = data.choices[0]?.message;
+      const tokensUsed = data.usage?.total_tokens || 0;
+      const tokensInput = data.usage?.prompt_tokens || 0;
+      const tokensOutput = data.usage?.completion_tokens || 0;
+      const cost = this.calculateCost(requestBody.model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, requestBody.model, tokensUsed, estimatedTokens);
+
+      await this.logResponse(data, options.taskId, options.agentId);
+
+      const completion = {
+        content: message?.content || "",
+        toolCalls: parseOpenAIToolCalls(message?.tool_calls),
+        tokensUsed,
+        cost,
+        tokensInput,
+        tokensOutput,
+        model: requestBody.model,
+      };
+      await trace.succeed(completion);
+      return completion;
     } catch (error) {
-      await this.logError(`Failed to parse agent team JSON: ${error}`, taskId);
-      throw new Error('Failed to parse agent team response');
+      await this.logError(`Groq service error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
+      throw error;
     }
   }
 
+  // Agent generation prompt based on AutoAgents framework
+  async generateAgentTeam(taskDescription: string, taskId?: string, signal?: AbortSignal): Promise<AgentTeamDefinition> {
+    const { messages, version: promptVersion } = promptLibraryService.render('planner', {
+      provider: this.name,
+      variables: { taskDescription },
+      assignmentKey: taskId,
+    });
+
+    const { value: team, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'agent_team',
+      schema: agentTeamSchema,
+      messages,
+      taskId,
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.2, // Lower temperature for more consistent planning
+        taskId,
+        signal,
+        jsonMode: this.capabilities.jsonMode,
+      }),
+    });
+
+    return { ...team, ...usage, promptVersion };
+  }
+
   // Agent execution with specific role and context
   async executeAgentAction(
     agentPrompt: string,
     agentContext: string,
     userInput: string,
     agentId?: string,
-    taskId?: string
-  ): Promise<{
-    response: string;
-    confidence: number;
-    tokensUsed: number;
-    cost: number;
-  }> {
+    taskId?: string,
+    signal?: AbortSignal
+  ): Promise<AgentActionResult> {
     const messages: GroqMessage[] = [
       {
         role: 'system',
@@ -199,6 +418,7 @@ Respond in JSON format:
       temperature: 0.7,
       agentId,
       taskId,
+      signal,
     });
 
     // Simple confidence calculation based on response length and coherence
@@ -209,6 +429,9 @@ Respond in JSON format:
       confidence,
       tokensUsed: response.tokensUsed,
       cost: response.cost,
+      tokensInput: response.tokensInput,
+      tokensOutput: response.tokensOutput,
+      model: response.model,
     };
   }
 
@@ -217,65 +440,41 @@ Respond in JSON format:
     planOrExecution: any,
     context: string,
     type: 'plan' | 'execution',
-    taskId?: string
-  ): Promise<{
-    feedback: string;
-    suggestions: string[];
-    needsRefinement: boolean;
-    confidence: number;
-  }> {
-    const observerPrompt = `You are the Observer agent in the AutoAgents framework. Your role is to critically evaluate ${type}s and provide constructive feedback for improvement.
-
-${type === 'plan' ? 'Execution Plan' : 'Execution Result'}: ${JSON.stringify(planOrExecution)}
-Context: ${context}
-
-Evaluate this ${type} and provide:
-1. Constructive feedback on strengths and weaknesses
-2. Specific suggestions for improvement
-3. Whether refinement is needed
-4. Your confidence in the current ${type}
-
-Respond in JSON format:
-{
-  "feedback": "Detailed analysis of the ${type}",
-  "suggestions": ["suggestion1", "suggestion2"],
-  "needsRefinement": boolean,
-  "confidence": number (0-100)
-}`;
-
-    const messages: GroqMessage[] = [
-      {
-        role: 'system',
-        content: 'You are an expert Observer agent specializing in plan evaluation and execution critique in multi-agent systems.'
+    taskId?: string,
+    signal?: AbortSignal,
+    model?: string
+  ): Promise<CritiqueResult> {
+    const { messages, version: promptVersion } = promptLibraryService.render('observer', {
+      provider: this.name,
+      variables: {
+        type,
+        targetLabel: type === 'plan' ? 'Execution Plan' : 'Execution Result',
+        target: JSON.stringify(planOrExecution),
+        context,
       },
-      {
-        role: 'user',
-        content: observerPrompt
-      }
-    ];
+      assignmentKey: taskId,
+    });
 
-    const response = await this.generateCompletion(messages, {
-      temperature: 0.3,
+    const { value: critique, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'critique',
+      schema: critiqueSchema,
+      messages,
       taskId,
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.3,
+        taskId,
+        signal,
+        model,
+        jsonMode: this.capabilities.jsonMode,
+      }),
     });
 
-    try {
-      return JSON.parse(response.content);
-    } catch (error) {
-      await this.logError(`Failed to parse observer feedback JSON: ${error}`, taskId);
-      return {
-        feedback: response.content,
-        suggestions: [],
-        needsRefinement: false,
-        confidence: 50,
-      };
-    }
+    return { ...critique, ...usage, promptVersion };
   }
 
-  private calculateCost(tokens: number): number {
-    // Groq pricing (approximate - check current rates)
-    const costPerToken = 0.00000059; // $0.59 per 1M tokens for llama-3.1-70b
-    return tokens * costPerToken;
+  private calculateCost(model: string, tokensInput: number, tokensOutput: number): number {
+    return pricingService.calculateCost(this.name, model, tokensInput, tokensOutput);
   }
 
   private async logRequest(request: any, taskId?: string, agentId?: string): Promise<void> {
@@ -307,7 +506,7 @@ Respond in JSON format:
         data: {
           tokensUsed: response.usage?.total_tokens,
           finishReason: response.choices[0]?.finish_reason,
-          cost: this.calculateCost(response.usage?.total_tokens || 0),
+          cost: this.calculateCost(response.model, response.usage?.prompt_tokens || 0, response.usage?.completion_tokens || 0),
         },
         taskId: taskId || null,
         agentId: agentId || null,
@@ -0,0 +1,199 @@
+import type { PromptVersion } from "./promptLibraryService";
+import type { PlanStep } from "./planSteps";
+
+// Contract every LLM provider service implements so the router can treat them uniformly.
+// Built-in services (Groq, Gemini, Ollama, Perplexity) and runtime-registered providers
+// such as OpenAI-compatible endpoints all satisfy this interface.
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  taskId?: string;
+  agentId?: string;
+  model?: string;
+  isComplexReasoning?: boolean;
+  isLightweight?: boolean;
+  // Request a bare JSON object, using the provider's native JSON mode when it has one
+  jsonMode?: boolean;
+  // Aborts the request, including time spent queued in the rate limiter
+  signal?: AbortSignal;
+}
+
+export interface ProviderCompletion {
+  content: string;
+  tokensUsed: number;
+  cost: number;
+  tokensInput?: number;
+  tokensOutput?: number;
+  model?: string;
+}
+
+// Tokens and cost of every completion behind one result, e.g. a structured output and its repairs
+export interface CompletionUsage {
+  tokensUsed: number;
+  tokensInput: number;
+  tokensOutput: number;
+  cost: number;
+  model?: string;
+}
+
+// JSON Schema for a tool's arguments, in the subset every provider's function calling accepts
+export interface ToolParameterSchema {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+// Turns of a tool-calling conversation: assistant turns may request tool calls, and each
+// call is answered by a tool turn carrying the result
+export type ToolLoopMessage =
+  | (LLMMessage & { toolCalls?: ToolCall[] })
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface ToolCompletion extends ProviderCompletion {
+  toolCalls: ToolCall[];
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  tools: boolean;
+  jsonMode: boolean;
+  vision: boolean;
+  // Grounded web research via performResearch
+  research: boolean;
+  // Runs on local hardware; only used when explicitly requested or listed in a fallback order
+  local: boolean;
+  // Text embeddings via embed
+  embeddings: boolean;
+}
+
+export interface AgentTeamDefinition extends Partial<CompletionUsage> {
+  agents: Array<{
+    name: string;
+    role: string;
+    prompt: string;
+    description: string;
+    toolset: string[];
+    suggestions: string;
+  }>;
+  executionPlan: {
+    steps: PlanStep[];
+    workflow: string;
+    estimatedDuration: string;
+  };
+  promptVersion?: PromptVersion; // prompt library version that produced the team
+}
+
+export interface AgentActionResult {
+  response: string;
+  confidence: number;
+  tokensUsed: number;
+  cost: number;
+  tokensInput?: number;
+  tokensOutput?: number;
+  model?: string;
+}
+
+export interface CritiqueResult extends Partial<CompletionUsage> {
+  feedback: string;
+  suggestions: string[];
+  needsRefinement: boolean;
+  confidence: number;
+  promptVersion?: PromptVersion;
+}
+
+export interface ResearchResult {
+  research: string;
+  citations: string[];
+  tokensUsed: number;
+  cost: number;
+  tokensInput?: number;
+  tokensOutput?: number;
+  model?: string;
+}
+
+export interface EmbeddingResult {
+  vectors: number[][]; // one per input text, in input order
+  model: string;
+  dimensions: number;
+  tokensUsed: number;
+  cost: number;
+}
+
+export interface LLMProviderService {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+
+  // Cheap readiness probe (credentials configured, local server reachable)
+  isAvailable(): Promise<boolean>;
+
+  generateCompletion(
+    messages: LLMMessage[],
+    options?: ProviderCompletionOptions
+  ): Promise<ProviderCompletion>;
+
+  // Required when capabilities.streaming is set
+  streamCompletion?(
+    messages: LLMMessage[],
+    options?: ProviderCompletionOptions
+  ): AsyncGenerator<string, ProviderCompletion, unknown>;
+
+  generateAgentTeam(taskDescription: string, taskId?: string, signal?: AbortSignal): Promise<AgentTeamDefinition>;
+
+  executeAgentAction(
+    agentPrompt: string,
+    agentContext: string,
+    userInput: string,
+    agentId?: string,
+    taskId?: string,
+    signal?: AbortSignal
+  ): Promise<AgentActionResult>;
+
+  observeAndCritique(
+    planOrExecution: any,
+    context: string,
+    type: 'plan' | 'execution',
+    taskId?: string,
+    signal?: AbortSignal,
+    model?: string
+  ): Promise<CritiqueResult>;
+
+  // Native function calling, used when capabilities.tools is set. Other providers are
+  // driven through a prompt-based fallback on top of generateCompletion.
+  completeWithTools?(
+    messages: ToolLoopMessage[],
+    tools: ToolDefinition[],
+    options?: ProviderCompletionOptions
+  ): Promise<ToolCompletion>;
+
+  // Required when capabilities.research is set
+  performResearch?(
+    query: string,
+    options?: { taskId?: string; agentId?: string; signal?: AbortSignal }
+  ): Promise<ResearchResult>;
+
+  // Required when capabilities.embeddings is set. Vectors are only comparable within one
+  // model, so embeddingModel names the model embed() will use.
+  readonly embeddingModel?: string;
+  embed?(
+    texts: string[],
+    options?: { taskId?: string; agentId?: string; signal?: AbortSignal }
+  ): Promise<EmbeddingResult>;
+}
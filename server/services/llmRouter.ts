@@ -2,17 +2,42 @@ import { groqService } from './groqService';
 import { geminiService } from './geminiService';
 import { ollamaService } from './ollamaService';
 import { perplexityService } from './perplexityService';
+import { OpenAICompatibleService, loadOpenAICompatibleEndpoints } from './openAICompatibleService';
+import type {
+  EmbeddingResult,
+  LLMMessage,
+  LLMProviderService,
+  ProviderCapabilities,
+  ProviderCompletionOptions,
+  ToolCall,
+  ToolCompletion,
+  ToolDefinition,
+  ToolLoopMessage,
+} from './llmProvider';
 import { budgetService } from './budgetService';
 import { errorRecoveryService } from './errorRecoveryService';
+import { responseCacheService, type CachedResponse } from './responseCacheService';
+import { replayProvider, type ReplayOperation } from './replayProvider';
+import { circuitBreakerService, type CircuitSnapshot } from './circuitBreakerService';
+import { rateLimiterService, estimateTokens, type RateLimitStats } from './rateLimiterService';
+import { pricingService, QUALITY_TIERS } from './pricingService';
+import { routingPolicyService, type RoutingDecision, type RoutingOperation, type RoutingPolicy } from './routingPolicyService';
+import { toolRegistry, type Tool, type ToolContext, type ToolExecutionResult } from './toolRegistry';
+import { completeWithPromptTools, flattenToolMessages } from './toolCalling';
+import { timelineService } from './timelineService';
+import { promptLibraryService } from './promptLibraryService';
+import { embeddingService, LOCAL_EMBEDDING_PROVIDER } from './embeddingService';
+import { providerHealthService } from './providerHealthService';
+import { isAbortError, throwIfAborted } from './cancellationService';
 import { storage } from '../storage';
 import { EventEmitter } from 'events';
 
-export type LLMProvider = 'groq' | 'gemini' | 'ollama' | 'perplexity';
+export type BuiltInLLMProvider = 'groq' | 'gemini' | 'ollama' | 'perplexity';
 
-interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+// Built-in providers plus any named endpoints registered through addProvider
+export type LLMProvider = BuiltInLLMProvider | (string & {});
+
+const BUILT_IN_PROVIDERS: BuiltInLLMProvider[] = ['groq', 'gemini', 'ollama', 'perplexity'];
 
 interface LLMResponse {
   content: string;
@@ -20,6 +45,7 @@ interface LLMResponse {
   cost: number;
   provider: LLMProvider;
   latency: number;
+  cached?: boolean;
 }
 
 interface RouterOptions {
@@ -29,13 +55,26 @@ interface RouterOptions {
   agentId?: string;
   executionId?: string;
   stream?: boolean;
+  model?: string;
   preferredProvider?: LLMProvider;
   fallbackOrder?: LLMProvider[];
   trackCosts?: boolean;
+  cache?: boolean; // Overrides LLM_CACHE_ENABLED for this call
   useErrorRecovery?: boolean;
   isComplexReasoning?: boolean;
   isLightweight?: boolean;
   isResearch?: boolean;
+  routingPolicy?: RoutingPolicy; // set once the budget routing policy has been applied
+  routingReason?: string;
+  tools?: string[]; // agent toolset entries the model may call during an agent action
+  parentEventId?: string; // timeline event tool invocations are recorded under
+  history?: LLMMessage[]; // earlier turns of the agent's conversation, replayed before the request
+  signal?: AbortSignal; // aborts in-flight requests, retries and failover when the task is paused or cancelled
+}
+
+export interface EmbeddingResponse extends EmbeddingResult {
+  provider: LLMProvider;
+  cached: number; // vectors served from the embedding cache
 }
 
 interface ProviderMetrics {
@@ -48,12 +87,17 @@ interface ProviderMetrics {
   averageLatency: number;
   lastError?: string;
   lastErrorTime?: Date;
+  // Client-side rate limiter buckets, one per model used
+  rateLimits?: RateLimitStats[];
+  queueDepth?: number;
+  averageQueueWaitMs?: number;
 }
 
 export class LLMRouter extends EventEmitter {
-  private providers: Map<LLMProvider, any>;
+  private providers: Map<LLMProvider, LLMProviderService>;
   private metrics: Map<LLMProvider, ProviderMetrics>;
-  private defaultFallbackOrder: LLMProvider[] = ['groq', 'gemini']; // Ollama only when explicitly requested
+  private defaultFallbackOrder: LLMProvider[] = ['groq', 'gemini']; // Local providers only when explicitly requested
+  private maxToolRounds = parseInt(process.env.LLM_TOOL_MAX_ROUNDS || '5', 10);
 
   constructor() {
     super();
@@ -66,40 +110,73 @@ export class LLMRouter extends EventEmitter {
     this.providers.set('ollama', ollamaService);
     this.providers.set('perplexity', perplexityService);
 
-    // Initialize metrics for active providers only
-    for (const provider of ['groq', 'gemini', 'perplexity'] as LLMProvider[]) {
-      this.metrics.set(provider, {
-        totalRequests: 0,
-        successfulRequests: 0,
-        failedRequests: 0,
-        totalTokens: 0,
-        totalCost: 0,
-        totalLatency: 0,
-        averageLatency: 0,
-      });
+    // Initialize metrics for hosted providers only; local provider metrics
+    // are initialized only if/when they're used
+    this.providers.forEach((service, provider) => {
+      if (!service.capabilities.local) {
+        this.metrics.set(provider, this.createDefaultMetrics());
+      }
+    });
+
+    // Self-hosted OpenAI-compatible endpoints configured via OPENAI_COMPATIBLE_PROVIDERS
+    for (const endpoint of loadOpenAICompatibleEndpoints()) {
+      if (BUILT_IN_PROVIDERS.includes(endpoint.name as BuiltInLLMProvider)) {
+        console.warn(`OpenAI-compatible provider "${endpoint.name}" conflicts with a built-in provider and was skipped`);
+        continue;
+      }
+      this.addProvider(endpoint.name, new OpenAICompatibleService(endpoint));
+    }
+
+    // Offline replay of recorded fixtures (LLM_REPLAY_MODE=replay)
+    if (replayProvider.isReplaying) {
+      this.addProvider('replay', replayProvider);
+    }
+
+    // Optional override of the default fallback order, e.g. LLM_FALLBACK_ORDER=vllm,groq,gemini
+    const configuredOrder = (process.env.LLM_FALLBACK_ORDER || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+    if (configuredOrder.length > 0) {
+      const unknown = configuredOrder.filter(name => !this.providers.has(name));
+      if (unknown.length > 0) {
+        console.warn(`LLM_FALLBACK_ORDER references unknown providers: ${unknown.join(', ')}`);
+      }
+      const order = configuredOrder.filter(name => this.providers.has(name));
+      if (order.length > 0) {
+        this.setFallbackOrder(order);
+      }
     }
-    // Ollama metrics will be initialized only if/when it's used
   }
 
+  // Reorders the configured fallback order (LLM_FALLBACK_ORDER) for the kind of call, using
+  // provider capabilities and catalog rates rather than provider names
   private getOptimalProviderOrder(options: RouterOptions): LLMProvider[] {
-    // For research tasks, always use Perplexity
+    const order = this.defaultFallbackOrder;
+
+    // For research tasks, prefer providers with grounded research (Perplexity)
     if (options.isResearch) {
-      return ['perplexity', 'gemini', 'groq'];
+      const researchProviders = this.getProvidersWithCapability('research');
+      return [...researchProviders, ...order.filter(p => !researchProviders.includes(p))];
     }
-    // For complex reasoning tasks, prefer Gemini 2.5 Pro
+    // For complex reasoning tasks, prefer the providers whose default models rate highest
     if (options.isComplexReasoning) {
-      return ['gemini', 'groq'];
+      return this.sortProviders(order, provider => -QUALITY_TIERS.indexOf(pricingService.getRate(provider).qualityTier));
     }
-    // For lightweight tasks, prefer faster providers (Groq GPT-OSS-120B)
+    // For lightweight tasks, prefer the cheapest providers, which are also the fastest
     if (options.isLightweight) {
-      return ['groq', 'gemini'];
-    }
-    // Only include Ollama if explicitly requested
-    if (options.preferredProvider === 'ollama') {
-      return ['ollama', 'groq', 'gemini'];
+      return this.sortProviders(order, provider => pricingService.estimateCost(provider, undefined, 1000));
     }
     // Default order for standard tasks
-    return this.defaultFallbackOrder;
+    return order;
+  }
+
+  // Sorts by ascending score, keeping the configured order among ties
+  private sortProviders(order: LLMProvider[], score: (provider: LLMProvider) => number): LLMProvider[] {
+    return order
+      .map((provider, index) => ({ provider, index, score: score(provider) }))
+      .sort((a, b) => a.score - b.score || a.index - b.index)
+      .map(entry => entry.provider);
   }
 
   async chat(
@@ -107,51 +184,61 @@ export class LLMRouter extends EventEmitter {
     options: RouterOptions = {}
   ): Promise<LLMResponse> {
     const operation = async (): Promise<LLMResponse> => {
-      const optimalOrder = this.getOptimalProviderOrder(options);
-      const fallbackOrder = options.preferredProvider 
-        ? [options.preferredProvider, ...optimalOrder.filter(p => p !== options.preferredProvider)]
-        : (options.fallbackOrder || optimalOrder);
+      const { order: fallbackOrder, options: routedOptions } = await this.planRoute(
+        'chat',
+        options,
+        this.getOptimalProviderOrder(options)
+      );
 
       let lastError: Error | null = null;
 
       for (const provider of fallbackOrder) {
+        throwIfAborted(routedOptions.signal);
         try {
           const startTime = Date.now();
-          const service = this.providers.get(provider);
-          
-          if (!service) {
-            console.warn(`Provider ${provider} not available`);
-            continue;
-          }
 
-          // Check if provider is available (especially for Ollama)
-          if (provider === 'ollama') {
-            const isAvailable = await ollamaService.isAvailable();
-            if (!isAvailable) {
-              console.warn('Ollama is not running locally, skipping...');
-              continue;
+          const cacheKey = this.getCacheKey(provider, 'chat', messages, routedOptions, routedOptions.temperature);
+          if (cacheKey) {
+            const cached = await responseCacheService.get(cacheKey);
+            if (cached) {
+              await this.recordCacheHit(provider, 'chat', cacheKey, cached, routedOptions);
+              return {
+                ...cached.response,
+                tokensUsed: 0,
+                cost: 0,
+                provider,
+                latency: Date.now() - startTime,
+                cached: true,
+              };
             }
           }
 
+          const service = await this.resolveProvider(provider);
+          if (!service) {
+            continue;
+          }
+
           // Log attempt
-          await this.logProviderAttempt(provider, messages, options);
+          await this.logProviderAttempt(provider, messages, routedOptions);
 
           // Make the request
           const response = await service.generateCompletion(messages, {
-            temperature: options.temperature,
-            maxTokens: options.maxTokens,
-            taskId: options.taskId,
-            agentId: options.agentId,
-            isComplexReasoning: options.isComplexReasoning,
-            isLightweight: options.isLightweight,
+            temperature: routedOptions.temperature,
+            maxTokens: routedOptions.maxTokens,
+            taskId: routedOptions.taskId,
+            agentId: routedOptions.agentId,
+            model: routedOptions.model,
+            isComplexReasoning: routedOptions.isComplexReasoning,
+            isLightweight: routedOptions.isLightweight,
+            signal: routedOptions.signal,
           });
 
           const latency = Date.now() - startTime;
 
-          // Track costs if enabled and required context is provided
-          if (options.trackCosts !== false && options.taskId && options.agentId && options.executionId) {
+          // Track costs if enabled
+          if (routedOptions.trackCosts !== false) {
             try {
-              await this.trackCostForProvider(provider, response, options);
+              await this.trackCostForProvider(provider, response, routedOptions);
             } catch (costError) {
               console.warn('Failed to track cost:', costError);
               // Continue execution even if cost tracking fails
@@ -167,12 +254,24 @@ export class LLMRouter extends EventEmitter {
             tokensUsed: response.tokensUsed,
             cost: response.cost,
             latency,
-            taskId: options.taskId,
-            agentId: options.agentId,
+            taskId: routedOptions.taskId,
+            agentId: routedOptions.agentId,
           });
 
           // Log success
-          await this.logProviderSuccess(provider, response, latency, options);
+          await this.logProviderSuccess(provider, response, latency, routedOptions);
+          await this.recordForReplay('chat', messages, provider, response, routedOptions);
+
+          if (cacheKey) {
+            await responseCacheService.set(cacheKey, {
+              provider,
+              model: response.model,
+              operation: 'chat',
+              response,
+              tokensUsed: response.tokensUsed,
+              cost: response.cost,
+            });
+          }
 
           return {
             ...response,
@@ -180,6 +279,10 @@ export class LLMRouter extends EventEmitter {
             latency,
           };
         } catch (error) {
+          if (isAbortError(error)) {
+            await this.recordCancellation(provider, 'chat', estimateTokens(messages), routedOptions);
+            throw error;
+          }
           lastError = error as Error;
           console.error(`Provider ${provider} failed:`, error);
           
@@ -187,7 +290,7 @@ export class LLMRouter extends EventEmitter {
           this.updateMetrics(provider, false, 0, 0, 0, error as Error);
 
           // Log failure
-          await this.logProviderFailure(provider, error as Error, options);
+          await this.logProviderFailure(provider, error as Error, routedOptions);
 
           // Try next provider
           continue;
@@ -206,6 +309,7 @@ export class LLMRouter extends EventEmitter {
         executionId: options.executionId,
         provider: options.preferredProvider,
         operation: 'chat_completion',
+        signal: options.signal,
       });
 
       if (recoveryResult.success && recoveryResult.result) {
@@ -218,52 +322,224 @@ export class LLMRouter extends EventEmitter {
     }
   }
 
-  async stream(
+  // Streams completion deltas from the first provider that can serve the request.
+  // Each delta is emitted as a 'stream:chunk' event tagged with task/agent ids so it can
+  // be relayed to the dashboard. Failover to the next provider is only possible before
+  // the first chunk has been yielded; a mid-stream failure is surfaced to the caller.
+  async *stream(
     messages: LLMMessage[],
     options: RouterOptions = {}
-  ): Promise<AsyncGenerator<string, LLMResponse, unknown>> {
-    const fallbackOrder = options.preferredProvider 
-      ? [options.preferredProvider, ...this.defaultFallbackOrder.filter(p => p !== options.preferredProvider)]
-      : (options.fallbackOrder || this.defaultFallbackOrder);
+  ): AsyncGenerator<string, LLMResponse, unknown> {
+    const { order: fallbackOrder, options: routedOptions } = await this.planRoute(
+      'stream',
+      options,
+      this.getOptimalProviderOrder(options)
+    );
 
     let lastError: Error | null = null;
 
     for (const provider of fallbackOrder) {
+      throwIfAborted(routedOptions.signal);
+      let chunkIndex = 0;
+
       try {
         const startTime = Date.now();
-        const service = this.providers.get(provider);
-        
+
+        // A cache hit is replayed as a single chunk
+        const cacheKey = this.getCacheKey(provider, 'chat', messages, routedOptions, routedOptions.temperature);
+        if (cacheKey) {
+          const cached = await responseCacheService.get(cacheKey);
+          if (cached) {
+            await this.recordCacheHit(provider, 'chat', cacheKey, cached, routedOptions);
+            const latency = Date.now() - startTime;
+
+            this.emit('stream:chunk', {
+              provider,
+              delta: cached.response.content,
+              index: chunkIndex++,
+              taskId: routedOptions.taskId,
+              agentId: routedOptions.agentId,
+              executionId: routedOptions.executionId,
+            });
+            yield cached.response.content;
+
+            this.emit('stream:end', {
+              provider,
+              chunkCount: chunkIndex,
+              tokensUsed: 0,
+              cost: 0,
+              latency,
+              cached: true,
+              taskId: routedOptions.taskId,
+              agentId: routedOptions.agentId,
+              executionId: routedOptions.executionId,
+            });
+
+            return {
+              ...cached.response,
+              tokensUsed: 0,
+              cost: 0,
+              provider,
+              latency,
+              cached: true,
+            };
+          }
+        }
+
+        const service = await this.resolveProvider(provider, 'streaming');
         if (!service) {
-          console.warn(`Provider ${provider} not available`);
+          continue;
+        }
+        if (!service.streamCompletion) {
+          // Nothing is sent, so give back the circuit's trial slot for the next provider call
+          circuitBreakerService.release(provider);
           continue;
         }
 
-        // Check if provider supports streaming
-        if (provider === 'ollama') {
-          const isAvailable = await ollamaService.isAvailable();
-          if (!isAvailable) {
-            console.warn('Ollama is not running locally, skipping...');
-            continue;
+        await this.logProviderAttempt(provider, messages, routedOptions);
+
+        const streamCompletion = service.streamCompletion.bind(service);
+        const open = async () => {
+          const generator = streamCompletion(messages, {
+            temperature: routedOptions.temperature,
+            maxTokens: routedOptions.maxTokens,
+            taskId: routedOptions.taskId,
+            agentId: routedOptions.agentId,
+            model: routedOptions.model,
+            isComplexReasoning: routedOptions.isComplexReasoning,
+            isLightweight: routedOptions.isLightweight,
+            signal: routedOptions.signal,
+          });
+          return { generator, first: await generator.next() };
+        };
+
+        // Retries and backoff apply until the first chunk arrives, as they do for chat();
+        // after that a retry would repeat output listeners already have
+        let opened: Awaited<ReturnType<typeof open>>;
+        if (routedOptions.useErrorRecovery !== false) {
+          const recoveryResult = await errorRecoveryService.attemptRecovery(open, {
+            taskId: routedOptions.taskId,
+            agentId: routedOptions.agentId,
+            executionId: routedOptions.executionId,
+            provider,
+            operation: 'stream_completion',
+            signal: routedOptions.signal,
+          });
+          if (!recoveryResult.success || !recoveryResult.result) {
+            throw recoveryResult.finalError || new Error('Stream recovery failed');
+          }
+          opened = recoveryResult.result;
+        } else {
+          opened = await open();
+        }
+
+        const { generator } = opened;
+        let next = opened.first;
+        while (!next.done) {
+          this.emit('stream:chunk', {
+            provider,
+            delta: next.value,
+            index: chunkIndex++,
+            taskId: routedOptions.taskId,
+            agentId: routedOptions.agentId,
+            executionId: routedOptions.executionId,
+          });
+          yield next.value;
+          next = await generator.next();
+        }
+
+        const response = next.value;
+        const latency = Date.now() - startTime;
+
+        // Token and cost accounting happens once the full completion is known
+        if (routedOptions.trackCosts !== false) {
+          try {
+            await this.trackCostForProvider(provider, { ...response, latency }, routedOptions);
+          } catch (costError) {
+            console.warn('Failed to track cost for stream:', costError);
           }
         }
 
-        // For now, return a simple async generator that yields the full response
-        // In a real implementation, you'd implement actual streaming for each provider
-        const response = await this.chat(messages, { ...options, stream: true });
-        
-        async function* generator(): AsyncGenerator<string, LLMResponse, unknown> {
-          yield response.content;
-          return response;
+        this.updateMetrics(provider, true, response.tokensUsed, response.cost, latency);
+
+        this.emit('stream:end', {
+          provider,
+          chunkCount: chunkIndex,
+          tokensUsed: response.tokensUsed,
+          cost: response.cost,
+          latency,
+          taskId: routedOptions.taskId,
+          agentId: routedOptions.agentId,
+          executionId: routedOptions.executionId,
+        });
+
+        this.emit('completion', {
+          provider,
+          tokensUsed: response.tokensUsed,
+          cost: response.cost,
+          latency,
+          taskId: routedOptions.taskId,
+          agentId: routedOptions.agentId,
+        });
+
+        await this.logProviderSuccess(provider, response, latency, routedOptions);
+        await this.recordForReplay('chat', messages, provider, response, routedOptions);
+
+        if (cacheKey) {
+          await responseCacheService.set(cacheKey, {
+            provider,
+            model: response.model,
+            operation: 'chat',
+            response,
+            tokensUsed: response.tokensUsed,
+            cost: response.cost,
+          });
         }
 
-        return generator();
+        return {
+          ...response,
+          provider,
+          latency,
+        };
       } catch (error) {
+        if (isAbortError(error)) {
+          await this.recordCancellation(provider, 'stream', estimateTokens(messages), routedOptions);
+          this.emit('stream:error', {
+            provider,
+            error: (error as Error).message,
+            cancelled: true,
+            taskId: routedOptions.taskId,
+            agentId: routedOptions.agentId,
+            executionId: routedOptions.executionId,
+          });
+          throw error;
+        }
         lastError = error as Error;
         console.error(`Provider ${provider} streaming failed:`, error);
+
+        this.updateMetrics(provider, false, 0, 0, 0, error as Error);
+        await this.logProviderFailure(provider, error as Error, routedOptions);
+
+        if (chunkIndex > 0) {
+          this.emit('stream:error', {
+            provider,
+            error: lastError.message,
+            taskId: routedOptions.taskId,
+            agentId: routedOptions.agentId,
+            executionId: routedOptions.executionId,
+          });
+          throw error;
+        }
         continue;
       }
     }
 
+    this.emit('stream:error', {
+      error: lastError?.message,
+      taskId: routedOptions.taskId,
+      agentId: routedOptions.agentId,
+      executionId: routedOptions.executionId,
+    });
     throw new Error(`All LLM providers failed for streaming. Last error: ${lastError?.message}`);
   }
 
@@ -273,41 +549,82 @@ export class LLMRouter extends EventEmitter {
   ): Promise<any> {
     // Agent team generation is a complex reasoning task
     const enhancedOptions = { ...options, isComplexReasoning: true };
-    const optimalOrder = this.getOptimalProviderOrder(enhancedOptions);
-    const fallbackOrder = options.preferredProvider 
-      ? [options.preferredProvider, ...optimalOrder.filter(p => p !== options.preferredProvider)]
-      : (options.fallbackOrder || optimalOrder);
+    const { order: fallbackOrder, options: routedOptions } = await this.planRoute(
+      'agent_team',
+      enhancedOptions,
+      this.getOptimalProviderOrder(enhancedOptions)
+    );
 
     let lastError: Error | null = null;
 
     for (const provider of fallbackOrder) {
+      throwIfAborted(routedOptions.signal);
       try {
-        const service = this.providers.get(provider);
-        
+        // Providers plan at a fixed low temperature, so identical drafts are safe to reuse.
+        // The prompt version is part of the key so A/B variants never share responses.
+        const cacheKey = this.getCacheKey(
+          provider,
+          'agent_team',
+          { taskDescription, prompt: promptLibraryService.resolve('planner', provider, routedOptions.taskId) },
+          routedOptions,
+          0.2
+        );
+        if (cacheKey) {
+          const cached = await responseCacheService.get(cacheKey);
+          if (cached) {
+            await this.recordCacheHit(provider, 'agent_team', cacheKey, cached, routedOptions);
+            return { ...cached.response, tokensUsed: 0, tokensInput: 0, tokensOutput: 0, cost: 0, cached: true };
+          }
+        }
+
+        const service = await this.resolveProvider(provider);
         if (!service) {
-          console.warn(`Provider ${provider} not available`);
           continue;
         }
 
-        if (provider === 'ollama') {
-          const isAvailable = await ollamaService.isAvailable();
-          if (!isAvailable) {
-            console.warn('Ollama is not running locally, skipping...');
-            continue;
+        const startTime = Date.now();
+        const result = await service.generateAgentTeam(taskDescription, routedOptions.taskId, routedOptions.signal);
+        const latency = Date.now() - startTime;
+
+        // Usage covers every completion the team took, structured output repairs included
+        if (routedOptions.trackCosts !== false) {
+          try {
+            await this.trackCostForProvider(provider, { ...result, latency }, routedOptions);
+          } catch (costError) {
+            console.warn('Failed to track cost for agent team generation:', costError);
           }
         }
 
-        const startTime = Date.now();
-        const result = await service.generateAgentTeam(taskDescription, options.taskId);
-        const latency = Date.now() - startTime;
+        this.updateMetrics(provider, true, result.tokensUsed || 0, result.cost || 0, latency);
+        await this.logProviderSuccess(
+          provider,
+          { content: JSON.stringify(result), tokensUsed: result.tokensUsed || 0, cost: result.cost || 0 },
+          latency,
+          routedOptions
+        );
+        await this.recordForReplay('agent_team', taskDescription, provider, result, routedOptions);
 
-        await this.logProviderSuccess(provider, { content: JSON.stringify(result), tokensUsed: 0, cost: 0 }, latency, options);
+        if (cacheKey) {
+          await responseCacheService.set(cacheKey, {
+            provider,
+            model: result.model,
+            operation: 'agent_team',
+            response: result,
+            tokensUsed: result.tokensUsed,
+            cost: result.cost,
+          });
+        }
 
         return result;
       } catch (error) {
+        if (isAbortError(error)) {
+          await this.recordCancellation(provider, 'agent_team', estimateTokens([{ content: taskDescription }]), routedOptions);
+          throw error;
+        }
         lastError = error as Error;
         console.error(`Provider ${provider} failed for agent team generation:`, error);
-        await this.logProviderFailure(provider, error as Error, options);
+        this.updateMetrics(provider, false, 0, 0, 0, error as Error);
+        await this.logProviderFailure(provider, error as Error, routedOptions);
         continue;
       }
     }
@@ -321,50 +638,89 @@ export class LLMRouter extends EventEmitter {
     userInput: string,
     options: RouterOptions = {}
   ): Promise<any> {
+    const tools = toolRegistry.resolveToolset(options.tools || []);
+    if (tools.length > 0) {
+      return await this.executeAgentActionWithTools(agentPrompt, agentContext, userInput, tools, options);
+    }
+
+    // Providers' executeAgentAction can't take conversation history, so calls replaying
+    // history go through the chat path like streamed ones
+    if (options.stream || (options.history && options.history.length > 0)) {
+      return await this.chatAgentAction(agentPrompt, agentContext, userInput, options);
+    }
+
     const operation = async (): Promise<any> => {
-      const fallbackOrder = options.preferredProvider 
-        ? [options.preferredProvider, ...this.defaultFallbackOrder.filter(p => p !== options.preferredProvider)]
-        : (options.fallbackOrder || this.defaultFallbackOrder);
+      const { order: fallbackOrder, options: routedOptions } = await this.planRoute(
+        'agent_action',
+        options,
+        this.defaultFallbackOrder
+      );
 
       let lastError: Error | null = null;
 
       for (const provider of fallbackOrder) {
+        throwIfAborted(routedOptions.signal);
         try {
-          const service = this.providers.get(provider);
-          
-          if (!service) {
-            console.warn(`Provider ${provider} not available`);
-            continue;
-          }
+          const startTime = Date.now();
 
-          if (provider === 'ollama') {
-            const isAvailable = await ollamaService.isAvailable();
-            if (!isAvailable) {
-              console.warn('Ollama is not running locally, skipping...');
-              continue;
+          const cacheKey = this.getCacheKey(
+            provider,
+            'agent_action',
+            { agentPrompt, agentContext, userInput },
+            routedOptions,
+            routedOptions.temperature ?? 0.7
+          );
+          if (cacheKey) {
+            const cached = await responseCacheService.get(cacheKey);
+            if (cached) {
+              await this.recordCacheHit(provider, 'agent_action', cacheKey, cached, routedOptions);
+              return {
+                ...cached.response,
+                tokensUsed: 0,
+                cost: 0,
+                provider,
+                latency: Date.now() - startTime,
+                cached: true,
+              };
             }
           }
 
-          const startTime = Date.now();
+          const service = await this.resolveProvider(provider);
+          if (!service) {
+            continue;
+          }
+
           const result = await service.executeAgentAction(
             agentPrompt,
             agentContext,
             userInput,
-            options.agentId,
-            options.taskId
+            routedOptions.agentId,
+            routedOptions.taskId,
+            routedOptions.signal
           );
           const latency = Date.now() - startTime;
 
-          // Track costs if enabled and required context is provided
-          if (options.trackCosts !== false && options.taskId && options.agentId && options.executionId) {
+          // Track costs if enabled
+          if (routedOptions.trackCosts !== false) {
             try {
-              await this.trackCostForProvider(provider, result, options);
+              await this.trackCostForProvider(provider, result, routedOptions);
             } catch (costError) {
               console.warn('Failed to track cost for agent action:', costError);
             }
           }
 
           this.updateMetrics(provider, true, result.tokensUsed, result.cost, latency);
+          await this.recordForReplay('agent_action', { agentPrompt, agentContext, userInput }, provider, result, routedOptions);
+
+          if (cacheKey) {
+            await responseCacheService.set(cacheKey, {
+              provider,
+              operation: 'agent_action',
+              response: result,
+              tokensUsed: result.tokensUsed,
+              cost: result.cost,
+            });
+          }
 
           return {
             ...result,
@@ -372,6 +728,15 @@ export class LLMRouter extends EventEmitter {
             latency,
           };
         } catch (error) {
+          if (isAbortError(error)) {
+            await this.recordCancellation(
+              provider,
+              'agent_action',
+              estimateTokens([{ content: agentPrompt }, { content: agentContext }, { content: userInput }]),
+              routedOptions
+            );
+            throw error;
+          }
           lastError = error as Error;
           console.error(`Provider ${provider} failed for agent action:`, error);
           this.updateMetrics(provider, false, 0, 0, 0, error as Error);
@@ -390,6 +755,7 @@ export class LLMRouter extends EventEmitter {
         executionId: options.executionId,
         provider: options.preferredProvider,
         operation: 'agent_action',
+        signal: options.signal,
       });
 
       if (recoveryResult.success && recoveryResult.result) {
@@ -402,6 +768,327 @@ export class LLMRouter extends EventEmitter {
     }
   }
 
+  // Agent action that lets the model call the agent's tools, natively where the provider
+  // supports function calling and through the prompt-based fallback otherwise. Runs a
+  // bounded call -> execute -> respond loop in which each model turn is cached, recovered
+  // and recorded on its own (see completeToolTurn). Once a tool has run the action is not
+  // failed over to another provider because that would execute the tools a second time.
+  private async executeAgentActionWithTools(
+    agentPrompt: string,
+    agentContext: string,
+    userInput: string,
+    tools: Tool[],
+    options: RouterOptions
+  ): Promise<any> {
+    const definitions = tools.map(tool => toolRegistry.toToolDefinition(tool));
+    const allowedTools = new Set(tools.map(tool => tool.id));
+    const toolContext: ToolContext = {
+      agentId: options.agentId || '',
+      taskId: options.taskId,
+      // Listing a tool in the agent's toolset grants the permissions it requires
+      permissions: Array.from(new Set(tools.flatMap(tool => tool.requiredPermissions || []))),
+    };
+
+    const { order: fallbackOrder, options: routedOptions } = await this.planRoute(
+      'agent_action',
+      options,
+      this.defaultFallbackOrder
+    );
+
+    let lastError: Error | null = null;
+
+    for (const provider of fallbackOrder) {
+      throwIfAborted(routedOptions.signal);
+      let toolsExecuted = 0;
+
+      try {
+        const service = await this.resolveProvider(provider);
+        if (!service) {
+          continue;
+        }
+
+        const startTime = Date.now();
+        const completionOptions: ProviderCompletionOptions = {
+          temperature: routedOptions.temperature ?? 0.7,
+          maxTokens: routedOptions.maxTokens,
+          taskId: routedOptions.taskId,
+          agentId: routedOptions.agentId,
+          model: routedOptions.model,
+          isComplexReasoning: routedOptions.isComplexReasoning,
+          isLightweight: routedOptions.isLightweight,
+          signal: routedOptions.signal,
+        };
+        const messages: ToolLoopMessage[] = this.buildAgentMessages(agentPrompt, agentContext, userInput, options.history);
+        const usage = { tokensUsed: 0, tokensInput: 0, tokensOutput: 0, cost: 0 };
+        let completion: ToolCompletion;
+
+        for (let round = 0; ; round++) {
+          const finalRound = round >= this.maxToolRounds;
+          if (finalRound) {
+            // Out of rounds: withhold the tools so the model has to answer
+            messages.push({
+              role: 'user',
+              content: 'The tool call limit has been reached. Give your final answer using the results so far.',
+            });
+          }
+          completion = await this.completeToolTurn(
+            provider,
+            service,
+            messages,
+            finalRound ? [] : definitions,
+            completionOptions,
+            routedOptions
+          );
+
+          usage.tokensUsed += completion.tokensUsed;
+          usage.tokensInput += completion.tokensInput || 0;
+          usage.tokensOutput += completion.tokensOutput || 0;
+          usage.cost += completion.cost;
+
+          if (completion.toolCalls.length === 0) {
+            break;
+          }
+
+          messages.push({ role: 'assistant', content: completion.content, toolCalls: completion.toolCalls });
+          for (const call of completion.toolCalls) {
+            const result = await this.invokeTool(call, allowedTools, toolContext, provider, round, routedOptions);
+            toolsExecuted++;
+            messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content: JSON.stringify(result) });
+          }
+        }
+
+        const latency = Date.now() - startTime;
+        const result = {
+          response: completion.content,
+          confidence: Math.min(Math.max(completion.content.length / 10, 20), 95),
+          ...usage,
+          model: completion.model,
+          toolCalls: toolsExecuted,
+        };
+
+        if (routedOptions.trackCosts !== false) {
+          try {
+            await this.trackCostForProvider(provider, { ...result, latency }, routedOptions);
+          } catch (costError) {
+            console.warn('Failed to track cost for agent action:', costError);
+          }
+        }
+
+        this.updateMetrics(provider, true, result.tokensUsed, result.cost, latency);
+
+        // Tool loops aren't streamed; relay the final answer so the dashboard still shows it
+        if (routedOptions.stream) {
+          this.emit('stream:chunk', {
+            provider,
+            delta: result.response,
+            index: 0,
+            taskId: routedOptions.taskId,
+            agentId: routedOptions.agentId,
+            executionId: routedOptions.executionId,
+          });
+          this.emit('stream:end', {
+            provider,
+            chunkCount: 1,
+            tokensUsed: result.tokensUsed,
+            cost: result.cost,
+            latency,
+            taskId: routedOptions.taskId,
+            agentId: routedOptions.agentId,
+            executionId: routedOptions.executionId,
+          });
+        }
+
+        return {
+          ...result,
+          provider,
+          latency,
+        };
+      } catch (error) {
+        if (isAbortError(error)) {
+          await this.recordCancellation(
+            provider,
+            'agent_action',
+            estimateTokens([{ content: agentPrompt }, { content: agentContext }, { content: userInput }]),
+            routedOptions
+          );
+          throw error;
+        }
+        lastError = error as Error;
+        console.error(`Provider ${provider} failed for agent action with tools:`, error);
+        this.updateMetrics(provider, false, 0, 0, 0, error as Error);
+
+        if (toolsExecuted > 0) {
+          throw new Error(`Agent action failed after ${toolsExecuted} tool calls: ${lastError.message}`);
+        }
+        continue;
+      }
+    }
+
+    throw new Error(`All providers failed for agent action. Last error: ${lastError?.message}`);
+  }
+
+  // One model turn of a tool loop, with the same response cache, error recovery and replay
+  // recording as a single agent action. A turn only asks the model what to do next and runs
+  // no tools, so retrying it is safe. With no tools offered the model is asked for its final
+  // answer through a plain completion, which replays as a chat call.
+  private async completeToolTurn(
+    provider: LLMProvider,
+    service: LLMProviderService,
+    messages: ToolLoopMessage[],
+    definitions: ToolDefinition[],
+    completionOptions: ProviderCompletionOptions,
+    options: RouterOptions
+  ): Promise<ToolCompletion> {
+    const request = definitions.length > 0
+      ? { messages, tools: definitions.map(definition => definition.name) }
+      : flattenToolMessages(messages);
+
+    const cacheKey = this.getCacheKey(provider, 'agent_tool_turn', request, options, completionOptions.temperature);
+    if (cacheKey) {
+      const cached = await responseCacheService.get(cacheKey);
+      if (cached) {
+        await this.recordCacheHit(provider, 'agent_tool_turn', cacheKey, cached, options);
+        return { ...cached.response, tokensUsed: 0, tokensInput: 0, tokensOutput: 0, cost: 0 };
+      }
+    }
+
+    const operation = async (): Promise<ToolCompletion> => {
+      if (definitions.length === 0) {
+        return { ...await service.generateCompletion(flattenToolMessages(messages), completionOptions), toolCalls: [] };
+      }
+      return service.capabilities.tools && service.completeWithTools
+        ? await service.completeWithTools(messages, definitions, completionOptions)
+        : await completeWithPromptTools(service, messages, definitions, completionOptions);
+    };
+
+    let completion: ToolCompletion;
+    if (options.useErrorRecovery !== false) {
+      const recoveryResult = await errorRecoveryService.attemptRecovery(operation, {
+        taskId: options.taskId,
+        agentId: options.agentId,
+        executionId: options.executionId,
+        provider,
+        operation: 'agent_tool_turn',
+        signal: options.signal,
+      });
+      if (!recoveryResult.success || !recoveryResult.result) {
+        throw recoveryResult.finalError || new Error('Agent tool turn recovery failed');
+      }
+      completion = recoveryResult.result;
+    } else {
+      completion = await operation();
+    }
+
+    await this.recordForReplay(definitions.length > 0 ? 'agent_tool_turn' : 'chat', request, provider, completion, options);
+
+    if (cacheKey) {
+      await responseCacheService.set(cacheKey, {
+        provider,
+        model: completion.model,
+        operation: 'agent_tool_turn',
+        response: completion,
+        tokensUsed: completion.tokensUsed,
+        cost: completion.cost,
+      });
+    }
+
+    return completion;
+  }
+
+  // Runs a model-requested tool call and records it on the timeline. Failures, including
+  // calls to tools outside the agent's toolset, are returned to the model as results.
+  private async invokeTool(
+    call: ToolCall,
+    allowedTools: Set<string>,
+    context: ToolContext,
+    provider: LLMProvider,
+    round: number,
+    options: RouterOptions
+  ): Promise<{ success: boolean; result?: any; error?: string }> {
+    const execution: ToolExecutionResult = allowedTools.has(call.name)
+      ? await toolRegistry.executeTool(call.name, call.arguments, context)
+      : { success: false, error: `Tool ${call.name} is not available to this agent`, duration: 0, toolId: call.name };
+
+    if (options.taskId && options.agentId) {
+      try {
+        await timelineService.recordToolEvent(
+          options.taskId,
+          options.agentId,
+          execution.success ? 'tool_called' : 'tool_failed',
+          {
+            toolId: call.name,
+            callId: call.id,
+            arguments: call.arguments,
+            result: execution.result,
+            error: execution.error,
+            duration: execution.duration,
+            provider,
+            round,
+          },
+          options.parentEventId
+        );
+      } catch (error) {
+        console.error('Failed to record tool event:', error);
+      }
+    }
+
+    return execution.success
+      ? { success: true, result: execution.result }
+      : { success: false, error: execution.error };
+  }
+
+  // The same system/user conversation the provider services build for an agent action
+  private buildAgentMessages(
+    agentPrompt: string,
+    agentContext: string,
+    userInput: string,
+    history: LLMMessage[] = []
+  ): LLMMessage[] {
+    return [
+      { role: 'system', content: agentPrompt },
+      ...history,
+      { role: 'user', content: `Context: ${agentContext}\n\nRequest: ${userInput}` },
+    ];
+  }
+
+  // Streaming variant of executeAgentAction, also used for calls carrying history. Drains the
+  // router stream so chunks reach listeners live.
+  private async chatAgentAction(
+    agentPrompt: string,
+    agentContext: string,
+    userInput: string,
+    options: RouterOptions
+  ): Promise<any> {
+    const messages = this.buildAgentMessages(agentPrompt, agentContext, userInput, options.history);
+    const chatOptions: RouterOptions = {
+      ...options,
+      temperature: options.temperature ?? 0.7,
+      fallbackOrder: options.fallbackOrder || this.defaultFallbackOrder,
+    };
+
+    let response: LLMResponse;
+    if (options.stream) {
+      const generator = this.stream(messages, chatOptions);
+      let next = await generator.next();
+      while (!next.done) {
+        next = await generator.next();
+      }
+      response = next.value;
+    } else {
+      response = await this.chat(messages, chatOptions);
+    }
+    const confidence = Math.min(Math.max(response.content.length / 10, 20), 95);
+
+    return {
+      response: response.content,
+      confidence,
+      tokensUsed: response.tokensUsed,
+      cost: response.cost,
+      provider: response.provider,
+      latency: response.latency,
+    };
+  }
+
   async observeAndCritique(
     planOrExecution: any,
     context: string,
@@ -410,28 +1097,35 @@ export class LLMRouter extends EventEmitter {
   ): Promise<any> {
     // Observation and critique is a complex reasoning task
     const enhancedOptions = { ...options, isComplexReasoning: true };
-    const optimalOrder = this.getOptimalProviderOrder(enhancedOptions);
-    const fallbackOrder = options.preferredProvider 
-      ? [options.preferredProvider, ...optimalOrder.filter(p => p !== options.preferredProvider)]
-      : (options.fallbackOrder || optimalOrder);
+    const { order: fallbackOrder, options: routedOptions } = await this.planRoute(
+      'critique',
+      enhancedOptions,
+      this.getOptimalProviderOrder(enhancedOptions)
+    );
 
     let lastError: Error | null = null;
 
     for (const provider of fallbackOrder) {
+      throwIfAborted(routedOptions.signal);
       try {
-        const service = this.providers.get(provider);
-        
-        if (!service) {
-          console.warn(`Provider ${provider} not available`);
-          continue;
+        const cacheKey = this.getCacheKey(
+          provider,
+          'critique',
+          { planOrExecution, context, type, prompt: promptLibraryService.resolve('observer', provider, routedOptions.taskId) },
+          routedOptions,
+          0.3
+        );
+        if (cacheKey) {
+          const cached = await responseCacheService.get(cacheKey);
+          if (cached) {
+            await this.recordCacheHit(provider, 'critique', cacheKey, cached, routedOptions);
+            return { ...cached.response, tokensUsed: 0, tokensInput: 0, tokensOutput: 0, cost: 0, cached: true };
+          }
         }
 
-        if (provider === 'ollama') {
-          const isAvailable = await ollamaService.isAvailable();
-          if (!isAvailable) {
-            console.warn('Ollama is not running locally, skipping...');
-            continue;
-          }
+        const service = await this.resolveProvider(provider);
+        if (!service) {
+          continue;
         }
 
         const startTime = Date.now();
@@ -439,17 +1133,55 @@ export class LLMRouter extends EventEmitter {
           planOrExecution,
           context,
           type,
-          options.taskId
+          routedOptions.taskId,
+          routedOptions.signal,
+          routedOptions.model
         );
         const latency = Date.now() - startTime;
 
-        await this.logProviderSuccess(provider, { content: JSON.stringify(result), tokensUsed: 0, cost: 0 }, latency, options);
+        if (routedOptions.trackCosts !== false) {
+          try {
+            await this.trackCostForProvider(provider, { ...result, latency }, routedOptions);
+          } catch (costError) {
+            console.warn('Failed to track cost for observation:', costError);
+          }
+        }
+
+        this.updateMetrics(provider, true, result.tokensUsed || 0, result.cost || 0, latency);
+        await this.logProviderSuccess(
+          provider,
+          { content: JSON.stringify(result), tokensUsed: result.tokensUsed || 0, cost: result.cost || 0 },
+          latency,
+          routedOptions
+        );
+        await this.recordForReplay('critique', { planOrExecution, context, type }, provider, result, routedOptions);
+
+        if (cacheKey) {
+          await responseCacheService.set(cacheKey, {
+            provider,
+            model: result.model,
+            operation: 'critique',
+            response: result,
+            tokensUsed: result.tokensUsed,
+            cost: result.cost,
+          });
+        }
 
         return result;
       } catch (error) {
+        if (isAbortError(error)) {
+          await this.recordCancellation(
+            provider,
+            'critique',
+            estimateTokens([{ content: JSON.stringify(planOrExecution) }, { content: context }]),
+            routedOptions
+          );
+          throw error;
+        }
         lastError = error as Error;
         console.error(`Provider ${provider} failed for observation:`, error);
-        await this.logProviderFailure(provider, error as Error, options);
+        this.updateMetrics(provider, false, 0, 0, 0, error as Error);
+        await this.logProviderFailure(provider, error as Error, routedOptions);
         continue;
       }
     }
@@ -459,26 +1191,75 @@ export class LLMRouter extends EventEmitter {
 
   getMetrics(provider?: LLMProvider): ProviderMetrics | Map<LLMProvider, ProviderMetrics> {
     if (provider) {
-      return this.metrics.get(provider) || this.createDefaultMetrics();
+      return this.withRateLimitStats(provider, this.metrics.get(provider) || this.createDefaultMetrics());
     }
-    return this.metrics;
+
+    const metrics = new Map<LLMProvider, ProviderMetrics>();
+    this.metrics.forEach((providerMetrics, name) => {
+      metrics.set(name, this.withRateLimitStats(name, providerMetrics));
+    });
+    return metrics;
+  }
+
+  private withRateLimitStats(provider: LLMProvider, metrics: ProviderMetrics): ProviderMetrics {
+    const rateLimits = rateLimiterService.getStats(provider);
+    const queuedRequests = rateLimits.reduce((sum, bucket) => sum + bucket.queuedRequests, 0);
+    const totalWaitMs = rateLimits.reduce((sum, bucket) => sum + bucket.averageWaitMs * bucket.queuedRequests, 0);
+
+    return {
+      ...metrics,
+      rateLimits,
+      queueDepth: rateLimits.reduce((sum, bucket) => sum + bucket.queueDepth, 0),
+      averageQueueWaitMs: queuedRequests > 0 ? Math.round(totalWaitMs / queuedRequests) : 0,
+    };
   }
 
   getProviderStatus(): Map<LLMProvider, boolean> {
     const status = new Map<LLMProvider, boolean>();
     
-    for (const [provider, metrics] of this.metrics) {
-      // Consider a provider healthy if it has successful requests and no recent errors
-      const isHealthy = metrics.successfulRequests > 0 && 
-        (!metrics.lastErrorTime || 
-         (Date.now() - metrics.lastErrorTime.getTime()) > 300000); // 5 minutes
-      
-      status.set(provider, isHealthy);
-    }
+    this.providers.forEach((service, provider) => {
+      if (provider === 'replay') return;
+      // Healthy when its circuit is closed and the latest probe or later traffic succeeded
+      status.set(provider, providerHealthService.isHealthy(provider));
+    });
     
     return status;
   }
 
+  // Seeds cumulative metrics from persisted snapshots so totals survive restarts
+  restoreMetrics(totals: Array<{
+    provider: string;
+    requests: number;
+    failures: number;
+    tokensUsed: number;
+    cost: number;
+    latencyTotal: number;
+  }>): void {
+    for (const total of totals) {
+      if (!this.providers.has(total.provider)) continue;
+
+      const metrics = this.metrics.get(total.provider) || this.createDefaultMetrics();
+      metrics.totalRequests += total.requests;
+      metrics.successfulRequests += total.requests - total.failures;
+      metrics.failedRequests += total.failures;
+      metrics.totalTokens += total.tokensUsed;
+      metrics.totalCost += total.cost;
+      metrics.totalLatency += total.latencyTotal;
+      metrics.averageLatency = metrics.successfulRequests > 0 ? metrics.totalLatency / metrics.successfulRequests : 0;
+      this.metrics.set(total.provider, metrics);
+    }
+  }
+
+  getCircuitStates(): Record<string, CircuitSnapshot> {
+    const states: Record<string, CircuitSnapshot> = {};
+    this.providers.forEach((_, provider) => {
+      if (provider !== 'replay') {
+        states[provider] = circuitBreakerService.getSnapshot(provider);
+      }
+    });
+    return states;
+  }
+
   private updateMetrics(
     provider: LLMProvider,
     success: boolean,
@@ -487,7 +1268,7 @@ export class LLMRouter extends EventEmitter {
     latency: number,
     error?: Error
   ): void {
-    // Initialize metrics for Ollama if it's being used for the first time
+    // Initialize metrics for local providers if they're being used for the first time
     if (!this.metrics.has(provider)) {
       this.metrics.set(provider, this.createDefaultMetrics());
     }
@@ -511,6 +1292,16 @@ export class LLMRouter extends EventEmitter {
     }
     
     this.metrics.set(provider, metrics);
+
+    // Replay misses are expected and say nothing about provider health
+    if (provider !== 'replay') {
+      providerHealthService.recordOutcome(provider, { success, latencyMs: latency, tokensUsed, cost, error });
+      if (success) {
+        circuitBreakerService.recordSuccess(provider);
+      } else {
+        circuitBreakerService.recordFailure(provider, error);
+      }
+    }
   }
 
   private createDefaultMetrics(): ProviderMetrics {
@@ -596,24 +1387,321 @@ export class LLMRouter extends EventEmitter {
     }
   }
 
+  // An aborted call is neither a success nor a failure for the provider: its circuit and
+  // metrics are left alone, and it's recorded as a cancelled cost entry. Providers may bill
+  // the prompt of a request aborted mid-flight, so the entry carries its estimated cost.
+  private async recordCancellation(
+    provider: LLMProvider,
+    operation: string,
+    estimatedInputTokens: number,
+    options: RouterOptions
+  ): Promise<void> {
+    circuitBreakerService.release(provider);
+    const estimatedCost = pricingService.calculateCost(provider, options.model, estimatedInputTokens, 0);
+
+    this.emit('cancelled', {
+      provider,
+      operation,
+      estimatedCost,
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
+    if (options.trackCosts !== false) {
+      try {
+        await budgetService.trackCost(
+          options.taskId,
+          options.agentId,
+          options.executionId,
+          {
+            provider,
+            operation: 'llm_cancelled',
+            tokensInput: estimatedInputTokens,
+            tokensOutput: 0,
+            tokensTotal: estimatedInputTokens,
+            cost: estimatedCost,
+            currency: 'USD',
+            metadata: {
+              provider,
+              model: options.model || 'unknown',
+              cancelledOperation: operation,
+              cancelled: true,
+              estimated: true,
+            },
+          }
+        );
+      } catch (costError) {
+        console.warn('Failed to track cost for cancelled call:', costError);
+      }
+    }
+
+    try {
+      await storage.createLog({
+        level: 'info',
+        category: 'llm-router',
+        message: `${provider} ${operation} cancelled`,
+        data: { provider, operation, estimatedInputTokens, estimatedCost },
+        taskId: options.taskId || null,
+        agentId: options.agentId || null,
+      });
+    } catch (error) {
+      console.error('Failed to log cancelled call:', error);
+    }
+  }
+
   setFallbackOrder(order: LLMProvider[]): void {
     this.defaultFallbackOrder = order;
   }
 
-  addProvider(name: LLMProvider, service: any): void {
+  getFallbackOrder(): LLMProvider[] {
+    return [...this.defaultFallbackOrder];
+  }
+
+  addProvider(name: LLMProvider, service: LLMProviderService): void {
     this.providers.set(name, service);
     this.metrics.set(name, this.createDefaultMetrics());
   }
 
-  private async trackCostForProvider(
+  getProvider(name: LLMProvider): LLMProviderService | undefined {
+    return this.providers.get(name);
+  }
+
+  getProviderNames(): LLMProvider[] {
+    return Array.from(this.providers.keys());
+  }
+
+  getProviderCapabilities(): Record<string, ProviderCapabilities> {
+    const capabilities: Record<string, ProviderCapabilities> = {};
+    this.providers.forEach((service, provider) => {
+      capabilities[provider] = service.capabilities;
+    });
+    return capabilities;
+  }
+
+  private getProvidersWithCapability(capability: keyof ProviderCapabilities): LLMProvider[] {
+    return Array.from(this.providers.entries())
+      .filter(([, service]) => service.capabilities[capability])
+      .map(([provider]) => provider);
+  }
+
+  // Looks up a registered provider and confirms it can serve the request right now.
+  // Returns null (after logging why) so callers can move on to the next provider.
+  private async resolveProvider(
+    provider: LLMProvider,
+    requiredCapability?: keyof ProviderCapabilities
+  ): Promise<LLMProviderService | null> {
+    const service = this.providers.get(provider);
+
+    if (!service) {
+      console.warn(`Provider ${provider} not available`);
+      return null;
+    }
+
+    if (requiredCapability && !service.capabilities[requiredCapability]) {
+      console.warn(`Provider ${provider} does not support ${requiredCapability}, skipping...`);
+      return null;
+    }
+
+    if (!(await service.isAvailable())) {
+      console.warn(`Provider ${provider} is not available, skipping...`);
+      return null;
+    }
+
+    // Open circuits are skipped; a half-open circuit admits a single trial request
+    if (provider !== 'replay' && !circuitBreakerService.tryAcquire(provider)) {
+      console.warn(`Circuit for provider ${provider} is ${circuitBreakerService.getState(provider)}, skipping...`);
+      return null;
+    }
+
+    return service;
+  }
+
+  // Applies the budget routing policy to a call. Under budget pressure the policy reorders
+  // every candidate, including an explicitly preferred provider, and requests lightweight
+  // models; the routed options carry the decision so nested calls aren't routed twice.
+  private async planRoute(
+    operation: RoutingOperation,
+    options: RouterOptions,
+    baseOrder: LLMProvider[]
+  ): Promise<{ order: LLMProvider[]; options: RouterOptions }> {
+    if (options.routingPolicy || replayProvider.isReplaying) {
+      return { order: this.buildFallbackOrder(options, baseOrder), options };
+    }
+
+    const candidates = options.preferredProvider
+      ? [options.preferredProvider, ...(options.fallbackOrder || baseOrder).filter(p => p !== options.preferredProvider)]
+      : (options.fallbackOrder || baseOrder);
+
+    const decision = await routingPolicyService.decide({
+      operation,
+      candidates,
+      localProviders: this.getProvidersWithCapability('local').filter(p => p !== 'replay'),
+      taskId: options.taskId,
+      agentId: options.agentId,
+      isComplexReasoning: options.isComplexReasoning,
+    });
+
+    if (decision.degraded) {
+      this.emit('routing', decision);
+    }
+
+    const routedOptions: RouterOptions = decision.degraded
+      ? {
+          ...options,
+          preferredProvider: undefined,
+          fallbackOrder: decision.order,
+          isComplexReasoning: false,
+          isLightweight: true,
+          routingPolicy: decision.policy,
+          routingReason: decision.reason,
+        }
+      : { ...options, routingPolicy: decision.policy, routingReason: decision.reason };
+
+    return { order: this.buildFallbackOrder(routedOptions, baseOrder), options: routedOptions };
+  }
+
+  getRecentRoutingDecisions(limit?: number): RoutingDecision[] {
+    return routingPolicyService.getRecentDecisions(limit);
+  }
+
+  // Preferred provider first, then the explicit or optimal order, minus providers whose
+  // circuit is open. In replay mode the replay provider answers first, backed by live
+  // providers only if the miss policy allows it.
+  private buildFallbackOrder(options: RouterOptions, baseOrder: LLMProvider[]): LLMProvider[] {
+    const order = (options.preferredProvider 
+      ? [options.preferredProvider, ...baseOrder.filter(p => p !== options.preferredProvider)]
+      : (options.fallbackOrder || baseOrder)
+    ).filter(provider => circuitBreakerService.isCallPermitted(provider));
+
+    if (!replayProvider.isReplaying) {
+      return order;
+    }
+
+    return replayProvider.allowsLiveFallback
+      ? ['replay', ...order.filter(p => p !== 'replay')]
+      : ['replay'];
+  }
+
+  private async recordForReplay(
+    operation: ReplayOperation,
+    request: unknown,
     provider: LLMProvider,
     response: any,
     options: RouterOptions
   ): Promise<void> {
-    if (!options.taskId || !options.agentId || !options.executionId) {
+    if (!replayProvider.isRecording || provider === 'replay') {
       return;
     }
 
+    try {
+      await replayProvider.record(operation, request, provider, response, options.taskId);
+    } catch (error) {
+      console.error('Failed to record call for replay:', error);
+    }
+  }
+
+  // Returns the cache key for a call when response caching applies to it, otherwise null
+  private getCacheKey(
+    provider: LLMProvider,
+    operation: string,
+    request: unknown,
+    options: RouterOptions,
+    temperature: number | undefined
+  ): string | null {
+    // Recording and replay need every call to reach the providers (or fixtures) to stay deterministic
+    if (replayProvider.isRecording || replayProvider.isReplaying) {
+      return null;
+    }
+
+    if (!responseCacheService.shouldCache(options.cache, temperature)) {
+      return null;
+    }
+
+    return responseCacheService.buildKey({
+      provider,
+      model: options.model,
+      operation,
+      request,
+      temperature,
+      maxTokens: options.maxTokens,
+      isComplexReasoning: options.isComplexReasoning,
+      isLightweight: options.isLightweight,
+    });
+  }
+
+  // Cache hits are recorded as zero-cost cost entries tagged cached, carrying the avoided cost
+  private async recordCacheHit(
+    provider: LLMProvider,
+    operation: string,
+    cacheKey: string,
+    cached: CachedResponse,
+    options: RouterOptions
+  ): Promise<void> {
+    this.emit('cache:hit', {
+      provider,
+      operation,
+      savedCost: cached.cost,
+      savedTokens: cached.tokensUsed,
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
+    if (options.trackCosts !== false) {
+      try {
+        await budgetService.trackCost(
+          options.taskId,
+          options.agentId,
+          options.executionId,
+          {
+            provider,
+            operation: 'llm_completion',
+            tokensInput: 0,
+            tokensOutput: 0,
+            tokensTotal: 0,
+            cost: 0,
+            currency: 'USD',
+            cached: true,
+            savedCost: cached.cost,
+            metadata: {
+              provider,
+              cacheKey,
+              cacheOperation: operation,
+              savedTokens: cached.tokensUsed,
+            },
+          }
+        );
+      } catch (costError) {
+        console.warn('Failed to track cost for cache hit:', costError);
+      }
+    }
+
+    try {
+      await storage.createLog({
+        level: 'info',
+        category: 'llm-cache',
+        message: `${provider} ${operation} served from cache`,
+        data: {
+          provider,
+          operation,
+          cacheKey,
+          savedCost: cached.cost,
+          savedTokens: cached.tokensUsed,
+        },
+        taskId: options.taskId || null,
+        agentId: options.agentId || null,
+      });
+    } catch (error) {
+      console.error('Failed to log cache hit:', error);
+    }
+  }
+
+  private async trackCostForProvider(
+    provider: LLMProvider,
+    response: any,
+    options: RouterOptions
+  ): Promise<void> {
+    const rate = pricingService.getRate(provider, response.model);
+
     try {
       await budgetService.trackCost(
         options.taskId,
@@ -631,12 +1719,19 @@ export class LLMRouter extends EventEmitter {
           metadata: {
             provider,
             model: response.model || 'unknown',
+            inputCostPer1M: rate.inputCostPer1M,
+            outputCostPer1M: rate.outputCostPer1M,
+            pricingSource: rate.source,
+            qualityTier: rate.qualityTier,
+            routingPolicy: options.routingPolicy,
+            routingReason: options.routingReason,
             temperature: options.temperature,
             maxTokens: options.maxTokens,
             executionTime: response.latency,
           },
         }
       );
+      routingPolicyService.clearPressureCache();
     } catch (error) {
       console.error('Failed to track cost for provider:', provider, error);
       // Re-throw to let caller handle it
@@ -689,31 +1784,48 @@ export class LLMRouter extends EventEmitter {
     cost: number;
     provider: LLMProvider;
   }> {
-    // Always prioritize Perplexity for research
+    // Always prioritize research-capable providers
     const enhancedOptions = { ...options, isResearch: true };
-    const optimalOrder = this.getOptimalProviderOrder(enhancedOptions);
+    const { order: fallbackOrder, options: routedOptions } = await this.planRoute(
+      'research',
+      { ...enhancedOptions, preferredProvider: undefined, fallbackOrder: undefined },
+      this.getOptimalProviderOrder(enhancedOptions)
+    );
     
     let lastError: Error | null = null;
 
-    for (const provider of optimalOrder) {
+    for (const provider of fallbackOrder) {
+      throwIfAborted(routedOptions.signal);
       try {
-        const service = this.providers.get(provider);
-        
+        const candidate = this.providers.get(provider);
+        const supportsResearch = !!(candidate?.capabilities.research && candidate.performResearch);
+
+        // Non-research providers are reached through chat(), which runs its own
+        // availability and circuit breaker checks
+        const service = supportsResearch ? await this.resolveProvider(provider) : candidate;
         if (!service) {
-          console.warn(`Provider ${provider} not available`);
           continue;
         }
 
-        // Check if provider supports research (only Perplexity has performResearch method)
-        if (provider === 'perplexity' && 'performResearch' in service) {
+        if (supportsResearch && service.performResearch) {
           const startTime = Date.now();
           const result = await service.performResearch(query, {
             taskId: options.taskId,
             agentId: options.agentId,
+            signal: options.signal,
           });
           const latency = Date.now() - startTime;
 
+          if (routedOptions.trackCosts !== false) {
+            try {
+              await this.trackCostForProvider(provider, { ...result, latency }, routedOptions);
+            } catch (costError) {
+              console.warn('Failed to track cost for research:', costError);
+            }
+          }
+
           this.updateMetrics(provider, true, result.tokensUsed, result.cost, latency);
+          await this.recordForReplay('research', query, provider, result, options);
 
           return {
             ...result,
@@ -732,7 +1844,11 @@ export class LLMRouter extends EventEmitter {
             }
           ];
 
-          const response = await this.chat(messages, enhancedOptions);
+          // Already routed: a degraded call keeps the policy's order, otherwise the caller's preferences apply
+          const response = await this.chat(
+            messages,
+            routedOptions.routingPolicy === 'standard' ? { ...enhancedOptions, routingPolicy: 'standard' } : routedOptions
+          );
           
           return {
             research: response.content,
@@ -743,8 +1859,18 @@ export class LLMRouter extends EventEmitter {
           };
         }
       } catch (error) {
+        if (isAbortError(error)) {
+          // chat() has already recorded the cancellation for non-research providers
+          if (this.providers.get(provider)?.capabilities.research) {
+            await this.recordCancellation(provider, 'research', estimateTokens([{ content: query }]), options);
+          }
+          throw error;
+        }
         lastError = error as Error;
         console.error(`Provider ${provider} failed for research:`, error);
+        if (this.providers.get(provider)?.capabilities.research) {
+          this.updateMetrics(provider, false, 0, 0, 0, error as Error);
+        }
         continue;
       }
     }
@@ -752,6 +1878,76 @@ export class LLMRouter extends EventEmitter {
     throw new Error(`All providers failed for research. Last error: ${lastError?.message}`);
   }
 
+  // Embeds texts with the first available provider in the embedding order (Gemini, then
+  // Ollama, by default), ending with the local hashed n-gram embedder so a result is always
+  // returned. Vectors are only comparable within one model: callers that store vectors
+  // should keep the returned model, or pin a provider to get the same one every time.
+  async embed(
+    input: string | string[],
+    options: Pick<RouterOptions, 'taskId' | 'agentId' | 'executionId' | 'preferredProvider' | 'signal'> = {}
+  ): Promise<EmbeddingResponse> {
+    const texts = Array.isArray(input) ? input : [input];
+    if (texts.length === 0) {
+      throw new Error('No texts to embed');
+    }
+
+    const order = options.preferredProvider
+      ? [options.preferredProvider]
+      : embeddingService.getConfig().order;
+    let lastError: Error | null = null;
+
+    for (const provider of order) {
+      throwIfAborted(options.signal);
+      if (provider === LOCAL_EMBEDDING_PROVIDER) {
+        const result = await embeddingService.embedWithCache(
+          provider,
+          embeddingService.getLocalModel(),
+          texts,
+          async (missing) => embeddingService.embedLocally(missing)
+        );
+        return { ...result, provider };
+      }
+
+      try {
+        const service = await this.resolveProvider(provider, 'embeddings');
+        if (!service) {
+          continue;
+        }
+        if (!service.embed || !service.embeddingModel) {
+          circuitBreakerService.release(provider);
+          continue;
+        }
+
+        const startTime = Date.now();
+        const result = await embeddingService.embedWithCache(provider, service.embeddingModel, texts, (missing) =>
+          service.embed!(missing, { taskId: options.taskId, agentId: options.agentId, signal: options.signal })
+        );
+        const latency = Date.now() - startTime;
+
+        this.updateMetrics(provider, true, result.tokensUsed, result.cost, latency);
+        if (result.cached < texts.length) {
+          try {
+            await this.trackCostForProvider(provider, { ...result, tokensInput: result.tokensUsed, latency }, options);
+          } catch (costError) {
+            console.warn('Failed to track cost for embeddings:', costError);
+          }
+        }
+
+        return { ...result, provider };
+      } catch (error) {
+        if (isAbortError(error)) {
+          await this.recordCancellation(provider, 'embeddings', estimateTokens(texts.map(text => ({ content: text }))), options);
+          throw error;
+        }
+        lastError = error as Error;
+        console.error(`Provider ${provider} failed for embeddings:`, error);
+        this.updateMetrics(provider, false, 0, 0, 0, error as Error);
+      }
+    }
+
+    throw new Error(`All providers failed for embeddings. Last error: ${lastError?.message || 'no embedding provider available'}`);
+  }
+
   async getCostSummary(taskId?: string, agentId?: string): Promise<{
     taskCosts?: any;
     agentCosts?: any;
@@ -0,0 +1,281 @@
+import { storage } from "../storage";
+import { isAbortError } from "./cancellationService";
+import type { ToolCall } from "./llmProvider";
+
+export type LlmCallOperation = 'completion' | 'stream' | 'tools';
+
+export interface LlmCallTrace {
+  provider: string;
+  model?: string;
+  operation: LlmCallOperation;
+  messages: unknown[];
+  parameters?: Record<string, unknown>;
+  taskId?: string;
+  agentId?: string;
+  startTime: number;
+  result?: {
+    content: string;
+    toolCalls?: ToolCall[];
+    tokensUsed: number;
+    tokensInput?: number;
+    tokensOutput?: number;
+    cost: number;
+  };
+  error?: unknown;
+}
+
+// Started when a provider sends a request; settles the trace with the outcome
+export interface LlmCallHandle {
+  succeed(result: NonNullable<LlmCallTrace['result']>): Promise<void>;
+  fail(error: unknown): Promise<void>;
+}
+
+interface TraceConfig {
+  enabled: boolean;
+  redactSecrets: boolean;
+  redactPii: boolean;
+  customPattern?: RegExp;
+  retentionDays: number;
+}
+
+interface RedactionRule {
+  kind: string;
+  pattern: RegExp;
+  // Returns the replacement, or null to leave the match alone
+  replace?: (match: string, ...groups: string[]) => string | null;
+}
+
+const SECRET_RULES: RedactionRule[] = [
+  { kind: 'private_key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { kind: 'api_key', pattern: /\b(?:sk|gsk|pk|rk|xai)[-_][A-Za-z0-9_-]{16,}/g },
+  { kind: 'api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'aws_key', pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+  { kind: 'token', pattern: /\b(?:ghp|gho|ghu|ghs|github_pat|xox[abp])_[A-Za-z0-9_-]{16,}/g },
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { kind: 'bearer', pattern: /\bBearer\s+[A-Za-z0-9._~+/-]+=*/g },
+  // Keeps the label so the trace still shows which setting was present
+  {
+    kind: 'secret',
+    pattern: /\b(password|passwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token)(["']?\s*[:=]\s*["']?)([^\s"',;]+)/gi,
+    replace: (_, label, separator) => `${label}${separator}[REDACTED:secret]`,
+  },
+];
+
+// Luhn check keeps long digit runs such as IDs and timestamps out of the card rule
+function isCardNumber(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const PII_RULES: RedactionRule[] = [
+  { kind: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  {
+    kind: 'card',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    replace: (match) => isCardNumber(match) ? '[REDACTED:card]' : null,
+  },
+  { kind: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { kind: 'phone', pattern: /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]\d{4}\b/g },
+];
+
+// An invalid LLM_TRACE_REDACT_PATTERN is ignored with a warning; the built-in rules still apply
+function parseRedactPattern(source: string | undefined): RegExp | undefined {
+  if (!source) return undefined;
+  try {
+    return new RegExp(source, 'g');
+  } catch (error) {
+    console.warn(`Ignoring invalid LLM_TRACE_REDACT_PATTERN "${source}":`, (error as Error).message);
+    return undefined;
+  }
+}
+
+// Stores a full trace of every provider call, with secrets and (optionally) personal data
+// redacted, so the prompt behind an output can be inspected later. Tracing never fails
+// the call being traced.
+export class LlmTraceService {
+  private config: TraceConfig;
+  private rules: RedactionRule[];
+  private cleanupInterval?: NodeJS.Timeout;
+
+  constructor() {
+    this.config = {
+      enabled: process.env.LLM_TRACE_ENABLED !== 'false',
+      redactSecrets: process.env.LLM_TRACE_REDACT_SECRETS !== 'false',
+      redactPii: process.env.LLM_TRACE_REDACT_PII !== 'false',
+      customPattern: parseRedactPattern(process.env.LLM_TRACE_REDACT_PATTERN),
+      retentionDays: parseInt(process.env.LLM_TRACE_RETENTION_DAYS || '14', 10),
+    };
+
+    this.rules = [
+      ...(this.config.redactSecrets ? SECRET_RULES : []),
+      ...(this.config.redactPii ? PII_RULES : []),
+      ...(this.config.customPattern ? [{ kind: 'custom', pattern: this.config.customPattern }] : []),
+    ];
+  }
+
+  getConfig(): Omit<TraceConfig, 'customPattern'> & { customPattern?: string } {
+    return { ...this.config, customPattern: this.config.customPattern?.source };
+  }
+
+  // Purges expired traces now and then hourly
+  async start(): Promise<void> {
+    if (!this.config.enabled || this.cleanupInterval) return;
+
+    await this.purgeExpired();
+    this.cleanupInterval = setInterval(() => {
+      this.purgeExpired().catch(error => console.error('Failed to purge LLM call traces:', error));
+    }, 60 * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = undefined;
+    }
+  }
+
+  begin(call: Omit<LlmCallTrace, 'startTime' | 'result' | 'error'>): LlmCallHandle {
+    const startTime = Date.now();
+    return {
+      succeed: (result) => this.record({ ...call, startTime, result }),
+      fail: (error) => this.record({ ...call, startTime, error }),
+    };
+  }
+
+  async record(trace: LlmCallTrace): Promise<void> {
+    if (!this.config.enabled) return;
+
+    try {
+      let redactions = 0;
+      const redact = <T>(value: T): T => {
+        const result = this.redactValue(value);
+        redactions += result.count;
+        return result.value;
+      };
+
+      const messages = redact(trace.messages);
+      const response = trace.result ? redact(trace.result.content) : undefined;
+      const toolCalls = trace.result?.toolCalls?.length ? redact(trace.result.toolCalls) : undefined;
+      const error = trace.error ? redact(trace.error instanceof Error ? trace.error.message : String(trace.error)) : undefined;
+
+      await storage.createLlmCall({
+        provider: trace.provider,
+        model: trace.model,
+        operation: trace.operation,
+        taskId: trace.taskId,
+        agentId: trace.agentId,
+        messages,
+        response,
+        toolCalls,
+        parameters: trace.parameters,
+        status: trace.error ? (isAbortError(trace.error) ? 'cancelled' : 'error') : 'success',
+        error,
+        tokensInput: trace.result?.tokensInput || 0,
+        tokensOutput: trace.result?.tokensOutput || 0,
+        tokensUsed: trace.result?.tokensUsed || 0,
+        cost: (trace.result?.cost || 0).toString(),
+        latencyMs: Date.now() - trace.startTime,
+        redactions,
+      });
+    } catch (error) {
+      console.warn('Failed to record LLM call trace:', error);
+    }
+  }
+
+  // Attributes the agent's calls since startedAt to the execution they produced
+  async linkExecution(agentId: string, startedAt: Date, executionId: string): Promise<void> {
+    if (!this.config.enabled) return;
+
+    try {
+      await storage.linkLlmCallsToExecution(agentId, startedAt, executionId);
+    } catch (error) {
+      console.warn('Failed to link LLM call traces to execution:', error);
+    }
+  }
+
+  async getCalls(filter: { taskId?: string; agentId?: string; executionId?: string; limit?: number }) {
+    return await storage.getLlmCalls(filter);
+  }
+
+  async getCall(id: string) {
+    return await storage.getLlmCall(id);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000);
+    const deleted = await storage.deleteLlmCalls(cutoff);
+
+    if (deleted > 0) {
+      await storage.createLog({
+        level: 'info',
+        category: 'llm-trace',
+        message: `Purged ${deleted} LLM call traces older than ${this.config.retentionDays} days`,
+        data: { deleted, cutoff: cutoff.toISOString() },
+      });
+    }
+
+    return deleted;
+  }
+
+  redact(text: string): { text: string; count: number } {
+    let count = 0;
+    let redacted = text;
+
+    for (const rule of this.rules) {
+      rule.pattern.lastIndex = 0;
+      redacted = redacted.replace(rule.pattern, (match: string, ...groups: any[]) => {
+        const replacement = rule.replace ? rule.replace(match, ...groups) : `[REDACTED:${rule.kind}]`;
+        if (replacement === null) return match;
+        count++;
+        return replacement;
+      });
+    }
+
+    return { text: redacted, count };
+  }
+
+  // Redacts every string inside messages, tool call arguments and other JSON values
+  private redactValue<T>(value: T): { value: T; count: number } {
+    if (typeof value === 'string') {
+      const { text, count } = this.redact(value);
+      return { value: text as unknown as T, count };
+    }
+
+    if (Array.isArray(value)) {
+      let count = 0;
+      const items = value.map(item => {
+        const result = this.redactValue(item);
+        count += result.count;
+        return result.value;
+      });
+      return { value: items as unknown as T, count };
+    }
+
+    if (value && typeof value === 'object') {
+      let count = 0;
+      const entries = Object.keys(value).map(key => {
+        const result = this.redactValue((value as Record<string, unknown>)[key]);
+        count += result.count;
+        return [key, result.value] as const;
+      });
+      const copy: Record<string, unknown> = {};
+      entries.forEach(([key, entry]) => { copy[key] = entry; });
+      return { value: copy as T, count };
+    }
+
+    return { value, count: 0 };
+  }
+}
+
+export const llmTraceService = new LlmTraceService();
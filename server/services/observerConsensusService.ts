@@ -0,0 +1,260 @@
+import { storage } from "../storage";
+import { llmRouter } from "./llmRouter";
+import { cosineSimilarity, hashEmbedding } from "./embeddingService";
+import { isAbortError } from "./cancellationService";
+import type { CritiqueResult } from "./llmProvider";
+
+export type ConfidenceRule = 'mean' | 'median' | 'min';
+export type RefinementRule = 'any' | 'majority' | 'all';
+
+interface ObserverMember {
+  provider: string;
+  model?: string;
+}
+
+interface ConsensusConfig {
+  enabled: boolean;
+  observers: ObserverMember[];
+  quorum: number; // critiques needed before the vote counts; below it refinement is requested
+  confidenceRule: ConfidenceRule;
+  refinementRule: RefinementRule;
+  disagreementSpread: number; // confidence points between observers that count as disagreement
+  suggestionSimilarity: number; // cosine similarity above which suggestions are merged
+}
+
+export interface ObserverVote {
+  observer: string; // provider, or provider:model
+  provider: string;
+  model?: string;
+  confidence: number;
+  needsRefinement: boolean;
+  suggestions: string[];
+  feedback: string;
+}
+
+export interface MergedSuggestion {
+  text: string;
+  observers: string[];
+}
+
+export interface ObserverDisagreement {
+  refinementSplit: boolean;
+  confidenceSpread: number;
+  requestedRefinement: string[];
+  approved: string[];
+}
+
+export interface ConsensusCritique extends CritiqueResult {
+  consensus: {
+    votes: ObserverVote[];
+    failures: Array<{ observer: string; error: string }>;
+    quorumMet: boolean;
+    rules: { confidence: ConfidenceRule; refinement: RefinementRule; quorum: number };
+    suggestions: MergedSuggestion[];
+    disagreement?: ObserverDisagreement;
+  };
+}
+
+// Dimensions of the local embedding used to spot reworded duplicate suggestions
+const SUGGESTION_DIMENSIONS = 256;
+
+// Observer member specs are provider or provider:model; model names may contain colons
+function parseMembers(spec: string): ObserverMember[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      return separator === -1
+        ? { provider: entry }
+        : { provider: entry.slice(0, separator), model: entry.slice(separator + 1) };
+    });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Ensemble mode for observer critiques. Each configured observer (a provider, optionally
+// pinned to a model) critiques the target in parallel; confidence and needsRefinement are
+// decided by the configured vote rules and suggestions are merged across observers. When
+// disabled, critiques come from a single routed observeAndCritique call as before.
+export class ObserverConsensusService {
+  private config: ConsensusConfig;
+
+  constructor() {
+    const observers = parseMembers(process.env.LLM_OBSERVER_CONSENSUS_OBSERVERS || 'groq,gemini');
+
+    this.config = {
+      enabled: process.env.LLM_OBSERVER_CONSENSUS_ENABLED === 'true',
+      observers,
+      quorum: Math.min(parseInt(process.env.LLM_OBSERVER_CONSENSUS_QUORUM || '2', 10), observers.length),
+      confidenceRule: (process.env.LLM_OBSERVER_CONSENSUS_CONFIDENCE as ConfidenceRule) || 'median',
+      refinementRule: (process.env.LLM_OBSERVER_CONSENSUS_REFINEMENT as RefinementRule) || 'majority',
+      disagreementSpread: parseInt(process.env.LLM_OBSERVER_CONSENSUS_DISAGREEMENT_SPREAD || '25', 10),
+      suggestionSimilarity: parseFloat(process.env.LLM_OBSERVER_CONSENSUS_SUGGESTION_SIMILARITY || '0.8'),
+    };
+  }
+
+  getConfig(): ConsensusConfig {
+    return { ...this.config, observers: this.config.observers.map(member => ({ ...member })) };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled && this.config.observers.length > 1;
+  }
+
+  async critique(
+    target: any,
+    context: string,
+    type: 'plan' | 'execution',
+    options: { taskId?: string; signal?: AbortSignal } = {}
+  ): Promise<CritiqueResult | ConsensusCritique> {
+    if (!this.isEnabled()) {
+      return await llmRouter.observeAndCritique(target, context, type, options);
+    }
+
+    const outcomes = await Promise.allSettled(
+      this.config.observers.map(member =>
+        llmRouter.observeAndCritique(target, context, type, {
+          ...options,
+          // Each vote must come from its own observer, so budget routing may not reorder or
+          // extend the order with local providers that would answer in the member's name
+          fallbackOrder: [member.provider],
+          routingPolicy: 'standard',
+          model: member.model,
+        })
+      )
+    );
+
+    const votes: ObserverVote[] = [];
+    const failures: Array<{ observer: string; error: string }> = [];
+    outcomes.forEach((outcome, index) => {
+      const member = this.config.observers[index];
+      const observer = member.model ? `${member.provider}:${member.model}` : member.provider;
+      if (outcome.status === 'fulfilled') {
+        votes.push({
+          observer,
+          provider: member.provider,
+          model: member.model,
+          confidence: Number(outcome.value.confidence) || 0,
+          needsRefinement: !!outcome.value.needsRefinement,
+          suggestions: outcome.value.suggestions || [],
+          feedback: outcome.value.feedback || '',
+        });
+      } else {
+        failures.push({ observer, error: outcome.reason?.message || String(outcome.reason) });
+      }
+    });
+
+    const aborted = outcomes.find(outcome => outcome.status === 'rejected' && isAbortError(outcome.reason));
+    if (aborted) {
+      throw (aborted as PromiseRejectedResult).reason;
+    }
+
+    if (votes.length === 0) {
+      throw new Error(`All observers failed: ${failures.map(failure => `${failure.observer}: ${failure.error}`).join('; ')}`);
+    }
+
+    const result = this.aggregate(votes, failures);
+    // The prompt version is shared by observers on the generic prompt; keep the first one's
+    const first = outcomes.find(outcome => outcome.status === 'fulfilled') as PromiseFulfilledResult<CritiqueResult>;
+    result.promptVersion = first.value.promptVersion;
+
+    await storage.createLog({
+      level: result.consensus.disagreement ? 'warn' : 'info',
+      category: 'agent',
+      message: result.consensus.disagreement
+        ? `Observers disagree on ${type}: ${votes.length} votes, confidence spread ${result.consensus.disagreement.confidenceSpread}`
+        : `Observer consensus on ${type}: ${votes.length} votes`,
+      data: {
+        type,
+        confidence: result.confidence,
+        needsRefinement: result.needsRefinement,
+        quorumMet: result.consensus.quorumMet,
+        votes: votes.map(({ observer, confidence, needsRefinement }) => ({ observer, confidence, needsRefinement })),
+        failures,
+      },
+      taskId: options.taskId,
+    });
+
+    return result;
+  }
+
+  aggregate(votes: ObserverVote[], failures: Array<{ observer: string; error: string }> = []): ConsensusCritique {
+    const confidences = votes.map(vote => vote.confidence);
+    const confidence =
+      this.config.confidenceRule === 'min' ? Math.min(...confidences)
+        : this.config.confidenceRule === 'mean' ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+        : median(confidences);
+
+    const requestedRefinement = votes.filter(vote => vote.needsRefinement).map(vote => vote.observer);
+    const approved = votes.filter(vote => !vote.needsRefinement).map(vote => vote.observer);
+    const votedRefinement =
+      this.config.refinementRule === 'any' ? requestedRefinement.length > 0
+        : this.config.refinementRule === 'all' ? approved.length === 0
+        : requestedRefinement.length * 2 > votes.length;
+
+    // Too few critiques to trust an approval
+    const quorumMet = votes.length >= this.config.quorum;
+
+    const confidenceSpread = Math.max(...confidences) - Math.min(...confidences);
+    const refinementSplit = requestedRefinement.length > 0 && approved.length > 0;
+    const disagreement = refinementSplit || confidenceSpread >= this.config.disagreementSpread
+      ? { refinementSplit, confidenceSpread, requestedRefinement, approved }
+      : undefined;
+
+    const suggestions = this.mergeSuggestions(votes);
+
+    return {
+      feedback: votes.map(vote => `[${vote.observer}] ${vote.feedback}`).join('\n\n'),
+      suggestions: suggestions.map(suggestion => suggestion.text),
+      needsRefinement: votedRefinement || !quorumMet,
+      confidence: Math.round(confidence),
+      consensus: {
+        votes,
+        failures,
+        quorumMet,
+        rules: {
+          confidence: this.config.confidenceRule,
+          refinement: this.config.refinementRule,
+          quorum: this.config.quorum,
+        },
+        suggestions,
+        disagreement,
+      },
+    };
+  }
+
+  // Suggestions that are the same after normalization, or close under the local embedding,
+  // are merged; those raised by more observers come first
+  private mergeSuggestions(votes: ObserverVote[]): MergedSuggestion[] {
+    const merged: Array<MergedSuggestion & { vector: number[] }> = [];
+
+    for (const vote of votes) {
+      for (const text of vote.suggestions) {
+        if (typeof text !== 'string' || !text.trim()) continue;
+
+        const vector = hashEmbedding(text, SUGGESTION_DIMENSIONS);
+        const match = merged.find(existing => cosineSimilarity(existing.vector, vector) >= this.config.suggestionSimilarity);
+        if (match) {
+          if (!match.observers.includes(vote.observer)) {
+            match.observers.push(vote.observer);
+          }
+        } else {
+          merged.push({ text: text.trim(), observers: [vote.observer], vector });
+        }
+      }
+    }
+
+    return merged
+      .map(({ text, observers }, index) => ({ text, observers, index }))
+      .sort((a, b) => b.observers.length - a.observers.length || a.index - b.index)
+      .map(({ text, observers }) => ({ text, observers }));
+  }
+}
+
+export const observerConsensusService = new ObserverConsensusService();
@@ -1,5 +1,20 @@
 import { systemLogs } from "@shared/schema";
 import { storage } from "../storage";
+import { readJsonLines } from "./streaming";
+import type {
+  AgentActionResult,
+  AgentTeamDefinition,
+  CritiqueResult,
+  EmbeddingResult,
+  LLMProviderService,
+  ProviderCapabilities,
+  ProviderCompletion,
+} from "./llmProvider";
+import { estimateTokens, rateLimiterService } from "./rateLimiterService";
+import { pricingService } from "./pricingService";
+import { agentTeamSchema, critiqueSchema, structuredOutputService } from "./structuredOutputService";
+import { promptLibraryService } from "./promptLibraryService";
+import { llmTraceService } from "./llmTraceService";
 
 interface OllamaMessage {
   role: 'system' | 'user' | 'assistant';
@@ -25,15 +40,28 @@ interface OllamaResponse {
 interface OllamaServiceConfig {
   baseUrl: string;
   model: string;
+  embeddingModel: string;
 }
 
-export class OllamaService {
+export class OllamaService implements LLMProviderService {
+  readonly name = 'ollama';
+  readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    tools: false, // driven through the prompt-based tool fallback
+    jsonMode: true,
+    vision: false,
+    research: false,
+    local: true,
+    embeddings: true,
+  };
+
   private config: OllamaServiceConfig;
 
   constructor() {
     this.config = {
       baseUrl: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
       model: process.env.OLLAMA_MODEL || "llama3.2",
+      embeddingModel: process.env.OLLAMA_EMBEDDING_MODEL || "nomic-embed-text",
     };
   }
 
@@ -56,38 +84,57 @@ export class OllamaService {
       maxTokens?: number;
       taskId?: string;
       agentId?: string;
+      model?: string;
+      signal?: AbortSignal;
       stream?: boolean;
+      jsonMode?: boolean;
     } = {}
-  ): Promise<{
-    content: string;
-    tokensUsed: number;
-    cost: number;
-  }> {
+  ): Promise<ProviderCompletion> {
     const isAvailable = await this.isAvailable();
     if (!isAvailable) {
       throw new Error("Ollama service is not available. Make sure Ollama is running locally.");
     }
 
     const requestBody = {
-      model: this.config.model,
+      model: options.model || this.config.model,
       messages,
       stream: options.stream || false,
+      ...(options.jsonMode ? { format: 'json' } : {}),
       options: {
         temperature: options.temperature || 0.7,
         num_predict: options.maxTokens || 4096,
       },
     };
 
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: requestBody.model,
+      operation: 'completion',
+      messages,
+      parameters: {
+        temperature: requestBody.options.temperature,
+        maxTokens: requestBody.options.num_predict,
+        jsonMode: options.jsonMode,
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
     try {
       await this.logRequest(requestBody, options.taskId, options.agentId);
 
-      const response = await fetch(`${this.config.baseUrl}/api/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
+      const estimatedTokens = estimateTokens(messages, requestBody.options.num_predict);
+      const response = await rateLimiterService.schedule(this.name, requestBody.model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/api/chat`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
 
       if (!response.ok) {
         const error = await response.text();
@@ -96,7 +143,8 @@ export class OllamaService {
       }
 
       let content = '';
-      let tokensUsed = 0;
+      let tokensInput = 0;
+      let tokensOutput = 0;
 
       if (options.stream) {
         // Handle streaming response
@@ -121,7 +169,8 @@ export class OllamaService {
                 content += data.message.content;
               }
               if (data.done && data.eval_count) {
-                tokensUsed = (data.prompt_eval_count || 0) + (data.eval_count || 0);
+                tokensInput = data.prompt_eval_count || 0;
+                tokensOutput = data.eval_count || 0;
               }
             } catch (e) {
               // Skip invalid JSON lines
@@ -132,106 +181,166 @@ export class OllamaService {
         // Handle non-streaming response
         const data: OllamaResponse = await response.json();
         content = data.message?.content || '';
-        tokensUsed = (data.prompt_eval_count || 0) + (data.eval_count || 0);
+        tokensInput = data.prompt_eval_count || 0;
+        tokensOutput = data.eval_count || 0;
       }
 
-      const cost = this.calculateCost(tokensUsed);
+      const tokensUsed = tokensInput + tokensOutput;
+      const cost = this.calculateCost(requestBody.model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, requestBody.model, tokensUsed, estimatedTokens);
 
-      await this.logResponse({ content, tokensUsed }, options.taskId, options.agentId);
+      await this.logResponse({ content, tokensUsed, cost }, options.taskId, options.agentId);
 
-      return {
+      const completion = {
         content,
         tokensUsed,
         cost,
+        tokensInput,
+        tokensOutput,
+        model: requestBody.model,
       };
+      await trace.succeed(completion);
+      return completion;
     } catch (error) {
       await this.logError(`Ollama service error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
       throw error;
     }
   }
 
-  async generateAgentTeam(taskDescription: string, taskId?: string): Promise<{
-    agents: Array<{
-      name: string;
-      role: string;
-      prompt: string;
-      description: string;
-      toolset: string[];
-      suggestions: string;
-    }>;
-    executionPlan: {
-      steps: string[];
-      workflow: string;
-      estimatedDuration: string;
-    };
-  }> {
-    const plannerPrompt = `You are the Planner agent in the AutoAgents framework. Your role is to analyze the given task and generate a team of specialized agents following the A = {P, D, T, S} format where:
-- P: Specific prompt for the agent
-- D: Concise description of the agent's role
-- T: Toolset (available tools/capabilities)
-- S: High-level operational suggestions
-
-Task: ${taskDescription}
-
-Generate a team of 3-5 specialized agents that can collaboratively complete this task. Consider the task complexity and requirements. Each agent should have distinct expertise.
-
-Respond in JSON format:
-{
-  "agents": [
-    {
-      "name": "Agent Name",
-      "role": "Specific Role",
-      "prompt": "Detailed prompt for this agent's behavior and expertise",
-      "description": "Concise description of what this agent does",
-      "toolset": ["tool1", "tool2", "tool3"],
-      "suggestions": "High-level operational approach and best practices"
+  // Streams completion deltas from /api/chat; token counts arrive on the final `done` line
+  async *streamCompletion(
+    messages: OllamaMessage[],
+    options: {
+      temperature?: number;
+      maxTokens?: number;
+      taskId?: string;
+      agentId?: string;
+      model?: string;
+      signal?: AbortSignal;
+    } = {}
+  ): AsyncGenerator<string, ProviderCompletion, unknown> {
+    const isAvailable = await this.isAvailable();
+    if (!isAvailable) {
+      throw new Error("Ollama service is not available. Make sure Ollama is running locally.");
     }
-  ],
-  "executionPlan": {
-    "steps": ["Step 1", "Step 2", "Step 3"],
-    "workflow": "Description of how agents will collaborate",
-    "estimatedDuration": "Expected completion time"
-  }
-}`;
 
-    const messages: OllamaMessage[] = [
-      {
-        role: 'system',
-        content: 'You are an expert AI planner implementing the AutoAgents framework for dynamic agent generation and task orchestration.'
+    const requestBody = {
+      model: options.model || this.config.model,
+      messages,
+      stream: true,
+      options: {
+        temperature: options.temperature || 0.7,
+        num_predict: options.maxTokens || 4096,
       },
-      {
-        role: 'user',
-        content: plannerPrompt
-      }
-    ];
+    };
 
-    const response = await this.generateCompletion(messages, {
-      temperature: 0.2,
-      taskId,
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: requestBody.model,
+      operation: 'stream',
+      messages,
+      parameters: {
+        temperature: requestBody.options.temperature,
+        maxTokens: requestBody.options.num_predict,
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
     });
 
     try {
-      // Clean up potential markdown code blocks
-      const cleanedContent = response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      return JSON.parse(cleanedContent);
+      await this.logRequest(requestBody, options.taskId, options.agentId);
+
+      const estimatedTokens = estimateTokens(messages, requestBody.options.num_predict);
+      const response = await rateLimiterService.schedule(this.name, requestBody.model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/api/chat`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        await this.logError(`Ollama API error: ${response.status} - ${error}`, options.taskId, options.agentId);
+        throw new Error(`Ollama API error: ${response.status} - ${error}`);
+      }
+
+      let content = '';
+      let tokensInput = 0;
+      let tokensOutput = 0;
+
+      for await (const data of readJsonLines<OllamaResponse>(response)) {
+        const delta = data.message?.content;
+        if (delta) {
+          content += delta;
+          yield delta;
+        }
+        if (data.done) {
+          tokensInput = data.prompt_eval_count || 0;
+          tokensOutput = data.eval_count || 0;
+        }
+      }
+
+      const tokensUsed = tokensInput + tokensOutput;
+      const cost = this.calculateCost(requestBody.model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, requestBody.model, tokensUsed, estimatedTokens);
+
+      await this.logResponse({ content, tokensUsed, cost }, options.taskId, options.agentId);
+
+      const completion = {
+        content,
+        tokensUsed,
+        cost,
+        tokensInput,
+        tokensOutput,
+        model: requestBody.model,
+      };
+      await trace.succeed(completion);
+      return completion;
     } catch (error) {
-      await this.logError(`Failed to parse agent team JSON: ${error}`, taskId);
-      throw new Error('Failed to parse agent team response');
+      await this.logError(`Ollama streaming error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
+      throw error;
     }
   }
 
+  async generateAgentTeam(taskDescription: string, taskId?: string, signal?: AbortSignal): Promise<AgentTeamDefinition> {
+    const { messages, version: promptVersion } = promptLibraryService.render('planner', {
+      provider: this.name,
+      variables: { taskDescription },
+      assignmentKey: taskId,
+    });
+
+    const { value: team, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'agent_team',
+      schema: agentTeamSchema,
+      messages,
+      taskId,
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.2,
+        taskId,
+        signal,
+        jsonMode: this.capabilities.jsonMode,
+      }),
+    });
+
+    return { ...team, ...usage, promptVersion };
+  }
+
   async executeAgentAction(
     agentPrompt: string,
     agentContext: string,
     userInput: string,
     agentId?: string,
-    taskId?: string
-  ): Promise<{
-    response: string;
-    confidence: number;
-    tokensUsed: number;
-    cost: number;
-  }> {
+    taskId?: string,
+    signal?: AbortSignal
+  ): Promise<AgentActionResult> {
     const messages: OllamaMessage[] = [
       {
         role: 'system',
@@ -247,6 +356,7 @@ Respond in JSON format:
       temperature: 0.7,
       agentId,
       taskId,
+      signal,
     });
 
     const confidence = Math.min(Math.max(response.content.length / 10, 20), 95);
@@ -256,6 +366,9 @@ Respond in JSON format:
       confidence,
       tokensUsed: response.tokensUsed,
       cost: response.cost,
+      tokensInput: response.tokensInput,
+      tokensOutput: response.tokensOutput,
+      model: response.model,
     };
   }
 
@@ -263,59 +376,87 @@ Respond in JSON format:
     planOrExecution: any,
     context: string,
     type: 'plan' | 'execution',
-    taskId?: string
-  ): Promise<{
-    feedback: string;
-    suggestions: string[];
-    needsRefinement: boolean;
-    confidence: number;
-  }> {
-    const observerPrompt = `You are the Observer agent in the AutoAgents framework. Your role is to critically evaluate ${type}s and provide constructive feedback for improvement.
-
-${type === 'plan' ? 'Execution Plan' : 'Execution Result'}: ${JSON.stringify(planOrExecution)}
-Context: ${context}
-
-Evaluate this ${type} and provide:
-1. Constructive feedback on strengths and weaknesses
-2. Specific suggestions for improvement
-3. Whether refinement is needed
-4. Your confidence in the current ${type}
-
-Respond in JSON format:
-{
-  "feedback": "Detailed analysis of the ${type}",
-  "suggestions": ["suggestion1", "suggestion2"],
-  "needsRefinement": boolean,
-  "confidence": number (0-100)
-}`;
-
-    const messages: OllamaMessage[] = [
-      {
-        role: 'system',
-        content: 'You are an expert Observer agent specializing in plan evaluation and execution critique in multi-agent systems.'
+    taskId?: string,
+    signal?: AbortSignal,
+    model?: string
+  ): Promise<CritiqueResult> {
+    const { messages, version: promptVersion } = promptLibraryService.render('observer', {
+      provider: this.name,
+      variables: {
+        type,
+        targetLabel: type === 'plan' ? 'Execution Plan' : 'Execution Result',
+        target: JSON.stringify(planOrExecution),
+        context,
       },
-      {
-        role: 'user',
-        content: observerPrompt
-      }
-    ];
+      assignmentKey: taskId,
+    });
 
-    const response = await this.generateCompletion(messages, {
-      temperature: 0.3,
+    const { value: critique, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'critique',
+      schema: critiqueSchema,
+      messages,
       taskId,
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.3,
+        taskId,
+        signal,
+        model,
+        jsonMode: this.capabilities.jsonMode,
+      }),
     });
 
+    return { ...critique, ...usage, promptVersion };
+  }
+
+  get embeddingModel(): string {
+    return this.config.embeddingModel;
+  }
+
+  async embed(
+    texts: string[],
+    options: { taskId?: string; agentId?: string; signal?: AbortSignal } = {}
+  ): Promise<EmbeddingResult> {
+    const isAvailable = await this.isAvailable();
+    if (!isAvailable) {
+      throw new Error("Ollama service is not available. Make sure Ollama is running locally.");
+    }
+
+    const model = this.config.embeddingModel;
+
     try {
-      const cleanedContent = response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      return JSON.parse(cleanedContent);
-    } catch (error) {
-      await this.logError(`Failed to parse observer feedback JSON: ${error}`, taskId);
+      const estimatedTokens = estimateTokens(texts.map(text => ({ content: text })));
+      const response = await rateLimiterService.schedule(this.name, model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/api/embed`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ model, input: texts }),
+          signal: options.signal,
+        }),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Ollama embedding API error: ${response.status} - ${error}`);
+      }
+
+      const data: { embeddings: number[][]; prompt_eval_count?: number } = await response.json();
+      const tokensUsed = data.prompt_eval_count || estimatedTokens;
+      rateLimiterService.recordUsage(this.name, model, tokensUsed, estimatedTokens);
+
       return {
-        feedback: response.content,
-        suggestions: [],
-        needsRefinement: false,
-        confidence: 50,
+        vectors: data.embeddings,
+        model,
+        dimensions: data.embeddings[0]?.length || 0,
+        tokensUsed,
+        cost: pricingService.calculateCost(this.name, model, tokensUsed, 0),
       };
+    } catch (error) {
+      await this.logError(`Ollama embedding error: ${error}`, options.taskId, options.agentId);
+      throw error;
     }
   }
 
@@ -333,9 +474,9 @@ Respond in JSON format:
     }
   }
 
-  private calculateCost(tokens: number): number {
-    // Ollama is free for local use
-    return 0;
+  // Local models are free unless the pricing catalog says otherwise
+  private calculateCost(model: string, tokensInput: number, tokensOutput: number): number {
+    return pricingService.calculateCost(this.name, model, tokensInput, tokensOutput);
   }
 
   private async logRequest(request: any, taskId?: string, agentId?: string): Promise<void> {
@@ -0,0 +1,601 @@
+import { storage } from "../storage";
+import { readServerSentEvents } from "./streaming";
+import type {
+  AgentActionResult,
+  AgentTeamDefinition,
+  CritiqueResult,
+  LLMMessage,
+  LLMProviderService,
+  ProviderCapabilities,
+  ProviderCompletionOptions,
+  ToolCompletion,
+  ToolDefinition,
+  ToolLoopMessage,
+} from "./llmProvider";
+import { estimateTokens, rateLimiterService } from "./rateLimiterService";
+import { ANY_MODEL, pricingService } from "./pricingService";
+import { agentTeamSchema, critiqueSchema, structuredOutputService } from "./structuredOutputService";
+import { promptLibraryService } from "./promptLibraryService";
+import { parseOpenAIToolCalls, toOpenAIMessages, toOpenAITools, type OpenAIToolCall } from "./toolCalling";
+import { llmTraceService } from "./llmTraceService";
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{
+    message: {
+      content: string;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices: Array<{
+    delta: {
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionResponse['usage'];
+}
+
+export interface OpenAICompatibleEndpointConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+  // Default USD per 1M tokens, registered with the pricing catalog; self-hosted endpoints usually leave these at 0
+  inputCostPer1M: number;
+  outputCostPer1M: number;
+  // Optional features the served models support; streaming is always available
+  tools?: boolean;
+  jsonMode?: boolean;
+  vision?: boolean;
+}
+
+interface CompletionResult {
+  content: string;
+  tokensUsed: number;
+  tokensInput: number;
+  tokensOutput: number;
+  cost: number;
+  model: string;
+}
+
+// Adapter for any server speaking the OpenAI chat-completions protocol (vLLM, llama.cpp, LiteLLM, ...).
+// Unlike the built-in services this is instantiated once per configured endpoint.
+export class OpenAICompatibleService implements LLMProviderService {
+  readonly capabilities: ProviderCapabilities;
+  private config: OpenAICompatibleEndpointConfig;
+
+  constructor(config: OpenAICompatibleEndpointConfig) {
+    this.config = {
+      ...config,
+      baseUrl: config.baseUrl.replace(/\/+$/, ''),
+    };
+
+    this.capabilities = {
+      streaming: true,
+      tools: !!config.tools,
+      jsonMode: !!config.jsonMode,
+      vision: !!config.vision,
+      research: false,
+      local: false,
+      embeddings: false,
+    };
+
+    pricingService.registerDefault(config.name, ANY_MODEL, config.inputCostPer1M, config.outputCostPer1M);
+
+    if (this.config.models.length === 0) {
+      console.warn(`No models configured for OpenAI-compatible endpoint "${config.name}". The server default model will be requested.`);
+    }
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  getConfig(): Omit<OpenAICompatibleEndpointConfig, 'apiKey'> & { hasApiKey: boolean } {
+    const { apiKey, ...config } = this.config;
+    return { ...config, hasApiKey: !!apiKey };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.config.baseUrl}/models`, {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(5000), // 5 second timeout
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  // Model lists are ordered by capability: the first entry is the default,
+  // the last entry is used for lightweight requests
+  private selectModel(options: ProviderCompletionOptions): string {
+    if (options.model) return options.model;
+
+    const { models } = this.config;
+    if (models.length === 0) return 'default';
+    if (options.isLightweight) return models[models.length - 1];
+    return models[0];
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  async generateCompletion(
+    messages: LLMMessage[],
+    options: ProviderCompletionOptions = {}
+  ): Promise<CompletionResult> {
+    const model = this.selectModel(options);
+    const requestBody = {
+      model,
+      messages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens || 4096,
+      stream: false,
+      ...(options.jsonMode && this.config.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+    };
+
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: model,
+      operation: 'completion',
+      messages,
+      parameters: {
+        temperature: requestBody.temperature,
+        maxTokens: requestBody.max_tokens,
+        jsonMode: options.jsonMode,
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
+    try {
+      await this.logRequest(requestBody, options.taskId, options.agentId);
+
+      const estimatedTokens = estimateTokens(messages, requestBody.max_tokens);
+      const response = await rateLimiterService.schedule(this.name, model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: this.buildHeaders(),
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        await this.logError(`${this.config.name} API error: ${response.status} - ${error}`, options.taskId, options.agentId);
+        throw new Error(`${this.config.name} API error: ${response.status} - ${error}`);
+      }
+
+      const data: ChatCompletionResponse = await response.json();
+      const content = data.choices[0]?.message?.content || "";
+      const tokensInput = data.usage?.prompt_tokens || 0;
+      const tokensOutput = data.usage?.completion_tokens || 0;
+      const tokensUsed = data.usage?.total_tokens || tokensInput + tokensOutput;
+      const cost = this.calculateCost(model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, model, tokensUsed, estimatedTokens);
+
+      await this.logResponse(data, options.taskId, options.agentId);
+
+      const completion = {
+        content,
+        tokensUsed,
+        tokensInput,
+        tokensOutput,
+        cost,
+        model: data.model || model,
+      };
+      await trace.succeed(completion);
+      return completion;
+    } catch (error) {
+      await this.logError(`${this.config.name} service error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
+      throw error;
+    }
+  }
+
+  // Streams completion deltas as they arrive; resolves with the final usage once the stream ends
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options: ProviderCompletionOptions = {}
+  ): AsyncGenerator<string, CompletionResult, unknown> {
+    const model = this.selectModel(options);
+    const requestBody = {
+      model,
+      messages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens || 4096,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: model,
+      operation: 'stream',
+      messages,
+      parameters: { temperature: requestBody.temperature, maxTokens: requestBody.max_tokens },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
+    try {
+      await this.logRequest(requestBody, options.taskId, options.agentId);
+
+      const estimatedTokens = estimateTokens(messages, requestBody.max_tokens);
+      const response = await rateLimiterService.schedule(this.name, model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: this.buildHeaders(),
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        await this.logError(`${this.config.name} API error: ${response.status} - ${error}`, options.taskId, options.agentId);
+        throw new Error(`${this.config.name} API error: ${response.status} - ${error}`);
+      }
+
+      let content = "";
+      let finishReason = "";
+      let responseModel = model;
+      let usage: ChatCompletionResponse['usage'] | undefined;
+
+      for await (const data of readServerSentEvents(response)) {
+        if (data === '[DONE]') break;
+
+        const chunk: ChatCompletionChunk = JSON.parse(data);
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          yield delta;
+        }
+        finishReason = chunk.choices[0]?.finish_reason || finishReason;
+        responseModel = chunk.model || responseModel;
+        usage = chunk.usage || usage;
+      }
+
+      const tokensInput = usage?.prompt_tokens || 0;
+      const tokensOutput = usage?.completion_tokens || 0;
+      const tokensUsed = usage?.total_tokens || tokensInput + tokensOutput;
+      const cost = this.calculateCost(model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, model, tokensUsed, estimatedTokens);
+
+      await this.logResponse({
+        model: responseModel,
+        choices: [{ message: { content }, finish_reason: finishReason }],
+        usage,
+      }, options.taskId, options.agentId);
+
+      const completion = {
+        content,
+        tokensUsed,
+        tokensInput,
+        tokensOutput,
+        cost,
+        model: responseModel,
+      };
+      await trace.succeed(completion);
+      return completion;
+    } catch (error) {
+      await this.logError(`${this.config.name} streaming error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
+      throw error;
+    }
+  }
+
+  // Only used by the router when the endpoint is configured with tool support
+  async completeWithTools(
+    messages: ToolLoopMessage[],
+    tools: ToolDefinition[],
+    options: ProviderCompletionOptions = {}
+  ): Promise<ToolCompletion> {
+    const model = this.selectModel(options);
+    const requestBody = {
+      model,
+      messages: toOpenAIMessages(messages),
+      tools: toOpenAITools(tools),
+      tool_choice: 'auto',
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens || 4096,
+      stream: false,
+    };
+
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: model,
+      operation: 'tools',
+      messages,
+      parameters: {
+        temperature: requestBody.temperature,
+        maxTokens: requestBody.max_tokens,
+        tools: tools.map(tool => tool.name),
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
+    try {
+      await this.logRequest(requestBody, options.taskId, options.agentId);
+
+      const estimatedTokens = estimateTokens(messages, requestBody.max_tokens);
+      const response = await rateLimiterService.schedule(this.name, model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: this.buildHeaders(),
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        await this.logError(`${this.config.name} API error: ${response.status} - ${error}`, options.taskId, options.agentId);
+        throw new Error(`${this.config.name} API error: ${response.status} - ${error}`);
+      }
+
+      const data: ChatCompletionResponse = await response.json();
+      const message = data.choices[0]?.message;
+      const tokensInput = data.usage?.prompt_tokens || 0;
+      const tokensOutput = data.usage?.completion_tokens || 0;
+      const tokensUsed = data.usage?.total_tokens || tokensInput + tokensOutput;
+      const cost = this.calculateCost(model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, model, tokensUsed, estimatedTokens);
+
+      await this.logResponse(data, options.taskId, options.agentId);
+
+      const completion = {
+        content: message?.content || "",
+        toolCalls: parseOpenAIToolCalls(message?.tool_calls),
+        tokensUsed,
+        tokensInput,
+        tokensOutput,
+        cost,
+        model: data.model || model,
+      };
+      await trace.succeed(completion);
+      return completion;
+    } catch (error) {
+      await this.logError(`${this.config.name} service error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
+      throw error;
+    }
+  }
+
+  // Agent generation prompt based on AutoAgents framework
+  async generateAgentTeam(taskDescription: string, taskId?: string, signal?: AbortSignal): Promise<AgentTeamDefinition> {
+    const { messages, version: promptVersion } = promptLibraryService.render('planner', {
+      provider: this.name,
+      variables: { taskDescription },
+      assignmentKey: taskId,
+    });
+
+    const { value: team, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'agent_team',
+      schema: agentTeamSchema,
+      messages,
+      taskId,
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.2, // Lower temperature for more consistent planning
+        taskId,
+        signal,
+        isComplexReasoning: true,
+        jsonMode: this.capabilities.jsonMode,
+      }),
+    });
+
+    return { ...team, ...usage, promptVersion };
+  }
+
+  // Agent execution with specific role and context
+  async executeAgentAction(
+    agentPrompt: string,
+    agentContext: string,
+    userInput: string,
+    agentId?: string,
+    taskId?: string,
+    signal?: AbortSignal
+  ): Promise<AgentActionResult> {
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: agentPrompt
+      },
+      {
+        role: 'user',
+        content: `Context: ${agentContext}\n\nRequest: ${userInput}`
+      }
+    ];
+
+    const response = await this.generateCompletion(messages, {
+      temperature: 0.7,
+      agentId,
+      taskId,
+      signal,
+    });
+
+    // Simple confidence calculation based on response length and coherence
+    const confidence = Math.min(Math.max(response.content.length / 10, 20), 95);
+
+    return {
+      response: response.content,
+      confidence,
+      tokensUsed: response.tokensUsed,
+      cost: response.cost,
+      tokensInput: response.tokensInput,
+      tokensOutput: response.tokensOutput,
+      model: response.model,
+    };
+  }
+
+  // Observer agent for plan and execution critique
+  async observeAndCritique(
+    planOrExecution: any,
+    context: string,
+    type: 'plan' | 'execution',
+    taskId?: string,
+    signal?: AbortSignal,
+    model?: string
+  ): Promise<CritiqueResult> {
+    const { messages, version: promptVersion } = promptLibraryService.render('observer', {
+      provider: this.name,
+      variables: {
+        type,
+        targetLabel: type === 'plan' ? 'Execution Plan' : 'Execution Result',
+        target: JSON.stringify(planOrExecution),
+        context,
+      },
+      assignmentKey: taskId,
+    });
+
+    const { value: critique, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'critique',
+      schema: critiqueSchema,
+      messages,
+      taskId,
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.3,
+        taskId,
+        signal,
+        model,
+        isComplexReasoning: true,
+        jsonMode: this.capabilities.jsonMode,
+      }),
+    });
+
+    return { ...critique, ...usage, promptVersion };
+  }
+
+  private calculateCost(model: string | undefined, tokensInput: number, tokensOutput: number): number {
+    return pricingService.calculateCost(this.config.name, model, tokensInput, tokensOutput);
+  }
+
+  private async logRequest(request: any, taskId?: string, agentId?: string): Promise<void> {
+    try {
+      await storage.createLog({
+        level: 'info',
+        category: 'api',
+        message: `${this.config.name} API request initiated`,
+        data: {
+          provider: this.config.name,
+          baseUrl: this.config.baseUrl,
+          model: request.model,
+          messageCount: request.messages?.length,
+          temperature: request.temperature,
+          maxTokens: request.max_tokens,
+        },
+        taskId: taskId || null,
+        agentId: agentId || null,
+      });
+    } catch (error) {
+      console.error(`Failed to log ${this.config.name} request:`, error);
+    }
+  }
+
+  private async logResponse(response: ChatCompletionResponse, taskId?: string, agentId?: string): Promise<void> {
+    try {
+      await storage.createLog({
+        level: 'info',
+        category: 'api',
+        message: `${this.config.name} API response received`,
+        data: {
+          provider: this.config.name,
+          model: response.model,
+          tokensUsed: response.usage?.total_tokens,
+          finishReason: response.choices[0]?.finish_reason,
+          cost: this.calculateCost(response.model, response.usage?.prompt_tokens || 0, response.usage?.completion_tokens || 0),
+        },
+        taskId: taskId || null,
+        agentId: agentId || null,
+      });
+    } catch (error) {
+      console.error(`Failed to log ${this.config.name} response:`, error);
+    }
+  }
+
+  private async logError(error: string, taskId?: string, agentId?: string): Promise<void> {
+    try {
+      await storage.createLog({
+        level: 'error',
+        category: 'api',
+        message: error,
+        taskId: taskId || null,
+        agentId: agentId || null,
+      });
+    } catch (error) {
+      console.error(`Failed to log ${this.config.name} error:`, error);
+    }
+  }
+}
+
+// Reads named endpoints from the environment, e.g.
+//   OPENAI_COMPATIBLE_PROVIDERS=vllm,llamacpp
+//   VLLM_BASE_URL=http://gpu-box:8000/v1
+//   VLLM_MODELS=meta-llama/Llama-3.1-70B-Instruct,meta-llama/Llama-3.1-8B-Instruct
+export function loadOpenAICompatibleEndpoints(env: NodeJS.ProcessEnv = process.env): OpenAICompatibleEndpointConfig[] {
+  const names = (env.OPENAI_COMPATIBLE_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const endpoints: OpenAICompatibleEndpointConfig[] = [];
+
+  for (const name of names) {
+    const prefix = name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    const baseUrl = env[`${prefix}_BASE_URL`];
+
+    if (!baseUrl) {
+      console.warn(`${prefix}_BASE_URL not provided. OpenAI-compatible provider "${name}" will not be available.`);
+      continue;
+    }
+
+    const capabilities = (env[`${prefix}_CAPABILITIES`] || '')
+      .split(',')
+      .map(capability => capability.trim().toLowerCase());
+
+    endpoints.push({
+      name,
+      baseUrl,
+      apiKey: env[`${prefix}_API_KEY`] || undefined,
+      models: (env[`${prefix}_MODELS`] || '')
+        .split(',')
+        .map(model => model.trim())
+        .filter(Boolean),
+      inputCostPer1M: parseFloat(env[`${prefix}_INPUT_COST_PER_1M`] || '0') || 0,
+      outputCostPer1M: parseFloat(env[`${prefix}_OUTPUT_COST_PER_1M`] || '0') || 0,
+      tools: capabilities.includes('tools'),
+      jsonMode: capabilities.includes('json'),
+      vision: capabilities.includes('vision'),
+    });
+  }
+
+  return endpoints;
+}
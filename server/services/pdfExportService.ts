@@ -1,4 +1,5 @@
 import { storage } from '../storage';
+import type { TaskDeliverable } from '@shared/schema';
 
 interface ExportOptions {
   format: 'pdf' | 'html' | 'markdown';
@@ -16,6 +17,11 @@ interface TaskExportData {
   logs: any[];
   metrics: any;
   timeline?: any[];
+  deliverable?: TaskDeliverable; // latest version
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
 export class PDFExportService {
@@ -87,6 +93,9 @@ export class PDFExportService {
     // Get logs
     const logs = await storage.getLogsByTaskId(taskId);
     
+    // Get the latest deliverable
+    const [deliverable] = await storage.getTaskDeliverables(taskId);
+
     // Calculate metrics
     const metrics = await this.calculateTaskMetrics(taskId, executions, agents);
     
@@ -103,12 +112,13 @@ export class PDFExportService {
       collaborations,
       logs,
       metrics,
-      timeline
+      timeline,
+      deliverable
     };
   }
 
   private generateHTMLContent(data: TaskExportData, options: ExportOptions): string {
-    const { task, agents, executions, metrics, timeline } = data;
+    const { task, agents, executions, metrics, timeline, deliverable } = data;
     
     return `
 <!DOCTYPE html>
@@ -238,6 +248,12 @@ export class PDFExportService {
             color: #6b7280;
             font-size: 0.9em;
         }
+        .deliverable {
+            white-space: pre-wrap;
+            background: white;
+            padding: 15px;
+            border-radius: 6px;
+        }
         .footer {
             margin-top: 50px;
             padding-top: 20px;
@@ -272,6 +288,13 @@ export class PDFExportService {
         ${task.estimatedDuration ? `<p><strong>Estimated Duration:</strong> ${task.estimatedDuration}</p>` : ''}
     </div>
 
+    ${deliverable ? `
+    <div class="section">
+        <h2>Deliverable (v${deliverable.version})</h2>
+        <div class="deliverable">${escapeHtml(deliverable.content)}</div>
+    </div>
+    ` : ''}
+
     ${options.includeMetrics !== false ? `
     <div class="section">
         <h2>Performance Metrics</h2>
@@ -351,7 +374,7 @@ export class PDFExportService {
   }
 
   private generateMarkdownContent(data: TaskExportData, options: ExportOptions): string {
-    const { task, agents, executions, metrics, timeline } = data;
+    const { task, agents, executions, metrics, timeline, deliverable } = data;
     
     let markdown = `# Task Report: ${task.title}\n\n`;
     markdown += `**Generated:** ${new Date().toLocaleString()}\n`;
@@ -369,6 +392,11 @@ export class PDFExportService {
     }
     markdown += `\n`;
 
+    if (deliverable) {
+      markdown += `## Deliverable (v${deliverable.version})\n\n`;
+      markdown += `${deliverable.content}\n\n`;
+    }
+
     if (options.includeMetrics !== false) {
       markdown += `## Performance Metrics\n\n`;
       markdown += `| Metric | Value |\n`;
@@ -1,5 +1,21 @@
 import { systemLogs } from "@shared/schema";
 import { storage } from "../storage";
+import { readServerSentEvents } from "./streaming";
+import type {
+  AgentActionResult,
+  AgentTeamDefinition,
+  CompletionUsage,
+  CritiqueResult,
+  LLMProviderService,
+  ProviderCapabilities,
+  ProviderCompletion,
+  ResearchResult,
+} from "./llmProvider";
+import { estimateTokens, rateLimiterService } from "./rateLimiterService";
+import { pricingService } from "./pricingService";
+import { agentTeamSchema, critiqueSchema, structuredOutputService } from "./structuredOutputService";
+import { promptLibraryService } from "./promptLibraryService";
+import { llmTraceService } from "./llmTraceService";
 
 interface PerplexityMessage {
   role: 'system' | 'user' | 'assistant';
@@ -37,7 +53,18 @@ interface PerplexityServiceConfig {
   baseUrl: string;
 }
 
-export class PerplexityService {
+export class PerplexityService implements LLMProviderService {
+  readonly name = 'perplexity';
+  readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    tools: false,
+    jsonMode: false,
+    vision: false,
+    research: true,
+    local: false,
+    embeddings: false,
+  };
+
   private config: PerplexityServiceConfig;
 
   constructor() {
@@ -52,6 +79,10 @@ export class PerplexityService {
     }
   }
 
+  async isAvailable(): Promise<boolean> {
+    return !!this.config.apiKey;
+  }
+
   async generateCompletion(
     messages: PerplexityMessage[],
     options: {
@@ -59,23 +90,20 @@ export class PerplexityService {
       maxTokens?: number;
       taskId?: string;
       agentId?: string;
+      model?: string;
+      signal?: AbortSignal;
       isResearch?: boolean;
       searchDomainFilter?: string[];
       searchRecency?: 'day' | 'week' | 'month' | 'year';
       returnCitations?: boolean;
     } = {}
-  ): Promise<{
-    content: string;
-    tokensUsed: number;
-    cost: number;
-    citations?: string[];
-  }> {
+  ): Promise<ProviderCompletion & { citations?: string[] }> {
     if (!this.config.apiKey) {
       throw new Error("Perplexity API key not configured");
     }
 
     const requestBody: any = {
-      model: options.isResearch ? "llama-3.1-sonar-large-128k-online" : this.config.model,
+      model: options.model || (options.isResearch ? "llama-3.1-sonar-large-128k-online" : this.config.model),
       messages,
       temperature: options.temperature || 0.2,
       max_tokens: options.maxTokens || 4096,
@@ -92,17 +120,36 @@ export class PerplexityService {
       requestBody.return_citations = options.returnCitations !== false;
     }
 
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: requestBody.model,
+      operation: 'completion',
+      messages,
+      parameters: {
+        temperature: requestBody.temperature,
+        maxTokens: requestBody.max_tokens,
+        isResearch: options.isResearch,
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
     try {
       await this.logRequest(requestBody, options.taskId, options.agentId);
 
-      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
+      const estimatedTokens = estimateTokens(messages, requestBody.max_tokens);
+      const response = await rateLimiterService.schedule(this.name, requestBody.model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
 
       if (!response.ok) {
         const error = await response.text();
@@ -113,18 +160,139 @@ export class PerplexityService {
       const data: PerplexityResponse = await response.json();
       const content = data.choices[0]?.message?.content || "";
       const tokensUsed = data.usage?.total_tokens || 0;
-      const cost = this.calculateCost(tokensUsed, options.isResearch);
+      const tokensInput = data.usage?.prompt_tokens || 0;
+      const tokensOutput = data.usage?.completion_tokens || 0;
+      const cost = this.calculateCost(requestBody.model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, requestBody.model, tokensUsed, estimatedTokens);
 
       await this.logResponse(data, options.taskId, options.agentId);
 
-      return {
+      const completion = {
         content,
         tokensUsed,
         cost,
+        tokensInput,
+        tokensOutput,
+        model: requestBody.model,
         citations: data.citations,
       };
+      await trace.succeed(completion);
+      return completion;
     } catch (error) {
       await this.logError(`Perplexity service error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
+      throw error;
+    }
+  }
+
+  // Streams completion deltas; citations and usage are taken from the last chunk that carries them
+  async *streamCompletion(
+    messages: PerplexityMessage[],
+    options: {
+      temperature?: number;
+      maxTokens?: number;
+      taskId?: string;
+      agentId?: string;
+      model?: string;
+      signal?: AbortSignal;
+      isResearch?: boolean;
+    } = {}
+  ): AsyncGenerator<string, ProviderCompletion & { citations?: string[] }, unknown> {
+    if (!this.config.apiKey) {
+      throw new Error("Perplexity API key not configured");
+    }
+
+    const requestBody = {
+      model: options.model || (options.isResearch ? "llama-3.1-sonar-large-128k-online" : this.config.model),
+      messages,
+      temperature: options.temperature || 0.2,
+      max_tokens: options.maxTokens || 4096,
+      top_p: 0.9,
+      frequency_penalty: 0,
+      presence_penalty: 0,
+      stream: true,
+    };
+
+    const trace = llmTraceService.begin({
+      provider: this.name,
+      model: requestBody.model,
+      operation: 'stream',
+      messages,
+      parameters: {
+        temperature: requestBody.temperature,
+        maxTokens: requestBody.max_tokens,
+        isResearch: options.isResearch,
+      },
+      taskId: options.taskId,
+      agentId: options.agentId,
+    });
+
+    try {
+      await this.logRequest(requestBody, options.taskId, options.agentId);
+
+      const estimatedTokens = estimateTokens(messages, requestBody.max_tokens);
+      const response = await rateLimiterService.schedule(this.name, requestBody.model, estimatedTokens, () =>
+        fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal: options.signal,
+        }),
+        options.signal
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        await this.logError(`Perplexity API error: ${response.status} - ${error}`, options.taskId, options.agentId);
+        throw new Error(`Perplexity API error: ${response.status} - ${error}`);
+      }
+
+      let content = "";
+      let lastChunk: PerplexityResponse | undefined;
+      let usage: PerplexityResponse['usage'];
+      let citations: string[] | undefined;
+
+      for await (const data of readServerSentEvents(response)) {
+        if (data === '[DONE]') break;
+
+        const chunk: PerplexityResponse = JSON.parse(data);
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          yield delta;
+        }
+        usage = chunk.usage || usage;
+        citations = chunk.citations || citations;
+        lastChunk = chunk;
+      }
+
+      const tokensUsed = usage?.total_tokens || 0;
+      const tokensInput = usage?.prompt_tokens || 0;
+      const tokensOutput = usage?.completion_tokens || 0;
+      const cost = this.calculateCost(requestBody.model, tokensInput, tokensOutput);
+      rateLimiterService.recordUsage(this.name, requestBody.model, tokensUsed, estimatedTokens);
+
+      if (lastChunk) {
+        await this.logResponse({ ...lastChunk, usage, citations }, options.taskId, options.agentId);
+      }
+
+      const completion = {
+        content,
+        tokensUsed,
+        cost,
+        tokensInput,
+        tokensOutput,
+        model: requestBody.model,
+        citations,
+      };
+      await trace.succeed(completion);
+      return completion;
+    } catch (error) {
+      await this.logError(`Perplexity streaming error: ${error}`, options.taskId, options.agentId);
+      await trace.fail(error);
       throw error;
     }
   }
@@ -134,16 +302,12 @@ export class PerplexityService {
     options: {
       taskId?: string;
       agentId?: string;
+      signal?: AbortSignal;
       searchDomainFilter?: string[];
       searchRecency?: 'day' | 'week' | 'month' | 'year';
       focusAreas?: string[];
     } = {}
-  ): Promise<{
-    research: string;
-    citations: string[];
-    tokensUsed: number;
-    cost: number;
-  }> {
+  ): Promise<ResearchResult> {
     const researchPrompt = `You are a research assistant. Perform comprehensive research on the following topic and provide detailed, factual information with citations.
 
 Research Query: ${query}
@@ -176,6 +340,7 @@ Ensure all information is accurate, up-to-date, and properly cited.`;
       maxTokens: 4096,
       taskId: options.taskId,
       agentId: options.agentId,
+      signal: options.signal,
       isResearch: true,
       searchDomainFilter: options.searchDomainFilter,
       searchRecency: options.searchRecency,
@@ -187,69 +352,45 @@ Ensure all information is accurate, up-to-date, and properly cited.`;
       citations: response.citations || [],
       tokensUsed: response.tokensUsed,
       cost: response.cost,
+      tokensInput: response.tokensInput,
+      tokensOutput: response.tokensOutput,
+      model: response.model,
     };
   }
 
-  async generateAgentTeam(taskDescription: string, taskId?: string): Promise<{
-    agents: Array<{
-      name: string;
-      role: string;
-      prompt: string;
-      description: string;
-      toolset: string[];
-      suggestions: string;
-    }>;
-    executionPlan: {
-      steps: string[];
-      workflow: string;
-      estimatedDuration: string;
-    };
-  }> {
+  async generateAgentTeam(taskDescription: string, taskId?: string, signal?: AbortSignal): Promise<AgentTeamDefinition> {
     // First, research best practices for this type of task
     const research = await this.performResearch(
       `Best practices and methodologies for: ${taskDescription}`,
       {
         taskId,
+        signal,
         focusAreas: ['automation', 'AI agents', 'workflow optimization', 'tool selection'],
         searchRecency: 'month'
       }
     );
 
-    const plannerPrompt = `Based on the following research about best practices, generate an optimal team of AI agents for this task.
-
-Research Context:
-${research.research}
-
-Task: ${taskDescription}
-
-Generate a team of 3-5 specialized agents following the AutoAgents A = {P, D, T, S} framework. Consider the latest methodologies and tools mentioned in the research.
-
-Respond in JSON format with agents array and executionPlan object.`;
-
-    const messages: PerplexityMessage[] = [
-      {
-        role: 'system',
-        content: 'You are an expert AI planner with knowledge of the latest tools and methodologies.'
-      },
-      {
-        role: 'user',
-        content: plannerPrompt
-      }
-    ];
+    const { messages, version: promptVersion } = promptLibraryService.render('planner', {
+      provider: this.name,
+      variables: { taskDescription, research: research.research },
+      assignmentKey: taskId,
+    });
 
-    const response = await this.generateCompletion(messages, {
-      temperature: 0.3,
+    const { value: team, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'agent_team',
+      schema: agentTeamSchema,
+      messages,
       taskId,
-      isResearch: false, // Use regular model for generation
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.3,
+        taskId,
+        signal,
+        isResearch: false, // Use regular model for generation
+      }),
     });
 
-    try {
-      const cleanedContent = response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      return JSON.parse(cleanedContent);
-    } catch (error) {
-      await this.logError(`Failed to parse agent team JSON: ${error}`, taskId);
-      throw new Error('Failed to parse agent team response from Perplexity');
-    }
+    return { ...team, ...this.addResearchUsage(usage, research), promptVersion };
   }
 
   async executeAgentAction(
@@ -258,14 +399,9 @@ Respond in JSON format with agents array and executionPlan object.`;
     userInput: string,
     agentId?: string,
     taskId?: string,
+    signal?: AbortSignal,
     requiresResearch: boolean = false
-  ): Promise<{
-    response: string;
-    confidence: number;
-    tokensUsed: number;
-    cost: number;
-    citations?: string[];
-  }> {
+  ): Promise<AgentActionResult & { citations?: string[] }> {
     let enhancedContext = agentContext;
     let citations: string[] = [];
 
@@ -273,6 +409,7 @@ Respond in JSON format with agents array and executionPlan object.`;
     if (requiresResearch) {
       const research = await this.performResearch(userInput, {
         taskId,
+        signal,
         agentId,
         searchRecency: 'week'
       });
@@ -295,6 +432,7 @@ Respond in JSON format with agents array and executionPlan object.`;
       temperature: 0.7,
       agentId,
       taskId,
+      signal,
       isResearch: requiresResearch,
     });
 
@@ -305,6 +443,9 @@ Respond in JSON format with agents array and executionPlan object.`;
       confidence,
       tokensUsed: response.tokensUsed,
       cost: response.cost,
+      tokensInput: response.tokensInput,
+      tokensOutput: response.tokensOutput,
+      model: response.model,
       citations: citations.length > 0 ? citations : response.citations,
     };
   }
@@ -313,72 +454,65 @@ Respond in JSON format with agents array and executionPlan object.`;
     planOrExecution: any,
     context: string,
     type: 'plan' | 'execution',
-    taskId?: string
-  ): Promise<{
-    feedback: string;
-    suggestions: string[];
-    needsRefinement: boolean;
-    confidence: number;
-  }> {
+    taskId?: string,
+    signal?: AbortSignal,
+    model?: string
+  ): Promise<CritiqueResult> {
     // Research current best practices for evaluation
     const research = await this.performResearch(
       `Best practices for evaluating ${type === 'plan' ? 'project plans' : 'execution results'} in ${context}`,
       {
         taskId,
+        signal,
         searchRecency: 'month',
         focusAreas: ['quality metrics', 'evaluation criteria', 'improvement strategies']
       }
     );
 
-    const observerPrompt = `You are an Observer agent with knowledge of current best practices. Evaluate the following ${type} based on the latest industry standards.
-
-Research on Best Practices:
-${research.research}
-
-${type === 'plan' ? 'Execution Plan' : 'Execution Result'}: ${JSON.stringify(planOrExecution)}
-Context: ${context}
-
-Provide detailed feedback with specific, actionable suggestions based on current best practices.
-
-Respond in JSON format with feedback, suggestions array, needsRefinement boolean, and confidence score.`;
-
-    const messages: PerplexityMessage[] = [
-      {
-        role: 'system',
-        content: 'You are an expert Observer agent with access to current industry best practices.'
+    const { messages, version: promptVersion } = promptLibraryService.render('observer', {
+      provider: this.name,
+      variables: {
+        type,
+        targetLabel: type === 'plan' ? 'Execution Plan' : 'Execution Result',
+        target: JSON.stringify(planOrExecution),
+        context,
+        research: research.research,
       },
-      {
-        role: 'user',
-        content: observerPrompt
-      }
-    ];
+      assignmentKey: taskId,
+    });
 
-    const response = await this.generateCompletion(messages, {
-      temperature: 0.3,
+    const { value: critique, usage } = await structuredOutputService.generate({
+      provider: this.name,
+      schemaName: 'critique',
+      schema: critiqueSchema,
+      messages,
       taskId,
-      isResearch: false,
+      complete: (attemptMessages) => this.generateCompletion(attemptMessages, {
+        temperature: 0.3,
+        taskId,
+        signal,
+        model,
+        isResearch: false,
+      }),
     });
 
-    try {
-      const cleanedContent = response.content.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      return JSON.parse(cleanedContent);
-    } catch (error) {
-      await this.logError(`Failed to parse observer feedback JSON: ${error}`, taskId);
-      return {
-        feedback: response.content,
-        suggestions: [],
-        needsRefinement: false,
-        confidence: 70,
-      };
-    }
+    return { ...critique, ...this.addResearchUsage(usage, research), promptVersion };
+  }
+
+  // Teams and critiques are grounded by a research call first, which is billed with them
+  private addResearchUsage(usage: CompletionUsage, research: ResearchResult): CompletionUsage {
+    return {
+      tokensUsed: usage.tokensUsed + research.tokensUsed,
+      tokensInput: usage.tokensInput + (research.tokensInput || 0),
+      tokensOutput: usage.tokensOutput + (research.tokensOutput || 0),
+      cost: usage.cost + research.cost,
+      model: usage.model,
+    };
   }
 
-  private calculateCost(tokens: number, isResearch: boolean = false): number {
-    // Perplexity pricing (approximate)
-    // Sonar models: ~$1 per 1000 requests or ~$0.001 per request
-    // For token-based pricing, using estimated rates
-    const costPerToken = isResearch ? 0.000001 : 0.0000005; // Research queries cost more
-    return tokens * costPerToken;
+  // Online (research) and chat Sonar models are priced separately in the catalog
+  private calculateCost(model: string, tokensInput: number, tokensOutput: number): number {
+    return pricingService.calculateCost(this.name, model, tokensInput, tokensOutput);
   }
 
   private async logRequest(request: any, taskId?: string, agentId?: string): Promise<void> {
@@ -0,0 +1,218 @@
+import { storage } from "../storage";
+import { llmRouter } from "./llmRouter";
+import { promptLibraryService } from "./promptLibraryService";
+import { planRevisionSchema, structuredOutputService } from "./structuredOutputService";
+import { describeStep, normalizePlanSteps } from "./planSteps";
+import type { CritiqueResult } from "./llmProvider";
+import type { ExecutionPlan } from "@shared/schema";
+
+export interface StepChange {
+  type: 'added' | 'removed' | 'unchanged';
+  step: string;
+}
+
+export interface PlanDiff {
+  fromVersion: number;
+  toVersion: number;
+  steps: StepChange[];
+  added: number;
+  removed: number;
+  workflowChanged: boolean;
+  estimatedDurationChanged: boolean;
+}
+
+export interface PlanVersion {
+  plan: ExecutionPlan;
+  diff?: PlanDiff; // against the previous version
+}
+
+// Line diff of two step lists over their longest common subsequence
+export function diffSteps(previous: string[], next: string[]): StepChange[] {
+  const lengths: number[][] = [];
+  for (let i = previous.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = next.length; j >= 0; j--) {
+      lengths[i][j] = i === previous.length || j === next.length ? 0
+        : previous[i] === next[j] ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: StepChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < previous.length && j < next.length) {
+    if (previous[i] === next[j]) {
+      changes.push({ type: 'unchanged', step: next[j] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      changes.push({ type: 'removed', step: previous[i++] });
+    } else {
+      changes.push({ type: 'added', step: next[j++] });
+    }
+  }
+  while (i < previous.length) changes.push({ type: 'removed', step: previous[i++] });
+  while (j < next.length) changes.push({ type: 'added', step: next[j++] });
+
+  return changes;
+}
+
+function planDetails(plan: ExecutionPlan): { workflow?: string; estimatedDuration?: string } {
+  return ((plan.plannerOutput || {}) as Record<string, any>).executionPlan || {};
+}
+
+// Revises a task's execution plan from observer critique. Each revision is stored as a new
+// execution_plans row with the next version number, so every version of the plan stays
+// available and can be diffed against the one before it. The latest version is the one
+// executed.
+export class PlanRefinementService {
+  async refine(taskId: string, critique: CritiqueResult, signal?: AbortSignal): Promise<ExecutionPlan> {
+    const [current] = await storage.getExecutionPlansByTask(taskId);
+    if (!current) {
+      throw new Error('No execution plan found');
+    }
+    const task = await storage.getTask(taskId);
+
+    const plannerOutput = (current.plannerOutput || {}) as Record<string, any>;
+    const agentRoles = (current.agentRoles || []) as Array<{ name?: string; role?: string }>;
+
+    // The revision goes through the router, so the generic prompt version is used
+    const { messages, version: promptVersion } = promptLibraryService.render('plan_reviser', {
+      provider: 'router',
+      variables: {
+        taskDescription: task?.description || '',
+        agents: agentRoles.map(agent => agent.role || agent.name).join(', '),
+        plan: JSON.stringify({ ...planDetails(current), steps: current.executionSteps }, null, 2),
+        feedback: critique.feedback,
+        suggestions: critique.suggestions.map(suggestion => `- ${suggestion}`).join('\n') || '- None',
+      },
+      assignmentKey: taskId,
+    });
+
+    const { value: revision } = await structuredOutputService.generate({
+      provider: 'router',
+      schemaName: 'plan_revision',
+      schema: planRevisionSchema,
+      messages,
+      taskId,
+      complete: (attemptMessages) => llmRouter.chat(attemptMessages, {
+        taskId,
+        signal,
+        temperature: 0.2,
+        isComplexReasoning: true,
+      }),
+    });
+
+    const revised = await storage.createExecutionPlan({
+      taskId,
+      plannerOutput: { ...plannerOutput, executionPlan: revision.executionPlan },
+      agentRoles: current.agentRoles,
+      executionSteps: revision.executionPlan.steps,
+      status: 'draft',
+      version: (current.version || 1) + 1,
+      refinementCount: (current.refinementCount || 0) + 1,
+      observerFeedback: {
+        revision: {
+          fromVersion: current.version || 1,
+          changes: revision.changes,
+          feedback: critique.feedback,
+          suggestions: critique.suggestions,
+          confidence: critique.confidence,
+        },
+      },
+      promptVersions: {
+        ...((current.promptVersions || {}) as Record<string, unknown>),
+        plan_reviser: promptVersion,
+      },
+    });
+
+    await storage.updateExecutionPlan(current.id, { status: 'superseded' });
+
+    const diff = this.diff(current, revised);
+    await storage.createLog({
+      level: 'info',
+      category: 'task',
+      message: `Plan revised to version ${revised.version}: ${diff.added} steps added, ${diff.removed} removed`,
+      data: {
+        planId: revised.id,
+        fromVersion: diff.fromVersion,
+        toVersion: diff.toVersion,
+        changes: revision.changes,
+      },
+      taskId,
+    });
+
+    return revised;
+  }
+
+  // Stores steps edited by a reviewer at the approval gate as the next version. The reviewer
+  // signed off on the edit, so the version is stored as approved.
+  async applyEdits(taskId: string, steps: unknown[], note?: string): Promise<ExecutionPlan> {
+    const [current] = await storage.getExecutionPlansByTask(taskId);
+    if (!current) {
+      throw new Error('No execution plan found');
+    }
+
+    const plannerOutput = (current.plannerOutput || {}) as Record<string, any>;
+    const edited = await storage.createExecutionPlan({
+      taskId,
+      plannerOutput: { ...plannerOutput, executionPlan: { ...planDetails(current), steps } },
+      agentRoles: current.agentRoles,
+      executionSteps: steps,
+      status: 'approved',
+      version: (current.version || 1) + 1,
+      refinementCount: current.refinementCount || 0,
+      observerFeedback: {
+        humanEdit: {
+          fromVersion: current.version || 1,
+          note: note || null,
+        },
+      },
+      promptVersions: current.promptVersions,
+    });
+
+    await storage.updateExecutionPlan(current.id, { status: 'superseded' });
+
+    const diff = this.diff(current, edited);
+    await storage.createLog({
+      level: 'info',
+      category: 'task',
+      message: `Plan edited by a reviewer as version ${edited.version}: ${diff.added} steps added, ${diff.removed} removed`,
+      data: { planId: edited.id, fromVersion: diff.fromVersion, toVersion: diff.toVersion, note },
+      taskId,
+    });
+
+    return edited;
+  }
+
+  // Oldest version first
+  async getVersions(taskId: string): Promise<PlanVersion[]> {
+    const plans = [...await storage.getExecutionPlansByTask(taskId)].reverse();
+    return plans.map((plan, index) => ({
+      plan,
+      diff: index > 0 ? this.diff(plans[index - 1], plan) : undefined,
+    }));
+  }
+
+  diff(previous: ExecutionPlan, next: ExecutionPlan): PlanDiff {
+    const steps = diffSteps(
+      normalizePlanSteps(previous.executionSteps).map(describeStep),
+      normalizePlanSteps(next.executionSteps).map(describeStep)
+    );
+    const before = planDetails(previous);
+    const after = planDetails(next);
+
+    return {
+      fromVersion: previous.version || 1,
+      toVersion: next.version || 1,
+      steps,
+      added: steps.filter(change => change.type === 'added').length,
+      removed: steps.filter(change => change.type === 'removed').length,
+      workflowChanged: (before.workflow || '') !== (after.workflow || ''),
+      estimatedDurationChanged: (before.estimatedDuration || '') !== (after.estimatedDuration || ''),
+    };
+  }
+}
+
+export const planRefinementService = new PlanRefinementService();
@@ -0,0 +1,106 @@
+// Structured execution plan steps. Plans used to be a flat list of step descriptions run in
+// order; those are still accepted and become a chain where each step depends on the one
+// before it.
+
+export interface PlanStep {
+  id: string;
+  description: string;
+  assignedRole: string; // agent role expected to carry the step out; empty when any agent will do
+  inputs: string[];
+  outputs: string[];
+  dependsOn: string[]; // ids of steps that must complete first
+}
+
+export function normalizePlanSteps(raw: unknown): PlanStep[] {
+  const items = Array.isArray(raw) ? raw : [];
+  const steps: PlanStep[] = [];
+  const ids = new Set<string>();
+
+  items.forEach((item, index) => {
+    const previous = steps[steps.length - 1];
+    if (typeof item === 'string') {
+      if (!item.trim()) return;
+      steps.push({
+        id: uniqueId(`step-${index + 1}`, ids),
+        description: item,
+        assignedRole: '',
+        inputs: [],
+        outputs: [],
+        dependsOn: previous ? [previous.id] : [],
+      });
+      return;
+    }
+
+    if (!item || typeof item !== 'object') return;
+    const step = item as Record<string, unknown>;
+    steps.push({
+      id: uniqueId(String(step.id || `step-${index + 1}`), ids),
+      description: String(step.description || step.title || ''),
+      assignedRole: String(step.assignedRole || step.role || ''),
+      inputs: toStringList(step.inputs),
+      outputs: toStringList(step.outputs),
+      dependsOn: toStringList(step.dependsOn),
+    });
+  });
+
+  // Edges to unknown steps or to the step itself are dropped
+  steps.forEach(step => {
+    step.dependsOn = step.dependsOn.filter((id, index, all) =>
+      id !== step.id && ids.has(id) && all.indexOf(id) === index
+    );
+  });
+
+  return steps;
+}
+
+// Returns the ids along a dependency cycle, or null when the steps form a DAG
+export function findDependencyCycle(steps: PlanStep[]): string[] | null {
+  const byId = new Map<string, PlanStep>();
+  steps.forEach(step => byId.set(step.id, step));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') {
+      return path.slice(path.indexOf(id)).concat(id);
+    }
+
+    state.set(id, 'visiting');
+    path.push(id);
+    const dependencies = byId.get(id)?.dependsOn || [];
+    for (const dependency of dependencies) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+export function describeStep(step: PlanStep): string {
+  return step.assignedRole ? `${step.description} [${step.assignedRole}]` : step.description;
+}
+
+function uniqueId(candidate: string, ids: Set<string>): string {
+  let id = candidate.trim() || `step-${ids.size + 1}`;
+  for (let suffix = 2; ids.has(id); suffix++) {
+    id = `${candidate}-${suffix}`;
+  }
+  ids.add(id);
+  return id;
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return typeof value === 'string' && value.trim() ? [value] : [];
+  }
+  return value.filter(entry => typeof entry === 'string' || typeof entry === 'number').map(String);
+}
@@ -0,0 +1,217 @@
+import { storage } from "../storage";
+import type { InsertModelPricing, ModelPricing } from "@shared/schema";
+
+// Relative output quality of a model, used by budget-aware routing to decide how far a
+// call can be degraded
+export type QualityTier = 'premium' | 'standard' | 'economy';
+
+export const QUALITY_TIERS: QualityTier[] = ['economy', 'standard', 'premium'];
+
+export interface PriceRate {
+  id?: string;
+  provider: string;
+  model: string;
+  inputCostPer1M: number;
+  outputCostPer1M: number;
+  currency: string;
+  qualityTier: QualityTier;
+  effectiveFrom: Date;
+  source: 'catalog' | 'default';
+}
+
+// Wildcard model used for provider-wide rates
+export const ANY_MODEL = '*';
+
+// Share of a token estimate assumed to be prompt tokens when only a total is known
+const ESTIMATED_INPUT_SHARE = 0.6;
+
+const DEFAULTS_EFFECTIVE_FROM = new Date('2024-01-01T00:00:00Z');
+
+// Built-in list prices (USD per 1M tokens) and quality tiers used until the catalog has
+// an entry for a model
+const DEFAULT_PRICING: Array<[string, string, number, number, QualityTier]> = [
+  ['groq', 'llama-3.1-70b-versatile', 0.59, 0.79, 'standard'],
+  ['groq', 'llama-3.3-70b-versatile', 0.59, 0.79, 'standard'],
+  ['groq', 'llama-3.1-8b-instant', 0.05, 0.08, 'economy'],
+  ['groq', 'openai/gpt-oss-120b', 0.15, 0.75, 'standard'],
+  ['groq', 'openai/gpt-oss-20b', 0.10, 0.50, 'economy'],
+  ['groq', ANY_MODEL, 0.59, 0.79, 'standard'],
+  ['gemini', 'gemini-2.5-pro', 1.25, 10.00, 'premium'],
+  ['gemini', 'gemini-2.5-flash', 0.30, 2.50, 'standard'],
+  ['gemini', 'gemini-1.5-flash', 0.075, 0.30, 'standard'],
+  ['gemini', 'gemini-1.5-flash-8b', 0.0375, 0.15, 'economy'],
+  ['gemini', ANY_MODEL, 1.25, 10.00, 'premium'],
+  ['perplexity', 'llama-3.1-sonar-large-128k-online', 1.00, 1.00, 'standard'],
+  ['perplexity', ANY_MODEL, 1.00, 1.00, 'standard'],
+  ['ollama', ANY_MODEL, 0, 0, 'economy'],
+];
+
+// Single source of truth for model pricing. Rates edited through the API are stored in
+// the model_pricing table and take precedence over the built-in defaults; lookups are
+// served from memory so providers can price a response synchronously.
+export class PricingService {
+  private defaults: PriceRate[];
+  private catalog: PriceRate[] = [];
+
+  constructor() {
+    this.defaults = DEFAULT_PRICING.map(([provider, model, inputCostPer1M, outputCostPer1M, qualityTier]) => ({
+      provider,
+      model,
+      inputCostPer1M,
+      outputCostPer1M,
+      currency: 'USD',
+      qualityTier,
+      effectiveFrom: DEFAULTS_EFFECTIVE_FROM,
+      source: 'default' as const,
+    }));
+  }
+
+  async initialize(): Promise<void> {
+    await this.reload();
+  }
+
+  async reload(): Promise<void> {
+    try {
+      const entries = await storage.getModelPricing();
+      this.catalog = entries.map(entry => this.toRate(entry));
+    } catch (error) {
+      console.warn('Failed to load pricing catalog, using built-in prices:', error);
+    }
+  }
+
+  // Providers configured at runtime (e.g. OpenAI-compatible endpoints) supply their own defaults
+  registerDefault(
+    provider: string,
+    model: string,
+    inputCostPer1M: number,
+    outputCostPer1M: number,
+    qualityTier: QualityTier = 'standard'
+  ): void {
+    this.defaults = this.defaults.filter(rate => !(rate.provider === provider && rate.model === model));
+    this.defaults.push({
+      provider,
+      model,
+      inputCostPer1M,
+      outputCostPer1M,
+      currency: 'USD',
+      qualityTier,
+      effectiveFrom: DEFAULTS_EFFECTIVE_FROM,
+      source: 'default',
+    });
+  }
+
+  // Catalog entries win over defaults, and exact model matches over the provider wildcard
+  getRate(provider: string, model?: string, at: Date = new Date()): PriceRate {
+    const candidates: Array<[PriceRate[], string]> = [
+      [this.catalog, model || ANY_MODEL],
+      [this.catalog, ANY_MODEL],
+      [this.defaults, model || ANY_MODEL],
+      [this.defaults, ANY_MODEL],
+    ];
+
+    for (const [rates, candidateModel] of candidates) {
+      const rate = this.findEffective(rates, provider, candidateModel, at);
+      if (rate) return rate;
+    }
+
+    return {
+      provider,
+      model: model || ANY_MODEL,
+      inputCostPer1M: 0,
+      outputCostPer1M: 0,
+      currency: 'USD',
+      qualityTier: 'standard',
+      effectiveFrom: DEFAULTS_EFFECTIVE_FROM,
+      source: 'default',
+    };
+  }
+
+  calculateCost(provider: string, model: string | undefined, tokensInput: number, tokensOutput: number): number {
+    const rate = this.getRate(provider, model);
+    return (tokensInput * rate.inputCostPer1M + tokensOutput * rate.outputCostPer1M) / 1_000_000;
+  }
+
+  // For estimates where only a total token count is known
+  estimateCost(provider: string, model: string | undefined, totalTokens: number): number {
+    const tokensInput = Math.round(totalTokens * ESTIMATED_INPUT_SHARE);
+    return this.calculateCost(provider, model, tokensInput, totalTokens - tokensInput);
+  }
+
+  listRates(provider?: string): { catalog: PriceRate[]; defaults: PriceRate[] } {
+    const matches = (rate: PriceRate) => !provider || rate.provider === provider;
+    return {
+      catalog: this.catalog.filter(matches),
+      defaults: this.defaults.filter(matches),
+    };
+  }
+
+  async createRate(pricing: InsertModelPricing): Promise<ModelPricing> {
+    const created = await storage.createModelPricing(pricing);
+    await this.reload();
+    await this.logChange('created', created);
+    return created;
+  }
+
+  async updateRate(id: string, updates: Partial<InsertModelPricing>): Promise<ModelPricing> {
+    const updated = await storage.updateModelPricing(id, updates);
+    if (!updated) {
+      throw new Error(`Pricing entry ${id} not found`);
+    }
+    await this.reload();
+    await this.logChange('updated', updated);
+    return updated;
+  }
+
+  async deleteRate(id: string): Promise<void> {
+    await storage.deleteModelPricing(id);
+    await this.reload();
+
+    await storage.createLog({
+      level: 'info',
+      category: 'pricing',
+      message: `Pricing entry ${id} deleted`,
+      data: { pricingId: id },
+    });
+  }
+
+  private findEffective(rates: PriceRate[], provider: string, model: string, at: Date): PriceRate | undefined {
+    return rates
+      .filter(rate => rate.provider === provider && rate.model === model && rate.effectiveFrom <= at)
+      .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0];
+  }
+
+  private toRate(entry: ModelPricing): PriceRate {
+    return {
+      id: entry.id,
+      provider: entry.provider,
+      model: entry.model,
+      inputCostPer1M: parseFloat(entry.inputCostPer1M),
+      outputCostPer1M: parseFloat(entry.outputCostPer1M),
+      currency: entry.currency || 'USD',
+      qualityTier: QUALITY_TIERS.includes(entry.qualityTier as QualityTier)
+        ? entry.qualityTier as QualityTier
+        : 'standard',
+      effectiveFrom: entry.effectiveFrom,
+      source: 'catalog',
+    };
+  }
+
+  private async logChange(action: 'created' | 'updated', entry: ModelPricing): Promise<void> {
+    await storage.createLog({
+      level: 'info',
+      category: 'pricing',
+      message: `Pricing for ${entry.provider}/${entry.model} ${action}`,
+      data: {
+        pricingId: entry.id,
+        provider: entry.provider,
+        model: entry.model,
+        inputCostPer1M: entry.inputCostPer1M,
+        outputCostPer1M: entry.outputCostPer1M,
+        qualityTier: entry.qualityTier,
+        effectiveFrom: entry.effectiveFrom,
+      },
+    });
+  }
+}
+
+export const pricingService = new PricingService();
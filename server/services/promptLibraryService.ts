@@ -0,0 +1,402 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import type { InsertPromptTemplate, PromptTemplate } from "@shared/schema";
+import type { LLMMessage } from "./llmProvider";
+
+export type PromptName = 'planner' | 'observer' | 'plan_reviser' | 'agent_assigner' | 'deliverable_synthesizer';
+
+interface PromptDefinition {
+  id?: string;
+  name: string;
+  version: string;
+  provider: string | null;
+  systemPrompt: string;
+  userPrompt: string;
+  variables: string[];
+  weight: number;
+  source: 'catalog' | 'default';
+}
+
+// Identifies the prompt that produced an output; stored on execution plans and executions
+export interface PromptVersion {
+  name: string;
+  version: string;
+  provider: string | null; // set when a provider-specific override was used
+  templateId?: string;
+  source: 'catalog' | 'default';
+}
+
+export interface RenderedPrompt {
+  messages: LLMMessage[];
+  version: PromptVersion;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const PLANNER_SYSTEM = 'You are an expert AI planner implementing the AutoAgents framework for dynamic agent generation and task orchestration.';
+
+const PLANNER_USER = `You are the Planner agent in the AutoAgents framework. Your role is to analyze the given task and generate a team of specialized agents following the A = {P, D, T, S} format where:
+- P: Specific prompt for the agent
+- D: Concise description of the agent's role
+- T: Toolset (available tools/capabilities)
+- S: High-level operational suggestions
+
+Task: {{taskDescription}}
+
+Generate a team of 3-5 specialized agents that can collaboratively complete this task. Consider the task complexity and requirements. Each agent should have distinct expertise.
+
+Break the work into steps. Give each step a unique id and list in dependsOn the ids of the steps whose outputs it needs; steps that don't depend on each other run in parallel, so only add dependencies that are real.
+
+Respond in JSON format:
+{
+  "agents": [
+    {
+      "name": "Agent Name",
+      "role": "Specific Role",
+      "prompt": "Detailed prompt for this agent's behavior and expertise",
+      "description": "Concise description of what this agent does",
+      "toolset": ["tool1", "tool2", "tool3"],
+      "suggestions": "High-level operational approach and best practices"
+    }
+  ],
+  "executionPlan": {
+    "steps": [
+      {
+        "id": "step-1",
+        "description": "What this step does",
+        "assignedRole": "Role of the agent that carries it out",
+        "inputs": ["What the step needs"],
+        "outputs": ["What the step produces"],
+        "dependsOn": []
+      }
+    ],
+    "workflow": "Description of how agents will collaborate",
+    "estimatedDuration": "Expected completion time"
+  }
+}`;
+
+const OBSERVER_SYSTEM = 'You are an expert Observer agent specializing in plan evaluation and execution critique in multi-agent systems.';
+
+const OBSERVER_USER = `You are the Observer agent in the AutoAgents framework. Your role is to critically evaluate {{type}}s and provide constructive feedback for improvement.
+
+{{targetLabel}}: {{target}}
+Context: {{context}}
+
+Evaluate this {{type}} and provide:
+1. Constructive feedback on strengths and weaknesses
+2. Specific suggestions for improvement
+3. Whether refinement is needed
+4. Your confidence in the current {{type}}
+
+Respond in JSON format:
+{
+  "feedback": "Detailed analysis of the {{type}}",
+  "suggestions": ["suggestion1", "suggestion2"],
+  "needsRefinement": boolean,
+  "confidence": number (0-100)
+}`;
+
+// Perplexity grounds planning and critique in a research pass, whose findings are passed in
+const PERPLEXITY_PLANNER_USER = `Based on the following research about best practices, generate an optimal team of AI agents for this task.
+
+Research Context:
+{{research}}
+
+Task: {{taskDescription}}
+
+Generate a team of 3-5 specialized agents following the AutoAgents A = {P, D, T, S} framework. Consider the latest methodologies and tools mentioned in the research.
+
+Respond in JSON format with agents array and executionPlan object. Each step has an id, description, assignedRole, inputs, outputs and dependsOn (ids of steps that must finish first).`;
+
+const PERPLEXITY_OBSERVER_USER = `You are an Observer agent with knowledge of current best practices. Evaluate the following {{type}} based on the latest industry standards.
+
+Research on Best Practices:
+{{research}}
+
+{{targetLabel}}: {{target}}
+Context: {{context}}
+
+Provide detailed feedback with specific, actionable suggestions based on current best practices.
+
+Respond in JSON format with feedback, suggestions array, needsRefinement boolean, and confidence score.`;
+
+const PLAN_REVISER_SYSTEM = 'You are the Planner agent in the AutoAgents framework, revising an execution plan after Observer review.';
+
+const PLAN_REVISER_USER = `Revise the execution plan below so it addresses the Observer's feedback. Keep steps that are already sound, change or split the ones the feedback is about, and add any missing steps. Keep the ids of steps you keep, and keep dependsOn limited to real dependencies so independent steps can run in parallel. The agent team stays the same.
+
+Task: {{taskDescription}}
+Agents: {{agents}}
+
+Current plan:
+{{plan}}
+
+Observer feedback: {{feedback}}
+
+Observer suggestions:
+{{suggestions}}
+
+Respond in JSON format:
+{
+  "executionPlan": {
+    "steps": [
+      {
+        "id": "step-1",
+        "description": "What this step does",
+        "assignedRole": "Role of the agent that carries it out",
+        "inputs": ["What the step needs"],
+        "outputs": ["What the step produces"],
+        "dependsOn": []
+      }
+    ],
+    "workflow": "Description of how agents will collaborate",
+    "estimatedDuration": "Expected completion time"
+  },
+  "changes": ["What was changed and which suggestion it addresses"]
+}`;
+
+const AGENT_ASSIGNER_SYSTEM = 'You are the Planner agent in the AutoAgents framework, deciding which agent carries out each step of an execution plan.';
+
+const AGENT_ASSIGNER_USER = `Assign every step of the execution plan below to the agent best suited to it, judging by each agent's role, description and tools. Spread the work: an agent works on one step at a time, so giving one agent steps that could run in parallel makes them wait for each other. Only give an agent more than its share when no other agent fits.
+
+Task: {{taskDescription}}
+
+Agents:
+{{agents}}
+
+Steps:
+{{steps}}
+
+Respond in JSON format:
+{
+  "assignments": [
+    {
+      "stepId": "step-1",
+      "agent": "Name of the agent",
+      "rationale": "Why this agent fits the step",
+      "confidence": 80
+    }
+  ]
+}`;
+
+const DELIVERABLE_SYNTHESIZER_SYSTEM = 'You are the final editor of a multi-agent team. You turn the work of every step into the single deliverable the task asked for.';
+
+const DELIVERABLE_SYNTHESIZER_USER = `Assemble the final deliverable for the task below from the outputs of the plan's steps. Produce the deliverable itself, not a report about the process: merge overlapping work, resolve contradictions in favour of later steps, keep every concrete result (code, figures, decisions, references) and drop step-by-step narration.
+
+Task: {{taskTitle}}
+Description: {{taskDescription}}
+
+Step outputs:
+{{stepOutputs}}
+
+{{revisionNotes}}
+
+Reply with the deliverable in Markdown only.`;
+
+// Built-in versions, used for a prompt until the catalog has an active version of it
+const DEFAULT_PROMPTS: Array<[string, string, string | null, string, string]> = [
+  ['planner', 'v2', null, PLANNER_SYSTEM, PLANNER_USER],
+  ['planner', 'v2', 'perplexity', 'You are an expert AI planner with knowledge of the latest tools and methodologies.', PERPLEXITY_PLANNER_USER],
+  ['observer', 'v1', null, OBSERVER_SYSTEM, OBSERVER_USER],
+  ['observer', 'v1', 'perplexity', 'You are an expert Observer agent with access to current industry best practices.', PERPLEXITY_OBSERVER_USER],
+  ['plan_reviser', 'v1', null, PLAN_REVISER_SYSTEM, PLAN_REVISER_USER],
+  ['agent_assigner', 'v1', null, AGENT_ASSIGNER_SYSTEM, AGENT_ASSIGNER_USER],
+  ['deliverable_synthesizer', 'v1', null, DELIVERABLE_SYNTHESIZER_SYSTEM, DELIVERABLE_SYNTHESIZER_USER],
+];
+
+export function extractVariables(template: string): string[] {
+  const names = new Set<string>();
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+  while ((match = pattern.exec(template)) !== null) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+// Named, versioned prompt templates shared by every provider. A provider-specific version
+// replaces the generic ones for that provider; when several versions are active, calls are
+// assigned between them by weight, deterministically per assignment key (usually the task)
+// so one task sees a single version throughout. Catalog versions are loaded into memory so
+// providers can render prompts synchronously.
+export class PromptLibraryService {
+  private defaults: PromptDefinition[];
+  private catalog: PromptDefinition[] = [];
+
+  constructor() {
+    this.defaults = DEFAULT_PROMPTS.map(([name, version, provider, systemPrompt, userPrompt]) => ({
+      name,
+      version,
+      provider,
+      systemPrompt,
+      userPrompt,
+      variables: extractVariables(systemPrompt + userPrompt),
+      weight: 100,
+      source: 'default' as const,
+    }));
+  }
+
+  async initialize(): Promise<void> {
+    await this.reload();
+  }
+
+  async reload(): Promise<void> {
+    try {
+      const templates = await storage.getPromptTemplates();
+      this.catalog = templates
+        .filter(template => template.isActive && template.weight > 0)
+        .map(template => this.toDefinition(template));
+    } catch (error) {
+      console.warn('Failed to load prompt library, using built-in prompts:', error);
+    }
+  }
+
+  // The version a call will use, without rendering it
+  resolve(name: PromptName, provider: string, assignmentKey?: string): PromptVersion {
+    return this.toVersion(this.select(name, provider, assignmentKey));
+  }
+
+  render(
+    name: PromptName,
+    options: { provider: string; variables: Record<string, string>; assignmentKey?: string }
+  ): RenderedPrompt {
+    const definition = this.select(name, options.provider, options.assignmentKey);
+
+    const missing = definition.variables.filter(variable => options.variables[variable] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Prompt ${name}@${definition.version} is missing variables: ${missing.join(', ')}`);
+    }
+
+    const fill = (template: string) =>
+      template.replace(PLACEHOLDER_PATTERN, (_, variable: string) => options.variables[variable]);
+
+    return {
+      messages: [
+        { role: 'system', content: fill(definition.systemPrompt) },
+        { role: 'user', content: fill(definition.userPrompt) },
+      ],
+      version: this.toVersion(definition),
+    };
+  }
+
+  // The catalog listing includes inactive versions, which are never selected
+  async listPrompts(name?: string): Promise<{ catalog: PromptTemplate[]; defaults: PromptDefinition[] }> {
+    return {
+      catalog: await storage.getPromptTemplates(name),
+      defaults: this.defaults.filter(definition => !name || definition.name === name),
+    };
+  }
+
+  async createVersion(template: InsertPromptTemplate): Promise<PromptTemplate> {
+    const existing = await storage.getPromptTemplates(template.name);
+    if (existing.some(entry => entry.version === template.version && (entry.provider || null) === (template.provider || null))) {
+      throw new Error(`Prompt ${template.name}@${template.version} already exists`);
+    }
+
+    const created = await storage.createPromptTemplate({
+      ...template,
+      variables: extractVariables(template.systemPrompt + template.userPrompt),
+    });
+    await this.reload();
+    await this.logChange('created', created);
+    return created;
+  }
+
+  // Versions are immutable so recorded outcomes stay attributable; only their traffic
+  // share, activation and notes can change
+  async updateVersion(
+    id: string,
+    updates: Pick<Partial<InsertPromptTemplate>, 'weight' | 'isActive' | 'notes'>
+  ): Promise<PromptTemplate> {
+    const { weight, isActive, notes } = updates;
+    const updated = await storage.updatePromptTemplate(id, { weight, isActive, notes });
+    if (!updated) {
+      throw new Error(`Prompt version ${id} not found`);
+    }
+    await this.reload();
+    await this.logChange('updated', updated);
+    return updated;
+  }
+
+  async deleteVersion(id: string): Promise<void> {
+    await storage.deletePromptTemplate(id);
+    await this.reload();
+
+    await storage.createLog({
+      level: 'info',
+      category: 'prompts',
+      message: `Prompt version ${id} deleted`,
+      data: { templateId: id },
+    });
+  }
+
+  private select(name: string, provider: string, assignmentKey?: string): PromptDefinition {
+    const candidates = this.candidates(this.catalog, name, provider);
+    const pool = candidates.length > 0 ? candidates : this.candidates(this.defaults, name, provider);
+    if (pool.length === 0) {
+      throw new Error(`No prompt named ${name}`);
+    }
+    if (pool.length === 1) {
+      return pool[0];
+    }
+
+    const totalWeight = pool.reduce((sum, definition) => sum + definition.weight, 0);
+    let point = assignmentKey
+      ? parseInt(createHash('sha256').update(`${name}:${assignmentKey}`).digest('hex').slice(0, 8), 16) % totalWeight
+      : Math.random() * totalWeight;
+
+    for (const definition of pool) {
+      point -= definition.weight;
+      if (point < 0) return definition;
+    }
+    return pool[pool.length - 1];
+  }
+
+  // Provider-specific versions replace the generic ones for that provider
+  private candidates(definitions: PromptDefinition[], name: string, provider: string): PromptDefinition[] {
+    const named = definitions.filter(definition => definition.name === name);
+    const overrides = named.filter(definition => definition.provider === provider);
+    return overrides.length > 0 ? overrides : named.filter(definition => definition.provider === null);
+  }
+
+  private toVersion(definition: PromptDefinition): PromptVersion {
+    return {
+      name: definition.name,
+      version: definition.version,
+      provider: definition.provider,
+      templateId: definition.id,
+      source: definition.source,
+    };
+  }
+
+  private toDefinition(template: PromptTemplate): PromptDefinition {
+    return {
+      id: template.id,
+      name: template.name,
+      version: template.version,
+      provider: template.provider || null,
+      systemPrompt: template.systemPrompt,
+      userPrompt: template.userPrompt,
+      variables: Array.isArray(template.variables) ? template.variables as string[] : [],
+      weight: template.weight,
+      source: 'catalog',
+    };
+  }
+
+  private async logChange(action: 'created' | 'updated', template: PromptTemplate): Promise<void> {
+    await storage.createLog({
+      level: 'info',
+      category: 'prompts',
+      message: `Prompt ${template.name}@${template.version} ${action}`,
+      data: {
+        templateId: template.id,
+        name: template.name,
+        version: template.version,
+        provider: template.provider,
+        weight: template.weight,
+        isActive: template.isActive,
+      },
+    });
+  }
+}
+
+export const promptLibraryService = new PromptLibraryService();
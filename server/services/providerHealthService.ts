@@ -0,0 +1,440 @@
+import { EventEmitter } from "events";
+import { storage } from "../storage";
+import { circuitBreakerService, type CircuitState } from "./circuitBreakerService";
+import type { InsertProviderMetricSnapshot, ProviderMetricSnapshot } from "@shared/schema";
+import type { LLMRouter } from "./llmRouter";
+
+interface ProviderHealthConfig {
+  probesEnabled: boolean;
+  probeIntervalMs: number;
+  probeTimeoutMs: number;
+  snapshotIntervalMs: number;
+  retentionDays: number;
+}
+
+export type ProbeStatus = 'ok' | 'failed' | 'unavailable';
+
+export interface ProbeResult {
+  provider: string;
+  status: ProbeStatus; // unavailable: not configured or local server unreachable
+  latencyMs: number;
+  model?: string;
+  error?: string;
+  timestamp: string;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  healthy: boolean;
+  circuitState: CircuitState;
+  lastProbe: ProbeResult | null;
+  lastTrafficSuccessAt: string | null;
+}
+
+export type HistoryBucket = 'snapshot' | 'hour' | 'day';
+
+export interface HealthHistoryPoint {
+  provider: string;
+  start: string;
+  end: string;
+  requests: number;
+  failures: number;
+  probes: number;
+  probeFailures: number;
+  errorRate: number;
+  latencyAvg: number | null;
+  latencyP50: number | null;
+  latencyP95: number | null;
+  latencyP99: number | null;
+  tokensUsed: number;
+  cost: number;
+  uptime: number; // fraction of snapshot windows that ended healthy
+}
+
+// Outcomes collected since the last snapshot
+interface ProviderWindow {
+  startedAt: number;
+  requests: number;
+  failures: number;
+  probes: number;
+  probeFailures: number;
+  tokensUsed: number;
+  cost: number;
+  latencies: number[];
+  probeLatencies: number[];
+  lastError?: string;
+}
+
+// Latency samples kept per window; later samples replace the oldest
+const MAX_LATENCY_SAMPLES = 5000;
+
+const PROBE_MESSAGES = [{ role: 'user' as const, content: 'Reply with OK.' }];
+
+const BUCKET_MS: Record<Exclude<HistoryBucket, 'snapshot'>, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+// Background health probes and the persisted provider metrics time series. Each provider
+// is sent a tiny completion on a schedule so idle providers still report health; router
+// traffic and probe outcomes are aggregated per window and written to
+// provider_metric_snapshots, whose totals also seed the router's metrics after a restart.
+// Probes don't feed the circuit breaker, which only judges organic traffic.
+export class ProviderHealthService extends EventEmitter {
+  private config: ProviderHealthConfig;
+  private router: LLMRouter | null = null;
+  private windows = new Map<string, ProviderWindow>();
+  private lastProbes = new Map<string, ProbeResult>();
+  private lastTrafficSuccess = new Map<string, number>();
+  private timers: ReturnType<typeof setInterval>[] = [];
+
+  constructor() {
+    super();
+    this.config = {
+      probesEnabled: process.env.LLM_HEALTH_PROBES_ENABLED !== 'false',
+      probeIntervalMs: parseInt(process.env.LLM_HEALTH_PROBE_INTERVAL_SECONDS || '300', 10) * 1000,
+      probeTimeoutMs: parseInt(process.env.LLM_HEALTH_PROBE_TIMEOUT_SECONDS || '20', 10) * 1000,
+      snapshotIntervalMs: parseInt(process.env.LLM_METRICS_SNAPSHOT_INTERVAL_SECONDS || '300', 10) * 1000,
+      retentionDays: parseInt(process.env.LLM_METRICS_RETENTION_DAYS || '30', 10),
+    };
+  }
+
+  getConfig(): ProviderHealthConfig {
+    return { ...this.config };
+  }
+
+  async start(router: LLMRouter): Promise<void> {
+    this.router = router;
+
+    try {
+      router.restoreMetrics(await storage.getProviderMetricTotals());
+    } catch (error) {
+      console.warn('Failed to restore provider metrics:', error);
+    }
+
+    this.timers.push(setInterval(() => {
+      this.snapshot().catch(error => console.error('Failed to persist provider metrics:', error));
+    }, this.config.snapshotIntervalMs));
+
+    if (this.config.probesEnabled) {
+      this.timers.push(setInterval(() => {
+        this.probeAll().catch(error => console.error('Provider health probes failed:', error));
+      }, this.config.probeIntervalMs));
+      // First round right away so health is known before any traffic
+      this.probeAll().catch(error => console.error('Provider health probes failed:', error));
+    }
+
+    await storage.createLog({
+      level: 'info',
+      category: 'provider-health',
+      message: 'Provider health monitoring started',
+      data: { ...this.config },
+    });
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  // Called by the router for every provider call
+  recordOutcome(
+    provider: string,
+    outcome: { success: boolean; latencyMs: number; tokensUsed: number; cost: number; error?: Error }
+  ): void {
+    const window = this.getWindow(provider);
+    window.requests++;
+
+    if (outcome.success) {
+      this.addSample(window.latencies, outcome.latencyMs);
+      window.tokensUsed += outcome.tokensUsed;
+      window.cost += outcome.cost;
+      this.lastTrafficSuccess.set(provider, Date.now());
+    } else {
+      window.failures++;
+      window.lastError = outcome.error?.message || window.lastError;
+    }
+  }
+
+  async probeAll(): Promise<ProbeResult[]> {
+    if (!this.router) return [];
+
+    const providers = this.router.getProviderNames().filter(provider => provider !== 'replay');
+    const results: ProbeResult[] = [];
+    // One at a time; probes are background work and shouldn't compete with traffic
+    for (const provider of providers) {
+      results.push(await this.probe(provider));
+    }
+    return results;
+  }
+
+  async probe(provider: string): Promise<ProbeResult> {
+    const service = this.router?.getProvider(provider);
+    if (!service) {
+      throw new Error(`Unknown provider ${provider}`);
+    }
+
+    const startTime = Date.now();
+    let result: ProbeResult;
+
+    if (!(await service.isAvailable())) {
+      result = { provider, status: 'unavailable', latencyMs: 0, timestamp: new Date().toISOString() };
+    } else {
+      // Aborting the request itself also gives back its rate limiter slot
+      const signal = AbortSignal.timeout(this.config.probeTimeoutMs);
+      try {
+        const completion = await service.generateCompletion(PROBE_MESSAGES, {
+          maxTokens: 5,
+          temperature: 0,
+          isLightweight: true,
+          signal,
+        });
+        result = {
+          provider,
+          status: 'ok',
+          latencyMs: Date.now() - startTime,
+          model: completion.model,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        result = {
+          provider,
+          status: 'failed',
+          latencyMs: Date.now() - startTime,
+          error: signal.aborted
+            ? `Probe timed out after ${this.config.probeTimeoutMs}ms`
+            : error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        };
+      }
+    }
+
+    await this.recordProbe(result);
+    return result;
+  }
+
+  isHealthy(provider: string): boolean {
+    if (circuitBreakerService.getState(provider) !== 'closed') {
+      return false;
+    }
+
+    // Traffic that succeeded after the last probe outweighs that probe's result
+    const lastProbe = this.lastProbes.get(provider);
+    const lastSuccess = this.lastTrafficSuccess.get(provider);
+    if (lastProbe) {
+      return lastProbe.status === 'ok' || (lastSuccess !== undefined && lastSuccess > Date.parse(lastProbe.timestamp));
+    }
+    return lastSuccess !== undefined;
+  }
+
+  getHealth(): ProviderHealth[] {
+    if (!this.router) return [];
+
+    return this.router.getProviderNames()
+      .filter(provider => provider !== 'replay')
+      .map(provider => {
+        const lastSuccess = this.lastTrafficSuccess.get(provider);
+        return {
+          provider,
+          healthy: this.isHealthy(provider),
+          circuitState: circuitBreakerService.getState(provider),
+          lastProbe: this.lastProbes.get(provider) || null,
+          lastTrafficSuccessAt: lastSuccess ? new Date(lastSuccess).toISOString() : null,
+        };
+      });
+  }
+
+  // Snapshots since the given time, optionally rolled up into hourly or daily buckets.
+  // Rolled-up percentiles are request-weighted averages of the window percentiles.
+  async getHistory(options: { provider?: string; since: Date; bucket?: HistoryBucket }): Promise<{
+    points: HealthHistoryPoint[];
+    summary: Record<string, { uptime: number; errorRate: number; requests: number; probes: number; latencyP95: number | null }>;
+  }> {
+    const snapshots = await storage.getProviderMetricSnapshots({ provider: options.provider, since: options.since });
+    const points = options.bucket && options.bucket !== 'snapshot'
+      ? this.rollUp(snapshots, BUCKET_MS[options.bucket])
+      : snapshots.map(snapshot => this.rollUp([snapshot], 0)[0]);
+
+    const byProvider = new Map<string, ProviderMetricSnapshot[]>();
+    snapshots.forEach(snapshot => {
+      byProvider.set(snapshot.provider, [...(byProvider.get(snapshot.provider) || []), snapshot]);
+    });
+
+    const summary: Record<string, { uptime: number; errorRate: number; requests: number; probes: number; latencyP95: number | null }> = {};
+    byProvider.forEach((providerSnapshots, provider) => {
+      const total = this.rollUp(providerSnapshots, 0)[0];
+      summary[provider] = {
+        uptime: total.uptime,
+        errorRate: total.errorRate,
+        requests: total.requests,
+        probes: total.probes,
+        latencyP95: total.latencyP95,
+      };
+    });
+
+    return { points, summary };
+  }
+
+  // Writes one row per provider that saw traffic or probes since the last snapshot
+  async snapshot(): Promise<number> {
+    const now = Date.now();
+    const rows: InsertProviderMetricSnapshot[] = [];
+
+    this.windows.forEach((window, provider) => {
+      if (window.requests === 0 && window.probes === 0) return;
+
+      const latencies = [...window.latencies].sort((a, b) => a - b);
+      const attempts = window.requests + window.probes;
+      rows.push({
+        provider,
+        windowStart: new Date(window.startedAt),
+        windowEnd: new Date(now),
+        requests: window.requests,
+        failures: window.failures,
+        probes: window.probes,
+        probeFailures: window.probeFailures,
+        errorRate: ((window.failures + window.probeFailures) / attempts).toFixed(4),
+        latencyAvg: latencies.length > 0
+          ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+          : null,
+        latencyP50: percentile(latencies, 50),
+        latencyP95: percentile(latencies, 95),
+        latencyP99: percentile(latencies, 99),
+        probeLatency: window.probeLatencies.length > 0
+          ? Math.round(window.probeLatencies.reduce((sum, latency) => sum + latency, 0) / window.probeLatencies.length)
+          : null,
+        tokensUsed: window.tokensUsed,
+        cost: window.cost.toFixed(6),
+        healthy: this.isHealthy(provider),
+        circuitState: circuitBreakerService.getState(provider),
+        lastError: window.lastError || null,
+      });
+    });
+
+    this.windows.clear();
+    await storage.createProviderMetricSnapshots(rows);
+
+    const cutoff = new Date(now - this.config.retentionDays * 24 * 60 * 60 * 1000);
+    await storage.deleteProviderMetricSnapshots(cutoff);
+
+    return rows.length;
+  }
+
+  private async recordProbe(result: ProbeResult): Promise<void> {
+    const wasHealthy = this.isHealthy(result.provider);
+
+    // Unavailable providers aren't configured; that isn't a reliability failure
+    if (result.status !== 'unavailable') {
+      const window = this.getWindow(result.provider);
+      window.probes++;
+      if (result.status === 'ok') {
+        this.addSample(window.probeLatencies, result.latencyMs);
+      } else {
+        window.probeFailures++;
+        window.lastError = result.error || window.lastError;
+      }
+    }
+
+    const hadProbe = this.lastProbes.has(result.provider);
+    this.lastProbes.set(result.provider, result);
+    const healthy = this.isHealthy(result.provider);
+
+    this.emit('probe', { ...result, healthy });
+
+    if (hadProbe && healthy !== wasHealthy) {
+      await storage.createLog({
+        level: healthy ? 'info' : 'warn',
+        category: 'provider-health',
+        message: `Provider ${result.provider} is now ${healthy ? 'healthy' : 'unhealthy'} (probe ${result.status})`,
+        data: result,
+      });
+    }
+  }
+
+  private rollUp(snapshots: ProviderMetricSnapshot[], bucketMs: number): HealthHistoryPoint[] {
+    const groups = new Map<string, ProviderMetricSnapshot[]>();
+    snapshots.forEach(snapshot => {
+      const end = snapshot.windowEnd.getTime();
+      const bucketStart = bucketMs > 0 ? Math.floor(end / bucketMs) * bucketMs : 0;
+      const key = `${snapshot.provider}:${bucketStart}`;
+      groups.set(key, [...(groups.get(key) || []), snapshot]);
+    });
+
+    const points: HealthHistoryPoint[] = [];
+    groups.forEach(group => {
+      const successes = group.map(snapshot => snapshot.requests - snapshot.failures);
+      const totalSuccesses = successes.reduce((sum, count) => sum + count, 0);
+      const weighted = (pick: (snapshot: ProviderMetricSnapshot) => number | null) => {
+        let sum = 0;
+        let weight = 0;
+        group.forEach((snapshot, index) => {
+          const value = pick(snapshot);
+          if (value !== null) {
+            sum += value * successes[index];
+            weight += successes[index];
+          }
+        });
+        return weight > 0 ? Math.round(sum / weight) : null;
+      };
+
+      const requests = group.reduce((sum, snapshot) => sum + snapshot.requests, 0);
+      const failures = group.reduce((sum, snapshot) => sum + snapshot.failures, 0);
+      const probes = group.reduce((sum, snapshot) => sum + snapshot.probes, 0);
+      const probeFailures = group.reduce((sum, snapshot) => sum + snapshot.probeFailures, 0);
+      const attempts = requests + probes;
+
+      points.push({
+        provider: group[0].provider,
+        start: group[0].windowStart.toISOString(),
+        end: group[group.length - 1].windowEnd.toISOString(),
+        requests,
+        failures,
+        probes,
+        probeFailures,
+        errorRate: attempts > 0 ? (failures + probeFailures) / attempts : 0,
+        latencyAvg: totalSuccesses > 0 ? weighted(snapshot => snapshot.latencyAvg) : null,
+        latencyP50: weighted(snapshot => snapshot.latencyP50),
+        latencyP95: weighted(snapshot => snapshot.latencyP95),
+        latencyP99: weighted(snapshot => snapshot.latencyP99),
+        tokensUsed: group.reduce((sum, snapshot) => sum + (snapshot.tokensUsed || 0), 0),
+        cost: group.reduce((sum, snapshot) => sum + parseFloat(snapshot.cost || '0'), 0),
+        uptime: group.filter(snapshot => snapshot.healthy).length / group.length,
+      });
+    });
+
+    return points;
+  }
+
+  private getWindow(provider: string): ProviderWindow {
+    let window = this.windows.get(provider);
+    if (!window) {
+      window = {
+        startedAt: Date.now(),
+        requests: 0,
+        failures: 0,
+        probes: 0,
+        probeFailures: 0,
+        tokensUsed: 0,
+        cost: 0,
+        latencies: [],
+        probeLatencies: [],
+      };
+      this.windows.set(provider, window);
+    }
+    return window;
+  }
+
+  private addSample(samples: number[], value: number): void {
+    samples.push(value);
+    if (samples.length > MAX_LATENCY_SAMPLES) {
+      samples.shift();
+    }
+  }
+}
+
+export const providerHealthService = new ProviderHealthService();
@@ -0,0 +1,381 @@
+import { storage } from "../storage";
+
+export interface RateLimit {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+interface RateLimiterConfig {
+  limits: Record<string, RateLimit>; // keyed by "provider" or "provider:model"
+  maxRetryAfterMs: number; // longer Retry-After values fail fast so the router can fall back
+  maxRetries: number;
+}
+
+interface Waiter {
+  tokens: number;
+  enqueuedAt: number;
+  resolve: () => void;
+}
+
+interface Bucket {
+  provider: string;
+  model: string;
+  limit: RateLimit;
+  requests: number;
+  tokens: number;
+  refilledAt: number;
+  pausedUntil: number;
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+  stats: {
+    totalRequests: number;
+    queuedRequests: number;
+    totalWaitMs: number;
+    maxWaitMs: number;
+    retryAfterHits: number;
+  };
+}
+
+export interface RateLimitStats {
+  model: string;
+  limit: RateLimit;
+  availableRequests: number | null;
+  availableTokens: number | null;
+  queueDepth: number;
+  totalRequests: number;
+  queuedRequests: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  retryAfterHits: number;
+  pausedUntil: string | null;
+}
+
+const MINUTE_MS = 60000;
+
+// Parses LLM_RATE_LIMITS, e.g. "groq=30/6000,groq:llama-3.1-8b-instant=30/20000,gemini=15/"
+// Each entry is <provider>[:<model>]=<requests per minute>/<tokens per minute>; blank means unlimited.
+export function parseRateLimits(spec: string): Record<string, RateLimit> {
+  const limits: Record<string, RateLimit> = {};
+
+  for (const entry of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf('=');
+    if (separator <= 0) {
+      console.warn(`Ignoring malformed LLM_RATE_LIMITS entry "${entry}"`);
+      continue;
+    }
+
+    const key = entry.slice(0, separator).trim();
+    const [requests, tokens] = entry.slice(separator + 1).split('/');
+    const requestsPerMinute = parseInt(requests || '', 10);
+    const tokensPerMinute = parseInt(tokens || '', 10);
+
+    limits[key] = {
+      requestsPerMinute: requestsPerMinute > 0 ? requestsPerMinute : undefined,
+      tokensPerMinute: tokensPerMinute > 0 ? tokensPerMinute : undefined,
+    };
+  }
+
+  return limits;
+}
+
+// Rough prompt size used to reserve tokens before the provider reports actual usage
+export function estimateTokens(messages: Array<{ content: string }>, maxTokens?: number): number {
+  const promptChars = messages.reduce((sum, message) => sum + message.content.length, 0);
+  return Math.ceil(promptChars / 4) + (maxTokens || 0);
+}
+
+// Client-side token buckets per provider and model. Requests wait in FIFO order when a
+// bucket is exhausted, and a 429 Retry-After pauses the bucket for every waiting caller
+// instead of sending the router straight to the next provider.
+export class RateLimiterService {
+  private config: RateLimiterConfig;
+  private buckets = new Map<string, Bucket>();
+
+  constructor() {
+    this.config = {
+      limits: parseRateLimits(process.env.LLM_RATE_LIMITS || ''),
+      maxRetryAfterMs: parseInt(process.env.LLM_RATE_LIMIT_MAX_WAIT_SECONDS || '30', 10) * 1000,
+      maxRetries: parseInt(process.env.LLM_RATE_LIMIT_MAX_RETRIES || '2', 10),
+    };
+  }
+
+  getConfig(): RateLimiterConfig {
+    return { ...this.config, limits: { ...this.config.limits } };
+  }
+
+  // Sends a provider request once the bucket admits it. 429 responses carrying a short
+  // enough Retry-After pause the bucket and are retried; anything else is returned as-is.
+  // The token reservation is handed to recordUsage only with a successful response; errors,
+  // thrown requests and aborts give it back, since no usage will be reported for them.
+  async schedule(
+    provider: string,
+    model: string,
+    estimatedTokens: number,
+    request: () => Promise<Response>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const bucket = this.getBucket(provider, model);
+    let reserved = 0;
+    let settled = false;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        // A rejected request used no tokens, so a Retry-After retry keeps the first reservation
+        reserved += await this.acquire(bucket, attempt === 0 ? estimatedTokens : 0, signal);
+        const response = await request();
+
+        if (response.status !== 429) {
+          settled = response.ok;
+          return response;
+        }
+
+        const retryAfterMs = this.parseRetryAfter(response.headers.get('retry-after'));
+        bucket.stats.retryAfterHits++;
+
+        if (retryAfterMs === null || retryAfterMs > this.config.maxRetryAfterMs || attempt >= this.config.maxRetries) {
+          if (retryAfterMs !== null) {
+            this.pause(bucket, retryAfterMs);
+          }
+          return response;
+        }
+
+        this.pause(bucket, retryAfterMs);
+        await this.logThrottle(bucket, retryAfterMs, attempt + 1);
+
+        // Release the body so the connection can be reused before retrying
+        await response.text().catch(() => undefined);
+      }
+    } finally {
+      if (!settled) {
+        this.refund(bucket, reserved);
+      }
+    }
+  }
+
+  // Corrects the token reservation made in schedule() once actual usage is known
+  recordUsage(provider: string, model: string, tokensUsed: number, estimatedTokens: number): void {
+    const bucket = this.buckets.get(this.getKey(provider, model));
+    if (!bucket || !bucket.limit.tokensPerMinute || tokensUsed <= 0) return;
+
+    this.refill(bucket);
+    bucket.tokens = Math.min(bucket.tokens + estimatedTokens - tokensUsed, bucket.limit.tokensPerMinute);
+    this.drain(bucket);
+  }
+
+  // Remaining Retry-After pause for a provider (across its models), or across all providers
+  getRetryDelayMs(provider?: string): number {
+    const now = Date.now();
+    let delay = 0;
+    this.buckets.forEach(bucket => {
+      if (!provider || bucket.provider === provider) {
+        delay = Math.max(delay, bucket.pausedUntil - now);
+      }
+    });
+    return delay;
+  }
+
+  getStats(provider: string): RateLimitStats[] {
+    const stats: RateLimitStats[] = [];
+    this.buckets.forEach(bucket => {
+      if (bucket.provider !== provider) return;
+
+      this.refill(bucket);
+      stats.push({
+        model: bucket.model,
+        limit: bucket.limit,
+        availableRequests: bucket.limit.requestsPerMinute ? Math.floor(bucket.requests) : null,
+        availableTokens: bucket.limit.tokensPerMinute ? Math.floor(bucket.tokens) : null,
+        queueDepth: bucket.queue.length,
+        totalRequests: bucket.stats.totalRequests,
+        queuedRequests: bucket.stats.queuedRequests,
+        averageWaitMs: bucket.stats.queuedRequests > 0
+          ? Math.round(bucket.stats.totalWaitMs / bucket.stats.queuedRequests)
+          : 0,
+        maxWaitMs: bucket.stats.maxWaitMs,
+        retryAfterHits: bucket.stats.retryAfterHits,
+        pausedUntil: bucket.pausedUntil > Date.now() ? new Date(bucket.pausedUntil).toISOString() : null,
+      });
+    });
+    return stats;
+  }
+
+  private getKey(provider: string, model: string): string {
+    return `${provider}:${model}`;
+  }
+
+  // Model-specific limits take precedence over provider-wide ones
+  private resolveLimit(provider: string, model: string): RateLimit {
+    return this.config.limits[this.getKey(provider, model)] || this.config.limits[provider] || {};
+  }
+
+  private getBucket(provider: string, model: string): Bucket {
+    const key = this.getKey(provider, model);
+    let bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      const limit = this.resolveLimit(provider, model);
+      bucket = {
+        provider,
+        model,
+        limit,
+        requests: limit.requestsPerMinute || 0,
+        tokens: limit.tokensPerMinute || 0,
+        refilledAt: Date.now(),
+        pausedUntil: 0,
+        queue: [],
+        timer: null,
+        stats: { totalRequests: 0, queuedRequests: 0, totalWaitMs: 0, maxWaitMs: 0, retryAfterHits: 0 },
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+
+  // Resolves with the tokens reserved. An aborted signal removes the request from the queue
+  // without consuming capacity
+  private acquire(bucket: Bucket, estimatedTokens: number, signal?: AbortSignal): Promise<number> {
+    bucket.stats.totalRequests++;
+
+    // A request larger than the whole bucket could never run; let it through once the bucket is full
+    const tokens = bucket.limit.tokensPerMinute
+      ? Math.min(estimatedTokens, bucket.limit.tokensPerMinute)
+      : 0;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        const index = bucket.queue.indexOf(waiter);
+        if (index >= 0) {
+          bucket.queue.splice(index, 1);
+          reject(signal!.reason);
+          this.drain(bucket);
+        }
+      };
+      const waiter: Waiter = {
+        tokens,
+        enqueuedAt: Date.now(),
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(tokens);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      bucket.queue.push(waiter);
+      this.drain(bucket);
+    });
+  }
+
+  // Admits queued requests strictly in arrival order so large requests aren't starved
+  private drain(bucket: Bucket): void {
+    if (bucket.timer) {
+      clearTimeout(bucket.timer);
+      bucket.timer = null;
+    }
+
+    this.refill(bucket);
+    const now = Date.now();
+
+    while (bucket.queue.length > 0) {
+      const waiter = bucket.queue[0];
+      const waitMs = this.getWaitMs(bucket, waiter.tokens, now);
+
+      if (waitMs > 0) {
+        bucket.timer = setTimeout(() => this.drain(bucket), waitMs);
+        return;
+      }
+
+      bucket.queue.shift();
+      if (bucket.limit.requestsPerMinute) bucket.requests -= 1;
+      if (bucket.limit.tokensPerMinute) bucket.tokens -= waiter.tokens;
+
+      const waited = now - waiter.enqueuedAt;
+      if (waited > 0) {
+        bucket.stats.queuedRequests++;
+        bucket.stats.totalWaitMs += waited;
+        bucket.stats.maxWaitMs = Math.max(bucket.stats.maxWaitMs, waited);
+      }
+
+      waiter.resolve();
+    }
+  }
+
+  private getWaitMs(bucket: Bucket, tokens: number, now: number): number {
+    let waitMs = Math.max(0, bucket.pausedUntil - now);
+
+    const { requestsPerMinute, tokensPerMinute } = bucket.limit;
+    if (requestsPerMinute && bucket.requests < 1) {
+      waitMs = Math.max(waitMs, ((1 - bucket.requests) * MINUTE_MS) / requestsPerMinute);
+    }
+    if (tokensPerMinute && bucket.tokens < tokens) {
+      waitMs = Math.max(waitMs, ((tokens - bucket.tokens) * MINUTE_MS) / tokensPerMinute);
+    }
+
+    return Math.ceil(waitMs);
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    const elapsed = now - bucket.refilledAt;
+    bucket.refilledAt = now;
+
+    const { requestsPerMinute, tokensPerMinute } = bucket.limit;
+    if (requestsPerMinute) {
+      bucket.requests = Math.min(requestsPerMinute, bucket.requests + (elapsed * requestsPerMinute) / MINUTE_MS);
+    }
+    if (tokensPerMinute) {
+      bucket.tokens = Math.min(tokensPerMinute, bucket.tokens + (elapsed * tokensPerMinute) / MINUTE_MS);
+    }
+  }
+
+  private refund(bucket: Bucket, tokens: number): void {
+    if (!bucket.limit.tokensPerMinute || tokens <= 0) return;
+
+    this.refill(bucket);
+    bucket.tokens = Math.min(bucket.tokens + tokens, bucket.limit.tokensPerMinute);
+    this.drain(bucket);
+  }
+
+  private pause(bucket: Bucket, durationMs: number): void {
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + durationMs);
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  private async logThrottle(bucket: Bucket, retryAfterMs: number, attempt: number): Promise<void> {
+    try {
+      await storage.createLog({
+        level: 'warn',
+        category: 'rate-limit',
+        message: `${bucket.provider} rate limited, retrying in ${Math.ceil(retryAfterMs / 1000)}s`,
+        data: {
+          provider: bucket.provider,
+          model: bucket.model,
+          retryAfterMs,
+          attempt,
+          queueDepth: bucket.queue.length,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to log rate limit:', error);
+    }
+  }
+}
+
+export const rateLimiterService = new RateLimiterService();
@@ -0,0 +1,317 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { storage } from "../storage";
+import type {
+  AgentActionResult,
+  AgentTeamDefinition,
+  CritiqueResult,
+  LLMMessage,
+  LLMProviderService,
+  ProviderCapabilities,
+  ProviderCompletion,
+  ProviderCompletionOptions,
+  ResearchResult,
+  ToolCompletion,
+  ToolDefinition,
+  ToolLoopMessage,
+} from "./llmProvider";
+
+export type ReplayMode = 'off' | 'record' | 'replay';
+
+// What happens when a replayed request has no recorded response:
+// - error: fail the call
+// - passthrough: fall through to the live providers
+// - record: fall through to the live providers and record the response
+export type ReplayMissPolicy = 'error' | 'passthrough' | 'record';
+
+export type ReplayOperation = 'chat' | 'agent_team' | 'agent_action' | 'agent_tool_turn' | 'critique' | 'research';
+
+interface RecordedCall {
+  hash: string;
+  operation: ReplayOperation;
+  provider: string;
+  request: unknown;
+  response: any;
+  recordedAt: string;
+}
+
+interface FixtureFile {
+  taskId: string | null;
+  recordedAt: string;
+  calls: RecordedCall[];
+}
+
+interface ReplayConfig {
+  mode: ReplayMode;
+  fixturesDir: string;
+  missPolicy: ReplayMissPolicy;
+}
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+// Records router calls into per-task fixture files and serves them back offline.
+// Requests are matched by a hash of the operation and its normalized payload; ids are
+// masked so a fixture recorded for one task can be replayed against a freshly created one.
+export class ReplayProvider implements LLMProviderService {
+  readonly name = 'replay';
+  readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    tools: true,
+    jsonMode: false,
+    vision: false,
+    research: true,
+    local: true,
+    embeddings: false,
+  };
+
+  private config: ReplayConfig;
+  private index = new Map<string, RecordedCall[]>();
+  private cursors = new Map<string, number>();
+  private fixtures = new Map<string, FixtureFile>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private loadPromise: Promise<void> | null = null;
+  private stats = { hits: 0, misses: 0, recorded: 0 };
+
+  constructor() {
+    this.config = {
+      mode: (process.env.LLM_REPLAY_MODE as ReplayMode) || 'off',
+      fixturesDir: path.resolve(process.env.LLM_REPLAY_DIR || 'fixtures/llm-replay'),
+      missPolicy: (process.env.LLM_REPLAY_MISS_POLICY as ReplayMissPolicy) || 'error',
+    };
+
+    if (!['off', 'record', 'replay'].includes(this.config.mode)) {
+      console.warn(`Unknown LLM_REPLAY_MODE "${this.config.mode}", replay disabled`);
+      this.config.mode = 'off';
+    }
+    if (!['error', 'passthrough', 'record'].includes(this.config.missPolicy)) {
+      console.warn(`Unknown LLM_REPLAY_MISS_POLICY "${this.config.missPolicy}", using "error"`);
+      this.config.missPolicy = 'error';
+    }
+  }
+
+  get isReplaying(): boolean {
+    return this.config.mode === 'replay';
+  }
+
+  // Live responses are recorded in record mode, and on misses when the miss policy is "record"
+  get isRecording(): boolean {
+    return this.config.mode === 'record' ||
+      (this.config.mode === 'replay' && this.config.missPolicy === 'record');
+  }
+
+  // Whether the router may fall back to live providers after a replay miss
+  get allowsLiveFallback(): boolean {
+    return this.config.missPolicy !== 'error';
+  }
+
+  getStatus() {
+    return {
+      ...this.config,
+      fixtureFiles: this.fixtures.size,
+      recordedCalls: Array.from(this.index.values()).reduce((sum, calls) => sum + calls.length, 0),
+      ...this.stats,
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.isReplaying) return false;
+    await this.ensureLoaded();
+    return true;
+  }
+
+  async record(
+    operation: ReplayOperation,
+    request: unknown,
+    provider: string,
+    response: any,
+    taskId?: string
+  ): Promise<void> {
+    if (!this.isRecording) return;
+
+    await this.ensureLoaded();
+
+    const call: RecordedCall = {
+      hash: this.hashRequest(operation, request),
+      operation,
+      provider,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+
+    const fixtureName = taskId || 'untracked';
+    const fixture = this.fixtures.get(fixtureName) || {
+      taskId: taskId || null,
+      recordedAt: call.recordedAt,
+      calls: [],
+    };
+    fixture.calls.push(call);
+    this.fixtures.set(fixtureName, fixture);
+    this.addToIndex(call);
+    this.stats.recorded++;
+
+    // Serialize writes so concurrent calls for the same task don't interleave
+    this.writeQueue = this.writeQueue
+      .then(() => this.writeFixture(fixtureName, fixture))
+      .catch(error => console.error(`Failed to write replay fixture ${fixtureName}:`, error));
+    await this.writeQueue;
+  }
+
+  async generateCompletion(
+    messages: LLMMessage[],
+    options: ProviderCompletionOptions = {}
+  ): Promise<ProviderCompletion> {
+    const response = await this.lookup('chat', messages, options.taskId);
+    return { ...response, cost: 0 };
+  }
+
+  // Replays the recorded completion in word-sized chunks so the dashboard still streams
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options: ProviderCompletionOptions = {}
+  ): AsyncGenerator<string, ProviderCompletion, unknown> {
+    const response = await this.lookup('chat', messages, options.taskId);
+    const chunks: string[] = response.content.match(/\S+\s*|\s+/g) || [];
+    for (const chunk of chunks) {
+      yield chunk;
+    }
+    return { ...response, cost: 0 };
+  }
+
+  // Tool loop turns are matched on the conversation so far and the names of the tools offered
+  async completeWithTools(
+    messages: ToolLoopMessage[],
+    tools: ToolDefinition[],
+    options: ProviderCompletionOptions = {}
+  ): Promise<ToolCompletion> {
+    const response = await this.lookup('agent_tool_turn', { messages, tools: tools.map(tool => tool.name) }, options.taskId);
+    return { ...response, cost: 0 };
+  }
+
+  async generateAgentTeam(taskDescription: string, taskId?: string, signal?: AbortSignal): Promise<AgentTeamDefinition> {
+    const response = await this.lookup('agent_team', taskDescription, taskId);
+    return { ...response, cost: 0 };
+  }
+
+  async executeAgentAction(
+    agentPrompt: string,
+    agentContext: string,
+    userInput: string,
+    agentId?: string,
+    taskId?: string,
+    signal?: AbortSignal
+  ): Promise<AgentActionResult> {
+    const response = await this.lookup('agent_action', { agentPrompt, agentContext, userInput }, taskId);
+    return { ...response, cost: 0 };
+  }
+
+  async observeAndCritique(
+    planOrExecution: any,
+    context: string,
+    type: 'plan' | 'execution',
+    taskId?: string,
+    signal?: AbortSignal,
+    model?: string
+  ): Promise<CritiqueResult> {
+    const response = await this.lookup('critique', { planOrExecution, context, type }, taskId);
+    return { ...response, cost: 0 };
+  }
+
+  async performResearch(
+    query: string,
+    options: { taskId?: string; agentId?: string } = {}
+  ): Promise<ResearchResult> {
+    const response = await this.lookup('research', query, options.taskId);
+    return { ...response, cost: 0 };
+  }
+
+  // Identical requests (e.g. repeated drafting iterations) are served in recorded order,
+  // repeating the last response once the recording is exhausted
+  private async lookup(operation: ReplayOperation, request: unknown, taskId?: string): Promise<any> {
+    await this.ensureLoaded();
+
+    const hash = this.hashRequest(operation, request);
+    const calls = this.index.get(hash);
+
+    if (!calls || calls.length === 0) {
+      this.stats.misses++;
+      await this.logMiss(operation, hash, taskId);
+      throw new Error(`No recorded response for ${operation} request ${hash.slice(0, 12)}`);
+    }
+
+    const cursor = this.cursors.get(hash) || 0;
+    this.cursors.set(hash, cursor + 1);
+    this.stats.hits++;
+
+    return structuredClone(calls[Math.min(cursor, calls.length - 1)].response);
+  }
+
+  private hashRequest(operation: ReplayOperation, request: unknown): string {
+    const normalized = JSON.stringify({ operation, request }).replace(UUID_PATTERN, '<id>');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private addToIndex(call: RecordedCall): void {
+    const calls = this.index.get(call.hash) || [];
+    calls.push(call);
+    this.index.set(call.hash, calls);
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFixtures();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFixtures(): Promise<void> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.config.fixturesDir)).filter(file => file.endsWith('.json'));
+    } catch {
+      // No fixtures recorded yet
+      return;
+    }
+
+    for (const file of files.sort()) {
+      try {
+        const fixture: FixtureFile = JSON.parse(
+          await fs.readFile(path.join(this.config.fixturesDir, file), 'utf-8')
+        );
+        this.fixtures.set(path.basename(file, '.json'), fixture);
+        fixture.calls.forEach(call => this.addToIndex(call));
+      } catch (error) {
+        console.error(`Failed to load replay fixture ${file}:`, error);
+      }
+    }
+  }
+
+  private async writeFixture(name: string, fixture: FixtureFile): Promise<void> {
+    await fs.mkdir(this.config.fixturesDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.config.fixturesDir, `${name}.json`),
+      JSON.stringify(fixture, null, 2)
+    );
+  }
+
+  private async logMiss(operation: ReplayOperation, hash: string, taskId?: string): Promise<void> {
+    try {
+      await storage.createLog({
+        level: this.allowsLiveFallback ? 'warn' : 'error',
+        category: 'llm-replay',
+        message: `Replay miss for ${operation} request`,
+        data: {
+          operation,
+          hash,
+          missPolicy: this.config.missPolicy,
+        },
+        taskId: taskId || null,
+      });
+    } catch (error) {
+      console.error('Failed to log replay miss:', error);
+    }
+  }
+}
+
+export const replayProvider = new ReplayProvider();
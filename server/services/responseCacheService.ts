@@ -0,0 +1,132 @@
+import { createHash } from "crypto";
+import { storage } from "../storage";
+
+export interface CacheKeyParts {
+  provider: string;
+  model?: string;
+  operation: string;
+  request: unknown;
+  temperature?: number;
+  maxTokens?: number;
+  isComplexReasoning?: boolean;
+  isLightweight?: boolean;
+}
+
+export interface CachedResponse<T = any> {
+  id: string;
+  response: T;
+  tokensUsed: number;
+  cost: number;
+}
+
+interface ResponseCacheConfig {
+  enabled: boolean;
+  ttlSeconds: number;
+  maxTemperature: number;
+}
+
+// Opt-in Postgres-backed cache for deterministic LLM calls.
+// Requests sampled above maxTemperature are never cached since their output is expected to vary.
+export class ResponseCacheService {
+  private config: ResponseCacheConfig;
+
+  constructor() {
+    this.config = {
+      enabled: process.env.LLM_CACHE_ENABLED === 'true',
+      ttlSeconds: parseInt(process.env.LLM_CACHE_TTL_SECONDS || '86400', 10),
+      maxTemperature: parseFloat(process.env.LLM_CACHE_MAX_TEMPERATURE || '0.3'),
+    };
+  }
+
+  getConfig(): ResponseCacheConfig {
+    return { ...this.config };
+  }
+
+  // A per-call `cache` option overrides the global LLM_CACHE_ENABLED setting
+  shouldCache(cacheOption: boolean | undefined, temperature: number | undefined): boolean {
+    const enabled = cacheOption ?? this.config.enabled;
+    if (!enabled) return false;
+    return (temperature ?? 0.7) <= this.config.maxTemperature;
+  }
+
+  buildKey(parts: CacheKeyParts): string {
+    const normalized = JSON.stringify({
+      provider: parts.provider,
+      model: parts.model || 'default',
+      operation: parts.operation,
+      request: parts.request,
+      temperature: parts.temperature ?? null,
+      maxTokens: parts.maxTokens ?? null,
+      isComplexReasoning: !!parts.isComplexReasoning,
+      isLightweight: !!parts.isLightweight,
+    });
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  async get<T = any>(cacheKey: string): Promise<CachedResponse<T> | null> {
+    try {
+      const entry = await storage.getCachedResponse(cacheKey);
+      if (!entry) return null;
+
+      await storage.recordCacheHit(entry.id);
+
+      return {
+        id: entry.id,
+        response: entry.response as T,
+        tokensUsed: entry.tokensUsed || 0,
+        cost: parseFloat(entry.cost || '0'),
+      };
+    } catch (error) {
+      // A cache failure should never block the underlying LLM call
+      console.warn('Failed to read LLM response cache:', error);
+      return null;
+    }
+  }
+
+  async set(
+    cacheKey: string,
+    entry: {
+      provider: string;
+      model?: string;
+      operation: string;
+      response: any;
+      tokensUsed?: number;
+      cost?: number;
+    }
+  ): Promise<void> {
+    try {
+      await storage.upsertCachedResponse({
+        cacheKey,
+        provider: entry.provider,
+        model: entry.model || null,
+        operation: entry.operation,
+        response: entry.response,
+        tokensUsed: entry.tokensUsed || 0,
+        cost: (entry.cost || 0).toString(),
+        expiresAt: new Date(Date.now() + this.config.ttlSeconds * 1000),
+      });
+    } catch (error) {
+      console.warn('Failed to write LLM response cache:', error);
+    }
+  }
+
+  async getStats() {
+    const stats = await storage.getResponseCacheStats();
+    return {
+      ...stats,
+      ...this.getConfig(),
+    };
+  }
+
+  async clear(): Promise<void> {
+    await storage.clearResponseCache();
+
+    await storage.createLog({
+      level: 'info',
+      category: 'llm-cache',
+      message: 'LLM response cache cleared',
+    });
+  }
+}
+
+export const responseCacheService = new ResponseCacheService();
@@ -0,0 +1,207 @@
+import { storage } from "../storage";
+import { budgetService, type BudgetPressure } from "./budgetService";
+import { pricingService, QUALITY_TIERS, type QualityTier } from "./pricingService";
+
+// - standard: the router's own order, no budget pressure
+// - economy: a budget crossed its warning threshold; cheapest providers first, lightweight models
+// - local_first: a budget is critical or exceeded; local providers first, then the cheapest hosted ones
+export type RoutingPolicy = 'standard' | 'economy' | 'local_first';
+
+export type RoutingOperation = 'chat' | 'stream' | 'agent_team' | 'agent_action' | 'critique' | 'research';
+
+interface RoutingPolicyConfig {
+  enabled: boolean;
+  allowLocal: boolean; // whether degraded calls may be sent to local providers such as Ollama
+  pressureCacheMs: number; // how long a budget lookup is reused across calls
+  historySize: number;
+}
+
+interface RoutingRequest {
+  operation: RoutingOperation;
+  candidates: string[]; // the router's order for the call, preferred provider first
+  localProviders: string[];
+  taskId?: string;
+  agentId?: string;
+  isComplexReasoning?: boolean;
+}
+
+export interface RoutingDecision {
+  operation: RoutingOperation;
+  policy: RoutingPolicy;
+  degraded: boolean;
+  reason: string;
+  originalOrder: string[];
+  order: string[];
+  budget: BudgetPressure | null;
+  taskId?: string;
+  agentId?: string;
+  timestamp: string;
+}
+
+// Tokens priced when ranking providers; only the relative order matters
+const RANKING_TOKENS = 1_000_000;
+
+// Complex reasoning is never ranked onto economy-tier models ahead of better ones
+const COMPLEX_REASONING_MIN_TIER: QualityTier = 'standard';
+
+// Chooses how a call is routed given the remaining budget. Below every warning threshold
+// the router's order is kept; past it calls degrade to cheaper providers and models, and
+// once a budget is critical to local providers. Every decision is logged under the
+// 'llm-routing' category so spend can be audited against it.
+export class RoutingPolicyService {
+  private config: RoutingPolicyConfig;
+  private pressureCache = new Map<string, { pressure: BudgetPressure | null; fetchedAt: number }>();
+  private history: RoutingDecision[] = [];
+
+  constructor() {
+    this.config = {
+      enabled: process.env.LLM_BUDGET_ROUTING !== 'false',
+      allowLocal: process.env.LLM_BUDGET_ROUTING_LOCAL !== 'false',
+      pressureCacheMs: parseInt(process.env.LLM_BUDGET_ROUTING_CACHE_SECONDS || '15', 10) * 1000,
+      historySize: 100,
+    };
+  }
+
+  getConfig(): RoutingPolicyConfig {
+    return { ...this.config };
+  }
+
+  // Called once a cost has been tracked, so the next call sees the new spend
+  clearPressureCache(): void {
+    this.pressureCache.clear();
+  }
+
+  getRecentDecisions(limit = 50): RoutingDecision[] {
+    return this.history.slice(-limit).reverse();
+  }
+
+  async decide(request: RoutingRequest): Promise<RoutingDecision> {
+    const budget = this.config.enabled
+      ? await this.getPressure(request.taskId, request.agentId)
+      : null;
+
+    let policy: RoutingPolicy = 'standard';
+    if (budget?.alertLevel === 'warning') {
+      policy = 'economy';
+    } else if (budget?.alertLevel === 'critical' || budget?.alertLevel === 'exceeded') {
+      policy = 'local_first';
+    }
+
+    const order = policy === 'standard' ? request.candidates : this.rankByCost(request, policy);
+
+    const decision: RoutingDecision = {
+      operation: request.operation,
+      policy,
+      degraded: policy !== 'standard',
+      reason: this.describe(policy, budget),
+      originalOrder: request.candidates,
+      order,
+      budget,
+      taskId: request.taskId,
+      agentId: request.agentId,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.history.push(decision);
+    if (this.history.length > this.config.historySize) {
+      this.history.shift();
+    }
+
+    await this.logDecision(decision);
+    return decision;
+  }
+
+  // Budget spend only changes when costs are tracked, so a short-lived cache avoids
+  // querying the budgets table on every call of a busy task
+  private async getPressure(taskId?: string, agentId?: string): Promise<BudgetPressure | null> {
+    const key = `${taskId || ''}:${agentId || ''}`;
+    const cached = this.pressureCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.config.pressureCacheMs) {
+      return cached.pressure;
+    }
+
+    try {
+      const pressure = await budgetService.getBudgetPressure(taskId, agentId);
+      this.pressureCache.set(key, { pressure, fetchedAt: Date.now() });
+      return pressure;
+    } catch (error) {
+      // Routing must not fail because budgets can't be read; fall back to the standard order
+      console.warn('Failed to read budget pressure for routing:', error);
+      return null;
+    }
+  }
+
+  private rankByCost(request: RoutingRequest, policy: RoutingPolicy): string[] {
+    const local = this.config.allowLocal ? request.localProviders : [];
+    const hosted = request.candidates.filter(provider => !local.includes(provider));
+    const minTier = QUALITY_TIERS.indexOf(COMPLEX_REASONING_MIN_TIER);
+
+    const ranked = hosted
+      .map((provider, index) => {
+        const rate = pricingService.getRate(provider);
+        return {
+          provider,
+          index,
+          cost: pricingService.estimateCost(provider, undefined, RANKING_TOKENS),
+          belowTier: !!request.isComplexReasoning && QUALITY_TIERS.indexOf(rate.qualityTier) < minTier,
+        };
+      })
+      .sort((a, b) =>
+        Number(a.belowTier) - Number(b.belowTier) ||
+        a.cost - b.cost ||
+        a.index - b.index
+      )
+      .map(entry => entry.provider);
+
+    // Local providers answer first once a budget is critical, otherwise they are the last resort
+    return policy === 'local_first' ? [...local, ...ranked] : [...ranked, ...local];
+  }
+
+  private describe(policy: RoutingPolicy, budget: BudgetPressure | null): string {
+    if (!this.config.enabled) {
+      return 'Budget-aware routing disabled';
+    }
+    if (!budget) {
+      return 'No active budget applies';
+    }
+
+    const utilization = `${budget.utilizationPercentage.toFixed(1)}%`;
+    switch (policy) {
+      case 'standard':
+        return `Budget '${budget.budgetName}' at ${utilization}, below its ${budget.warningThreshold}% warning threshold`;
+      case 'economy':
+        return `Budget '${budget.budgetName}' at ${utilization} crossed its ${budget.warningThreshold}% warning threshold; routing to cheaper models`;
+      case 'local_first':
+        return `Budget '${budget.budgetName}' at ${utilization} is ${budget.alertLevel}; routing to ${this.config.allowLocal ? 'local providers' : 'the cheapest providers'} first`;
+    }
+  }
+
+  private async logDecision(decision: RoutingDecision): Promise<void> {
+    try {
+      await storage.createLog({
+        level: decision.degraded ? 'info' : 'debug',
+        category: 'llm-routing',
+        message: `${decision.operation} routed with ${decision.policy} policy: ${decision.reason}`,
+        data: {
+          operation: decision.operation,
+          policy: decision.policy,
+          degraded: decision.degraded,
+          reason: decision.reason,
+          originalOrder: decision.originalOrder,
+          order: decision.order,
+          budgetId: decision.budget?.budgetId,
+          budgetType: decision.budget?.entityType,
+          utilizationPercentage: decision.budget?.utilizationPercentage,
+          warningThreshold: decision.budget?.warningThreshold,
+          alertLevel: decision.budget?.alertLevel,
+        },
+        taskId: decision.taskId || null,
+        agentId: decision.agentId || null,
+      });
+    } catch (error) {
+      console.error('Failed to log routing decision:', error);
+    }
+  }
+}
+
+export const routingPolicyService = new RoutingPolicyService();
@@ -5,6 +5,13 @@ import { templateService } from "./templateService";
 import { taskQueueService } from "./taskQueueService";
 import { timelineService } from "./timelineService";
 import { llmRouter } from "./llmRouter";
+import { replayProvider } from "./replayProvider";
+import { structuredOutputService } from "./structuredOutputService";
+import { pricingService } from "./pricingService";
+import { promptLibraryService } from "./promptLibraryService";
+import { providerHealthService } from "./providerHealthService";
+import { llmTraceService } from "./llmTraceService";
+import { taskService } from "./taskService";
 
 export class ServiceManager {
   private static instance: ServiceManager;
@@ -36,17 +43,37 @@ export class ServiceManager {
       console.log('📋 Initializing Template Service...');
       await templateService.initializeBuiltInTemplates();
 
-      // 3. Start Budget Monitoring (background process)
+      // 3. Load the model pricing catalog used for cost tracking, and the prompt library
+      console.log('🏷️ Loading Model Pricing Catalog and Prompt Library...');
+      await pricingService.initialize();
+      await promptLibraryService.initialize();
+
+      // 4. Start Budget Monitoring (background process)
       console.log('💰 Starting Budget Monitoring Service...');
       await budgetService.startBudgetMonitoring();
 
-      // 4. Initialize Task Queue Service
+      // 5. Initialize Task Queue Service
       console.log('📋 Initializing Task Queue Service...');
       // Task queue service is ready to use without special initialization
       
-      // 5. LLM Router is already initialized in constructor
+      // 6. LLM Router is already initialized in constructor
       console.log('🤖 LLM Router ready with providers: groq, gemini, ollama');
 
+      // 7. Start provider health probes and metrics persistence (background process)
+      console.log('🩺 Starting Provider Health Monitoring...');
+      await providerHealthService.start(llmRouter);
+
+      // 8. Start LLM call trace retention (background process)
+      console.log('🔎 Starting LLM Call Trace Retention...');
+      await llmTraceService.start();
+
+      // 9. Resume tasks a restart interrupted mid-run (background process)
+      if (process.env.TASK_RESUME_ON_BOOT !== 'false') {
+        console.log('⏯️ Resuming Interrupted Tasks...');
+        const resumed = await taskService.resumeInterruptedTasks();
+        console.log(`⏯️ Resumed ${resumed.length} interrupted tasks`);
+      }
+
       // Log successful initialization
       await storage.createLog({
         level: 'info',
@@ -56,10 +83,15 @@ export class ServiceManager {
           services: [
             'error-recovery',
             'template-service',
+            'model-pricing',
+            'prompt-library',
             'budget-monitoring',
             'task-queue',
             'timeline-service',
-            'llm-router'
+            'llm-router',
+            'provider-health',
+            'llm-trace',
+            'task-resume'
           ],
           timestamp: new Date().toISOString(),
         },
@@ -207,6 +239,11 @@ export class ServiceManager {
         queues: queues.slice(0, 5), // Latest 5 queues
         metrics: {
           llmProviders: Object.fromEntries(llmMetrics as Map<string, any>),
+          providerCapabilities: llmRouter.getProviderCapabilities(),
+          llmReplay: replayProvider.getStatus(),
+          circuitBreakers: llmRouter.getCircuitStates(),
+          providerHealth: providerHealthService.getHealth(),
+          structuredOutput: structuredOutputService.getMetrics(),
         },
       };
     } catch (error) {
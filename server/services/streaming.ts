@@ -0,0 +1,56 @@
+// Incremental readers for streamed provider responses.
+// Provider payloads can be split across network chunks, so both readers
+// buffer until a full line is available before handing it to the caller.
+
+async function* readLines(response: Response): AsyncGenerator<string, void, unknown> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body available for streaming');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex >= 0) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) {
+        yield line;
+      }
+      newlineIndex = buffer.indexOf('\n');
+    }
+  }
+
+  const remaining = (buffer + decoder.decode()).trim();
+  if (remaining) {
+    yield remaining;
+  }
+}
+
+// Server-sent events (OpenAI-compatible APIs, Gemini with alt=sse).
+// Yields the raw `data:` payload of each event, including the `[DONE]` sentinel.
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string, void, unknown> {
+  for await (const line of readLines(response)) {
+    if (line.startsWith('data:')) {
+      yield line.slice(5).trim();
+    }
+  }
+}
+
+// Newline-delimited JSON (Ollama). Lines that fail to parse are skipped.
+export async function* readJsonLines<T>(response: Response): AsyncGenerator<T, void, unknown> {
+  for await (const line of readLines(response)) {
+    try {
+      yield JSON.parse(line) as T;
+    } catch {
+      // Skip invalid JSON lines
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import { z } from "zod";
+import { storage } from "../storage";
+import type { CompletionUsage, LLMMessage, ProviderCompletion } from "./llmProvider";
+import { findDependencyCycle, normalizePlanSteps } from "./planSteps";
+
+// Plain step descriptions are still accepted and run in order
+const planStepsSchema = z.array(z.union([
+  z.string().min(1),
+  z.object({
+    id: z.union([z.string().min(1), z.number()]),
+    description: z.string().min(1),
+    assignedRole: z.string().default(''),
+    inputs: z.array(z.string()).default([]),
+    outputs: z.array(z.string()).default([]),
+    dependsOn: z.array(z.union([z.string(), z.number()])).default([]),
+  }),
+])).min(1)
+  .transform(normalizePlanSteps)
+  .superRefine((steps, ctx) => {
+    const cycle = findDependencyCycle(steps);
+    if (cycle) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `dependsOn forms a cycle: ${cycle.join(' -> ')}` });
+    }
+  });
+
+export const agentTeamSchema = z.object({
+  agents: z.array(z.object({
+    name: z.string().min(1),
+    role: z.string().min(1),
+    prompt: z.string().min(1),
+    description: z.string().default(''),
+    toolset: z.array(z.string()).default([]),
+    suggestions: z.string().default(''),
+  })).min(1),
+  executionPlan: z.object({
+    steps: planStepsSchema,
+    workflow: z.string().default(''),
+    estimatedDuration: z.string().default(''),
+  }),
+});
+
+export const planRevisionSchema = z.object({
+  executionPlan: agentTeamSchema.shape.executionPlan,
+  changes: z.array(z.string()).default([]),
+});
+
+export const agentAssignmentSchema = z.object({
+  assignments: z.array(z.object({
+    stepId: z.union([z.string().min(1), z.number()]).transform(String),
+    agent: z.string().min(1),
+    rationale: z.string().default(''),
+    confidence: z.coerce.number().min(0).max(100).default(50),
+  })).min(1),
+});
+
+export const critiqueSchema = z.object({
+  feedback: z.string(),
+  suggestions: z.array(z.string()).default([]),
+  needsRefinement: z.boolean(),
+  confidence: z.coerce.number().min(0).max(100),
+});
+
+export type StructuredSchemaName = 'agent_team' | 'critique' | 'plan_revision' | 'agent_assignment';
+
+interface StructuredOutputConfig {
+  maxRepairs: number;
+}
+
+interface StructuredOutputMetrics {
+  requests: number;
+  parseFailures: number; // no JSON could be extracted from the response
+  validationFailures: number; // JSON extracted but didn't match the schema
+  repairAttempts: number;
+  repaired: number; // requests that succeeded only after a repair round-trip
+  failures: number; // requests that still failed after all repairs
+}
+
+interface StructuredRequest<T> {
+  provider: string;
+  schemaName: StructuredSchemaName;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  messages: LLMMessage[];
+  complete: (messages: LLMMessage[]) => Promise<ProviderCompletion>;
+  taskId?: string;
+}
+
+// Pulls a JSON object out of model output that may wrap it in prose or code fences.
+// Tries fenced blocks, the whole response, then the first balanced {...} span, each
+// also with trailing commas removed.
+export function extractJson(content: string): unknown {
+  const candidates: string[] = [];
+
+  const fencePattern = /```(?:json)?\s*([\s\S]*?)```/g;
+  let fenced: RegExpExecArray | null;
+  while ((fenced = fencePattern.exec(content)) !== null) {
+    candidates.push(fenced[1].trim());
+  }
+  candidates.push(content.trim());
+
+  const balanced = findBalancedObject(content);
+  if (balanced) {
+    candidates.push(balanced);
+  }
+
+  for (const candidate of candidates) {
+    for (const text of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+
+  throw new Error('No JSON object found in response');
+}
+
+function findBalancedObject(content: string): string | null {
+  const start = content.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) {
+      return content.slice(start, i + 1);
+    }
+  }
+
+  return null;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+// Validates planner/observer output against zod schemas. Invalid output is sent back to
+// the model with the validation errors for a bounded number of repair round-trips, and the
+// usage of every round-trip is added up so the caller can charge for all of them.
+export class StructuredOutputService {
+  private config: StructuredOutputConfig;
+  private metrics = new Map<string, StructuredOutputMetrics>();
+
+  constructor() {
+    this.config = {
+      maxRepairs: parseInt(process.env.LLM_STRUCTURED_MAX_REPAIRS || '2', 10),
+    };
+  }
+
+  async generate<T>(request: StructuredRequest<T>): Promise<{ value: T; usage: CompletionUsage }> {
+    const metrics = this.getMetricsFor(request.provider, request.schemaName);
+    metrics.requests++;
+
+    const usage: CompletionUsage = { tokensUsed: 0, tokensInput: 0, tokensOutput: 0, cost: 0 };
+
+    let messages = request.messages;
+    let lastProblem = '';
+
+    for (let repair = 0; repair <= this.config.maxRepairs; repair++) {
+      if (repair > 0) {
+        metrics.repairAttempts++;
+      }
+
+      const response = await request.complete(messages);
+      usage.tokensUsed += response.tokensUsed || 0;
+      usage.tokensInput += response.tokensInput || 0;
+      usage.tokensOutput += response.tokensOutput || 0;
+      usage.cost += response.cost || 0;
+      usage.model = response.model || usage.model;
+
+      let parsed: unknown;
+      try {
+        parsed = extractJson(response.content);
+      } catch (error) {
+        metrics.parseFailures++;
+        lastProblem = 'the response did not contain a valid JSON object';
+        messages = this.buildRepairMessages(request.messages, response.content, lastProblem);
+        continue;
+      }
+
+      const result = request.schema.safeParse(parsed);
+      if (result.success) {
+        if (repair > 0) {
+          metrics.repaired++;
+        }
+        return { value: result.data, usage };
+      }
+
+      metrics.validationFailures++;
+      lastProblem = formatIssues(result.error);
+      messages = this.buildRepairMessages(request.messages, response.content, lastProblem);
+    }
+
+    metrics.failures++;
+    await this.logFailure(request, lastProblem);
+    throw new Error(`Invalid ${request.schemaName} response from ${request.provider}: ${lastProblem}`);
+  }
+
+  getMetrics(): Record<string, StructuredOutputMetrics> {
+    return Object.fromEntries(this.metrics);
+  }
+
+  private getMetricsFor(provider: string, schemaName: StructuredSchemaName): StructuredOutputMetrics {
+    const key = `${provider}:${schemaName}`;
+    let metrics = this.metrics.get(key);
+    if (!metrics) {
+      metrics = {
+        requests: 0,
+        parseFailures: 0,
+        validationFailures: 0,
+        repairAttempts: 0,
+        repaired: 0,
+        failures: 0,
+      };
+      this.metrics.set(key, metrics);
+    }
+    return metrics;
+  }
+
+  // Each repair starts from the original conversation so failed attempts don't pile up
+  private buildRepairMessages(original: LLMMessage[], previous: string, problem: string): LLMMessage[] {
+    return [
+      ...original,
+      { role: 'assistant', content: previous },
+      {
+        role: 'user',
+        content: `Your previous response could not be used: ${problem}. Respond again with only the corrected JSON object in the requested format, without any prose or code fences.`,
+      },
+    ];
+  }
+
+  private async logFailure<T>(request: StructuredRequest<T>, problem: string): Promise<void> {
+    try {
+      await storage.createLog({
+        level: 'error',
+        category: 'llm-structured',
+        message: `${request.provider} returned an invalid ${request.schemaName} response after ${this.config.maxRepairs} repair attempts`,
+        data: {
+          provider: request.provider,
+          schema: request.schemaName,
+          problem,
+        },
+        taskId: request.taskId || null,
+      });
+    } catch (error) {
+      console.error('Failed to log structured output failure:', error);
+    }
+  }
+}
+
+export const structuredOutputService = new StructuredOutputService();
@@ -1,6 +1,7 @@
 import { storage } from "../storage";
 import { taskService } from "./taskService";
 import { agentService } from "./agentService";
+import { cancellationService } from "./cancellationService";
 import type { 
   TaskQueue, 
   InsertTaskQueue, 
@@ -323,6 +324,17 @@ export class TaskQueueService {
         autoStart: true 
       });
 
+      // A run stopped by pausing or cancelling the task returns normally but isn't complete
+      const interruption = entry.taskId ? cancellationService.getReason(entry.taskId) : undefined;
+      if (interruption) {
+        await storage.updateQueueEntry(entry.id, {
+          status: 'cancelled',
+          lastError: `Task ${interruption}`,
+          updatedAt: new Date()
+        });
+        return;
+      }
+
       // Mark as completed
       await storage.updateQueueEntry(entry.id, { 
         status: 'completed',
@@ -1,6 +1,17 @@
 import { storage } from "../storage";
 import { agentService } from "./agentService";
-import type { Task, InsertTask, TaskWithAgents } from "@shared/schema";
+import { timelineService } from "./timelineService";
+import { cancellationService, createAbortError, isAbortError, throwIfAborted } from "./cancellationService";
+import { planRefinementService } from "./planRefinementService";
+import { findDependencyCycle, normalizePlanSteps, type PlanStep } from "./planSteps";
+import { agentAssignmentService, type StepAssignment } from "./agentAssignmentService";
+import { deliverableService } from "./deliverableService";
+import { approvalService, getApprovalPolicy, type AgentEdit, type ApprovalEdits } from "./approvalService";
+import { countTokens } from "./contextBudgetService";
+import { llmRouter } from "./llmRouter";
+import { pricingService } from "./pricingService";
+import type { CritiqueResult } from "./llmProvider";
+import type { Agent, AgentExecution, PlanStepState, Task, InsertTask, TaskDeliverable, TaskWithAgents } from "@shared/schema";
 
 export interface TaskCreationRequest {
   title: string;
@@ -19,8 +30,18 @@ export interface TaskCreationRequest {
 export interface TaskExecutionRequest {
   taskId: string;
   autoStart?: boolean;
+  resume?: boolean; // continue from the task's checkpoint instead of starting over
 }
 
+export type ExecutionStage = 'drafting' | 'executing' | 'completing';
+
+// Statuses of a run that was in progress; a task left in one of them with no run was
+// interrupted. A resumed run waits again on the approvals still pending.
+const IN_PROGRESS_STATUSES = ['drafting', 'awaiting_approval', 'executing', 'refinement'];
+
+// Providers' default response limit, assumed when estimating what a step will cost
+const STEP_RESPONSE_TOKENS = 4096;
+
 export class TaskService {
   // Create a new task and generate initial agent team
   async createTask(request: TaskCreationRequest): Promise<TaskWithAgents> {
@@ -97,32 +118,70 @@ export class TaskService {
     }
   }
 
-  // Execute a task through the AutoAgents framework phases
+  // Execute a task through the AutoAgents framework phases. Pausing or cancelling the task
+  // aborts the signal threaded through the stages, which stops the run where it is. The
+  // stage reached is checkpointed, so a resumed run skips the stages already done and only
+  // runs the steps that had not completed.
   async executeTask(request: TaskExecutionRequest): Promise<void> {
+    const signal = cancellationService.begin(request.taskId);
+
     try {
       const task = await storage.getTaskWithAgents(request.taskId);
       if (!task) {
         throw new Error(`Task ${request.taskId} not found`);
       }
 
-      await storage.createLog({
-        level: 'info',
-        category: 'task',
-        message: `Starting task execution: ${task.title}`,
-        data: { agentCount: task.agents.length },
-        taskId: task.id,
-      });
+      const checkpoint = request.resume ? await storage.getTaskCheckpoint(task.id) : undefined;
+      const stage = (checkpoint?.stage || 'drafting') as ExecutionStage;
+
+      if (checkpoint) {
+        await storage.saveTaskCheckpoint({
+          taskId: task.id,
+          stage,
+          resumeCount: checkpoint.resumeCount + 1,
+          lastResumedAt: new Date(),
+        });
+        await storage.createLog({
+          level: 'info',
+          category: 'task',
+          message: `Resuming task execution at the ${stage} stage: ${task.title}`,
+          data: { stage, planId: checkpoint.planId, resumeCount: checkpoint.resumeCount + 1 },
+          taskId: task.id,
+        });
+      } else {
+        await storage.saveTaskCheckpoint({ taskId: task.id, stage, planId: null, resumeCount: 0, lastResumedAt: null });
+        await storage.createLog({
+          level: 'info',
+          category: 'task',
+          message: `Starting task execution: ${task.title}`,
+          data: { agentCount: task.agents.length },
+          taskId: task.id,
+        });
+      }
 
       // Phase 1: Drafting Stage - Observer review and refinement
-      await this.draftingStage(task);
+      if (stage === 'drafting') {
+        await this.draftingStage(task, signal);
+        await storage.saveTaskCheckpoint({ taskId: task.id, stage: 'executing' });
+      }
 
-      // Phase 2: Execution Stage - Agent collaboration
-      await this.executionStage(task);
+      // Phase 2: Execution Stage - Agent collaboration, once a reviewer approves the plan
+      if (stage !== 'completing') {
+        await this.planApprovalGate(task, signal);
+        await this.executionStage(task, signal, stage === 'executing' && !!checkpoint);
+        await storage.saveTaskCheckpoint({ taskId: task.id, stage: 'completing' });
+      }
 
       // Phase 3: Completion and reflection
-      await this.completionStage(task);
+      await this.completionStage(task, signal);
+      await storage.deleteTaskCheckpoint(task.id);
 
     } catch (error) {
+      if (isAbortError(error)) {
+        await this.recordInterruption(request.taskId, error as Error);
+        return;
+      }
+
       await storage.updateTask(request.taskId, {
         status: 'failed',
       });
@@ -134,11 +193,66 @@ export class TaskService {
         taskId: request.taskId,
       });
       throw error;
+    } finally {
+      cancellationService.end(request.taskId, signal);
+    }
+  }
+
+  // Picks up tasks a server restart interrupted mid-run. Paused, failed and cancelled tasks
+  // keep their checkpoint until someone resumes them.
+  async resumeInterruptedTasks(): Promise<string[]> {
+    const resumed: string[] = [];
+
+    for (const checkpoint of await storage.getTaskCheckpoints()) {
+      const task = await storage.getTask(checkpoint.taskId);
+      if (!task || !IN_PROGRESS_STATUSES.includes(task.status) || cancellationService.isRunning(task.id)) {
+        continue;
+      }
+
+      resumed.push(task.id);
+      this.executeTask({ taskId: task.id, resume: true }).catch(error => {
+        console.error(`Failed to resume task ${task.id}:`, error);
+      });
+    }
+
+    if (resumed.length > 0) {
+      await storage.createLog({
+        level: 'info',
+        category: 'task',
+        message: `Resuming ${resumed.length} interrupted tasks`,
+        data: { taskIds: resumed },
+      });
     }
+
+    return resumed;
+  }
+
+  // The pause or cancel endpoint has already set the task's status; a run superseded by a
+  // newer one leaves it to that run
+  private async recordInterruption(taskId: string, error: Error): Promise<void> {
+    const reason = cancellationService.getReason(taskId);
+    if (!reason) {
+      return;
+    }
+
+    const task = await storage.updateTask(taskId, { status: reason });
+    if (task) {
+      await timelineService.recordTaskEvent(taskId, reason === 'paused' ? 'task_paused' : 'task_cancelled', task, {
+        reason: error.message,
+      });
+    }
+
+    await storage.createLog({
+      level: 'info',
+      category: 'task',
+      message: `Task execution ${reason}`,
+      data: { progress: task?.progress },
+      taskId,
+    });
   }
 
   // Phase 1: Drafting Stage with Observer feedback
-  private async draftingStage(task: TaskWithAgents): Promise<void> {
+  private async draftingStage(task: TaskWithAgents, signal: AbortSignal): Promise<void> {
     await storage.updateTask(task.id, {
       status: 'drafting',
       progress: 20,
@@ -152,13 +266,14 @@ export class TaskService {
     });
 
     // Observer evaluates the initial plan
-    const planObservation = await agentService.observeAndRefine(task.id, 'plan');
+    let planObservation = await agentService.observeAndRefine(task.id, 'plan', signal);
 
     let refinementCount = 0;
     const maxRefinements = 3;
 
-    // Iterative refinement if needed
+    // Revise and re-observe until the observers no longer ask for refinement
     while (planObservation.needsRefinement && refinementCount < maxRefinements) {
+      throwIfAborted(signal);
       await storage.createLog({
         level: 'info',
         category: 'task',
@@ -168,13 +283,15 @@ export class TaskService {
       });
 
       // Refine the plan based on observer feedback
-      await this.refinePlan(task, planObservation.suggestions);
+      await this.refinePlan(task, planObservation, signal);
       refinementCount++;
 
       // Update progress
       await storage.updateTask(task.id, {
         progress: 20 + (refinementCount * 10),
       });
+
+      planObservation = await agentService.observeAndRefine(task.id, 'plan', signal);
     }
 
     await storage.createLog({
@@ -186,8 +303,11 @@ export class TaskService {
     });
   }
 
-  // Phase 2: Execution Stage with agent collaboration
-  private async executionStage(task: TaskWithAgents): Promise<void> {
+  // Phase 2: Execution Stage with agent collaboration. Each step starts once the steps it
+  // depends on have completed, so independent branches run side by side up to the task's
+  // concurrency limit. An agent works on one step at a time. When resuming, steps completed
+  // by the interrupted run are kept along with their outputs.
+  private async executionStage(task: TaskWithAgents, signal: AbortSignal, resume = false): Promise<void> {
     await storage.updateTask(task.id, {
       status: 'executing',
       progress: 50,
@@ -200,46 +320,162 @@ export class TaskService {
       taskId: task.id,
     });
 
-    const executionPlan = task.executionPlans[0];
+    // Reloaded so a plan revised during drafting is the one executed
+    const [executionPlan] = await storage.getExecutionPlansByTask(task.id);
     if (!executionPlan) {
       throw new Error('No execution plan found');
     }
 
-    const steps = executionPlan.executionSteps as string[];
-    const stepProgress = 40 / steps.length; // 40% progress allocated to execution
+    const steps = normalizePlanSteps(executionPlan.executionSteps);
+    const cycle = findDependencyCycle(steps);
+    if (cycle) {
+      throw new Error(`Execution plan steps depend on each other in a cycle: ${cycle.join(' -> ')}`);
+    }
 
-    for (let i = 0; i < steps.length; i++) {
-      const step = steps[i];
-      
+    const stepAssignments = await agentAssignmentService.assign(task, task.agents, steps, { signal });
+    const assignments = new Map<string, Agent | undefined>();
+    steps.forEach(step => {
+      assignments.set(step.id, task.agents.find(agent => agent.id === stepAssignments.get(step.id)?.agentId));
+    });
+    const states = await this.initializeStepStates(executionPlan.id, task.id, steps, stepAssignments, resume);
+    await storage.saveTaskCheckpoint({ taskId: task.id, stage: 'executing', planId: executionPlan.id });
+
+    const concurrency = this.getStepConcurrency(task);
+    const stepProgress = 40 / steps.length; // 40% progress allocated to execution
+    const outputs = new Map<string, string>();
+    const completed = new Set<string>();
+    steps.forEach(step => {
+      const state = states.get(step.id)!;
+      if (state.status === 'completed') {
+        completed.add(step.id);
+        if (state.output) outputs.set(step.id, state.output);
+      }
+    });
+    if (completed.size > 0) {
       await storage.createLog({
         level: 'info',
         category: 'task',
-        message: `Executing step ${i + 1}: ${step}`,
+        message: `Resuming execution with ${completed.size} of ${steps.length} steps already completed`,
+        data: { completed: Array.from(completed) },
         taskId: task.id,
       });
+    }
+    const running = new Map<string, Promise<void>>();
+    const busyAgents = new Set<string>();
+    const failures: unknown[] = [];
+
+    const runStep = async (step: PlanStep, stepIndex: number): Promise<void> => {
+      const agent = assignments.get(step.id);
+
+      try {
+        // Each step sees the outputs of every step upstream of it, its direct dependencies
+        // last; the agent's context budget summarizes the older ones when they don't fit
+        const upstream = this.upstreamSteps(steps, step);
+        const priorOutputs = upstream
+          .filter(candidate => !step.dependsOn.includes(candidate.id))
+          .concat(upstream.filter(candidate => step.dependsOn.includes(candidate.id)))
+          .filter(candidate => outputs.has(candidate.id))
+          .map(candidate => `Step ${candidate.id} (${candidate.description}): ${outputs.get(candidate.id)}`);
+
+        // A gated step holds its slot while it waits for the reviewer
+        const instructions = await this.stepApprovalGate(task, executionPlan.id, step, agent, priorOutputs, signal);
+
+        states.set(step.id, await storage.updatePlanStepState(states.get(step.id)!.id, { status: 'running', startedAt: new Date() }));
+        await storage.createLog({
+          level: 'info',
+          category: 'task',
+          message: `Executing step ${step.id}: ${step.description}`,
+          data: { stepId: step.id, agentId: agent?.id, dependsOn: step.dependsOn },
+          taskId: task.id,
+        });
 
-      // Assign step to appropriate agent(s)
-      await this.executeStep(task, step, i);
+        const execution = agent
+          ? await this.executeStep(task, agent, step, stepIndex, priorOutputs, signal, instructions)
+          : undefined;
 
-      // Update progress
-      await storage.updateTask(task.id, {
-        progress: 50 + Math.round((i + 1) * stepProgress),
-      });
+        const output = (execution?.output as { response?: string } | null)?.response;
+        if (output) {
+          outputs.set(step.id, output);
+        }
+        completed.add(step.id);
+
+        states.set(step.id, await storage.updatePlanStepState(states.get(step.id)!.id, {
+          status: 'completed',
+          executionId: execution?.id ?? null,
+          output: output ?? null,
+          completedAt: new Date(),
+        }));
+        await this.unblockSteps(steps, states, completed);
+
+        await storage.updateTask(task.id, {
+          progress: 50 + Math.round(completed.size * stepProgress),
+        });
+      } catch (error) {
+        states.set(step.id, await storage.updatePlanStepState(states.get(step.id)!.id, {
+          status: isAbortError(error) ? 'cancelled' : 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        }));
+        throw error;
+      }
+    };
+
+    while (completed.size < steps.length) {
+      // A pause recorded on the task stops the run between steps even if no signal reached it
+      if (failures.length === 0 && !signal.aborted) {
+        const current = await storage.getTask(task.id);
+        if (current?.status === 'paused' || current?.status === 'cancelled') {
+          failures.push(createAbortError(current.status));
+        }
+      }
 
-      // Brief pause between steps to allow for real-time monitoring
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // After a failure or an abort nothing new starts; running steps are left to settle
+      if (failures.length === 0 && !signal.aborted) {
+        steps.forEach((step, stepIndex) => {
+          const agentId = assignments.get(step.id)?.id;
+          const canStart = running.size < concurrency &&
+            !completed.has(step.id) &&
+            !running.has(step.id) &&
+            !(agentId && busyAgents.has(agentId)) &&
+            step.dependsOn.every(id => completed.has(id));
+          if (!canStart) return;
+
+          if (agentId) busyAgents.add(agentId);
+          const settle = () => {
+            running.delete(step.id);
+            if (agentId) busyAgents.delete(agentId);
+          };
+          running.set(step.id, runStep(step, stepIndex).then(settle, error => {
+            settle();
+            failures.push(error);
+          }));
+        });
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(Array.from(running.values()));
+    }
+
+    if (failures.length > 0) {
+      // A failed step fails the task; an abort is reported as the interruption it is
+      const failure = failures.find(error => !isAbortError(error)) ?? failures[0];
+      if (!isAbortError(failure)) {
+        await this.skipUnstartedSteps(states, completed);
+      }
+      throw failure;
     }
+    throwIfAborted(signal);
 
     await storage.createLog({
       level: 'info',
       category: 'task',
       message: 'Execution stage completed',
+      data: { steps: steps.length, concurrency },
       taskId: task.id,
     });
   }
 
   // Phase 3: Completion and reflection
-  private async completionStage(task: TaskWithAgents): Promise<void> {
+  private async completionStage(task: TaskWithAgents, signal: AbortSignal): Promise<void> {
     await storage.updateTask(task.id, {
       status: 'refinement',
       progress: 90,
@@ -252,15 +488,19 @@ export class TaskService {
       taskId: task.id,
     });
 
+    // Assemble the step outputs into the task's deliverable
+    let deliverable = await deliverableService.synthesize(task, { signal });
+
     // Observer evaluates the execution results
-    const executionObservation = await agentService.observeAndRefine(task.id, 'execution');
+    const executionObservation = await agentService.observeAndRefine(task.id, 'execution', signal);
 
-    // Final collaborative refinement if needed
+    // Final refinement of the deliverable if needed
     if (executionObservation.needsRefinement) {
-      await this.performFinalRefinement(task, executionObservation.suggestions);
+      deliverable = await this.performFinalRefinement(task, executionObservation, signal);
     }
 
     // Mark task as completed
+    throwIfAborted(signal);
     await storage.updateTask(task.id, {
       status: 'completed',
       progress: 100,
@@ -283,6 +523,8 @@ export class TaskService {
       data: { 
         finalConfidence: executionObservation.confidence,
         actualDuration,
+        deliverableId: deliverable.id,
+        deliverableVersion: deliverable.version,
       },
       taskId: task.id,
     });
@@ -341,7 +583,7 @@ export class TaskService {
 
     const activeTasks = await storage.getAllTasks();
     const runningTasks = activeTasks.filter(task => 
-      ['planning', 'drafting', 'executing', 'refinement'].includes(task.status)
+      ['planning', 'drafting', 'awaiting_approval', 'executing', 'refinement'].includes(task.status)
     );
 
     return {
@@ -359,63 +601,248 @@ export class TaskService {
     };
   }
 
-  private async refinePlan(task: TaskWithAgents, suggestions: string[]): Promise<void> {
-    // Implementation would refine the execution plan based on observer suggestions
-    // This is a simplified version
+  // Stores the revised plan as a new version; the next observation reviews it
+  private async refinePlan(task: TaskWithAgents, observation: CritiqueResult, signal: AbortSignal): Promise<void> {
+    const plan = await planRefinementService.refine(task.id, observation, signal);
+
     await storage.createLog({
       level: 'info',
       category: 'task',
       message: 'Plan refinement applied',
-      data: { suggestions },
+      data: { suggestions: observation.suggestions, version: plan.version },
       taskId: task.id,
     });
   }
 
-  private async executeStep(task: TaskWithAgents, step: string, stepIndex: number): Promise<void> {
-    // Assign step to most appropriate agent based on capabilities
-    const assignedAgent = this.selectAgentForStep(task.agents, step);
-    
-    if (assignedAgent) {
-      await agentService.executeAgentAction({
-        agentId: assignedAgent.id,
-        action: `execute_step_${stepIndex + 1}`,
-        input: { step, stepIndex },
-        context: `Task: ${task.title}\nStep: ${step}`,
-      });
+  private async executeStep(
+    task: TaskWithAgents,
+    agent: Agent,
+    step: PlanStep,
+    stepIndex: number,
+    priorOutputs: string[],
+    signal: AbortSignal,
+    instructions?: string
+  ): Promise<AgentExecution> {
+    const expected = step.outputs.length > 0 ? `\nExpected outputs: ${step.outputs.join(', ')}` : '';
+    const reviewer = instructions ? `\nReviewer instructions: ${instructions}` : '';
+    return await agentService.executeAgentAction({
+      agentId: agent.id,
+      action: `execute_step_${stepIndex + 1}`,
+      input: { step: step.description, stepId: step.id, stepIndex, inputs: step.inputs, outputs: step.outputs },
+      context: `Task: ${task.title}\nDescription: ${task.description}\nStep: ${step.description}${expected}${reviewer}`,
+      priorOutputs,
+      signal,
+    });
+  }
+
+  // Holds the run between drafting and execution until a reviewer signs off on the team and
+  // plan, when the task's approval policy asks for it. A rejection revises the plan with the
+  // reviewer's reason and asks again; edits are applied before execution starts.
+  private async planApprovalGate(task: TaskWithAgents, signal: AbortSignal): Promise<void> {
+    if (!getApprovalPolicy(task).plan) {
+      return;
+    }
+
+    while (true) {
+      const [plan] = await storage.getExecutionPlansByTask(task.id);
+      if (!plan) {
+        throw new Error('No execution plan found');
+      }
+      if (plan.status === 'approved') {
+        return;
+      }
+
+      const approval = await approvalService.waitForApproval({
+        task,
+        gate: 'plan',
+        planId: plan.id,
+        proposal: {
+          version: plan.version,
+          agents: task.agents.map(agent => ({
+            id: agent.id,
+            name: agent.name,
+            role: agent.role,
+            description: agent.description,
+            toolset: agent.toolset,
+          })),
+          steps: normalizePlanSteps(plan.executionSteps),
+        },
+        resumeStatus: 'drafting',
+      }, signal);
+
+      if (approval.status === 'rejected') {
+        await this.refinePlan(task, {
+          feedback: `A reviewer rejected the plan: ${approval.reason || 'no reason given'}`,
+          suggestions: [],
+          needsRefinement: true,
+          confidence: 0,
+        }, signal);
+        continue;
+      }
+
+      const edits = (approval.edits || {}) as ApprovalEdits;
+      await this.applyAgentEdits(task, edits.agents || []);
+      if (edits.steps) {
+        await planRefinementService.applyEdits(task.id, edits.steps, approval.reason || undefined);
+      } else {
+        await storage.updateExecutionPlan(plan.id, { status: 'approved' });
+      }
+      return;
     }
   }
 
-  private selectAgentForStep(agents: any[], step: string): any {
-    // Simple selection logic - could be enhanced with ML
-    const stepLower = step.toLowerCase();
-    
-    if (stepLower.includes('code') || stepLower.includes('program')) {
-      return agents.find(a => a.role.toLowerCase().includes('program') || a.role.toLowerCase().includes('develop'));
+  // Steps the approval policy names, and steps estimated to cost at least its threshold, wait
+  // for a reviewer before they start. A rejection fails the step; the reviewer's
+  // instructions, if any, are returned for the step's agent.
+  private async stepApprovalGate(
+    task: TaskWithAgents,
+    planId: string,
+    step: PlanStep,
+    agent: Agent | undefined,
+    priorOutputs: string[],
+    signal: AbortSignal
+  ): Promise<string | undefined> {
+    // Read fresh so gates added while the task runs apply to the steps still to come
+    const policy = getApprovalPolicy((await storage.getTask(task.id)) || task);
+    const named = policy.steps.includes(step.id);
+    const estimatedCost = agent && policy.costThreshold !== null
+      ? this.estimateStepCost(agent, step, priorOutputs)
+      : 0;
+    const costly = policy.costThreshold !== null && estimatedCost >= policy.costThreshold;
+    if (!named && !costly) {
+      return undefined;
+    }
+
+    const approval = await approvalService.waitForApproval({
+      task,
+      gate: named ? 'step' : 'cost',
+      planId,
+      stepId: step.id,
+      proposal: {
+        step,
+        agent: agent ? { id: agent.id, name: agent.name, role: agent.role } : null,
+        estimatedCost,
+        costThreshold: policy.costThreshold,
+      },
+      resumeStatus: 'executing',
+    }, signal);
+
+    if (approval.status === 'rejected') {
+      throw new Error(`Step ${step.id} rejected by a reviewer${approval.reason ? `: ${approval.reason}` : ''}`);
     }
-    
-    if (stepLower.includes('design') || stepLower.includes('ui')) {
-      return agents.find(a => a.role.toLowerCase().includes('design'));
+    return ((approval.edits || {}) as ApprovalEdits).instructions || undefined;
+  }
+
+  // Upper bound: the whole prompt plus a full-length response, priced for the first provider
+  private estimateStepCost(agent: Agent, step: PlanStep, priorOutputs: string[]): number {
+    const promptTokens = countTokens(agent.prompt) + countTokens(step.description) +
+      priorOutputs.reduce((sum, output) => sum + countTokens(output), 0);
+    const [provider] = llmRouter.getFallbackOrder();
+    return pricingService.estimateCost(provider, undefined, promptTokens + STEP_RESPONSE_TOKENS);
+  }
+
+  // Edits to agents outside the task are ignored
+  private async applyAgentEdits(task: TaskWithAgents, edits: AgentEdit[]): Promise<void> {
+    for (const { id, ...updates } of edits) {
+      const index = task.agents.findIndex(agent => agent.id === id);
+      if (index === -1) continue;
+      task.agents[index] = await storage.updateAgent(id, { ...updates, updatedAt: new Date() });
     }
-    
-    if (stepLower.includes('research') || stepLower.includes('analyze')) {
-      return agents.find(a => a.role.toLowerCase().includes('research') || a.role.toLowerCase().includes('analy'));
+  }
+
+  // Steps the given step transitively depends on, in plan order
+  private upstreamSteps(steps: PlanStep[], step: PlanStep): PlanStep[] {
+    const ancestors = new Set<string>();
+    const visit = (id: string) => {
+      if (ancestors.has(id)) return;
+      ancestors.add(id);
+      steps.find(candidate => candidate.id === id)?.dependsOn.forEach(visit);
+    };
+    step.dependsOn.forEach(visit);
+    return steps.filter(candidate => ancestors.has(candidate.id));
+  }
+
+  // Per-task limit from task metadata, falling back to TASK_MAX_CONCURRENT_STEPS
+  private getStepConcurrency(task: Task): number {
+    const configured = (task.metadata as { maxConcurrentSteps?: number } | null)?.maxConcurrentSteps;
+    const limit = configured ?? parseInt(process.env.TASK_MAX_CONCURRENT_STEPS || '3', 10);
+    return Math.max(1, Math.floor(limit) || 1);
+  }
+
+  // Steps start out ready when they have no dependencies left to wait for and blocked
+  // otherwise. A plan that is executed again starts its steps over unless the run resumes,
+  // which keeps the completed ones.
+  private async initializeStepStates(
+    planId: string,
+    taskId: string,
+    steps: PlanStep[],
+    assignments: Map<string, StepAssignment>,
+    resume: boolean
+  ): Promise<Map<string, PlanStepState>> {
+    const existing = await storage.getPlanStepStates(planId);
+    const states = new Map<string, PlanStepState>();
+    const kept = new Set(resume
+      ? existing.filter(state => state.status === 'completed').map(state => state.stepId)
+      : []);
+
+    for (const step of steps) {
+      const previous = existing.find(state => state.stepId === step.id);
+      if (previous && kept.has(step.id)) {
+        states.set(step.id, previous);
+        continue;
+      }
+
+      const initial = {
+        status: step.dependsOn.every(id => kept.has(id)) ? 'ready' : 'blocked',
+        agentId: assignments.get(step.id)?.agentId ?? null,
+        assignment: assignments.get(step.id) ?? null,
+        executionId: null,
+        output: null,
+        error: null,
+        startedAt: null,
+        completedAt: null,
+      };
+      const state = previous
+        ? await storage.updatePlanStepState(previous.id, initial)
+        : (await storage.createPlanStepStates([{ planId, taskId, stepId: step.id, ...initial }]))[0];
+      states.set(step.id, state);
+    }
+
+    return states;
+  }
+
+  private async unblockSteps(steps: PlanStep[], states: Map<string, PlanStepState>, completed: Set<string>): Promise<void> {
+    for (const step of steps) {
+      const state = states.get(step.id)!;
+      if (state.status === 'blocked' && step.dependsOn.every(id => completed.has(id))) {
+        states.set(step.id, await storage.updatePlanStepState(state.id, { status: 'ready' }));
+      }
+    }
+  }
+
+  private async skipUnstartedSteps(states: Map<string, PlanStepState>, completed: Set<string>): Promise<void> {
+    const pending = Array.from(states.values()).filter(state =>
+      !completed.has(state.stepId) && (state.status === 'blocked' || state.status === 'ready')
+    );
+    for (const state of pending) {
+      await storage.updatePlanStepState(state.id, { status: 'skipped' });
     }
-    
-    // Default to first agent
-    return agents[0];
   }
 
-  private async performFinalRefinement(task: TaskWithAgents, suggestions: string[]): Promise<void> {
+  private async performFinalRefinement(
+    task: TaskWithAgents,
+    observation: CritiqueResult,
+    signal: AbortSignal
+  ): Promise<TaskDeliverable> {
     await storage.createLog({
       level: 'info',
       category: 'task',
       message: 'Performing final collaborative refinement',
-      data: { suggestions },
+      data: { suggestions: observation.suggestions },
       taskId: task.id,
     });
 
-    // Implement final refinement logic
-    // This could involve agent collaborations to improve the final output
+    return await deliverableService.synthesize(task, { revision: observation, signal });
   }
 }
 
@@ -105,7 +105,7 @@ export class TimelineService {
 
   async recordTaskEvent(
     taskId: string,
-    eventType: 'task_created' | 'task_started' | 'task_completed' | 'task_failed' | 'task_paused' | 'task_resumed',
+    eventType: 'task_created' | 'task_started' | 'task_completed' | 'task_failed' | 'task_paused' | 'task_resumed' | 'task_cancelled',
     task: Task,
     metadata?: any
   ): Promise<ExecutionEvent> {
@@ -170,7 +170,7 @@ export class TimelineService {
     taskId: string,
     agentId: string,
     executionId: string,
-    eventType: 'execution_started' | 'execution_completed' | 'execution_failed' | 'execution_retry',
+    eventType: 'execution_started' | 'execution_completed' | 'execution_failed' | 'execution_retry' | 'execution_cancelled',
     execution: AgentExecution,
     metadata?: any
   ): Promise<ExecutionEvent> {
@@ -201,6 +201,33 @@ export class TimelineService {
     }, { agentId, executionId });
   }
 
+  // Tool invocations made during an agent action, recorded as children of the agent's event
+  async recordToolEvent(
+    taskId: string,
+    agentId: string,
+    eventType: 'tool_called' | 'tool_failed',
+    invocation: {
+      toolId: string;
+      callId: string;
+      arguments: any;
+      result?: any;
+      error?: string;
+      duration: number;
+      provider: string;
+      round: number;
+    },
+    parentEventId?: string
+  ): Promise<ExecutionEvent> {
+    return await this.recordEvent(taskId, {
+      eventType,
+      eventCategory: 'execution',
+      data: invocation,
+      metadata: {
+        eventTimestamp: new Date().toISOString(),
+      }
+    }, { agentId, parentEventId });
+  }
+
   async recordCollaborationEvent(
     taskId: string,
     collaboration: AgentCollaboration,
@@ -367,6 +394,7 @@ export class TimelineService {
 
     if (filter.dateRange) {
       filtered = filtered.filter(e => {
+        if (!e.timestamp) return false;
         const eventDate = new Date(e.timestamp);
         return eventDate >= filter.dateRange!.start && eventDate <= filter.dateRange!.end;
       });
@@ -441,8 +469,9 @@ export class TimelineService {
     playback.currentEventIndex = Math.max(0, Math.min(eventIndex, playback.totalEvents - 1));
     
     const events = await storage.getEventsForTask(taskId);
-    if (events[playback.currentEventIndex]) {
-      playback.currentTimestamp = events[playback.currentEventIndex].timestamp;
+    const currentEvent = events[playback.currentEventIndex];
+    if (currentEvent && currentEvent.timestamp) {
+      playback.currentTimestamp = currentEvent.timestamp;
     }
 
     this.activePlaybacks.set(taskId, playback);
@@ -540,6 +569,12 @@ export class TimelineService {
     }
   }
 
+  private getEventDuration(eventData: unknown): number | undefined {
+    if (!eventData || typeof eventData !== 'object') return undefined;
+    const duration = (eventData as Record<string, unknown>).duration;
+    return typeof duration === 'number' ? duration : undefined;
+  }
+
   private applyEventsToState(baseState: any, events: ExecutionEvent[]): any {
     let currentState = { ...baseState };
 
@@ -654,9 +689,12 @@ export class TimelineService {
       };
     }
 
-    const startTime = new Date(events[0].timestamp).getTime();
-    const endTime = new Date(events[events.length - 1].timestamp).getTime();
-    const duration = endTime - startTime;
+    // Events inserted without a timestamp can't be placed on the timeline
+    const timestamps = events
+      .map(e => e.timestamp)
+      .filter((timestamp): timestamp is Date => !!timestamp)
+      .map(timestamp => new Date(timestamp).getTime());
+    const duration = timestamps.length > 0 ? timestamps[timestamps.length - 1] - timestamps[0] : 0;
 
     // Event frequency analysis
     const eventFrequency: Record<string, number> = {};
@@ -685,8 +723,8 @@ export class TimelineService {
     // Response time analysis (simplified)
     const executionEvents = events.filter(e => e.eventCategory === 'execution');
     const responseTimes = executionEvents
-      .map(e => e.eventData?.duration)
-      .filter(Boolean);
+      .map(e => this.getEventDuration(e.eventData))
+      .filter((time): time is number => !!time);
     
     const averageResponseTime = responseTimes.length > 0
       ? responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length
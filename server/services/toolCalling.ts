@@ -0,0 +1,151 @@
+import { randomUUID } from "crypto";
+import type {
+  LLMMessage,
+  LLMProviderService,
+  ProviderCompletionOptions,
+  ToolCall,
+  ToolCompletion,
+  ToolDefinition,
+  ToolLoopMessage,
+} from "./llmProvider";
+import { extractJson } from "./structuredOutputService";
+
+// Wire formats shared by providers speaking the OpenAI chat-completions protocol (Groq,
+// OpenAI-compatible endpoints), plus the prompt-based fallback for providers without
+// native function calling.
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export type OpenAIToolMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export function toOpenAITools(tools: ToolDefinition[]) {
+  return tools.map(tool => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+export function toOpenAIMessages(messages: ToolLoopMessage[]): OpenAIToolMessage[] {
+  return messages.map((message): OpenAIToolMessage => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+// Models occasionally return malformed argument JSON; the tool then sees no arguments and
+// fails validation, which is reported back to the model instead of aborting the loop
+export function parseOpenAIToolCalls(toolCalls: OpenAIToolCall[] | undefined): ToolCall[] {
+  return (toolCalls || []).map(call => {
+    let args: Record<string, any> = {};
+    try {
+      args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+      args = {};
+    }
+    return { id: call.id || randomUUID(), name: call.function.name, arguments: args };
+  });
+}
+
+// Rewrites a tool conversation as plain chat turns for providers without tool roles
+export function flattenToolMessages(messages: ToolLoopMessage[]): LLMMessage[] {
+  return messages.map((message): LLMMessage => {
+    if (message.role === 'tool') {
+      return { role: 'user', content: `Result of tool ${message.name} (call ${message.toolCallId}):\n${message.content}` };
+    }
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: JSON.stringify({
+          tool_calls: message.toolCalls.map(call => ({ name: call.name, arguments: call.arguments })),
+        }),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+function buildToolPrompt(tools: ToolDefinition[]): string {
+  const toolList = tools
+    .map(tool => `- ${tool.name}: ${tool.description}\n  Arguments (JSON Schema): ${JSON.stringify(tool.parameters)}`)
+    .join('\n');
+
+  return `You can call the following tools:
+${toolList}
+
+To call one or more tools, respond with only a JSON object of the form:
+{"tool_calls": [{"name": "<tool name>", "arguments": {<arguments>}}]}
+
+Tool results will be sent back to you. Once you have what you need, respond with your final answer as plain text, without a tool_calls object.`;
+}
+
+// Tool calls are only recognized when the whole reply is a tool_calls object naming known
+// tools, so a final answer that merely contains JSON is not mistaken for a call
+function parsePromptToolCalls(content: string, tools: ToolDefinition[]): ToolCall[] {
+  let parsed: any;
+  try {
+    parsed = extractJson(content);
+  } catch {
+    return [];
+  }
+
+  if (!parsed || !Array.isArray(parsed.tool_calls)) {
+    return [];
+  }
+
+  const names = new Set(tools.map(tool => tool.name));
+  return parsed.tool_calls
+    .filter((call: any) => call && typeof call.name === 'string' && names.has(call.name))
+    .map((call: any) => ({
+      id: randomUUID(),
+      name: call.name,
+      arguments: call.arguments && typeof call.arguments === 'object' ? call.arguments : {},
+    }));
+}
+
+// Drives providers without native function calling (e.g. Ollama) by describing the tools
+// in the system prompt and parsing tool calls out of the reply
+export async function completeWithPromptTools(
+  service: LLMProviderService,
+  messages: ToolLoopMessage[],
+  tools: ToolDefinition[],
+  options: ProviderCompletionOptions = {}
+): Promise<ToolCompletion> {
+  const response = await service.generateCompletion(
+    [{ role: 'system', content: buildToolPrompt(tools) }, ...flattenToolMessages(messages)],
+    options
+  );
+
+  const toolCalls = parsePromptToolCalls(response.content, tools);
+  return {
+    ...response,
+    content: toolCalls.length > 0 ? '' : response.content,
+    toolCalls,
+  };
+}
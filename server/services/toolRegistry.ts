@@ -1,5 +1,6 @@
 import { storage } from "../storage";
 import { EventEmitter } from 'events';
+import type { ToolDefinition, ToolParameterSchema } from "./llmProvider";
 
 export interface Tool {
   id: string;
@@ -8,6 +9,10 @@ export interface Tool {
   category: 'search' | 'code' | 'file' | 'vector' | 'api' | 'custom';
   capabilities: string[];
   requiredPermissions?: string[];
+  // Arguments schema exposed to models for function calling
+  parameters?: ToolParameterSchema;
+  // Other names agent toolsets use for this tool, e.g. "web_search"
+  aliases?: string[];
   execute: (params: any, context: ToolContext) => Promise<any>;
   validate?: (params: any) => boolean;
 }
@@ -46,6 +51,15 @@ export class ToolRegistry extends EventEmitter {
       category: 'search',
       capabilities: ['query', 'filter', 'summarize'],
       requiredPermissions: ['search:web'],
+      aliases: ['web_search', 'search', 'web_research', 'research'],
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Search query' },
+          limit: { type: 'integer', description: 'Maximum number of results' },
+        },
+        required: ['query'],
+      },
       execute: async (params: { query: string; limit?: number }, context: ToolContext) => {
         await this.logToolExecution('web-search', params, context);
         
@@ -72,6 +86,15 @@ export class ToolRegistry extends EventEmitter {
       category: 'code',
       capabilities: ['execute', 'test', 'validate'],
       requiredPermissions: ['code:execute'],
+      aliases: ['code_execution', 'code_editor', 'code_sandbox', 'testing', 'debugging'],
+      parameters: {
+        type: 'object',
+        properties: {
+          language: { type: 'string', enum: ['javascript', 'python', 'typescript'] },
+          code: { type: 'string', description: 'Source code to run' },
+        },
+        required: ['language', 'code'],
+      },
       execute: async (params: { language: string; code: string }, context: ToolContext) => {
         await this.logToolExecution('code-sandbox', params, context);
         
@@ -115,6 +138,16 @@ export class ToolRegistry extends EventEmitter {
       category: 'file',
       capabilities: ['read', 'write', 'list', 'delete'],
       requiredPermissions: ['file:read', 'file:write'],
+      aliases: ['file_system', 'file_io', 'files', 'document_editor'],
+      parameters: {
+        type: 'object',
+        properties: {
+          operation: { type: 'string', enum: ['read', 'write', 'list', 'delete'] },
+          path: { type: 'string', description: 'Workspace-relative path' },
+          content: { type: 'string', description: 'Content to write' },
+        },
+        required: ['operation', 'path'],
+      },
       execute: async (params: { operation: string; path: string; content?: string }, context: ToolContext) => {
         await this.logToolExecution('file-io', params, context);
         
@@ -159,6 +192,16 @@ export class ToolRegistry extends EventEmitter {
       category: 'vector',
       capabilities: ['search', 'store', 'update'],
       requiredPermissions: ['memory:read', 'memory:write'],
+      aliases: ['vector_memory', 'memory', 'knowledge_base', 'vector_search'],
+      parameters: {
+        type: 'object',
+        properties: {
+          operation: { type: 'string', enum: ['search', 'store', 'update'] },
+          query: { type: 'string', description: 'Text to search memory for' },
+          data: { type: 'object', description: 'Data to store' },
+        },
+        required: ['operation'],
+      },
       execute: async (params: { operation: string; query?: string; data?: any }, context: ToolContext) => {
         await this.logToolExecution('vector-recall', params, context);
         
@@ -199,6 +242,17 @@ export class ToolRegistry extends EventEmitter {
       category: 'api',
       capabilities: ['GET', 'POST', 'PUT', 'DELETE'],
       requiredPermissions: ['api:call'],
+      aliases: ['api_caller', 'api', 'http', 'api_calls', 'api_integration'],
+      parameters: {
+        type: 'object',
+        properties: {
+          method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'DELETE'] },
+          url: { type: 'string', description: 'Absolute URL on an allowlisted domain' },
+          headers: { type: 'object' },
+          body: { type: 'object' },
+        },
+        required: ['method', 'url'],
+      },
       execute: async (params: { method: string; url: string; headers?: any; body?: any }, context: ToolContext) => {
         await this.logToolExecution('api-caller', params, context);
         
@@ -274,6 +328,25 @@ export class ToolRegistry extends EventEmitter {
     return this.getAllTools().filter(tool => tool.category === category);
   }
 
+  // Maps an agent's free-form toolset entries (e.g. "web_search", "File System") onto
+  // registered tools by id or alias; entries without a matching tool are ignored
+  resolveToolset(toolset: string[]): Tool[] {
+    const normalize = (name: string) => name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    const wanted = new Set(toolset.map(normalize));
+
+    return this.getAllTools().filter(tool =>
+      [tool.id, ...(tool.aliases || [])].some(name => wanted.has(normalize(name)))
+    );
+  }
+
+  toToolDefinition(tool: Tool): ToolDefinition {
+    return {
+      name: tool.id,
+      description: tool.description,
+      parameters: tool.parameters || { type: 'object', properties: {} },
+    };
+  }
+
   async executeTool(
     toolId: string, 
     params: any, 
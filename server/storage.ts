@@ -4,6 +4,10 @@ import {
   agentExecutions,
   agentCollaborations,
   executionPlans,
+  planStepStates,
+  taskCheckpoints,
+  taskDeliverables,
+  taskApprovals,
   systemLogs,
   fileUploads,
   n8nWorkflows,
@@ -12,12 +16,19 @@ import {
   taskSchedules,
   budgets,
   costEntries,
+  llmResponseCache,
+  embeddingCache,
+  modelPricing,
+  providerMetricSnapshots,
+  promptTemplates,
   errorInstances,
   recoveryStrategies,
   agentTemplates,
   templateUsage,
   executionEvents,
   timelineSnapshots,
+  agentMessages,
+  llmCalls,
   type Task,
   type InsertTask,
   type Agent,
@@ -43,6 +54,16 @@ import {
   type InsertBudget,
   type CostEntry,
   type InsertCostEntry,
+  type LlmResponseCacheEntry,
+  type InsertLlmResponseCacheEntry,
+  type EmbeddingCacheEntry,
+  type InsertEmbeddingCacheEntry,
+  type ModelPricing,
+  type InsertModelPricing,
+  type ProviderMetricSnapshot,
+  type InsertProviderMetricSnapshot,
+  type PromptTemplate,
+  type InsertPromptTemplate,
   type ErrorInstance,
   type InsertErrorInstance,
   type RecoveryStrategy,
@@ -52,6 +73,18 @@ import {
   type ExecutionEvent,
   type InsertExecutionEvent,
   type TimelineSnapshot,
+  type AgentMessage,
+  type InsertAgentMessage,
+  type LlmCall,
+  type InsertLlmCall,
+  type PlanStepState,
+  type InsertPlanStepState,
+  type TaskCheckpoint,
+  type InsertTaskCheckpoint,
+  type TaskDeliverable,
+  type InsertTaskDeliverable,
+  type TaskApproval,
+  type InsertTaskApproval,
   type TaskQueueWithEntries,
   type QueueEntryWithTask,
   type BudgetWithCosts,
@@ -59,7 +92,7 @@ import {
   type TaskWithTimeline,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, sql } from "drizzle-orm";
+import { eq, desc, and, or, sql, inArray } from "drizzle-orm";
 
 export interface IStorage {
   // Task operations
@@ -93,6 +126,27 @@ export interface IStorage {
   getExecutionPlansByTask(taskId: string): Promise<ExecutionPlan[]>;
   updateExecutionPlan(id: string, updates: Partial<ExecutionPlan>): Promise<ExecutionPlan>;
 
+  // Plan step state operations
+  createPlanStepStates(states: InsertPlanStepState[]): Promise<PlanStepState[]>;
+  getPlanStepStates(planId: string): Promise<PlanStepState[]>;
+  updatePlanStepState(id: string, updates: Partial<InsertPlanStepState>): Promise<PlanStepState>;
+
+  // Task checkpoint operations
+  saveTaskCheckpoint(checkpoint: InsertTaskCheckpoint): Promise<TaskCheckpoint>;
+  getTaskCheckpoint(taskId: string): Promise<TaskCheckpoint | undefined>;
+  getTaskCheckpoints(): Promise<TaskCheckpoint[]>;
+  deleteTaskCheckpoint(taskId: string): Promise<void>;
+
+  // Task deliverable operations
+  createTaskDeliverable(deliverable: InsertTaskDeliverable): Promise<TaskDeliverable>;
+  getTaskDeliverables(taskId: string): Promise<TaskDeliverable[]>;
+
+  // Task approval operations
+  createTaskApproval(approval: InsertTaskApproval): Promise<TaskApproval>;
+  getTaskApproval(id: string): Promise<TaskApproval | undefined>;
+  getTaskApprovals(taskId: string): Promise<TaskApproval[]>;
+  updateTaskApproval(id: string, updates: Partial<InsertTaskApproval>): Promise<TaskApproval>;
+
   // System log operations
   createLog(log: InsertSystemLog): Promise<SystemLog>;
   getLogs(filters?: {
@@ -173,6 +227,55 @@ export interface IStorage {
   getCostEntriesForAgent(agentId: string): Promise<CostEntry[]>;
   getTotalCostForPeriod(budgetId: string, start: Date, end: Date): Promise<number>;
 
+  // LLM Response Cache operations
+  getCachedResponse(cacheKey: string): Promise<LlmResponseCacheEntry | undefined>;
+  upsertCachedResponse(entry: InsertLlmResponseCacheEntry): Promise<LlmResponseCacheEntry>;
+  recordCacheHit(id: string): Promise<void>;
+  clearResponseCache(): Promise<void>;
+  getCachedSavingsForBudget(budgetId: string): Promise<{ hits: number; costSaved: number }>;
+  getResponseCacheStats(): Promise<{
+    entries: number;
+    totalHits: number;
+    tokensSaved: number;
+    costSaved: number;
+  }>;
+
+  // Embedding cache operations
+  getCachedEmbeddings(cacheKeys: string[]): Promise<EmbeddingCacheEntry[]>;
+  saveEmbeddings(entries: InsertEmbeddingCacheEntry[]): Promise<void>;
+  getEmbeddingCacheStats(): Promise<Array<{ provider: string; model: string; dimensions: number; entries: number }>>;
+  clearEmbeddingCache(model?: string): Promise<void>;
+
+  // Model Pricing operations
+  getModelPricing(provider?: string): Promise<ModelPricing[]>;
+  createModelPricing(pricing: InsertModelPricing): Promise<ModelPricing>;
+  updateModelPricing(id: string, updates: Partial<InsertModelPricing>): Promise<ModelPricing>;
+  deleteModelPricing(id: string): Promise<void>;
+
+  // Provider metrics time series operations
+  createProviderMetricSnapshots(snapshots: InsertProviderMetricSnapshot[]): Promise<void>;
+  getProviderMetricSnapshots(options: { provider?: string; since: Date }): Promise<ProviderMetricSnapshot[]>;
+  getProviderMetricTotals(): Promise<Array<{
+    provider: string;
+    requests: number;
+    failures: number;
+    tokensUsed: number;
+    cost: number;
+    latencyTotal: number;
+  }>>;
+  deleteProviderMetricSnapshots(before: Date): Promise<number>;
+
+  // Prompt Library operations
+  getPromptTemplates(name?: string): Promise<PromptTemplate[]>;
+  getPromptTemplate(id: string): Promise<PromptTemplate | undefined>;
+  createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate>;
+  updatePromptTemplate(id: string, updates: Partial<InsertPromptTemplate>): Promise<PromptTemplate>;
+  deletePromptTemplate(id: string): Promise<void>;
+  getPromptVersionStats(name: string): Promise<{
+    plans: Array<{ version: string; provider: string | null; plans: number; avgConfidence: number | null; avgIterations: number | null }>;
+    executions: Array<{ version: string; executions: number; completed: number; avgCost: number | null; avgDuration: number | null }>;
+  }>;
+
   // Error Instance operations
   createErrorInstance(error: InsertErrorInstance): Promise<ErrorInstance>;
   getErrorInstance(id: string): Promise<ErrorInstance | undefined>;
@@ -219,6 +322,21 @@ export interface IStorage {
   updateTimelineSnapshot(id: string, updates: Partial<TimelineSnapshot>): Promise<TimelineSnapshot>;
   deleteTimelineSnapshot(id: string): Promise<void>;
 
+  // Agent conversation operations
+  getAgentMessages(agentId: string): Promise<AgentMessage[]>;
+  getAgentMessage(id: string): Promise<AgentMessage | undefined>;
+  appendAgentMessages(agentId: string, messages: Omit<InsertAgentMessage, 'agentId' | 'sequence'>[]): Promise<AgentMessage[]>;
+  updateAgentMessage(id: string, updates: Partial<InsertAgentMessage>): Promise<AgentMessage>;
+  deleteAgentMessage(id: string): Promise<void>;
+  deleteAgentMessages(agentId: string, range: { beforeSequence?: number; afterSequence?: number }): Promise<number>;
+
+  // LLM call trace operations
+  createLlmCall(call: InsertLlmCall): Promise<LlmCall>;
+  getLlmCall(id: string): Promise<LlmCall | undefined>;
+  getLlmCalls(filter: { taskId?: string; agentId?: string; executionId?: string; limit?: number }): Promise<LlmCall[]>;
+  linkLlmCallsToExecution(agentId: string, since: Date, executionId: string): Promise<number>;
+  deleteLlmCalls(before: Date): Promise<number>;
+
   // Log operations (enhanced for timeline features)
   getLogsByTask(taskId: string): Promise<SystemLog[]>;
   getLogsByAgent(agentId: string): Promise<SystemLog[]>;
@@ -391,6 +509,98 @@ export class DatabaseStorage implements IStorage {
     return updatedPlan;
   }
 
+  // Plan step state operations
+  async createPlanStepStates(states: InsertPlanStepState[]): Promise<PlanStepState[]> {
+    if (states.length === 0) return [];
+    return await db.insert(planStepStates).values(states).returning();
+  }
+
+  async getPlanStepStates(planId: string): Promise<PlanStepState[]> {
+    return await db
+      .select()
+      .from(planStepStates)
+      .where(eq(planStepStates.planId, planId));
+  }
+
+  async updatePlanStepState(id: string, updates: Partial<InsertPlanStepState>): Promise<PlanStepState> {
+    const [updated] = await db
+      .update(planStepStates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(planStepStates.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Task checkpoint operations
+  async saveTaskCheckpoint(checkpoint: InsertTaskCheckpoint): Promise<TaskCheckpoint> {
+    const [saved] = await db
+      .insert(taskCheckpoints)
+      .values(checkpoint)
+      .onConflictDoUpdate({
+        target: taskCheckpoints.taskId,
+        set: { ...checkpoint, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getTaskCheckpoint(taskId: string): Promise<TaskCheckpoint | undefined> {
+    const [checkpoint] = await db.select().from(taskCheckpoints).where(eq(taskCheckpoints.taskId, taskId));
+    return checkpoint;
+  }
+
+  async getTaskCheckpoints(): Promise<TaskCheckpoint[]> {
+    return await db.select().from(taskCheckpoints).orderBy(taskCheckpoints.updatedAt);
+  }
+
+  async deleteTaskCheckpoint(taskId: string): Promise<void> {
+    await db.delete(taskCheckpoints).where(eq(taskCheckpoints.taskId, taskId));
+  }
+
+  // Task deliverable operations
+  async createTaskDeliverable(deliverable: InsertTaskDeliverable): Promise<TaskDeliverable> {
+    const [created] = await db.insert(taskDeliverables).values(deliverable).returning();
+    return created;
+  }
+
+  // Newest version first
+  async getTaskDeliverables(taskId: string): Promise<TaskDeliverable[]> {
+    return await db
+      .select()
+      .from(taskDeliverables)
+      .where(eq(taskDeliverables.taskId, taskId))
+      .orderBy(desc(taskDeliverables.version));
+  }
+
+  // Task approval operations
+  async createTaskApproval(approval: InsertTaskApproval): Promise<TaskApproval> {
+    const [created] = await db.insert(taskApprovals).values(approval).returning();
+    return created;
+  }
+
+  async getTaskApproval(id: string): Promise<TaskApproval | undefined> {
+    const [approval] = await db.select().from(taskApprovals).where(eq(taskApprovals.id, id));
+    return approval;
+  }
+
+  // Newest first
+  async getTaskApprovals(taskId: string): Promise<TaskApproval[]> {
+    return await db
+      .select()
+      .from(taskApprovals)
+      .where(eq(taskApprovals.taskId, taskId))
+      .orderBy(desc(taskApprovals.createdAt));
+  }
+
+  async updateTaskApproval(id: string, updates: Partial<InsertTaskApproval>): Promise<TaskApproval> {
+    const [updated] = await db
+      .update(taskApprovals)
+      .set(updates)
+      .where(eq(taskApprovals.id, id))
+      .returning();
+    return updated;
+  }
+
   // System log operations
   async createLog(log: InsertSystemLog): Promise<SystemLog> {
     const [newLog] = await db.insert(systemLogs).values(log).returning();
@@ -769,6 +979,300 @@ export class DatabaseStorage implements IStorage {
     return result.total || 0;
   }
 
+  // LLM Response Cache operations
+  async getCachedResponse(cacheKey: string): Promise<LlmResponseCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(llmResponseCache)
+      .where(
+        and(
+          eq(llmResponseCache.cacheKey, cacheKey),
+          sql`${llmResponseCache.expiresAt} > now()`
+        )
+      );
+    return entry;
+  }
+
+  async upsertCachedResponse(entry: InsertLlmResponseCacheEntry): Promise<LlmResponseCacheEntry> {
+    const [cached] = await db
+      .insert(llmResponseCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: llmResponseCache.cacheKey,
+        set: {
+          response: entry.response,
+          tokensUsed: entry.tokensUsed,
+          cost: entry.cost,
+          model: entry.model,
+          expiresAt: entry.expiresAt,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return cached;
+  }
+
+  async recordCacheHit(id: string): Promise<void> {
+    await db
+      .update(llmResponseCache)
+      .set({
+        hitCount: sql`${llmResponseCache.hitCount} + 1`,
+        lastHitAt: new Date(),
+      })
+      .where(eq(llmResponseCache.id, id));
+  }
+
+  async clearResponseCache(): Promise<void> {
+    await db.delete(llmResponseCache);
+  }
+
+  async getCachedSavingsForBudget(budgetId: string): Promise<{ hits: number; costSaved: number }> {
+    const [result] = await db
+      .select({
+        hits: sql<number>`count(*)`,
+        costSaved: sql<number>`coalesce(sum(${costEntries.savedCost}), 0)`,
+      })
+      .from(costEntries)
+      .where(
+        and(
+          eq(costEntries.budgetId, budgetId),
+          eq(costEntries.cached, true)
+        )
+      );
+
+    return {
+      hits: Number(result.hits) || 0,
+      costSaved: Number(result.costSaved) || 0,
+    };
+  }
+
+  async getResponseCacheStats(): Promise<{
+    entries: number;
+    totalHits: number;
+    tokensSaved: number;
+    costSaved: number;
+  }> {
+    const [result] = await db
+      .select({
+        entries: sql<number>`count(*)`,
+        totalHits: sql<number>`coalesce(sum(${llmResponseCache.hitCount}), 0)`,
+        tokensSaved: sql<number>`coalesce(sum(${llmResponseCache.hitCount} * ${llmResponseCache.tokensUsed}), 0)`,
+        costSaved: sql<number>`coalesce(sum(${llmResponseCache.hitCount} * ${llmResponseCache.cost}), 0)`,
+      })
+      .from(llmResponseCache);
+
+    return {
+      entries: Number(result.entries) || 0,
+      totalHits: Number(result.totalHits) || 0,
+      tokensSaved: Number(result.tokensSaved) || 0,
+      costSaved: Number(result.costSaved) || 0,
+    };
+  }
+
+  async getCachedEmbeddings(cacheKeys: string[]): Promise<EmbeddingCacheEntry[]> {
+    if (cacheKeys.length === 0) return [];
+    return await db
+      .select()
+      .from(embeddingCache)
+      .where(inArray(embeddingCache.cacheKey, cacheKeys));
+  }
+
+  // Concurrent callers may embed the same text; the first stored vector wins
+  async saveEmbeddings(entries: InsertEmbeddingCacheEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db
+      .insert(embeddingCache)
+      .values(entries)
+      .onConflictDoNothing({ target: embeddingCache.cacheKey });
+  }
+
+  async getEmbeddingCacheStats(): Promise<Array<{ provider: string; model: string; dimensions: number; entries: number }>> {
+    const rows = await db
+      .select({
+        provider: embeddingCache.provider,
+        model: embeddingCache.model,
+        dimensions: embeddingCache.dimensions,
+        entries: sql<number>`count(*)`,
+      })
+      .from(embeddingCache)
+      .groupBy(embeddingCache.provider, embeddingCache.model, embeddingCache.dimensions);
+
+    return rows.map(row => ({ ...row, entries: Number(row.entries) || 0 }));
+  }
+
+  async clearEmbeddingCache(model?: string): Promise<void> {
+    if (model) {
+      await db.delete(embeddingCache).where(eq(embeddingCache.model, model));
+    } else {
+      await db.delete(embeddingCache);
+    }
+  }
+
+  // Model Pricing operations
+  async getModelPricing(provider?: string): Promise<ModelPricing[]> {
+    return await db
+      .select()
+      .from(modelPricing)
+      .where(provider ? eq(modelPricing.provider, provider) : undefined)
+      .orderBy(modelPricing.provider, modelPricing.model, desc(modelPricing.effectiveFrom));
+  }
+
+  async createModelPricing(pricing: InsertModelPricing): Promise<ModelPricing> {
+    const [created] = await db.insert(modelPricing).values(pricing).returning();
+    return created;
+  }
+
+  async updateModelPricing(id: string, updates: Partial<InsertModelPricing>): Promise<ModelPricing> {
+    const [updated] = await db
+      .update(modelPricing)
+      .set(updates)
+      .where(eq(modelPricing.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteModelPricing(id: string): Promise<void> {
+    await db.delete(modelPricing).where(eq(modelPricing.id, id));
+  }
+
+  // Provider metrics time series operations
+  async createProviderMetricSnapshots(snapshots: InsertProviderMetricSnapshot[]): Promise<void> {
+    if (snapshots.length === 0) return;
+    await db.insert(providerMetricSnapshots).values(snapshots);
+  }
+
+  async getProviderMetricSnapshots(options: { provider?: string; since: Date }): Promise<ProviderMetricSnapshot[]> {
+    return await db
+      .select()
+      .from(providerMetricSnapshots)
+      .where(
+        and(
+          sql`${providerMetricSnapshots.windowEnd} >= ${options.since}`,
+          options.provider ? eq(providerMetricSnapshots.provider, options.provider) : undefined
+        )
+      )
+      .orderBy(providerMetricSnapshots.windowEnd);
+  }
+
+  async getProviderMetricTotals(): Promise<Array<{
+    provider: string;
+    requests: number;
+    failures: number;
+    tokensUsed: number;
+    cost: number;
+    latencyTotal: number;
+  }>> {
+    const rows = await db
+      .select({
+        provider: providerMetricSnapshots.provider,
+        requests: sql<number>`coalesce(sum(${providerMetricSnapshots.requests}), 0)`,
+        failures: sql<number>`coalesce(sum(${providerMetricSnapshots.failures}), 0)`,
+        tokensUsed: sql<number>`coalesce(sum(${providerMetricSnapshots.tokensUsed}), 0)`,
+        cost: sql<number>`coalesce(sum(${providerMetricSnapshots.cost}), 0)`,
+        latencyTotal: sql<number>`coalesce(sum(${providerMetricSnapshots.latencyAvg} * (${providerMetricSnapshots.requests} - ${providerMetricSnapshots.failures})), 0)`,
+      })
+      .from(providerMetricSnapshots)
+      .groupBy(providerMetricSnapshots.provider);
+
+    return rows.map(row => ({
+      provider: row.provider,
+      requests: Number(row.requests) || 0,
+      failures: Number(row.failures) || 0,
+      tokensUsed: Number(row.tokensUsed) || 0,
+      cost: Number(row.cost) || 0,
+      latencyTotal: Number(row.latencyTotal) || 0,
+    }));
+  }
+
+  async deleteProviderMetricSnapshots(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(providerMetricSnapshots)
+      .where(sql`${providerMetricSnapshots.windowEnd} < ${before}`)
+      .returning({ id: providerMetricSnapshots.id });
+    return deleted.length;
+  }
+
+  // Prompt Library operations
+  async getPromptTemplates(name?: string): Promise<PromptTemplate[]> {
+    return await db
+      .select()
+      .from(promptTemplates)
+      .where(name ? eq(promptTemplates.name, name) : undefined)
+      .orderBy(promptTemplates.name, desc(promptTemplates.createdAt));
+  }
+
+  async getPromptTemplate(id: string): Promise<PromptTemplate | undefined> {
+    const [template] = await db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return template;
+  }
+
+  async createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate> {
+    const [created] = await db.insert(promptTemplates).values(template).returning();
+    return created;
+  }
+
+  async updatePromptTemplate(id: string, updates: Partial<InsertPromptTemplate>): Promise<PromptTemplate> {
+    const [updated] = await db
+      .update(promptTemplates)
+      .set(updates)
+      .where(eq(promptTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deletePromptTemplate(id: string): Promise<void> {
+    await db.delete(promptTemplates).where(eq(promptTemplates.id, id));
+  }
+
+  // Outcomes grouped by the version of a prompt that produced them: plan confidence from
+  // the observers, and success, cost and duration of the executions that followed
+  async getPromptVersionStats(name: string) {
+    const planVersion = sql<string>`${executionPlans.promptVersions}->${name}->>'version'`;
+    const planProvider = sql<string | null>`${executionPlans.promptVersions}->${name}->>'provider'`;
+    const plans = await db
+      .select({
+        version: planVersion,
+        provider: planProvider,
+        plans: sql<number>`COUNT(*)`,
+        avgConfidence: sql<number | null>`AVG((${executionPlans.observerFeedback}->>'confidence')::numeric)`,
+        avgIterations: sql<number | null>`AVG((${executionPlans.observerFeedback}->>'iterations')::numeric)`,
+      })
+      .from(executionPlans)
+      .where(sql`${executionPlans.promptVersions} ? ${name}`)
+      .groupBy(planVersion, planProvider);
+
+    const executionVersion = sql<string>`${agentExecutions.metadata}->'promptVersions'->${name}->>'version'`;
+    const executions = await db
+      .select({
+        version: executionVersion,
+        executions: sql<number>`COUNT(*)`,
+        completed: sql<number>`COUNT(*) FILTER (WHERE ${agentExecutions.status} = 'completed')`,
+        avgCost: sql<number | null>`AVG(${agentExecutions.cost})`,
+        avgDuration: sql<number | null>`AVG(${agentExecutions.duration})`,
+      })
+      .from(agentExecutions)
+      .where(sql`${agentExecutions.metadata}->'promptVersions' ? ${name}`)
+      .groupBy(executionVersion);
+
+    const toNumber = (value: unknown) => value === null || value === undefined ? null : Number(value);
+    return {
+      plans: plans.map(row => ({
+        version: row.version,
+        provider: row.provider,
+        plans: Number(row.plans),
+        avgConfidence: toNumber(row.avgConfidence),
+        avgIterations: toNumber(row.avgIterations),
+      })),
+      executions: executions.map(row => ({
+        version: row.version,
+        executions: Number(row.executions),
+        completed: Number(row.completed),
+        avgCost: toNumber(row.avgCost),
+        avgDuration: toNumber(row.avgDuration),
+      })),
+    };
+  }
+
   // Error Instance operations
   async createErrorInstance(error: InsertErrorInstance): Promise<ErrorInstance> {
     const [newError] = await db.insert(errorInstances).values(error).returning();
@@ -1037,6 +1541,113 @@ export class DatabaseStorage implements IStorage {
     await db.delete(timelineSnapshots).where(eq(timelineSnapshots.id, id));
   }
 
+  // Agent conversation operations
+  async getAgentMessages(agentId: string): Promise<AgentMessage[]> {
+    return await db
+      .select()
+      .from(agentMessages)
+      .where(eq(agentMessages.agentId, agentId))
+      .orderBy(agentMessages.sequence);
+  }
+
+  async getAgentMessage(id: string): Promise<AgentMessage | undefined> {
+    const [message] = await db.select().from(agentMessages).where(eq(agentMessages.id, id));
+    return message;
+  }
+
+  async appendAgentMessages(
+    agentId: string,
+    messages: Omit<InsertAgentMessage, 'agentId' | 'sequence'>[]
+  ): Promise<AgentMessage[]> {
+    if (messages.length === 0) return [];
+
+    const [result] = await db
+      .select({ lastSequence: sql<number>`COALESCE(MAX(${agentMessages.sequence}), 0)` })
+      .from(agentMessages)
+      .where(eq(agentMessages.agentId, agentId));
+    const lastSequence = Number(result?.lastSequence) || 0;
+
+    return await db
+      .insert(agentMessages)
+      .values(messages.map((message, index) => ({ ...message, agentId, sequence: lastSequence + index + 1 })))
+      .returning();
+  }
+
+  async updateAgentMessage(id: string, updates: Partial<InsertAgentMessage>): Promise<AgentMessage> {
+    const [updatedMessage] = await db
+      .update(agentMessages)
+      .set(updates)
+      .where(eq(agentMessages.id, id))
+      .returning();
+    return updatedMessage;
+  }
+
+  async deleteAgentMessage(id: string): Promise<void> {
+    await db.delete(agentMessages).where(eq(agentMessages.id, id));
+  }
+
+  // Deletes the agent's messages outside the kept range; returns how many were removed
+  async deleteAgentMessages(
+    agentId: string,
+    range: { beforeSequence?: number; afterSequence?: number }
+  ): Promise<number> {
+    const deleted = await db
+      .delete(agentMessages)
+      .where(and(
+        eq(agentMessages.agentId, agentId),
+        range.beforeSequence !== undefined ? sql`${agentMessages.sequence} < ${range.beforeSequence}` : undefined,
+        range.afterSequence !== undefined ? sql`${agentMessages.sequence} > ${range.afterSequence}` : undefined
+      ))
+      .returning({ id: agentMessages.id });
+    return deleted.length;
+  }
+
+  // LLM call trace operations
+  async createLlmCall(call: InsertLlmCall): Promise<LlmCall> {
+    const [created] = await db.insert(llmCalls).values(call).returning();
+    return created;
+  }
+
+  async getLlmCall(id: string): Promise<LlmCall | undefined> {
+    const [call] = await db.select().from(llmCalls).where(eq(llmCalls.id, id));
+    return call;
+  }
+
+  async getLlmCalls(filter: { taskId?: string; agentId?: string; executionId?: string; limit?: number }): Promise<LlmCall[]> {
+    return await db
+      .select()
+      .from(llmCalls)
+      .where(and(
+        filter.taskId ? eq(llmCalls.taskId, filter.taskId) : undefined,
+        filter.agentId ? eq(llmCalls.agentId, filter.agentId) : undefined,
+        filter.executionId ? eq(llmCalls.executionId, filter.executionId) : undefined
+      ))
+      .orderBy(desc(llmCalls.createdAt))
+      .limit(filter.limit || 100);
+  }
+
+  // Claims the agent's unlinked calls made since the execution started
+  async linkLlmCallsToExecution(agentId: string, since: Date, executionId: string): Promise<number> {
+    const linked = await db
+      .update(llmCalls)
+      .set({ executionId })
+      .where(and(
+        eq(llmCalls.agentId, agentId),
+        sql`${llmCalls.executionId} IS NULL`,
+        sql`${llmCalls.createdAt} >= ${since}`
+      ))
+      .returning({ id: llmCalls.id });
+    return linked.length;
+  }
+
+  async deleteLlmCalls(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(llmCalls)
+      .where(sql`${llmCalls.createdAt} < ${before}`)
+      .returning({ id: llmCalls.id });
+    return deleted.length;
+  }
+
   // Enhanced log operations
   async getLogsByTask(taskId: string): Promise<SystemLog[]> {
     return await db
@@ -9,7 +9,8 @@ import {
   integer,
   decimal,
   boolean,
-  index
+  index,
+  uniqueIndex
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -89,10 +90,82 @@ export const executionPlans = pgTable("execution_plans", {
   version: integer("version").default(1),
   observerFeedback: jsonb("observer_feedback"),
   refinementCount: integer("refinement_count").default(0),
+  promptVersions: jsonb("prompt_versions"), // prompt library versions that produced the plan, keyed by prompt name
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Execution state of each step of a plan, so the step DAG can show which branches are
+// blocked on dependencies, running or done
+export const planStepStates = pgTable("plan_step_states", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: uuid("plan_id").references(() => executionPlans.id, { onDelete: "cascade" }).notNull(),
+  taskId: uuid("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  stepId: varchar("step_id", { length: 100 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("blocked"), // blocked, ready, running, completed, failed, skipped, cancelled
+  agentId: uuid("agent_id").references(() => agents.id, { onDelete: "set null" }),
+  assignment: jsonb("assignment"), // how the agent was chosen: strategy, score, rationale and runner-up candidates
+  executionId: uuid("execution_id").references(() => agentExecutions.id, { onDelete: "set null" }),
+  output: text("output"), // step response handed to dependent steps, kept so a resumed run can reuse it
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_plan_step_states_step").on(table.planId, table.stepId),
+  index("idx_plan_step_states_task").on(table.taskId),
+]);
+
+// Task checkpoints - the stage an execution reached, so an interrupted run can resume there
+export const taskCheckpoints = pgTable("task_checkpoints", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: uuid("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull().unique(),
+  stage: varchar("stage", { length: 20 }).notNull(), // drafting, executing, completing
+  planId: uuid("plan_id").references(() => executionPlans.id, { onDelete: "set null" }), // plan being executed
+  resumeCount: integer("resume_count").notNull().default(0),
+  lastResumedAt: timestamp("last_resumed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Task deliverables - the final result synthesized from the step outputs; observer-driven
+// revisions are stored as new versions
+export const taskDeliverables = pgTable("task_deliverables", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: uuid("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  planId: uuid("plan_id").references(() => executionPlans.id, { onDelete: "set null" }),
+  version: integer("version").notNull().default(1),
+  content: text("content").notNull(), // markdown
+  sourceSteps: jsonb("source_steps"), // [{ stepId, description, executionId }] the deliverable was built from
+  refinement: jsonb("refinement"), // observer feedback and suggestions a revision addresses
+  provider: varchar("provider", { length: 50 }),
+  tokensUsed: integer("tokens_used").default(0),
+  cost: decimal("cost", { precision: 10, scale: 6 }).default("0"),
+  promptVersion: jsonb("prompt_version"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_task_deliverables_task").on(table.taskId, table.version),
+]);
+
+// Task approvals - human sign-off a task's approval policy requires before the plan is
+// executed, before particular steps or before costly ones; the run waits on the decision
+export const taskApprovals = pgTable("task_approvals", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: uuid("task_id").references(() => tasks.id, { onDelete: "cascade" }).notNull(),
+  planId: uuid("plan_id").references(() => executionPlans.id, { onDelete: "set null" }),
+  gate: varchar("gate", { length: 20 }).notNull(), // plan, step, cost
+  stepId: varchar("step_id", { length: 100 }), // step and cost gates
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, approved, rejected, modified
+  proposal: jsonb("proposal").notNull(), // what the reviewer is asked to sign off: team and plan, or the step and its estimated cost
+  reason: text("reason"), // reviewer's feedback; a rejection's reason drives re-planning
+  edits: jsonb("edits"), // changes made with a modify decision
+  decidedBy: varchar("decided_by", { length: 255 }),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_task_approvals_task").on(table.taskId, table.status),
+]);
+
 // System logs - comprehensive activity logging
 export const systemLogs = pgTable("system_logs", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -146,6 +219,7 @@ export const agentsRelations = relations(agents, ({ one, many }) => ({
     relationName: "toAgent",
   }),
   logs: many(systemLogs),
+  messages: many(agentMessages),
 }));
 
 export const agentExecutionsRelations = relations(agentExecutions, ({ one }) => ({
@@ -251,12 +325,6 @@ export type AgentWithExecutions = Agent & {
   collaborationsTo: AgentCollaboration[];
 };
 
-export type RealtimeUpdate = {
-  type: 'task_update' | 'agent_update' | 'execution_update' | 'log_update';
-  data: any;
-  timestamp: string;
-};
-
 // Task creation request type
 export type TaskCreationRequest = {
   title: string;
@@ -387,10 +455,108 @@ export const costEntries = pgTable("cost_entries", {
   cost: decimal("cost", { precision: 10, scale: 6 }).notNull(),
   currency: varchar("currency", { length: 3 }).default("USD"),
   ratePerToken: decimal("rate_per_token", { precision: 12, scale: 8 }),
+  cached: boolean("cached").default(false), // served from the LLM response cache
+  savedCost: decimal("saved_cost", { precision: 10, scale: 6 }), // original cost avoided by a cache hit
   metadata: jsonb("metadata"),
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Cached LLM responses keyed on provider, model, request and sampling params
+export const llmResponseCache = pgTable("llm_response_cache", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  cacheKey: varchar("cache_key", { length: 64 }).notNull().unique(), // sha256 of the normalized request
+  provider: varchar("provider", { length: 50 }).notNull(),
+  model: varchar("model", { length: 100 }),
+  operation: varchar("operation", { length: 50 }).notNull(), // chat, agent_action, agent_team, critique
+  response: jsonb("response").notNull(),
+  tokensUsed: integer("tokens_used").default(0),
+  cost: decimal("cost", { precision: 10, scale: 6 }).default("0"), // cost of the original call, saved on every hit
+  hitCount: integer("hit_count").default(0),
+  lastHitAt: timestamp("last_hit_at"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_llm_cache_expires").on(table.expiresAt),
+]);
+
+// Cached text embeddings keyed on provider, model and text. Vectors from different models
+// are not comparable, so every entry records the model and its dimensions.
+export const embeddingCache = pgTable("embedding_cache", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  cacheKey: varchar("cache_key", { length: 64 }).notNull().unique(), // sha256 of provider, model and text
+  provider: varchar("provider", { length: 50 }).notNull(), // gemini, ollama, local
+  model: varchar("model", { length: 100 }).notNull(),
+  dimensions: integer("dimensions").notNull(),
+  vector: jsonb("vector").notNull(), // number[]
+  tokensUsed: integer("tokens_used").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_embedding_cache_model").on(table.model),
+]);
+
+// Prompt library. Each row is one immutable version of a named prompt; provider limits it
+// to one provider (null applies to all), and active versions of the same prompt share
+// traffic in proportion to their weight for A/B comparison.
+export const promptTemplates = pgTable("prompt_templates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(), // planner, observer
+  version: varchar("version", { length: 50 }).notNull(),
+  provider: varchar("provider", { length: 50 }),
+  systemPrompt: text("system_prompt").notNull(),
+  userPrompt: text("user_prompt").notNull(), // {{variable}} placeholders
+  variables: jsonb("variables").notNull(), // names the template expects
+  weight: integer("weight").notNull().default(100),
+  isActive: boolean("is_active").notNull().default(true),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_prompt_templates_name").on(table.name, table.provider),
+]);
+
+// Per-model token pricing. The rate in effect at a point in time is the entry with the
+// latest effectiveFrom at or before it; model "*" is the provider-wide fallback.
+export const modelPricing = pgTable("model_pricing", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider", { length: 50 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  inputCostPer1M: decimal("input_cost_per_1m", { precision: 12, scale: 6 }).notNull(), // USD per 1M input tokens
+  outputCostPer1M: decimal("output_cost_per_1m", { precision: 12, scale: 6 }).notNull(), // USD per 1M output tokens
+  currency: varchar("currency", { length: 3 }).default("USD"),
+  qualityTier: varchar("quality_tier", { length: 20 }).notNull().default("standard"), // premium, standard, economy
+  effectiveFrom: timestamp("effective_from").notNull().defaultNow(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_model_pricing_lookup").on(table.provider, table.model, table.effectiveFrom),
+]);
+
+// Provider reliability time series. Each row covers one provider over one snapshot window
+// and counts both organic traffic and background health probes.
+export const providerMetricSnapshots = pgTable("provider_metric_snapshots", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider", { length: 50 }).notNull(),
+  windowStart: timestamp("window_start").notNull(),
+  windowEnd: timestamp("window_end").notNull(),
+  requests: integer("requests").notNull().default(0), // organic traffic
+  failures: integer("failures").notNull().default(0),
+  probes: integer("probes").notNull().default(0),
+  probeFailures: integer("probe_failures").notNull().default(0),
+  errorRate: decimal("error_rate", { precision: 5, scale: 4 }).default("0"), // 0-1, over requests and probes
+  latencyAvg: integer("latency_avg"), // ms, successful requests only
+  latencyP50: integer("latency_p50"),
+  latencyP95: integer("latency_p95"),
+  latencyP99: integer("latency_p99"),
+  probeLatency: integer("probe_latency"), // ms, average of successful probes
+  tokensUsed: integer("tokens_used").default(0),
+  cost: decimal("cost", { precision: 10, scale: 6 }).default("0"),
+  healthy: boolean("healthy").notNull(),
+  circuitState: varchar("circuit_state", { length: 20 }), // closed, open, half_open at window end
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_provider_metric_snapshots").on(table.provider, table.windowEnd),
+]);
+
 // Error tracking and recovery
 export const errorInstances = pgTable("error_instances", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -483,6 +649,51 @@ export const executionEvents = pgTable("execution_events", {
   index("idx_events_category_timestamp").on(table.eventCategory, table.timestamp),
 ]);
 
+// Per-agent conversation transcript, replayed as chat history on each agent action
+export const agentMessages = pgTable("agent_messages", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  agentId: uuid("agent_id").references(() => agents.id, { onDelete: "cascade" }).notNull(),
+  taskId: uuid("task_id").references(() => tasks.id, { onDelete: "cascade" }),
+  executionId: uuid("execution_id").references(() => agentExecutions.id, { onDelete: "set null" }),
+  role: varchar("role", { length: 20 }).notNull(), // user, assistant
+  content: text("content").notNull(),
+  sequence: integer("sequence").notNull(), // order within the agent's transcript
+  editedAt: timestamp("edited_at"), // set when an operator changes the content
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_agent_messages_agent_sequence").on(table.agentId, table.sequence),
+]);
+
+// Full trace of each provider call: the messages sent, the response and the parameters,
+// redacted before storage. Calls made for an agent action are linked to its execution
+// once the execution is recorded.
+export const llmCalls = pgTable("llm_calls", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider", { length: 50 }).notNull(),
+  model: varchar("model", { length: 100 }),
+  operation: varchar("operation", { length: 30 }).notNull(), // completion, stream, tools
+  taskId: uuid("task_id").references(() => tasks.id, { onDelete: "cascade" }),
+  agentId: uuid("agent_id").references(() => agents.id, { onDelete: "cascade" }),
+  executionId: uuid("execution_id").references(() => agentExecutions.id, { onDelete: "set null" }),
+  messages: jsonb("messages").notNull(),
+  response: text("response"),
+  toolCalls: jsonb("tool_calls"),
+  parameters: jsonb("parameters"), // temperature, maxTokens, jsonMode, tool names
+  status: varchar("status", { length: 20 }).notNull(), // success, error, cancelled
+  error: text("error"),
+  tokensInput: integer("tokens_input").default(0),
+  tokensOutput: integer("tokens_output").default(0),
+  tokensUsed: integer("tokens_used").default(0),
+  cost: decimal("cost", { precision: 10, scale: 6 }).default("0"),
+  latencyMs: integer("latency_ms"),
+  redactions: integer("redactions").default(0), // values replaced by the redaction rules
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_llm_calls_agent").on(table.agentId, table.createdAt),
+  index("idx_llm_calls_task").on(table.taskId, table.createdAt),
+  index("idx_llm_calls_created").on(table.createdAt),
+]);
+
 // Timeline snapshots for quick access to execution states
 export const timelineSnapshots = pgTable("timeline_snapshots", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -601,6 +812,17 @@ export const executionEventsRelations = relations(executionEvents, ({ one, many
   snapshots: many(timelineSnapshots),
 }));
 
+export const agentMessagesRelations = relations(agentMessages, ({ one }) => ({
+  agent: one(agents, {
+    fields: [agentMessages.agentId],
+    references: [agents.id],
+  }),
+  execution: one(agentExecutions, {
+    fields: [agentMessages.executionId],
+    references: [agentExecutions.id],
+  }),
+}));
+
 export const timelineSnapshotsRelations = relations(timelineSnapshots, ({ one }) => ({
   task: one(tasks, {
     fields: [timelineSnapshots.taskId],
@@ -642,6 +864,31 @@ export const insertCostEntrySchema = createInsertSchema(costEntries).omit({
   timestamp: true,
 });
 
+export const insertLlmResponseCacheSchema = createInsertSchema(llmResponseCache).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEmbeddingCacheSchema = createInsertSchema(embeddingCache).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProviderMetricSnapshotSchema = createInsertSchema(providerMetricSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertModelPricingSchema = createInsertSchema(modelPricing).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertErrorInstanceSchema = createInsertSchema(errorInstances).omit({
   id: true,
   occurredAt: true,
@@ -658,6 +905,37 @@ export const insertExecutionEventSchema = createInsertSchema(executionEvents).om
   timestamp: true,
 });
 
+export const insertAgentMessageSchema = createInsertSchema(agentMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLlmCallSchema = createInsertSchema(llmCalls).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPlanStepStateSchema = createInsertSchema(planStepStates).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertTaskDeliverableSchema = createInsertSchema(taskDeliverables).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTaskApprovalSchema = createInsertSchema(taskApprovals).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTaskCheckpointSchema = createInsertSchema(taskCheckpoints).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Add new types
 export type TaskQueue = typeof taskQueues.$inferSelect;
 export type InsertTaskQueue = z.infer<typeof insertTaskQueueSchema>;
@@ -669,6 +947,16 @@ export type Budget = typeof budgets.$inferSelect;
 export type InsertBudget = z.infer<typeof insertBudgetSchema>;
 export type CostEntry = typeof costEntries.$inferSelect;
 export type InsertCostEntry = z.infer<typeof insertCostEntrySchema>;
+export type LlmResponseCacheEntry = typeof llmResponseCache.$inferSelect;
+export type InsertLlmResponseCacheEntry = z.infer<typeof insertLlmResponseCacheSchema>;
+export type EmbeddingCacheEntry = typeof embeddingCache.$inferSelect;
+export type InsertEmbeddingCacheEntry = z.infer<typeof insertEmbeddingCacheSchema>;
+export type ModelPricing = typeof modelPricing.$inferSelect;
+export type InsertModelPricing = z.infer<typeof insertModelPricingSchema>;
+export type ProviderMetricSnapshot = typeof providerMetricSnapshots.$inferSelect;
+export type InsertProviderMetricSnapshot = z.infer<typeof insertProviderMetricSnapshotSchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
 export type ErrorInstance = typeof errorInstances.$inferSelect;
 export type InsertErrorInstance = z.infer<typeof insertErrorInstanceSchema>;
 export type RecoveryStrategy = typeof recoveryStrategies.$inferSelect;
@@ -678,6 +966,18 @@ export type TemplateUsage = typeof templateUsage.$inferSelect;
 export type ExecutionEvent = typeof executionEvents.$inferSelect;
 export type InsertExecutionEvent = z.infer<typeof insertExecutionEventSchema>;
 export type TimelineSnapshot = typeof timelineSnapshots.$inferSelect;
+export type AgentMessage = typeof agentMessages.$inferSelect;
+export type InsertAgentMessage = z.infer<typeof insertAgentMessageSchema>;
+export type LlmCall = typeof llmCalls.$inferSelect;
+export type InsertLlmCall = z.infer<typeof insertLlmCallSchema>;
+export type PlanStepState = typeof planStepStates.$inferSelect;
+export type InsertPlanStepState = z.infer<typeof insertPlanStepStateSchema>;
+export type TaskDeliverable = typeof taskDeliverables.$inferSelect;
+export type InsertTaskDeliverable = z.infer<typeof insertTaskDeliverableSchema>;
+export type TaskApproval = typeof taskApprovals.$inferSelect;
+export type InsertTaskApproval = z.infer<typeof insertTaskApprovalSchema>;
+export type TaskCheckpoint = typeof taskCheckpoints.$inferSelect;
+export type InsertTaskCheckpoint = z.infer<typeof insertTaskCheckpointSchema>;
 
 // Extended types for API responses
 export type TaskQueueWithEntries = TaskQueue & {
@@ -708,7 +1008,7 @@ export type TaskWithTimeline = TaskWithAgents & {
 
 // New realtime update types
 export type RealtimeUpdate = {
-  type: 'task_update' | 'agent_update' | 'execution_update' | 'log_update' | 'queue_update' | 'budget_update' | 'error_update' | 'timeline_update';
+  type: 'task_update' | 'agent_update' | 'execution_update' | 'log_update' | 'queue_update' | 'budget_update' | 'error_update' | 'timeline_update' | 'stream_update' | 'provider_update' | 'approval_update';
   data: any;
   timestamp: string;
 };